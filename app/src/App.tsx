@@ -15,6 +15,8 @@ import DressingGuide from './components/DressingGuide';
 import AnalgesiaTips from './components/AnalgesiaTips';
 import NotePreview from './components/NotePreview';
 import ClinicalScenarios from './components/ClinicalScenarios';
+import CaseRegistry from './components/CaseRegistry';
+import ImportAssessmentDialog from './components/ImportAssessmentDialog';
 import { GuidedTour } from './components/ui/GuidedTour';
 import { TourErrorBoundary } from './components/ui/TourErrorBoundary';
 import { KeyboardShortcutsModal } from './components/ui/KeyboardShortcutsModal';
@@ -23,7 +25,8 @@ import { LiveAnnouncerProvider } from './components/ui/LiveAnnouncer';
 import { SkipLinks } from './components/ui/SkipLinks';
 import { useKeyboardShortcuts, SHORTCUTS } from './hooks/useKeyboardShortcuts';
 import { useAutoSave } from './hooks/useAutoSave';
-import { exportAssessment } from './utils/dataExport';
+import { exportAssessment, type ExportFormat } from './utils/dataExport';
+import { DEFAULT_DEIDENTIFICATION, formatDeidentificationReport } from './domain/deidentify';
 import { cn } from './lib/utils';
 
 const queryClient = new QueryClient({
@@ -40,6 +43,7 @@ function App() {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [showTour, setShowTour] = useState(false);
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const store = useWizardStore();
   const { settings, markGuidedTourSeen } = store;
 
@@ -111,10 +115,10 @@ function App() {
     setShowTour(false);
   };
 
-  const handleExportAssessment = (format: 'json' | 'csv' | 'txt' = 'json') => {
+  const handleExportAssessment = (format: ExportFormat = 'json') => {
     try {
-      exportAssessment(store, format, 'assessment-only');
-      console.log(`📄 Assessment exported as ${format.toUpperCase()}`);
+      const report = exportAssessment(store, format, 'assessment-only', store.settings.deidentification ?? DEFAULT_DEIDENTIFICATION);
+      console.log(`📄 Assessment exported as ${format.toUpperCase()}${report ? ` (${formatDeidentificationReport(report)})` : ''}`);
     } catch (error) {
       console.error('Export failed:', error);
     }
@@ -217,7 +221,7 @@ function App() {
         return (
           <div className="space-y-6">
             <h2 className="text-2xl font-bold">Patient History</h2>
-            <p className="text-muted-foreground">Previous assessments and patient records will be displayed here.</p>
+            <CaseRegistry onOpenCase={() => setCurrentTab('tbsa')} />
           </div>
         );
       case 'settings':
@@ -263,6 +267,7 @@ function App() {
             saveInfo={saveInfo}
             onManualSave={manualSave}
             onExportAssessment={handleExportAssessment}
+            onImportAssessment={() => setShowImport(true)}
           />
 
           {/* Main Content */}
@@ -306,6 +311,12 @@ function App() {
           onClose={() => setShowKeyboardHelp(false)}
         />
 
+        {/* Import Assessment Dialog */}
+        <ImportAssessmentDialog
+          isOpen={showImport}
+          onOpenChange={setShowImport}
+        />
+
       </div>
       </LiveAnnouncerProvider>
     </QueryClientProvider>
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Wind } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { EMPTY_AIRWAY_ASSESSMENT, assessAirway } from '@/domain/airway';
+import { deriveSpecialSites } from '@/domain/subRegions';
+import { cn } from '@/lib/utils';
+import type { AirwayAssessment } from '@/domain/types';
+
+const FINDINGS: { key: Exclude<keyof AirwayAssessment, 'carboxyhemoglobinPct'>; label: string }[] = [
+  { key: 'enclosedSpace', label: 'Enclosed-space exposure' },
+  { key: 'singedNasalHair', label: 'Singed nasal hair' },
+  { key: 'carbonaceousSputum', label: 'Carbonaceous sputum' },
+  { key: 'hoarseness', label: 'Hoarse voice' },
+  { key: 'stridor', label: 'Stridor' },
+  { key: 'cyanideSuspected', label: 'Suspected cyanide toxicity' },
+];
+
+const RISK_STYLES = {
+  low: 'bg-muted/30 border-border',
+  moderate: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800',
+  high: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+};
+
+/**
+ * Records inhalation injury findings and shows the airway risk and recommendations
+ */
+export default function AirwayAssessmentPanel() {
+  const { patientData, regionSelections, setPatientData } = useWizardStore();
+  const airway = patientData.airway ?? EMPTY_AIRWAY_ASSESSMENT;
+
+  const result = React.useMemo(() => {
+    try {
+      const facialBurns = deriveSpecialSites(regionSelections, patientData.specialSites).face;
+      return assessAirway(airway, { facialBurns });
+    } catch {
+      return null;
+    }
+  }, [airway, regionSelections, patientData.specialSites]);
+
+  const updateAirway = (changes: Partial<AirwayAssessment>) => {
+    setPatientData({ airway: { ...airway, ...changes } });
+  };
+
+  return (
+    <Card className="burn-wizard-card animate-fade-in-up">
+      <CardHeader>
+        <CardTitle className="burn-wizard-heading-sm flex items-center gap-2">
+          <Wind className="h-4 w-4" />
+          Airway &amp; Inhalation Injury
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {FINDINGS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={airway[key]}
+                onChange={(e) => updateAirway({ [key]: e.target.checked })}
+                className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="carboxyhemoglobin">Carboxyhemoglobin (%)</Label>
+          <Input
+            id="carboxyhemoglobin"
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={airway.carboxyhemoglobinPct ?? ''}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              updateAirway({ carboxyhemoglobinPct: Number.isFinite(value) ? value : undefined });
+            }}
+            placeholder="Not measured"
+          />
+        </div>
+
+        {result && (
+          <div className={cn('p-3 rounded-md border text-sm space-y-2', RISK_STYLES[result.risk])} role="status">
+            <div className="font-medium">
+              Inhalation risk: <span className="capitalize">{result.risk}</span> (score {result.score})
+            </div>
+            {result.recommendations.length > 0 && (
+              <ul className="space-y-1">
+                {result.recommendations.map(recommendation => (
+                  <li key={recommendation}>• {recommendation}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
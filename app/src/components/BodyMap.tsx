@@ -37,7 +37,10 @@ import InteractiveSVGBodyMap from './InteractiveSVGBodyMap';
 import { CircularProgress } from '@/components/ui/circular-progress';
 import { useTbsaAnnouncer } from '@/components/ui/LiveAnnouncer';
 import { cn } from '@/lib/utils';
-import type { RegionKey, BurnFraction, BurnDepth } from '@/domain/types';
+import { nextQuarterFraction, toDisplayFraction } from '@/domain/regionSelections';
+import PreciseRegionEditor from '@/components/PreciseRegionEditor';
+import DepthZoneEditor from '@/components/DepthZoneEditor';
+import type { RegionKey, BurnDepth } from '@/domain/types';
 
 const BODY_REGIONS: Array<{ key: RegionKey; label: string }> = [
   { key: 'Head', label: 'Head' },
@@ -61,10 +64,8 @@ const BODY_REGIONS: Array<{ key: RegionKey; label: string }> = [
   { key: 'L_Foot', label: 'L Foot' },
 ];
 
-const FRACTION_OPTIONS: BurnFraction[] = [0, 0.25, 0.5, 0.75, 1];
-
 export default function BodyMap() {
-  const { regionSelections, patientData, setRegionSelection } = useWizardStore();
+  const { regionSelections, patientData, settings, setRegionSelection } = useWizardStore();
   const [selectedDepth, setSelectedDepth] = React.useState<BurnDepth>('superficial-partial');
   const [viewMode, setViewMode] = React.useState<'svg' | 'grid'>('svg');
   const { announceTbsaChange } = useTbsaAnnouncer();
@@ -78,13 +79,14 @@ export default function BodyMap() {
     }
   }, [patientData.ageMonths, regionSelections]);
 
-  const getRegionFraction = (regionKey: RegionKey): BurnFraction => {
+  const getRegionFraction = (regionKey: RegionKey): number => {
     const selection = regionSelections.find(s => s.region === regionKey);
     return selection?.fraction || 0;
   };
 
-  const getButtonColor = (fraction: BurnFraction): string => {
-    switch (fraction) {
+  const getButtonColor = (fraction: number): string => {
+    // Precise entries are shaded at the next quarter step
+    switch (toDisplayFraction(fraction)) {
       case 0: return 'bg-muted text-muted-foreground border-border hover:bg-muted/80';
       case 0.25: return 'bg-amber-100 text-amber-800 border-amber-300 hover:bg-amber-200 dark:bg-amber-900/30 dark:text-amber-200 dark:border-amber-700';
       case 0.5: return 'bg-orange-200 text-orange-800 border-orange-400 hover:bg-orange-300 dark:bg-orange-900/40 dark:text-orange-200 dark:border-orange-600';
@@ -95,10 +97,7 @@ export default function BodyMap() {
   };
 
   const handleRegionClick = (regionKey: RegionKey) => {
-    const currentFraction = getRegionFraction(regionKey);
-    const currentIndex = FRACTION_OPTIONS.indexOf(currentFraction);
-    const nextIndex = (currentIndex + 1) % FRACTION_OPTIONS.length;
-    const nextFraction = FRACTION_OPTIONS[nextIndex];
+    const nextFraction = nextQuarterFraction(getRegionFraction(regionKey));
     
     setRegionSelection(regionKey, nextFraction, nextFraction > 0 ? selectedDepth : undefined);
     
@@ -369,6 +368,10 @@ export default function BodyMap() {
                             <span className="text-lg font-bold text-primary">{Math.round(selection.fraction * 100)}%</span>
                           </div>
                         </div>
+                        {settings.preciseRegionEntry && (
+                          <PreciseRegionEditor selection={selection} label={region?.label ?? selection.region} />
+                        )}
+                        <DepthZoneEditor selection={selection} label={region?.label ?? selection.region} />
                       </div>
                     );
                   })}
@@ -3,50 +3,59 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
 import { useWizardStore } from '@/store/useWizardStore';
 import { getBurnDepthInfo } from '@/constants/burnDepth';
+import { calculateTBSA } from '@/domain/tbsa';
+import { getSelectionZones } from '@/domain/regionSelections';
 import type { BurnDepth } from '@/domain/types';
 
 interface DepthData {
   depth: BurnDepth;
   count: number;
-  percentage: number;
+  tbsaPct: number;
   color: string;
   name: string;
 }
 
 export function BurnDepthChart() {
-  const { regionSelections } = useWizardStore();
+  const { regionSelections, patientData } = useWizardStore();
   
+  const depthBreakdown = React.useMemo(() => {
+    try {
+      return calculateTBSA(patientData.ageMonths, regionSelections).depthBreakdown ?? null;
+    } catch {
+      return null;
+    }
+  }, [patientData.ageMonths, regionSelections]);
+
   const depthData = React.useMemo(() => {
-    const depths: Record<BurnDepth, number> = {
+    const counts: Record<BurnDepth, number> = {
       'superficial': 0,
       'superficial-partial': 0, 
       'deep-partial': 0,
       'full-thickness': 0
     };
     
-    const totalSelections = regionSelections.filter(s => s.fraction > 0).length;
-    
+    // A mixed-depth region counts once under each of its depths
     regionSelections
       .filter(s => s.fraction > 0)
       .forEach(selection => {
-        if (selection.depth) {
-          depths[selection.depth]++;
-        }
+        getSelectionZones(selection).forEach(zone => {
+          counts[zone.depth]++;
+        });
       });
 
-    const data: DepthData[] = Object.entries(depths).map(([depth, count]) => {
+    const data: DepthData[] = Object.entries(counts).map(([depth, count]) => {
       const depthInfo = getBurnDepthInfo(depth as BurnDepth);
       return {
         depth: depth as BurnDepth,
         count,
-        percentage: totalSelections > 0 ? (count / totalSelections) * 100 : 0,
+        tbsaPct: depthBreakdown?.byDepth[depth as BurnDepth] ?? 0,
         color: depthInfo.color,
         name: depthInfo.name
       };
     }).filter(item => item.count > 0);
 
     return data;
-  }, [regionSelections]);
+  }, [regionSelections, depthBreakdown]);
 
   if (depthData.length === 0) {
     return (
@@ -66,7 +75,7 @@ export function BurnDepthChart() {
     );
   }
 
-  const maxCount = Math.max(...depthData.map(d => d.count));
+  const maxTbsa = Math.max(...depthData.map(d => d.tbsaPct), 0.1);
 
   return (
     <Card className="burn-wizard-card animate-fade-in-up">
@@ -93,10 +102,10 @@ export function BurnDepthChart() {
                 </div>
                 <div className="text-right">
                   <span className="burn-wizard-body-sm font-bold text-primary">
-                    {item.count} region{item.count !== 1 ? 's' : ''}
+                    {item.tbsaPct}% TBSA
                   </span>
                   <div className="burn-wizard-body-sm text-muted-foreground">
-                    {Math.round(item.percentage)}%
+                    {item.count} region{item.count !== 1 ? 's' : ''}
                   </div>
                 </div>
               </div>
@@ -107,7 +116,7 @@ export function BurnDepthChart() {
                   className="h-full rounded-full transition-all duration-1000 ease-out"
                   style={{ 
                     backgroundColor: item.color,
-                    width: `${(item.count / maxCount) * 100}%`,
+                    width: `${(item.tbsaPct / maxTbsa) * 100}%`,
                     boxShadow: `0 0 8px ${item.color}40`
                   }}
                 />
@@ -116,11 +125,23 @@ export function BurnDepthChart() {
           ))}
           
           {/* Summary */}
-          <div className="pt-4 border-t border-border animate-fade-in-up animate-stagger-3">
+          <div className="pt-4 border-t border-border space-y-1 animate-fade-in-up animate-stagger-3">
+            {depthBreakdown && (
+              <>
+                <div className="flex justify-between items-center">
+                  <span className="burn-wizard-body-sm font-medium">Partial thickness</span>
+                  <span className="burn-wizard-body font-bold text-primary">{depthBreakdown.partialThicknessPct}% TBSA</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="burn-wizard-body-sm font-medium">Full thickness</span>
+                  <span className="burn-wizard-body font-bold text-primary">{depthBreakdown.fullThicknessPct}% TBSA</span>
+                </div>
+              </>
+            )}
             <div className="flex justify-between items-center">
               <span className="burn-wizard-body-sm font-medium">Total Affected Regions</span>
               <span className="burn-wizard-body font-bold text-primary">
-                {depthData.reduce((sum, item) => sum + item.count, 0)}
+                {regionSelections.filter(s => s.fraction > 0).length}
               </span>
             </div>
           </div>
@@ -3,8 +3,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useWizardStore } from '@/store/useWizardStore';
 import { calculateTBSA } from '@/domain/tbsa';
-import { getBurnDepthInfo, getAllBurnDepths, requiresBurnCenter } from '@/constants/burnDepth';
-import type { RegionKey, BurnFraction, BurnDepth } from '@/domain/types';
+import { getBurnDepthInfo, getAllBurnDepths } from '@/constants/burnDepth';
+import { evaluateReferralCriteria } from '@/domain/referral';
+import { nextQuarterFraction } from '@/domain/regionSelections';
+import type { RegionKey, BurnDepth } from '@/domain/types';
 
 const BODY_REGIONS: Array<{ key: RegionKey; label: string }> = [
   { key: 'Head', label: 'Head' },
@@ -28,12 +30,10 @@ const BODY_REGIONS: Array<{ key: RegionKey; label: string }> = [
   { key: 'L_Foot', label: 'L Foot' },
 ];
 
-const FRACTION_OPTIONS: BurnFraction[] = [0, 0.25, 0.5, 0.75, 1];
-
 interface RegionCardProps {
   region: { key: RegionKey; label: string };
-  selection: { fraction: BurnFraction; depth?: BurnDepth } | null;
-  onSelectionChange: (fraction: BurnFraction, depth: BurnDepth) => void;
+  selection: { fraction: number; depth?: BurnDepth } | null;
+  onSelectionChange: (fraction: number, depth: BurnDepth) => void;
 }
 
 function RegionCard({ region, selection, onSelectionChange }: RegionCardProps) {
@@ -44,9 +44,7 @@ function RegionCard({ region, selection, onSelectionChange }: RegionCardProps) {
   const currentDepth = selection?.depth || 'superficial-partial';
 
   const handleFractionClick = () => {
-    const currentIndex = FRACTION_OPTIONS.indexOf(currentFraction);
-    const nextIndex = (currentIndex + 1) % FRACTION_OPTIONS.length;
-    const nextFraction = FRACTION_OPTIONS[nextIndex];
+    const nextFraction = nextQuarterFraction(currentFraction);
     
     if (nextFraction > 0) {
       onSelectionChange(nextFraction, selectedDepth);
@@ -142,30 +140,22 @@ export default function BurnDepthSelector() {
     }
   }, [patientData.ageMonths, regionSelections]);
 
-  // Calculate burn center transfer recommendations
+  // Burn center referral criteria across the whole assessment
   const transferRecommendations = React.useMemo(() => {
-    const recommendations: string[] = [];
-    
-    regionSelections.forEach(selection => {
-      if (selection.fraction > 0 && selection.depth) {
-        const regionTbsa = (selection.fraction * currentTbsa) / regionSelections.reduce((sum, s) => sum + s.fraction, 0) || 0;
-        if (requiresBurnCenter(selection.depth, regionTbsa)) {
-          const region = BODY_REGIONS.find(r => r.key === selection.region);
-          const depthInfo = getBurnDepthInfo(selection.depth);
-          recommendations.push(`${region?.label}: ${depthInfo.name} (${Math.round(regionTbsa)}% TBSA)`);
-        }
-      }
-    });
-    
-    return recommendations;
-  }, [regionSelections, currentTbsa]);
+    try {
+      return evaluateReferralCriteria(patientData, regionSelections).met
+        .map(criterion => `${criterion.label} (${criterion.reason})`);
+    } catch {
+      return [];
+    }
+  }, [patientData, regionSelections]);
 
   const getRegionSelection = (regionKey: RegionKey) => {
     const selection = regionSelections.find(s => s.region === regionKey);
     return selection ? { fraction: selection.fraction, depth: selection.depth || 'superficial-partial' } : null;
   };
 
-  const handleSelectionChange = (regionKey: RegionKey, fraction: BurnFraction, depth: BurnDepth) => {
+  const handleSelectionChange = (regionKey: RegionKey, fraction: number, depth: BurnDepth) => {
     setRegionSelection(regionKey, fraction, depth);
   };
 
@@ -0,0 +1,194 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Archive, ArchiveRestore, Copy, FolderOpen, Save, Search } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { searchCases } from '@/domain/cases';
+import { cn } from '@/lib/utils';
+
+interface CaseRegistryProps {
+  onOpenCase?: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Formats a patient age for the case list
+ */
+function formatAgeShort(ageMonths: number): string {
+  if (ageMonths < 24) return `${ageMonths} mo`;
+  return `${Math.floor(ageMonths / 12)} yr`;
+}
+
+export default function CaseRegistry({ onOpenCase, className }: CaseRegistryProps) {
+  const { cases, activeCaseId, saveCase, openCase, duplicateCase, archiveCase, clearAllData } = useWizardStore();
+  const activeCase = cases.find(c => c.id === activeCaseId);
+  const [caseName, setCaseName] = React.useState(activeCase?.name ?? '');
+  const [query, setQuery] = React.useState('');
+  const [showArchived, setShowArchived] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setCaseName(activeCase?.name ?? '');
+  }, [activeCase?.id, activeCase?.name]);
+
+  const visibleCases = React.useMemo(
+    () => searchCases(cases, query, { includeArchived: showArchived }),
+    [cases, query, showArchived]
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveCase(caseName);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save case');
+    }
+  };
+
+  const handleOpen = (id: string) => {
+    openCase(id);
+    onOpenCase?.(id);
+  };
+
+  const handleNewPatient = () => {
+    if (window.confirm('Start a new patient? Unsaved changes to the current assessment will be lost.')) {
+      clearAllData();
+      setCaseName('');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Save Current Assessment */}
+      <Card className="medical-card">
+        <CardHeader>
+          <CardTitle className="text-primary">
+            {activeCase ? 'Update Saved Case' : 'Save Current Assessment'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="caseName">Case name</Label>
+              <Input
+                id="caseName"
+                value={caseName}
+                onChange={(e) => setCaseName(e.target.value)}
+                placeholder="e.g., Bed 4 scald, teaching case A"
+                maxLength={80}
+                aria-describedby="case-name-help"
+              />
+              <p id="case-name-help" className="text-xs text-muted-foreground">
+                Avoid patient identifiers - cases are stored encrypted on this device only.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit">
+                <Save className="h-4 w-4 mr-1" />
+                {activeCase ? 'Update Case' : 'Save Case'}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleNewPatient}>
+                New Patient
+              </Button>
+            </div>
+          </form>
+          {error && (
+            <p className="text-sm text-red-600 mt-2" role="alert">{error}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Saved Cases */}
+      <Card className="medical-card">
+        <CardHeader>
+          <CardTitle className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-primary">
+            <span>Saved Cases ({visibleCases.length})</span>
+            <label className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
+              />
+              Show archived
+            </label>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by case name or mechanism"
+              className="pl-9"
+              aria-label="Search saved cases"
+            />
+          </div>
+
+          {visibleCases.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {cases.length === 0 ? 'No saved cases yet.' : 'No cases match your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-2" role="list">
+              {visibleCases.map(c => (
+                <li
+                  key={c.id}
+                  className={cn(
+                    'p-3 border rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-3',
+                    c.id === activeCaseId && 'border-primary bg-primary/5',
+                    c.archived && 'opacity-70'
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{c.name}</span>
+                      {c.id === activeCaseId && <Badge>Open</Badge>}
+                      {c.archived && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatAgeShort(c.patientData.ageMonths)}, {c.patientData.weightKg} kg
+                      {c.tbsaResult ? ` · TBSA ${c.tbsaResult.tbsaPct}%` : ' · TBSA not calculated'}
+                      {c.fluidResult ? ` · Parkland ${c.fluidResult.parkland.totalMl} mL` : ''}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(c.updatedAt).toLocaleString()} · Created {new Date(c.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleOpen(c.id)}>
+                      <FolderOpen className="h-4 w-4 mr-1" />
+                      Open
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => duplicateCase(c.id)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Duplicate
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => archiveCase(c.id, !c.archived)}>
+                      {c.archived ? (
+                        <>
+                          <ArchiveRestore className="h-4 w-4 mr-1" />
+                          Restore
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="h-4 w-4 mr-1" />
+                          Archive
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Trash2 } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { getAllBurnDepths, getBurnDepthInfo } from '@/constants/burnDepth';
+import { DEPTH_ORDER, getSelectionZones } from '@/domain/regionSelections';
+import type { BurnDepth, DepthZone, RegionSelection } from '@/domain/types';
+
+interface DepthZoneEditorProps {
+  selection: RegionSelection;
+  label: string;
+}
+
+/**
+ * Splits one selected region into areas of different burn depth
+ */
+export default function DepthZoneEditor({ selection, label }: DepthZoneEditorProps) {
+  const { setRegionZones } = useWizardStore();
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState<DepthZone[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const zones = getSelectionZones(selection);
+  const draftTotal = draft.reduce((sum, zone) => sum + zone.fraction, 0);
+  const idPrefix = `zones-${selection.region}`;
+
+  const startEditing = () => {
+    setDraft(zones.map(zone => ({ ...zone })));
+    setError(null);
+    setEditing(true);
+  };
+
+  const updateZone = (index: number, changes: Partial<DepthZone>) => {
+    setDraft(draft.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const addZone = () => {
+    const unused = DEPTH_ORDER.find(depth => !draft.some(zone => zone.depth === depth)) ?? 'full-thickness';
+    setDraft([...draft, { depth: unused, fraction: Math.max(0, Math.min(0.25, 1 - draftTotal)) }]);
+  };
+
+  const applyZones = () => {
+    try {
+      setRegionZones(selection.region, draft);
+      setError(null);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid depth zones');
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2">
+        {selection.zones && selection.zones.length > 1 ? (
+          <span className="text-xs text-muted-foreground">
+            {zones.map(zone => `${Math.round(zone.fraction * 100)}% ${getBurnDepthInfo(zone.depth).name.split(' (')[0]}`).join(' · ')}
+          </span>
+        ) : <span />}
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={startEditing}>
+          Split by depth
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 mt-2 p-2 border rounded-md" role="group" aria-label={`Depth zones for ${label}`}>
+      {draft.map((zone, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            id={`${idPrefix}-depth-${index}`}
+            aria-label={`Zone ${index + 1} depth`}
+            value={zone.depth}
+            onChange={(e) => updateZone(index, { depth: e.target.value as BurnDepth })}
+            className="flex-1 p-2 border border-border rounded-md bg-background text-sm"
+          >
+            {getAllBurnDepths().map(info => (
+              <option key={info.depth} value={info.depth}>{info.name.split(' (')[0]}</option>
+            ))}
+          </select>
+          <Input
+            id={`${idPrefix}-fraction-${index}`}
+            aria-label={`Zone ${index + 1} percent of ${label}`}
+            type="number"
+            min="0"
+            max="100"
+            step="5"
+            className="w-20"
+            value={Math.round(zone.fraction * 1000) / 10}
+            onChange={(e) => updateZone(index, { fraction: (parseFloat(e.target.value) || 0) / 100 })}
+          />
+          <span className="text-xs">%</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+            aria-label={`Remove zone ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <p className={`text-xs ${draftTotal > 1 ? 'text-red-600' : 'text-muted-foreground'}`}>
+        Zones cover {Math.round(draftTotal * 100)}% of {label} (maximum 100%)
+      </p>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addZone} disabled={draft.length >= DEPTH_ORDER.length}>
+          Add Zone
+        </Button>
+        <Button type="button" size="sm" onClick={applyZones}>
+          Apply
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Footprints
 } from 'lucide-react';
 import { useWizardStore } from '@/store/useWizardStore';
+import { deriveSpecialSites } from '@/domain/subRegions';
 import { DRESSING_RECOMMENDATIONS, DRESSING_PRINCIPLES, WOUND_RED_FLAGS } from '@/constants/dressing';
 import type { RegionKey } from '@/domain/types';
 
@@ -60,9 +61,14 @@ export default function DressingGuide({ className }: DressingGuideProps) {
     return affectedAreas;
   }, [regionSelections]);
 
+  const specialSites = React.useMemo(
+    () => deriveSpecialSites(regionSelections, patientData.specialSites),
+    [regionSelections, patientData.specialSites]
+  );
+
   const isSpecialSiteAffected = React.useMemo(() => {
-    return Object.entries(patientData.specialSites).some(([_site, affected]) => affected);
-  }, [patientData.specialSites]);
+    return Object.entries(specialSites).some(([_site, affected]) => affected);
+  }, [specialSites]);
 
   if (affectedRegions.length === 0) {
     return (
@@ -152,7 +158,7 @@ export default function DressingGuide({ className }: DressingGuideProps) {
                 The following special sites require additional consideration:
               </p>
               <ul className="text-sm space-y-1">
-                {Object.entries(patientData.specialSites)
+                {Object.entries(specialSites)
                   .filter(([_, affected]) => affected)
                   .map(([site]) => (
                     <li key={site} className="flex items-center gap-2">
@@ -10,6 +10,7 @@ interface TimelineStage {
   percentage: number;
   status: 'completed' | 'active' | 'pending';
   fluidAmount?: number;
+  rateMlPerHr?: number;
   description: string;
 }
 
@@ -42,12 +43,21 @@ export function FluidCalculationTimeline() {
           percentage: 0,
           status: 'pending',
           description: 'Second half of 24-hour fluid requirement'
+        },
+        {
+          id: 'day2',
+          label: 'Second Day',
+          timeRange: '24-48 hrs',
+          percentage: 0,
+          status: 'pending',
+          description: 'Maintenance, evaporative loss and colloid'
         }
       ];
     }
 
     const first8HrFluid = fluidResult.parkland.first8hMl;
     const second16HrFluid = fluidResult.parkland.next16hMl;
+    const { secondDay } = fluidResult;
 
     return [
       {
@@ -65,6 +75,7 @@ export function FluidCalculationTimeline() {
         percentage: 50,
         status: 'active',
         fluidAmount: first8HrFluid,
+        rateMlPerHr: first8HrFluid / 8,
         description: 'Give half of 24-hour requirement rapidly'
       },
       {
@@ -74,7 +85,20 @@ export function FluidCalculationTimeline() {
         percentage: 25,
         status: 'pending',
         fluidAmount: second16HrFluid,
+        rateMlPerHr: second16HrFluid / 16,
         description: 'Give remaining fluid at steady rate'
+      },
+      {
+        id: 'day2',
+        label: 'Second Day',
+        timeRange: '24-48 hrs',
+        percentage: 0,
+        status: 'pending',
+        fluidAmount: secondDay.totalMl,
+        rateMlPerHr: secondDay.rateMlPerHr,
+        description: secondDay.colloidMl > 0
+          ? 'Maintenance and evaporative loss, plus albumin'
+          : 'Maintenance and evaporative loss'
       }
     ];
   }, [fluidResult]);
@@ -140,10 +164,7 @@ export function FluidCalculationTimeline() {
                       <div className="flex items-center justify-between mt-1">
                         <span className="burn-wizard-body-sm font-medium">Rate:</span>
                         <span className="burn-wizard-body-sm text-muted-foreground">
-                          {stage.id === 'first8' 
-                            ? `${Math.round(stage.fluidAmount / 8)} mL/hr`
-                            : `${Math.round(stage.fluidAmount / 16)} mL/hr`
-                          }
+                          {Math.round(stage.rateMlPerHr ?? 0)} mL/hr
                         </span>
                       </div>
                     </div>
@@ -174,12 +195,12 @@ export function FluidCalculationTimeline() {
             <div className="pt-4 border-t border-border animate-fade-in-up animate-stagger-3">
               <div className="bg-gradient-surface rounded-lg p-4">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="burn-wizard-body font-semibold">Total 24-Hour Fluid</span>
+                  <span className="burn-wizard-body font-semibold">Total 48-Hour Fluid</span>
                   <span className="data-metric-small text-primary">
-                    {Math.round(fluidResult.parkland.totalMl)} mL
+                    {Math.round(fluidResult.parkland.totalMl + fluidResult.secondDay.totalMl)} mL
                   </span>
                 </div>
-                <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="grid grid-cols-3 gap-4 text-center">
                   <div>
                     <div className="burn-wizard-body-sm text-muted-foreground">First 8 hrs</div>
                     <div className="burn-wizard-body font-bold text-primary">
@@ -192,6 +213,12 @@ export function FluidCalculationTimeline() {
                       {Math.round(fluidResult.parkland.next16hMl)} mL
                     </div>
                   </div>
+                  <div>
+                    <div className="burn-wizard-body-sm text-muted-foreground">Second day</div>
+                    <div className="burn-wizard-body font-bold text-primary">
+                      {Math.round(fluidResult.secondDay.totalMl)} mL
+                    </div>
+                  </div>
                 </div>
               </div>
             </div>
@@ -1,10 +1,119 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useWizardStore } from '@/store/useWizardStore';
-import { calcUrineOutputTarget } from '@/domain/fluids';
+import {
+  calcUrineOutputTarget,
+  calculateFluids,
+  getColloidRecommendation,
+  getPediatricMaintenancePlan,
+  MAINTENANCE_METHOD_LABELS,
+} from '@/domain/fluids';
+import { analyzeFluidCreep } from '@/domain/fluidCreep';
+import { planPostResuscitation } from '@/domain/postResuscitation';
+import { WEIGHT_BASIS_LABELS, resolveDosingWeights } from '@/domain/dosingWeight';
+import { getMechanismPathway } from '@/domain/mechanisms';
+import { FLUID_FORMULAS, isFormulaApplicable } from '@/domain/fluidFormulas';
+import { BSA_METHOD_LABELS } from '@/domain/bsa';
+import type { ColloidRecommendation, FluidFormulaId, FluidResult, PostResuscitationPlan } from '@/domain/types';
+
+const MAINTENANCE_LABELS = {
+  separate: 'Add maintenance as clinically indicated',
+  included: 'Maintenance already included - do not add separately',
+  required: 'Add maintenance fluid on top of this volume',
+} as const;
 
 export default function FluidPlan() {
-  const { fluidResult, patientData } = useWizardStore();
+  const { fluidResult, tbsaResult, patientData, flowsheet, settings, setPatientData, setFluidResult } = useWizardStore();
+
+  // Parkland reference for side-by-side comparison
+  const parklandReference = React.useMemo((): FluidResult | null => {
+    if (!fluidResult || !tbsaResult || fluidResult.formula.id === 'parkland') return null;
+    try {
+      return calculateFluids({
+        weightKg: patientData.weightKg,
+        tbsaPct: tbsaResult.tbsaPct,
+        hoursSinceInjury: patientData.hoursSinceInjury,
+        priorFluids: patientData.priorFluids,
+        formulaId: 'parkland',
+        bsaM2: tbsaResult.bsaM2,
+        weights: resolveDosingWeights({
+          weightKg: patientData.weightKg,
+          ageMonths: patientData.ageMonths,
+          heightCm: patientData.heightCm,
+          sex: patientData.sex,
+        }, settings.weightPolicy),
+        maintenanceMethod: settings.maintenanceMethod,
+      });
+    } catch {
+      return null;
+    }
+  }, [
+    fluidResult,
+    tbsaResult,
+    patientData.weightKg,
+    patientData.ageMonths,
+    patientData.heightCm,
+    patientData.sex,
+    patientData.hoursSinceInjury,
+    patientData.priorFluids,
+    settings.weightPolicy,
+    settings.maintenanceMethod,
+  ]);
+
+  // Colloid decision: charted delivery vs formula drives rescue, otherwise the formula rate is assumed
+  const colloid = React.useMemo((): ColloidRecommendation | null => {
+    if (!fluidResult || !tbsaResult) return null;
+    try {
+      const lastHour = flowsheet[flowsheet.length - 1];
+      const creep = lastHour
+        ? analyzeFluidCreep(flowsheet, fluidResult, {
+            weightKg: patientData.weightKg,
+            ageMonths: patientData.ageMonths,
+            tbsaPct: tbsaResult.tbsaPct,
+          })
+        : null;
+      return getColloidRecommendation({
+        weightKg: fluidResult.weights?.resuscitation.weightKg ?? patientData.weightKg,
+        tbsaPct: tbsaResult.tbsaPct,
+        hoursSinceInjury: patientData.hoursSinceInjury,
+        crystalloidRateMlPerHr: lastHour ? lastHour.infusedMl : fluidResult.parkland.rateNowMlPerHr,
+        requirementRatio: creep?.ratioToTarget ?? undefined,
+      });
+    } catch {
+      return null;
+    }
+  }, [fluidResult, tbsaResult, flowsheet, patientData.weightKg, patientData.ageMonths, patientData.hoursSinceInjury]);
+
+  // Days 2-7: fluids after the formula ends, LR wean and nutrition
+  const dayPlan = React.useMemo((): PostResuscitationPlan | null => {
+    if (!fluidResult || !tbsaResult) return null;
+    try {
+      return planPostResuscitation(fluidResult, {
+        weightKg: patientData.weightKg,
+        ageMonths: patientData.ageMonths,
+        tbsaPct: tbsaResult.tbsaPct,
+        hoursSinceInjury: patientData.hoursSinceInjury,
+        bsaM2: tbsaResult.bsaM2,
+      });
+    } catch {
+      return null;
+    }
+  }, [fluidResult, tbsaResult, patientData.weightKg, patientData.ageMonths, patientData.hoursSinceInjury]);
+
+  const handleFormulaChange = (formulaId: FluidFormulaId) => {
+    setPatientData({ fluidFormula: formulaId });
+    if (!tbsaResult) return;
+    setFluidResult(calculateFluids({
+      weightKg: patientData.weightKg,
+      tbsaPct: tbsaResult.tbsaPct,
+      hoursSinceInjury: patientData.hoursSinceInjury,
+      priorFluids: patientData.priorFluids,
+      formulaId,
+      bsaM2: tbsaResult.bsaM2,
+      weights: resolveDosingWeights(patientData, settings.weightPolicy),
+      maintenanceMethod: settings.maintenanceMethod,
+    }));
+  };
 
   if (!fluidResult) {
     return (
@@ -16,7 +125,19 @@ export default function FluidPlan() {
     );
   }
 
-  const urineTarget = calcUrineOutputTarget(patientData.weightKg, patientData.ageMonths);
+  const pediatricMaintenance = getPediatricMaintenancePlan({
+    weightKg: patientData.weightKg,
+    ageMonths: patientData.ageMonths,
+    resuscitationRateMlPerHr: fluidResult.parkland.rateNowMlPerHr,
+    maintenanceMlPerHr: fluidResult.maintenance.mlPerHr,
+    formulaMaintenance: fluidResult.formula.maintenance,
+  });
+  const urineTarget = calcUrineOutputTarget(
+    fluidResult.weights?.urineOutput.weightKg ?? patientData.weightKg,
+    patientData.ageMonths,
+    patientData.burnMechanism
+  );
+  const mechanismPathway = patientData.burnMechanism ? getMechanismPathway(patientData.burnMechanism) : null;
 
   return (
     <Card>
@@ -33,9 +154,84 @@ export default function FluidPlan() {
           </div>
         )}
 
-        {/* Parkland Formula Results */}
+        {/* TBSA driving the calculation */}
+        {tbsaResult && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">Resuscitation TBSA</p>
+              <p className="text-lg font-semibold">{tbsaResult.tbsaPct}%</p>
+              <p className="text-xs text-muted-foreground">Partial and full thickness</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">Superficial (not counted)</p>
+              <p className="text-lg font-semibold text-muted-foreground">{tbsaResult.superficialPct ?? 0}%</p>
+              <p className="text-xs text-muted-foreground">First-degree burns do not drive fluids</p>
+            </div>
+          </div>
+        )}
+
+        {/* Formula Selection */}
+        <div className="space-y-2">
+          <label htmlFor="fluid-formula" className="text-sm font-medium">Resuscitation formula</label>
+          <select
+            id="fluid-formula"
+            value={fluidResult.formula.id}
+            onChange={(e) => handleFormulaChange(e.target.value as FluidFormulaId)}
+            className="w-full p-2 border border-border rounded-md bg-background text-sm"
+            disabled={!tbsaResult}
+          >
+            {Object.values(FLUID_FORMULAS).map(formula => (
+              <option key={formula.id} value={formula.id}>
+                {formula.name} - {formula.equation}
+                {isFormulaApplicable(formula, patientData.ageMonths) ? '' : ' (not typical for this age)'}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            {FLUID_FORMULAS[fluidResult.formula.id].indication}. {MAINTENANCE_LABELS[fluidResult.formula.maintenance]}.
+          </p>
+          {fluidResult.weights?.obese && (
+            <p className="text-xs text-muted-foreground">
+              Calculated on {fluidResult.weights.resuscitation.weightKg} kg ({WEIGHT_BASIS_LABELS[fluidResult.weights.resuscitation.basis]}) - {fluidResult.weights.resuscitation.reason}
+            </p>
+          )}
+          {tbsaResult?.bsaM2 !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              BSA {tbsaResult.bsaM2} m² ({BSA_METHOD_LABELS[tbsaResult.bsaMethod ?? 'mosteller']}) · Burned {tbsaResult.burnedBsaM2} m²
+            </p>
+          )}
+        </div>
+
+        {/* Actual Delivery (transfers / late presentation) */}
+        {fluidResult.parkland.deliveryBasis === 'actual' && (
+          <div className={`border rounded-md p-3 space-y-1 ${
+            fluidResult.parkland.exceedsCatchUpCeiling
+              ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+              : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700'
+          }`}>
+            <p className="text-sm font-medium">Based on fluid actually delivered</p>
+            <p className="text-sm">
+              Given so far: <span className="font-bold">{fluidResult.parkland.deliveredTotalMl} mL</span>
+              {' · '}
+              {fluidResult.parkland.deficitMl > 0
+                ? <>Deficit vs schedule: <span className="font-bold">{fluidResult.parkland.deficitMl} mL</span></>
+                : <>Ahead of schedule by <span className="font-bold">{Math.abs(fluidResult.parkland.deficitMl)} mL</span></>}
+            </p>
+            <p className="text-sm">
+              Catch-up rate: <span className="font-bold">{fluidResult.parkland.catchUpRateMlPerHr} mL/hr</span>
+              {' '}(ceiling {fluidResult.parkland.catchUpCeilingMlPerHr} mL/hr)
+            </p>
+            {fluidResult.parkland.exceedsCatchUpCeiling && (
+              <p className="text-sm text-red-800 dark:text-red-200 font-medium">
+                ⚠️ Catch-up rate exceeds the safe ceiling - avoid bolus catch-up; discuss with burn center and titrate to urine output.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Formula Results */}
         <div className="space-y-4">
-          <h3 className="font-semibold">Parkland Formula (Educational)</h3>
+          <h3 className="font-semibold">{fluidResult.formula.name} Formula (Educational)</h3>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -51,6 +247,11 @@ export default function FluidPlan() {
                 <p className="text-xs text-muted-foreground">
                   Phase: {fluidResult.parkland.phase === 'first8' ? 'First 8 hours' : 'Next 16 hours'}
                 </p>
+                {dayPlan?.currentDay != null && (
+                  <p className="text-xs font-medium">
+                    Resuscitation complete - day {dayPlan.currentDay} IV rate {dayPlan.rateNowMlPerHr} mL/hr (see Days 2-7)
+                  </p>
+                )}
               </div>
             </div>
 
@@ -70,16 +271,160 @@ export default function FluidPlan() {
           </div>
         </div>
 
+        {/* Colloid (Albumin) */}
+        {colloid && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Colloid</h3>
+            <div className={`border rounded-md p-3 space-y-1 ${
+              colloid.status === 'rescue'
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+                : colloid.status === 'not-indicated'
+                  ? 'bg-gray-50 dark:bg-gray-900/20 border-border'
+                  : 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700'
+            }`}>
+              <p className="text-sm font-medium">{colloid.reason}</p>
+              {colloid.dose && (
+                <>
+                  <p className="text-sm">
+                    {colloid.dose.fluid}: <span className="font-bold">{colloid.dose.rateMlPerHr} mL/hr</span>
+                    {' '}from hour {colloid.startHour} ({colloid.dose.totalMl} mL to hour 24)
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {colloid.dose.mlPerKgPerTbsa} mL/kg/%TBSA over hours {colloid.startHour}-24 · Reduce LR to {colloid.dose.crystalloidRateMlPerHr} mL/hr to match
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Side-by-side Comparison with Parkland */}
+        {parklandReference && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Comparison with Parkland</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse border border-gray-200 dark:border-gray-700">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-800">
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left"></th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">{fluidResult.formula.name}</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Parkland</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['24-hour total', 'totalMl', 'mL'],
+                    ['First 8 hours', 'first8hMl', 'mL'],
+                    ['Next 16 hours', 'next16hMl', 'mL'],
+                    ['Current rate', 'rateNowMlPerHr', 'mL/hr'],
+                  ] as const).map(([label, key, unit]) => (
+                    <tr key={key}>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2 font-medium">{label}</td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{fluidResult.parkland[key]} {unit}</td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{parklandReference.parkland[key]} {unit}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="border border-gray-200 dark:border-gray-700 p-2 font-medium">Maintenance</td>
+                    <td className="border border-gray-200 dark:border-gray-700 p-2">{MAINTENANCE_LABELS[fluidResult.formula.maintenance]}</td>
+                    <td className="border border-gray-200 dark:border-gray-700 p-2">{MAINTENANCE_LABELS[parklandReference.formula.maintenance]}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Maintenance Fluids */}
         <div className="space-y-2">
           <h3 className="font-semibold">Maintenance Fluids</h3>
           <div className="bg-gray-50 dark:bg-gray-900/20 p-3 rounded">
-            <p className="text-sm font-medium">Holliday-Segar ({fluidResult.maintenance.method})</p>
+            <p className="text-sm font-medium">{MAINTENANCE_METHOD_LABELS[fluidResult.maintenance.method]}</p>
             <p className="text-lg font-bold">{fluidResult.maintenance.mlPerHr} mL/hr</p>
-            <p className="text-xs text-muted-foreground">Separate from resuscitation fluids</p>
+            <p className="text-xs text-muted-foreground">{fluidResult.maintenance.formula} · Separate from resuscitation fluids</p>
           </div>
+          {fluidResult.postResuscitation && (
+            <div className="bg-teal-50 dark:bg-teal-900/20 p-3 rounded">
+              <p className="text-sm font-medium">Hours 24-72: maintenance + evaporative loss</p>
+              <p className="text-lg font-bold">{fluidResult.postResuscitation.totalMlPerHr} mL/hr</p>
+              <p className="text-xs text-muted-foreground">
+                {fluidResult.postResuscitation.maintenanceMlPerHr} mL/hr maintenance
+                {fluidResult.postResuscitation.evaporativeLossMlPerHr > 0 && (fluidResult.postResuscitation.evaporativeLossIncluded
+                  ? `, including ${fluidResult.postResuscitation.evaporativeLossMlPerHr} mL/hr evaporative loss ((25 + %TBSA) × BSA)`
+                  : ` + ${fluidResult.postResuscitation.evaporativeLossMlPerHr} mL/hr evaporative loss ((25 + %TBSA) × BSA)`)}
+              </p>
+            </div>
+          )}
+          {pediatricMaintenance.glucoseMonitoring && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-md p-3 space-y-1">
+              <p className="text-sm font-medium">{pediatricMaintenance.reason}</p>
+              {pediatricMaintenance.required && (
+                <p className="text-sm">
+                  {pediatricMaintenance.fluid}: <span className="font-bold">{pediatricMaintenance.maintenanceMlPerHr} mL/hr</span>
+                  {' + '}LR {pediatricMaintenance.resuscitationRateMlPerHr} mL/hr
+                  {' = '}<span className="font-bold">{pediatricMaintenance.totalRateMlPerHr} mL/hr total</span>
+                </p>
+              )}
+              <ul className="text-xs space-y-1">
+                {pediatricMaintenance.glucoseMonitoring.instructions.map(instruction => (
+                  <li key={instruction}>• {instruction}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
+        {/* Days 2-7 */}
+        {dayPlan && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Days 2-7</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse border border-gray-200 dark:border-gray-700">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-800">
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Day</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">IV rate (mL/hr)</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Made up of</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Focus</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dayPlan.days.map(day => (
+                    <tr key={day.day} className={day.day === dayPlan.currentDay ? 'bg-teal-50 dark:bg-teal-900/20 font-medium' : ''}>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{day.day} ({day.startHour}-{day.endHour}h)</td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{day.rateMlPerHr}</td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2 text-xs">
+                        {day.colloidMl > 0 && `5% albumin ${day.colloidMl} mL/24h + `}
+                        maintenance {day.maintenanceMlPerHr}
+                        {day.freeWaterMlPerHr > 0 && ` + D5W ${day.freeWaterMlPerHr}`}
+                      </td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2 text-xs">{day.focus}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {dayPlan.transition.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Wean LR from hour 24 while urine output stays on target:{' '}
+                {dayPlan.transition.map(step => `${step.hourFromInjury}h ${step.rateMlPerHr}`).join(' → ')} mL/hr
+              </p>
+            )}
+            <div className="bg-lime-50 dark:bg-lime-900/20 p-3 rounded">
+              <p className="text-sm font-medium">Nutrition</p>
+              <p className="text-lg font-bold">{dayPlan.nutrition.kcalPerDay} kcal/day · protein {dayPlan.nutrition.proteinGPerDay} g/day</p>
+              <p className="text-xs text-muted-foreground">
+                {dayPlan.nutrition.formula} · {dayPlan.nutrition.proteinGPerKgPerDay} g/kg/day protein · Start enteral feeds by hour {dayPlan.nutrition.startEnteralByHour}
+              </p>
+            </div>
+            <ul className="text-xs text-muted-foreground space-y-1">
+              {dayPlan.monitoring.map(item => (
+                <li key={item}>• {item}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Monitoring Targets */}
         <div className="space-y-2">
           <h3 className="font-semibold">Monitoring Targets</h3>
@@ -87,7 +432,9 @@ export default function FluidPlan() {
             <p className="text-sm font-medium">Urine Output Goal</p>
             <p className="text-lg font-bold">{urineTarget.min} - {urineTarget.max} mL/hr</p>
             <p className="text-xs text-muted-foreground">
-              {patientData.ageMonths < 180 ? '1-2 mL/kg/hr (pediatric)' : '0.5-1 mL/kg/hr (adult)'}
+              {mechanismPathway?.urineOutputMlPerKgPerHr
+                ? urineTarget.method
+                : patientData.ageMonths < 180 ? '1-2 mL/kg/hr (pediatric)' : '0.5-1 mL/kg/hr (adult)'}
             </p>
           </div>
         </div>
@@ -21,6 +21,7 @@ import { useWizardStore } from '@/store/useWizardStore';
 import { SaveStatusIndicator } from '@/components/ui/SaveStatusIndicator';
 import { cn } from '@/lib/utils';
 import type { SaveInfo } from '@/hooks/useAutoSave';
+import type { ExportFormat } from '@/utils/dataExport';
 
 interface HeaderProps {
   sidebarCollapsed: boolean;
@@ -28,7 +29,8 @@ interface HeaderProps {
   onToggleMobileSidebar?: () => void;
   saveInfo?: SaveInfo;
   onManualSave?: () => Promise<boolean>;
-  onExportAssessment?: (format: 'json' | 'csv' | 'txt') => void;
+  onExportAssessment?: (format: ExportFormat) => void;
+  onImportAssessment?: () => void;
   className?: string;
 }
 
@@ -37,7 +39,7 @@ interface BeforeInstallPromptEvent extends Event {
   prompt(): Promise<{ outcome: 'accepted' | 'dismissed' }>;
 }
 
-export default function Header({ sidebarCollapsed: _sidebarCollapsed, onNavigateToSettings, onToggleMobileSidebar, saveInfo, onManualSave, onExportAssessment, className }: HeaderProps) {
+export default function Header({ sidebarCollapsed: _sidebarCollapsed, onNavigateToSettings, onToggleMobileSidebar, saveInfo, onManualSave, onExportAssessment, onImportAssessment, className }: HeaderProps) {
   const { settings, updateSettings } = useWizardStore();
   const [isOnline, setIsOnline] = React.useState(navigator.onLine);
   const [installPrompt, setInstallPrompt] = React.useState<BeforeInstallPromptEvent | null>(null);
@@ -195,6 +197,14 @@ export default function Header({ sidebarCollapsed: _sidebarCollapsed, onNavigate
                 <DropdownMenuItem onClick={() => onExportAssessment('txt')}>
                   Export as Text
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExportAssessment('fhir')}>
+                  Export as FHIR R4 Bundle
+                </DropdownMenuItem>
+                {onImportAssessment && (
+                  <DropdownMenuItem onClick={onImportAssessment}>
+                    Import from JSON...
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           )}
@@ -0,0 +1,162 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { parseAssessmentImport, previewImport, type ImportedAssessment } from '@/utils/dataImport';
+import { cn } from '@/lib/utils';
+
+interface ImportAssessmentDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Loads a JSON export from another device after previewing what it replaces
+ */
+export default function ImportAssessmentDialog({ isOpen, onOpenChange }: ImportAssessmentDialogProps) {
+  const {
+    patientData,
+    regionSelections,
+    tbsaResult,
+    fluidResult,
+    reassessments,
+    flowsheet,
+    settings,
+    loadAssessment,
+    importCase,
+  } = useWizardStore();
+  const [imported, setImported] = React.useState<ImportedAssessment | null>(null);
+  const [caseName, setCaseName] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      setImported(null);
+      setCaseName('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const changes = React.useMemo(() => {
+    if (!imported) return [];
+    return previewImport(imported, { patientData, regionSelections, tbsaResult, fluidResult, reassessments, flowsheet });
+  }, [imported, patientData, regionSelections, tbsaResult, fluidResult, reassessments, flowsheet]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setImported(parseAssessmentImport(await file.text(), settings));
+      setCaseName(file.name.replace(/\.json$/i, ''));
+      setError(null);
+    } catch (err) {
+      setImported(null);
+      setError(err instanceof Error ? err.message : 'Unable to read file');
+    }
+  };
+
+  const handleReplace = () => {
+    if (!imported) return;
+    loadAssessment(imported.snapshot);
+    onOpenChange(false);
+  };
+
+  const handleNewCase = () => {
+    if (!imported) return;
+    try {
+      importCase(caseName, imported.snapshot);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save case');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import Assessment
+          </DialogTitle>
+          <DialogDescription>
+            Load a Burn Wizard JSON export from another device. Results are recalculated with this device's settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">Export file</Label>
+            <Input id="importFile" type="file" accept=".json,application/json" onChange={handleFile} />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">{error}</p>
+          )}
+
+          {imported && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Exported {new Date(imported.exportDate).toLocaleString()} (schema v{imported.sourceVersion})
+              </p>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="py-1 font-medium">Field</th>
+                    <th className="py-1 font-medium">Current</th>
+                    <th className="py-1 font-medium">Imported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={change.label} className={cn('border-t border-border', change.changed && 'font-medium text-amber-700')}>
+                      <td className="py-1">{change.label}</td>
+                      <td className="py-1">{change.current}</td>
+                      <td className="py-1">{change.incoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {imported.warnings.length > 0 && (
+                <ul className="space-y-1 text-sm text-amber-800">
+                  {imported.warnings.map(warning => (
+                    <li key={warning} className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="importCaseName">Case name (for a new case)</Label>
+                <Input id="importCaseName" value={caseName} onChange={(e) => setCaseName(e.target.value)} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleNewCase} disabled={!imported}>
+            Save as New Case
+          </Button>
+          <Button onClick={handleReplace} disabled={!imported}>
+            Replace Current Assessment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
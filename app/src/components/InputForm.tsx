@@ -5,22 +5,30 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useWizardStore } from '@/store/useWizardStore';
 import { calculateTBSA } from '@/domain/tbsa';
+import { calculateTbsaByMethod } from '@/domain/tbsaMethods';
+import { deriveSpecialSites } from '@/domain/subRegions';
+import { MECHANISM_LABELS } from '@/domain/mechanisms';
 import { calculateFluids } from '@/domain/fluids';
+import { resolveFormulaId } from '@/domain/fluidFormulas';
+import { WEIGHT_BASIS_LABELS, resolveDosingWeights } from '@/domain/dosingWeight';
 import { 
   sanitizeAgeInput, 
   sanitizeWeightInput, 
   sanitizeHoursInput,
+  sanitizeHeightInput,
   sanitizeStringInput,
   validatePatientData 
 } from '@/domain/validation';
 import { handleError, ValidationError } from '@/core/errorHandling';
+import PriorFluidsInput from '@/components/PriorFluidsInput';
+import type { BiologicalSex, BurnMechanism, BurnMechanismType } from '@/domain/types';
 
 interface InputFormProps {
   onReviewClick: () => void;
 }
 
 export default function InputForm({ onReviewClick }: InputFormProps) {
-  const { patientData, regionSelections, setPatientData, setTbsaResult, setFluidResult } = useWizardStore();
+  const { patientData, regionSelections, settings, setPatientData, setTbsaResult, setFluidResult } = useWizardStore();
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [ageUnit, setAgeUnit] = useState<'months' | 'years'>('months');
@@ -93,6 +101,38 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
     }
   };
 
+  const handleHeightChange = (value: string) => {
+    try {
+      const heightCm = sanitizeHeightInput(value);
+      setFieldErrors(prev => {
+        const updated = { ...prev };
+        delete updated.heightCm;
+        return updated;
+      });
+      setPatientData({ heightCm });
+    } catch (error) {
+      const validationError = handleError(error);
+      setFieldErrors(prev => ({
+        ...prev,
+        heightCm: validationError.userMessage
+      }));
+    }
+  };
+
+  const handleMechanismTypeChange = (type: string) => {
+    setPatientData({
+      burnMechanism: type ? { type: type as BurnMechanismType, ...(type === 'electrical' && { voltage: 'low' as const }) } : undefined,
+    });
+  };
+
+  const updateBurnMechanism = (changes: Partial<BurnMechanism>) => {
+    if (!patientData.burnMechanism) return;
+    setPatientData({ burnMechanism: { ...patientData.burnMechanism, ...changes } });
+  };
+
+  // Face, hands, feet and perineum follow the body map; only major joints are entered here
+  const specialSites = deriveSpecialSites(regionSelections, patientData.specialSites);
+
   const handleSpecialSiteChange = (site: string, checked: boolean) => {
     setPatientData({
       specialSites: {
@@ -135,14 +175,21 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
         return; // Don't proceed if there are field errors
       }
       
-      // Additional safety check: ensure region selections exist
-      if (regionSelections.length === 0) {
+      // Additional safety check: ensure region selections exist (palm count stands in for the Rule of Palms)
+      const tbsaMethod = patientData.tbsaMethod ?? 'lund-browder';
+      if (regionSelections.length === 0 && tbsaMethod !== 'rule-of-palms') {
         setValidationErrors([handleError(new Error('At least one body region must be selected'))]);
         return;
       }
       
       // Calculate TBSA with enhanced error handling
-      const tbsaResult = calculateTBSA(patientData.ageMonths, regionSelections);
+      const tbsaResult = calculateTbsaByMethod(tbsaMethod, patientData.ageMonths, regionSelections, {
+        palmCount: patientData.palmCount,
+        body: {
+          weightKg: patientData.weightKg,
+          heightCm: patientData.heightCm,
+        },
+      });
       setTbsaResult(tbsaResult);
       
       // Show validation warnings if any
@@ -155,6 +202,11 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
         weightKg: patientData.weightKg,
         tbsaPct: tbsaResult.tbsaPct,
         hoursSinceInjury: patientData.hoursSinceInjury,
+        priorFluids: patientData.priorFluids,
+        formulaId: resolveFormulaId(patientData, settings.fluidFormulas),
+        bsaM2: tbsaResult.bsaM2,
+        weights: resolveDosingWeights(patientData, settings.weightPolicy),
+        maintenanceMethod: settings.maintenanceMethod,
       });
       setFluidResult(fluidResult);
       
@@ -175,6 +227,14 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
     }
   };
 
+  const dosingWeights = React.useMemo(() => {
+    try {
+      return resolveDosingWeights(patientData, settings.weightPolicy);
+    } catch {
+      return null;
+    }
+  }, [patientData, settings.weightPolicy]);
+
   const currentTbsa = React.useMemo(() => {
     try {
       if (regionSelections.length > 0) {
@@ -319,6 +379,56 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
             )}
           </div>
 
+          {/* Height (optional, for BSA) */}
+          <div className="space-y-2">
+            <Label htmlFor="heightCm">Height (cm, optional)</Label>
+            <Input
+              id="heightCm"
+              type="number"
+              min="25"
+              max="250"
+              step="0.5"
+              value={patientData.heightCm ?? ''}
+              onChange={(e) => handleHeightChange(e.target.value)}
+              className={fieldErrors.heightCm ? 'border-red-500' : ''}
+              aria-describedby="height-help height-error"
+              aria-invalid={!!fieldErrors.heightCm}
+            />
+            <p id="height-help" className="text-xs text-muted-foreground">
+              Used for body surface area (Mosteller) and ideal/adjusted body weight. Weight-only estimate is used if left blank.
+            </p>
+            {fieldErrors.heightCm && (
+              <p id="height-error" className="text-sm text-red-600" role="alert" aria-live="polite">
+                {fieldErrors.heightCm}
+              </p>
+            )}
+          </div>
+
+          {/* Sex (optional, for ideal body weight) */}
+          <div className="space-y-2">
+            <Label htmlFor="sex">Sex (optional)</Label>
+            <select
+              id="sex"
+              value={patientData.sex ?? ''}
+              onChange={(e) => setPatientData({ sex: (e.target.value || undefined) as BiologicalSex | undefined })}
+              className="w-full p-2 border border-border rounded-md bg-background text-sm"
+              aria-describedby="sex-help"
+            >
+              <option value="">Not recorded</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+            </select>
+            <p id="sex-help" className="text-xs text-muted-foreground">
+              Selects the Devine ideal body weight equation.
+            </p>
+            {dosingWeights?.obese && (
+              <p className="text-xs text-amber-700 dark:text-amber-300" role="status">
+                BMI {dosingWeights.bmi}: fluids use {dosingWeights.resuscitation.weightKg}kg ({WEIGHT_BASIS_LABELS[dosingWeights.resuscitation.basis]}),
+                urine output {dosingWeights.urineOutput.weightKg}kg ({WEIGHT_BASIS_LABELS[dosingWeights.urineOutput.basis]})
+              </p>
+            )}
+          </div>
+
           {/* Hours Since Injury */}
           <div className="space-y-2">
             <Label htmlFor="hoursSinceInjury">Hours Since Injury</Label>
@@ -345,9 +455,61 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
             )}
           </div>
 
+          {/* Fluids Already Given */}
+          <PriorFluidsInput />
+
           {/* Mechanism */}
           <div className="space-y-2">
-            <Label htmlFor="mechanism">Mechanism of Injury</Label>
+            <Label htmlFor="mechanism-type">Mechanism of Injury</Label>
+            <select
+              id="mechanism-type"
+              value={patientData.burnMechanism?.type ?? ''}
+              onChange={(e) => handleMechanismTypeChange(e.target.value)}
+              className="w-full p-2 border border-border rounded-md bg-background text-sm"
+            >
+              <option value="">Not specified</option>
+              {Object.entries(MECHANISM_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {patientData.burnMechanism?.type === 'electrical' && (
+              <select
+                id="mechanism-voltage"
+                aria-label="Voltage"
+                value={patientData.burnMechanism.voltage ?? 'low'}
+                onChange={(e) => updateBurnMechanism({ voltage: e.target.value as BurnMechanism['voltage'] })}
+                className="w-full p-2 border border-border rounded-md bg-background text-sm"
+              >
+                <option value="low">Low voltage (&lt;1000 V)</option>
+                <option value="high">High voltage (≥1000 V)</option>
+              </select>
+            )}
+            {patientData.burnMechanism?.type === 'chemical' && (
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  id="mechanism-chemical-class"
+                  aria-label="Chemical class"
+                  value={patientData.burnMechanism.chemicalClass ?? ''}
+                  onChange={(e) => updateBurnMechanism({
+                    chemicalClass: (e.target.value || undefined) as BurnMechanism['chemicalClass'],
+                  })}
+                  className="w-full p-2 border border-border rounded-md bg-background text-sm"
+                >
+                  <option value="">Acid or alkali?</option>
+                  <option value="acid">Acid</option>
+                  <option value="alkali">Alkali</option>
+                </select>
+                <Input
+                  id="mechanism-agent"
+                  aria-label="Chemical agent"
+                  placeholder="Agent, e.g. drain cleaner"
+                  maxLength={100}
+                  value={patientData.burnMechanism.agent ?? ''}
+                  onChange={(e) => updateBurnMechanism({ agent: e.target.value || undefined })}
+                />
+              </div>
+            )}
+            <Label htmlFor="mechanism" className="text-xs text-muted-foreground">Details</Label>
             <Input
               id="mechanism"
               placeholder="e.g., scalding, flame, contact"
@@ -371,10 +533,10 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
           >
             <legend id="special-sites-legend" className="text-sm font-medium">Special Areas Involved</legend>
             <p id="special-sites-help" className="text-xs text-muted-foreground">
-              Select areas that require special attention (face, hands, feet, perineum, major joints)
+              Face, hands, feet and perineum are derived from the body map; select major joints if involved
             </p>
             <div className="grid grid-cols-2 gap-2" role="list">
-              {Object.entries(patientData.specialSites).map(([site, checked]) => (
+              {Object.entries(specialSites).map(([site, checked]) => (
                 <label 
                   key={site} 
                   className="flex items-center space-x-2 focus-within:ring-2 focus-within:ring-primary focus-within:ring-offset-2 rounded p-1"
@@ -384,10 +546,12 @@ export default function InputForm({ onReviewClick }: InputFormProps) {
                     type="checkbox"
                     checked={checked}
                     onChange={(e) => handleSpecialSiteChange(site, e.target.checked)}
+                    disabled={site !== 'majorJoints'}
                     className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
                     aria-describedby={`special-site-${site}-desc`}
                   />
                   <span className="text-sm capitalize">{site}</span>
+                  {site !== 'majorJoints' && <span className="text-xs text-muted-foreground">(from body map)</span>}
                   <span id={`special-site-${site}-desc`} className="sr-only">
                     {site === 'face' && 'May require airway management'}
                     {site === 'hands' && 'Critical for function, may need specialist care'}
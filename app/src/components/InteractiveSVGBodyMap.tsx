@@ -2,12 +2,16 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useWizardStore } from '@/store/useWizardStore';
-import { calculateTBSA } from '@/domain/tbsa';
+import { calculateTBSA, getCountedShare } from '@/domain/tbsa';
 import { getBurnDepthInfo } from '@/constants/burnDepth';
 import { getBodyAreaPercentage } from '@/constants/lundBrowder';
-import type { RegionKey, BurnFraction, BurnDepth } from '@/domain/types';
-
-const FRACTION_OPTIONS: BurnFraction[] = [0, 0.25, 0.5, 0.75, 1];
+import { QUARTER_FRACTIONS, getSelectionTbsa, nextQuarterFraction, toDisplayFraction } from '@/domain/regionSelections';
+import PreciseRegionEditor from '@/components/PreciseRegionEditor';
+import DepthZoneEditor from '@/components/DepthZoneEditor';
+import { getSubRegionFraction, getSubRegionForView } from '@/domain/subRegions';
+import { SUB_REGIONS } from '@/constants/subRegions';
+import { BODY_MAP_PATHS, BODY_OUTLINE_PATH } from '@/constants/bodyMapPaths';
+import type { RegionKey, BurnDepth } from '@/domain/types';
 
 interface SVGBodyMapProps {
   className?: string;
@@ -16,7 +20,17 @@ interface SVGBodyMapProps {
 }
 
 export default function InteractiveSVGBodyMap({ className, onToggleView: _onToggleView, currentTbsa }: SVGBodyMapProps) {
-  const { regionSelections, patientData, setRegionSelection, updateAllRegionDepths } = useWizardStore();
+  const {
+    regionSelections,
+    patientData,
+    settings,
+    setRegionSelection,
+    setSubRegionSelection,
+    updateAllRegionDepths,
+    updateSettings,
+  } = useWizardStore();
+  const preciseEntry = settings.preciseRegionEntry ?? false;
+  const detailedRegions = settings.detailedRegions ?? false;
   const [selectedDepth, setSelectedDepth] = React.useState<BurnDepth>('superficial-partial');
   const [viewOrientation, setViewOrientation] = React.useState<'anterior' | 'posterior'>('anterior');
 
@@ -34,13 +48,17 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
     }
   }, [currentTbsa, patientData.ageMonths, regionSelections]);
 
-  const getRegionFraction = (regionKey: RegionKey): BurnFraction => {
+  const getRegionFraction = (regionKey: RegionKey): number => {
+    // In detailed mode each view shows its own surface of the region
+    const subRegion = detailedRegions ? getSubRegionForView(regionKey, viewOrientation) : undefined;
+    if (subRegion) return getSubRegionFraction(regionSelections, subRegion.key);
     const selection = regionSelections.find(s => s.region === regionKey);
     return selection?.fraction || 0;
   };
 
-  const getRegionColor = (fraction: BurnFraction): string => {
-    switch (fraction) {
+  const getRegionColor = (fraction: number): string => {
+    // Precise entries are shaded at the next quarter step
+    switch (toDisplayFraction(fraction)) {
       case 0: return '#f1f5f9'; // Light gray
       case 0.25: return '#fef3c7'; // Light amber
       case 0.5: return '#fed7aa'; // Light orange  
@@ -50,71 +68,22 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
     }
   };
 
-  const getRegionStroke = (fraction: BurnFraction): string => {
+  const getRegionStroke = (fraction: number): string => {
     return fraction > 0 ? '#0f766e' : '#94a3b8'; // Teal when selected, gray when not
   };
 
   const handleRegionClick = (regionKey: RegionKey) => {
-    const currentFraction = getRegionFraction(regionKey);
-    const currentIndex = FRACTION_OPTIONS.indexOf(currentFraction);
-    const nextIndex = (currentIndex + 1) % FRACTION_OPTIONS.length;
-    const nextFraction = FRACTION_OPTIONS[nextIndex];
-    
+    const nextFraction = nextQuarterFraction(getRegionFraction(regionKey));
+    const subRegion = detailedRegions ? getSubRegionForView(regionKey, viewOrientation) : undefined;
+    if (subRegion) {
+      setSubRegionSelection(subRegion.key, nextFraction, selectedDepth);
+      return;
+    }
+
     setRegionSelection(regionKey, nextFraction, nextFraction > 0 ? selectedDepth : undefined);
   };
 
-  // Define SVG paths for different orientations
-  const getRegionPath = (regionKey: RegionKey): string => {
-    if (viewOrientation === 'anterior') {
-      // Anterior (front) view paths
-      switch (regionKey) {
-        case 'Head': return "M 180 30 Q 200 10 220 30 Q 235 45 230 70 Q 225 85 200 90 Q 175 85 170 70 Q 165 45 180 30 Z"; // Anterior head (face)
-        case 'Neck': return "M 190 90 Q 200 95 210 90 L 215 110 L 185 110 Z";
-        case 'Ant_Trunk': return "M 170 110 Q 200 105 230 110 L 240 200 Q 200 210 160 200 Z";
-        case 'Post_Trunk': return "M 80 80 Q 120 75 130 100 L 125 140 Q 115 150 85 145 Q 75 135 80 110 Z"; // Keep in upper left for now
-        case 'R_U_Arm': return "M 240 120 Q 260 125 270 140 L 275 180 Q 265 185 250 180 L 245 145 Z";
-        case 'L_U_Arm': return "M 160 120 Q 140 125 130 140 L 125 180 Q 135 185 150 180 L 155 145 Z";
-        case 'R_L_Arm': return "M 270 180 Q 280 185 285 200 L 290 240 Q 280 245 265 240 L 260 205 Z";
-        case 'L_L_Arm': return "M 130 180 Q 120 185 115 200 L 110 240 Q 120 245 135 240 L 140 205 Z";
-        case 'R_Hand': return "M 285 240 Q 295 245 300 260 Q 295 275 285 270 Q 275 265 280 250 Z";
-        case 'L_Hand': return "M 115 240 Q 105 245 100 260 Q 105 275 115 270 Q 125 265 120 250 Z";
-        case 'R_Buttock': return "M 210 200 Q 225 205 235 220 Q 230 235 215 230 Q 205 225 210 210 Z";
-        case 'L_Buttock': return "M 190 200 Q 175 205 165 220 Q 170 235 185 230 Q 195 225 190 210 Z";
-        case 'Genitalia': return "M 190 230 Q 200 235 210 230 Q 205 245 195 240 Z";
-        case 'R_Thigh': return "M 210 240 Q 230 245 240 280 L 235 340 Q 225 345 210 340 L 205 280 Z";
-        case 'L_Thigh': return "M 190 240 Q 170 245 160 280 L 165 340 Q 175 345 190 340 L 195 280 Z";
-        case 'R_Leg': return "M 235 340 Q 245 345 250 380 L 245 480 Q 235 485 225 480 L 230 380 Z";
-        case 'L_Leg': return "M 165 340 Q 155 345 150 380 L 155 480 Q 165 485 175 480 L 170 380 Z";
-        case 'R_Foot': return "M 245 480 Q 255 485 265 500 Q 260 515 245 510 Q 235 505 240 490 Z"; // Anterior right foot
-        case 'L_Foot': return "M 155 480 Q 145 485 135 500 Q 140 515 155 510 Q 165 505 160 490 Z"; // Anterior left foot
-        default: return "";
-      }
-    } else {
-      // Posterior (back) view paths - modified for back view
-      switch (regionKey) {
-        case 'Head': return "M 185 35 Q 200 15 215 35 Q 225 50 220 65 Q 215 80 200 85 Q 185 80 180 65 Q 175 50 185 35 Z"; // Posterior head (back of head, slightly smaller)
-        case 'Neck': return "M 190 90 Q 200 95 210 90 L 215 110 L 185 110 Z"; // Same neck
-        case 'Ant_Trunk': return "M 80 80 Q 120 75 130 100 L 125 140 Q 115 150 85 145 Q 75 135 80 110 Z"; // Move to upper left (now represents front from back view)
-        case 'Post_Trunk': return "M 170 110 Q 200 105 230 110 L 240 200 Q 200 210 160 200 Z"; // Main torso area now represents back
-        case 'R_U_Arm': return "M 160 120 Q 140 125 130 140 L 125 180 Q 135 185 150 180 L 155 145 Z"; // Flip arms for back view
-        case 'L_U_Arm': return "M 240 120 Q 260 125 270 140 L 275 180 Q 265 185 250 180 L 245 145 Z";
-        case 'R_L_Arm': return "M 130 180 Q 120 185 115 200 L 110 240 Q 120 245 135 240 L 140 205 Z"; // Flip forearms
-        case 'L_L_Arm': return "M 270 180 Q 280 185 285 200 L 290 240 Q 280 245 265 240 L 260 205 Z";
-        case 'R_Hand': return "M 115 240 Q 105 245 100 260 Q 105 275 115 270 Q 125 265 120 250 Z"; // Flip hands
-        case 'L_Hand': return "M 285 240 Q 295 245 300 260 Q 295 275 285 270 Q 275 265 280 250 Z";
-        case 'R_Buttock': return "M 190 200 Q 175 205 165 220 Q 170 235 185 230 Q 195 225 190 210 Z"; // Flip buttocks
-        case 'L_Buttock': return "M 210 200 Q 225 205 235 220 Q 230 235 215 230 Q 205 225 210 210 Z";
-        case 'Genitalia': return "M 190 230 Q 200 235 210 230 Q 205 245 195 240 Z"; // Same genitalia (not visible from back but keep for consistency)
-        case 'R_Thigh': return "M 190 240 Q 170 245 160 280 L 165 340 Q 175 345 190 340 L 195 280 Z"; // Flip thighs
-        case 'L_Thigh': return "M 210 240 Q 230 245 240 280 L 235 340 Q 225 345 210 340 L 205 280 Z";
-        case 'R_Leg': return "M 165 340 Q 155 345 150 380 L 155 480 Q 165 485 175 480 L 170 380 Z"; // Flip legs
-        case 'L_Leg': return "M 235 340 Q 245 345 250 380 L 245 480 Q 235 485 225 480 L 230 380 Z";
-        case 'R_Foot': return "M 160 485 Q 150 490 140 505 Q 145 520 160 515 Q 170 510 165 495 Z"; // Posterior right foot (flipped and slightly different shape)
-        case 'L_Foot': return "M 240 485 Q 250 490 260 505 Q 255 520 240 515 Q 230 510 235 495 Z"; // Posterior left foot (flipped and slightly different shape)
-        default: return "";
-      }
-    }
-  };
+  const getRegionPath = (regionKey: RegionKey): string => BODY_MAP_PATHS[viewOrientation][regionKey] ?? '';
 
   const RegionPath = ({ 
     regionKey, 
@@ -194,6 +163,15 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
                   <option value="deep-partial">Deep Partial (2nd Degree) - Less sensation</option>
                   <option value="full-thickness">Full Thickness (3rd Degree) - No sensation</option>
                 </select>
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={detailedRegions}
+                    onChange={(e) => updateSettings({ detailedRegions: e.target.checked })}
+                    className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
+                  />
+                  Detailed regions (face/scalp, palm/dorsum, front/back of limbs)
+                </label>
               </div>
             </div>
 
@@ -357,7 +335,7 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
 
                   {/* Body outline for reference */}
                   <path
-                    d="M 180 30 Q 200 10 220 30 Q 235 45 230 70 Q 225 85 200 90 Q 175 85 170 70 Q 165 45 180 30 Z M 190 90 Q 200 95 210 90 L 230 110 Q 240 120 270 140 L 285 200 Q 295 245 300 260 Q 295 275 285 270 Q 280 265 285 240 L 250 380 L 265 500 Q 260 515 245 510 Q 235 505 240 490 L 245 480 L 235 340 L 240 280 Q 235 245 240 200 L 160 200 Q 165 245 160 280 L 165 340 L 155 480 L 160 490 Q 165 505 155 510 Q 140 515 135 500 L 150 380 L 115 240 Q 105 275 100 260 Q 105 245 115 240 L 130 180 Q 140 125 170 110 Z"
+                    d={BODY_OUTLINE_PATH}
                     fill="none"
                     stroke="#0f766e"
                     strokeWidth="1"
@@ -373,13 +351,13 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
                 Click on body regions to select burn involvement
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                Each click cycles: 0% → 25% → 50% → 75% → 100%
+                Each click cycles: 0% → 25% → 50% → 75% → 100%{preciseEntry && '. Fine-tune each region below.'}
               </p>
             </div>
 
             {/* Legend */}
             <div className="flex flex-wrap justify-center gap-4 text-xs p-3 bg-muted/30 rounded-md border">
-              {FRACTION_OPTIONS.map((fraction) => (
+              {QUARTER_FRACTIONS.map((fraction) => (
                 <div key={fraction} className="flex items-center gap-2">
                   <div 
                     className="w-4 h-4 rounded border-2 shadow-sm legend-color-square"
@@ -396,7 +374,18 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
             {/* Selected Regions List */}
             {regionSelections.length > 0 && (
               <div className="space-y-2">
-                <h4 className="font-medium">Selected Regions:</h4>
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium">Selected Regions:</h4>
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={preciseEntry}
+                      onChange={(e) => updateSettings({ preciseRegionEntry: e.target.checked })}
+                      className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
+                    />
+                    Precise percentages
+                  </label>
+                </div>
                 <div className="space-y-1 text-sm">
                   {regionSelections
                     .filter(s => s.fraction > 0)
@@ -404,7 +393,8 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
                       const depthInfo = selection.depth ? getBurnDepthInfo(selection.depth) : null;
                       const ageYears = patientData.ageMonths / 12;
                       const basePercentage = getBodyAreaPercentage(selection.region, ageYears);
-                      const contributedTbsa = basePercentage * selection.fraction;
+                      const countedShare = getCountedShare(selection);
+                      const contributedTbsa = getSelectionTbsa(selection, ageYears) * countedShare;
                       // Get proper region label with anterior/posterior context
                       const getRegionDisplayName = (regionKey: RegionKey): string => {
                         const baseRegionMap: Record<RegionKey, string> = {
@@ -456,10 +446,20 @@ export default function InteractiveSVGBodyMap({ className, onToggleView: _onTogg
                               )}
                               <div className="text-xs text-muted-foreground mt-1">
                                 {Math.round(selection.fraction * 100)}% of {basePercentage}% = <span className="font-medium text-primary">{contributedTbsa.toFixed(1)}% TBSA</span>
+                                {countedShare < 1 && <span> (superficial area not counted)</span>}
                               </div>
+                              {selection.subRegions && (
+                                <div className="text-xs text-muted-foreground mt-1">
+                                  {selection.subRegions
+                                    .map(sub => `${SUB_REGIONS[sub.subRegion].label} ${Math.round(sub.fraction * 100)}%`)
+                                    .join(' · ')}
+                                </div>
+                              )}
                             </div>
                             <span className="font-bold text-primary text-lg ml-3">{Math.round(selection.fraction * 100)}%</span>
                           </div>
+                          {preciseEntry && <PreciseRegionEditor selection={selection} label={regionLabel} />}
+                          <DepthZoneEditor selection={selection} label={regionLabel} />
                         </div>
                       );
                     })}
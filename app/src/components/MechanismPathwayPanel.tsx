@@ -0,0 +1,48 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Zap } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { getMechanismPathway } from '@/domain/mechanisms';
+
+/**
+ * Shows the warnings and checklists for the selected mechanism of injury
+ */
+export default function MechanismPathwayPanel() {
+  const { patientData } = useWizardStore();
+
+  if (!patientData.burnMechanism) return null;
+  const pathway = getMechanismPathway(patientData.burnMechanism);
+  if (pathway.warnings.length === 0 && pathway.checklists.length === 0) return null;
+
+  return (
+    <Card className="burn-wizard-card animate-fade-in-up">
+      <CardHeader>
+        <CardTitle className="burn-wizard-heading-sm flex items-center gap-2">
+          <Zap className="h-4 w-4" />
+          {pathway.label} Pathway
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pathway.warnings.length > 0 && (
+          <ul className="p-3 rounded-md border bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800 text-sm text-orange-800 dark:text-orange-200 space-y-1" role="alert">
+            {pathway.warnings.map(warning => (
+              <li key={warning}>⚠️ {warning}</li>
+            ))}
+          </ul>
+        )}
+        {pathway.checklists.map(checklist => (
+          <div key={checklist.title}>
+            <h4 className="text-sm font-medium mb-1">{checklist.title}</h4>
+            <ul className="text-sm space-y-1">
+              {checklist.items.map(item => (
+                <li key={item} className="flex items-start gap-2">
+                  <input type="checkbox" aria-label={item} className="mt-1 rounded border-gray-300" />
+                  <span>{item}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
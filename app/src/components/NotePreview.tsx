@@ -9,27 +9,29 @@ import {
   AlertCircle,
   Eye,
   EyeOff,
-  File
+  File,
+  ShieldCheck
 } from 'lucide-react';
 import { useWizardStore } from '@/store/useWizardStore';
-import { 
-  makeBurnAssessmentNote, 
-  makeDischargeTeachingNote, 
-  makeBurnProcedureNote, 
-  makeBurnHandoffNote 
-} from '@/domain/notes';
-import type { BurnNoteData } from '@/domain/types';
-import { generatePDFReport, redactPHI } from '@/lib/pdfGenerator'; // Import PDF functions
-import BodyMap from '@/components/BodyMap'; // Import BodyMap component
+import { makeClinicalNote } from '@/domain/notes';
+import { getActiveNoteTemplate } from '@/domain/noteTemplates';
+import {
+  DEFAULT_DEIDENTIFICATION,
+  DEIDENTIFICATION_MODE_LABELS,
+  createDeidentificationContext,
+  formatDeidentificationReport,
+  makeDeidentifiedNote,
+  summarizeDeidentification,
+} from '@/domain/deidentify';
+import type { BurnNoteData, ClinicalNoteType, DeidentificationReport } from '@/domain/types';
+import { decodeDataUrl, generatePDFReport } from '@/lib/pdfGenerator';
 
 interface NotePreviewProps {
   className?: string;
 }
 
-type NoteType = 'assessment' | 'procedure' | 'discharge' | 'handoff';
-
 const NOTE_TYPES: Array<{
-  type: NoteType;
+  type: ClinicalNoteType;
   label: string;
   description: string;
   icon: React.ComponentType<{ className?: string }>;
@@ -61,9 +63,9 @@ const NOTE_TYPES: Array<{
 ];
 
 export default function NotePreview({ className }: NotePreviewProps) {
-  const { patientData, regionSelections, tbsaResult, fluidResult } = useWizardStore();
-  const [selectedNoteType, setSelectedNoteType] = React.useState<NoteType>('assessment');
-  const [copiedStates, setCopiedStates] = React.useState<Record<NoteType, boolean>>({
+  const { patientData, regionSelections, tbsaResult, fluidResult, reassessments, flowsheet, settings } = useWizardStore();
+  const [selectedNoteType, setSelectedNoteType] = React.useState<ClinicalNoteType>('assessment');
+  const [copiedStates, setCopiedStates] = React.useState<Record<ClinicalNoteType, boolean>>({
     assessment: false,
     procedure: false,
     discharge: false,
@@ -71,7 +73,6 @@ export default function NotePreview({ className }: NotePreviewProps) {
   });
   const [isPreviewCollapsed, setIsPreviewCollapsed] = React.useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = React.useState(false); // PDF loading state
-  const bodyMapRef = React.useRef<HTMLDivElement>(null); // Ref for BodyMap capture
 
   // Generate note data
   const noteData: BurnNoteData | null = React.useMemo(() => {
@@ -82,29 +83,33 @@ export default function NotePreview({ className }: NotePreviewProps) {
       tbsa: tbsaResult,
       fluids: fluidResult,
       regions: regionSelections,
-      timestamp: new Date()
+      timestamp: new Date(),
+      reassessments,
+      flowsheet
     };
-  }, [patientData, tbsaResult, fluidResult, regionSelections]);
+  }, [patientData, tbsaResult, fluidResult, regionSelections, reassessments, flowsheet]);
 
-  // Generate the current note content
-  const currentNoteContent = React.useMemo(() => {
-    if (!noteData) return '';
-    
-    switch (selectedNoteType) {
-      case 'assessment':
-        return makeBurnAssessmentNote(noteData);
-      case 'procedure':
-        return makeBurnProcedureNote(noteData);
-      case 'discharge':
-        return makeDischargeTeachingNote(noteData);
-      case 'handoff':
-        return makeBurnHandoffNote(noteData);
-      default:
-        return '';
+  const deidentification = settings.deidentification ?? DEFAULT_DEIDENTIFICATION;
+  const template = getActiveNoteTemplate(selectedNoteType, settings.noteTemplates?.[selectedNoteType]);
+
+  // Generate the current note content, de-identified when enabled since every
+  // copy, download and PDF starts from it
+  const { currentNoteContent, deidentificationReport } = React.useMemo((): {
+    currentNoteContent: string;
+    deidentificationReport: DeidentificationReport | null;
+  } => {
+    if (!noteData) return { currentNoteContent: '', deidentificationReport: null };
+    if (!deidentification.enabled) {
+      return { currentNoteContent: makeClinicalNote(selectedNoteType, noteData, template), deidentificationReport: null };
     }
-  }, [noteData, selectedNoteType]);
+    const ctx = createDeidentificationContext(deidentification.mode);
+    return {
+      currentNoteContent: makeDeidentifiedNote(selectedNoteType, noteData, ctx, template),
+      deidentificationReport: summarizeDeidentification(ctx),
+    };
+  }, [noteData, selectedNoteType, template, deidentification.enabled, deidentification.mode]);
 
-  const handleCopyToClipboard = async (noteType: NoteType, content: string) => {
+  const handleCopyToClipboard = async (noteType: ClinicalNoteType, content: string) => {
     try {
       await navigator.clipboard.writeText(content);
       setCopiedStates(prev => ({ ...prev, [noteType]: true }));
@@ -130,7 +135,7 @@ export default function NotePreview({ className }: NotePreviewProps) {
     }
   };
 
-  const handleDownloadNote = (noteType: NoteType, content: string) => {
+  const handleDownloadNote = (noteType: ClinicalNoteType, content: string) => {
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -143,27 +148,17 @@ export default function NotePreview({ className }: NotePreviewProps) {
   };
 
   // Handle PDF export
-  const handleExportPDF = async (noteType: NoteType, content: string) => {
+  const handleExportPDF = async (noteType: ClinicalNoteType, content: string) => {
     if (!noteData) return;
     
     try {
       setIsGeneratingPDF(true);
       
-      // Redact PHI from content
-      const redactedContent = redactPHI(content);
-      
-      // Capture BodyMap element if available
-      let bodyMapElement: HTMLElement | undefined = undefined;
-      if (bodyMapRef.current) {
-        bodyMapElement = bodyMapRef.current;
-      }
-      
-      // Generate PDF
-        const pdfBytes = await generatePDFReport(
-          redactedContent,
-          bodyMapElement, // Pass captured body map element
-          'Burn Center' // Default institution name
-      );
+      // Content is already de-identified; generate PDF with the institution branding from settings
+      const pdfBytes = await generatePDFReport(noteType, noteData, content, {
+        institutionName: settings.report?.institutionName,
+        logo: settings.report?.logoDataUrl ? decodeDataUrl(settings.report.logoDataUrl) : undefined,
+      });
       
       // Create and download PDF using the Uint8Array directly
       // @ts-expect-error - TypeScript has issues with Uint8Array in Blob constructor
@@ -310,6 +305,17 @@ export default function NotePreview({ className }: NotePreviewProps) {
             <span>Words: {currentNoteContent.split(/\s+/).length}</span>
             <span>Lines: {currentNoteContent.split('\n').length}</span>
           </div>
+
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <ShieldCheck className="h-4 w-4 flex-shrink-0" />
+            {deidentificationReport ? (
+              <span>
+                De-identified ({DEIDENTIFICATION_MODE_LABELS[deidentificationReport.mode]}): {formatDeidentificationReport(deidentificationReport)}
+              </span>
+            ) : (
+              <span>De-identification is off; copies and exports contain the note as generated</span>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -420,15 +426,11 @@ export default function NotePreview({ className }: NotePreviewProps) {
           
           <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-3">
             Replace these placeholders with actual clinical data before using the notes in patient care.
+            Note wording and sections can be customised under Settings → Note Templates.
           </p>
         </CardContent>
       </Card>
 
-      {/* Hidden BodyMap for PDF capture */}
-      <div ref={bodyMapRef} className="sr-only absolute -left-[9999px]">
-        <BodyMap />
-      </div>
-      
       {/* Educational Disclaimer */}
       <Card className="bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700">
         <CardContent className="p-4">
@@ -0,0 +1,235 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, CheckCircle, RotateCcw, Save } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { NOTE_TITLES, buildNoteTemplateContext } from '@/domain/notes';
+import {
+  activateNoteTemplateVersion,
+  getActiveNoteTemplate,
+  renderTemplate,
+  saveNoteTemplateVersion,
+  validateTemplate,
+} from '@/domain/noteTemplates';
+import { calculateTBSA } from '@/domain/tbsa';
+import { calculateFluids } from '@/domain/fluids';
+import { DEFAULT_NOTE_TEMPLATES, NOTE_TEMPLATE_VARIABLES } from '@/constants/noteTemplates';
+import type { BurnNoteData, ClinicalNoteType, NoteTemplateHistory, PatientData, RegionSelection } from '@/domain/types';
+
+const SAMPLE_PATIENT: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 2,
+  mechanism: 'Flame burn',
+  specialSites: { face: false, hands: true, feet: false, perineum: false, majorJoints: false },
+};
+
+const SAMPLE_REGIONS: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+  { region: 'R_U_Arm', fraction: 0.5, depth: 'full-thickness' },
+];
+
+/**
+ * Assessment used for the preview when no assessment has been entered
+ */
+function buildSampleNoteData(): BurnNoteData {
+  const tbsa = calculateTBSA(SAMPLE_PATIENT.ageMonths, SAMPLE_REGIONS);
+  return {
+    patient: SAMPLE_PATIENT,
+    tbsa,
+    fluids: calculateFluids({ ...SAMPLE_PATIENT, tbsaPct: tbsa.tbsaPct }),
+    regions: SAMPLE_REGIONS,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Settings card for editing, previewing and versioning note templates
+ */
+export default function NoteTemplateEditor() {
+  const { patientData, regionSelections, tbsaResult, fluidResult, reassessments, flowsheet, settings, updateSettings } = useWizardStore();
+  const [noteType, setNoteType] = React.useState<ClinicalNoteType>('assessment');
+  const history = settings.noteTemplates?.[noteType];
+  const activeSource = getActiveNoteTemplate(noteType, history);
+  const [draft, setDraft] = React.useState(activeSource);
+  const [comment, setComment] = React.useState('');
+
+  // Start from the active template whenever the note type or active version changes
+  React.useEffect(() => {
+    setDraft(activeSource);
+    setComment('');
+  }, [noteType, activeSource]);
+
+  const previewData = React.useMemo((): BurnNoteData => {
+    if (!tbsaResult || !fluidResult) return buildSampleNoteData();
+    return {
+      patient: patientData,
+      tbsa: tbsaResult,
+      fluids: fluidResult,
+      regions: regionSelections,
+      timestamp: new Date(),
+      reassessments,
+      flowsheet,
+    };
+  }, [patientData, tbsaResult, fluidResult, regionSelections, reassessments, flowsheet]);
+
+  const syntaxError = validateTemplate(draft);
+  const preview = React.useMemo(
+    () => (syntaxError ? null : renderTemplate(draft, buildNoteTemplateContext(previewData))),
+    [draft, syntaxError, previewData]
+  );
+
+  const updateHistory = (next: NoteTemplateHistory) => {
+    updateSettings({ noteTemplates: { ...settings.noteTemplates, [noteType]: next } });
+  };
+
+  const handleSave = () => {
+    updateHistory(saveNoteTemplateVersion(history, draft, comment));
+  };
+
+  const handleActivate = (version: number | null) => {
+    if (history) updateHistory(activateNoteTemplateVersion(history, version));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Note Templates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Reword, reorder or remove sections of the generated notes. Use {'{{variable}}'} to insert values,
+          {' {{#if variable}}...{{else}}...{{/if}}'} for optional sections and {'{{#each list}}...{{/each}}'} to
+          repeat for every item. Names that are not variables, such as {'{{CLINICIAN_NAME}}'}, are left for the
+          clinician to fill in.
+        </p>
+
+        <div className="space-y-1">
+          <label htmlFor="template-note-type" className="text-sm font-medium">Note</label>
+          <select
+            id="template-note-type"
+            value={noteType}
+            onChange={(e) => setNoteType(e.target.value as ClinicalNoteType)}
+            className="w-full p-2 border border-border rounded-md bg-background text-sm"
+          >
+            {(Object.keys(NOTE_TITLES) as ClinicalNoteType[]).map(type => (
+              <option key={type} value={type}>
+                {NOTE_TITLES[type]}
+                {settings.noteTemplates?.[type]?.activeVersion ? ` (version ${settings.noteTemplates[type]?.activeVersion})` : ' (built-in)'}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label htmlFor="template-source" className="text-sm font-medium">Template</label>
+            <textarea
+              id="template-source"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              rows={24}
+              className="w-full p-2 border border-border rounded-md bg-background font-mono text-xs"
+            />
+            {syntaxError ? (
+              <p className="flex items-center gap-1 text-sm text-red-600" role="alert">
+                <AlertCircle className="h-4 w-4" />
+                {syntaxError}
+              </p>
+            ) : (
+              <p className="flex items-center gap-1 text-sm text-green-700 dark:text-green-400">
+                <CheckCircle className="h-4 w-4" />
+                Template is valid
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              Preview {tbsaResult && fluidResult ? '(current assessment)' : '(sample assessment)'}
+            </p>
+            <pre className="h-[29rem] overflow-auto p-2 border border-border rounded-md bg-muted/30 text-xs whitespace-pre-wrap">
+              {preview?.text ?? ''}
+            </pre>
+            {preview && preview.unresolved.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Left for the clinician (check for typos): {preview.unresolved.join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[12rem] space-y-1">
+            <label htmlFor="template-comment" className="text-sm font-medium">Change note (optional)</label>
+            <input
+              id="template-comment"
+              value={comment}
+              placeholder="e.g. Added trauma team contact"
+              onChange={(e) => setComment(e.target.value)}
+              className="w-full p-2 border border-border rounded-md bg-background text-sm"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={syntaxError !== null || draft === activeSource}>
+            <Save className="h-4 w-4 mr-2" />
+            Save as new version
+          </Button>
+          <Button variant="outline" onClick={() => setDraft(activeSource)} disabled={draft === activeSource}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Discard changes
+          </Button>
+          <Button variant="outline" onClick={() => setDraft(DEFAULT_NOTE_TEMPLATES[noteType])}>
+            Load built-in
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Versions</h4>
+          <ul className="space-y-1 text-sm">
+            <li className="flex items-center justify-between gap-2 p-2 border border-border rounded-md">
+              <span>Built-in template</span>
+              {history?.activeVersion ? (
+                <Button variant="outline" size="sm" onClick={() => handleActivate(null)}>Use</Button>
+              ) : (
+                <Badge variant="secondary">Active</Badge>
+              )}
+            </li>
+            {[...(history?.versions ?? [])].reverse().map(version => (
+              <li key={version.version} className="flex items-center justify-between gap-2 p-2 border border-border rounded-md">
+                <span>
+                  Version {version.version} - {new Date(version.savedAt).toLocaleString()}
+                  {version.comment && <span className="text-muted-foreground"> - {version.comment}</span>}
+                </span>
+                <span className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setDraft(version.source)}>Edit</Button>
+                  {version.version === history?.activeVersion ? (
+                    <Badge variant="secondary">Active</Badge>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => handleActivate(version.version)}>Use</Button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <details className="text-sm">
+          <summary className="cursor-pointer font-medium">Available variables</summary>
+          <dl className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+            {NOTE_TEMPLATE_VARIABLES.map(variable => (
+              <div key={variable.name}>
+                <dt className="font-mono text-xs">{variable.name}</dt>
+                <dd className="text-xs text-muted-foreground">{variable.description}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Inside {'{{#each}}'}, use {'{{this}}'} for the item, its field names directly, and @first, @last or @number.
+          </p>
+        </details>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useWizardStore } from '@/store/useWizardStore';
+import { getBodyAreaPercentage } from '@/constants/lundBrowder';
+import { getSelectionTbsa } from '@/domain/regionSelections';
+import { round1 } from '@/lib/utils';
+import type { RegionSelection } from '@/domain/types';
+
+interface PreciseRegionEditorProps {
+  selection: RegionSelection;
+  label: string;
+}
+
+/**
+ * Slider and numeric editing of exact involvement for one selected region
+ */
+export default function PreciseRegionEditor({ selection, label }: PreciseRegionEditorProps) {
+  const { patientData, setPreciseRegionSelection } = useWizardStore();
+  const [error, setError] = React.useState<string | null>(null);
+  const ageYears = patientData.ageMonths / 12;
+  const regionPct = getBodyAreaPercentage(selection.region, ageYears);
+  const tbsaPct = round1(getSelectionTbsa(selection, ageYears));
+  const idPrefix = `precise-${selection.region}`;
+
+  const apply = (value: { fraction: number } | { tbsaPct: number }) => {
+    try {
+      setPreciseRegionSelection(selection.region, value);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid region percentage');
+    }
+  };
+
+  return (
+    <div className="space-y-2 mt-2">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-fraction`} className="text-xs">
+          % of {label} involved
+        </Label>
+        <div className="flex items-center gap-2">
+          <input
+            id={`${idPrefix}-fraction`}
+            type="range"
+            min="0"
+            max="100"
+            step="1"
+            value={Math.round(selection.fraction * 100)}
+            onChange={(e) => apply({ fraction: parseInt(e.target.value, 10) / 100 })}
+            className="flex-1 accent-primary"
+          />
+          <span className="text-xs font-medium w-10 text-right">{Math.round(selection.fraction * 100)}%</span>
+        </div>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor={`${idPrefix}-tbsa`} className="text-xs">
+            Exact %TBSA (max {regionPct}%)
+          </Label>
+          <Input
+            id={`${idPrefix}-tbsa`}
+            type="number"
+            min="0"
+            max={regionPct}
+            step="0.1"
+            value={tbsaPct}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value)) apply({ tbsaPct: value });
+            }}
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+    </div>
+  );
+}
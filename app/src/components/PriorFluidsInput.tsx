@@ -0,0 +1,121 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Trash2 } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import type { PriorFluidSource, PriorFluidVolume } from '@/domain/types';
+
+const SOURCE_LABELS: Record<PriorFluidSource, string> = {
+  'prehospital': 'Prehospital (EMS)',
+  'referring-facility': 'Referring facility',
+};
+
+/**
+ * Records fluid already given before arrival so Parkland uses actual delivery
+ */
+export default function PriorFluidsInput() {
+  const { patientData, setPatientData } = useWizardStore();
+  const priorFluids = patientData.priorFluids;
+  const enabled = priorFluids !== undefined;
+
+  const setPriorFluids = (next: PriorFluidVolume[] | undefined) => setPatientData({ priorFluids: next });
+
+  const updateFluid = (index: number, changes: Partial<PriorFluidVolume>) => {
+    if (!priorFluids) return;
+    setPriorFluids(priorFluids.map((fluid, i) => (i === index ? { ...fluid, ...changes } : fluid)));
+  };
+
+  const addFluid = () => {
+    setPriorFluids([
+      ...(priorFluids ?? []),
+      { source: 'prehospital', volumeMl: 0, startHour: 0, endHour: patientData.hoursSinceInjury },
+    ]);
+  };
+
+  return (
+    <fieldset className="space-y-2" aria-labelledby="prior-fluids-legend">
+      <legend id="prior-fluids-legend" className="text-sm font-medium">Fluids Already Given</legend>
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setPriorFluids(e.target.checked ? [] : undefined)}
+          className="rounded border-gray-300 focus:ring-2 focus:ring-primary"
+        />
+        <span>Use actual delivered volume (transfer or late presentation)</span>
+      </label>
+      <p className="text-xs text-muted-foreground">
+        When enabled, the remaining volume and rate are calculated from what was actually given, not from an on-schedule assumption.
+        Leave the list empty if no fluid has been given yet.
+      </p>
+
+      {enabled && (
+        <div className="space-y-2">
+          {priorFluids.map((fluid, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end p-2 border rounded-md">
+              <div className="col-span-2 sm:col-span-1 space-y-1">
+                <Label htmlFor={`prior-source-${index}`} className="text-xs">Source</Label>
+                <select
+                  id={`prior-source-${index}`}
+                  value={fluid.source}
+                  onChange={(e) => updateFluid(index, { source: e.target.value as PriorFluidSource })}
+                  className="w-full h-10 p-2 border border-border rounded-md bg-background text-sm"
+                >
+                  {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prior-volume-${index}`} className="text-xs">Volume (mL)</Label>
+                <Input
+                  id={`prior-volume-${index}`}
+                  type="number"
+                  min="0"
+                  value={fluid.volumeMl}
+                  onChange={(e) => updateFluid(index, { volumeMl: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prior-start-${index}`} className="text-xs">From (h)</Label>
+                <Input
+                  id={`prior-start-${index}`}
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={fluid.startHour}
+                  onChange={(e) => updateFluid(index, { startHour: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`prior-end-${index}`} className="text-xs">To (h)</Label>
+                <Input
+                  id={`prior-end-${index}`}
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={fluid.endHour}
+                  onChange={(e) => updateFluid(index, { endHour: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setPriorFluids(priorFluids.filter((_, i) => i !== index))}
+                aria-label={`Remove prior fluid ${index + 1}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addFluid}>
+            Add Volume Given
+          </Button>
+          <p className="text-xs text-muted-foreground">Times are hours from injury.</p>
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, Trash2 } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { compareReassessments, describeRegionChange, sortReassessments } from '@/domain/reassessment';
+import { cn } from '@/lib/utils';
+import type { RegionChangeType } from '@/domain/types';
+
+const CHANGE_STYLES: Record<RegionChangeType, string> = {
+  'new': 'text-red-700 dark:text-red-300',
+  'progressed': 'text-red-700 dark:text-red-300 font-medium',
+  'extent-changed': 'text-amber-700 dark:text-amber-300',
+  'improved': 'text-green-700 dark:text-green-300',
+  'resolved': 'text-green-700 dark:text-green-300',
+  'unchanged': 'text-muted-foreground',
+};
+
+export default function ReassessmentTimeline() {
+  const { reassessments, regionSelections, recordReassessment, removeReassessment } = useWizardStore();
+  const [error, setError] = React.useState<string | null>(null);
+  const ordered = React.useMemo(() => sortReassessments(reassessments), [reassessments]);
+  const [compareFromId, setCompareFromId] = React.useState<string | null>(null);
+
+  const latest = ordered[ordered.length - 1];
+  const compareFrom = ordered.find(r => r.id === compareFromId) ?? ordered[ordered.length - 2];
+
+  const diff = React.useMemo(() => {
+    if (!latest || !compareFrom || latest.id === compareFrom.id) return null;
+    return compareReassessments(compareFrom, latest);
+  }, [latest, compareFrom]);
+
+  const handleRecord = () => {
+    try {
+      recordReassessment();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to record reassessment');
+    }
+  };
+
+  return (
+    <Card className="burn-wizard-card animate-fade-in-up">
+      <CardHeader>
+        <CardTitle className="burn-wizard-heading-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Burn Evolution
+          </span>
+          <Button size="sm" variant="outline" onClick={handleRecord} disabled={regionSelections.length === 0}>
+            Record Reassessment
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+        {ordered.length === 0 ? (
+          <p className="burn-wizard-body-sm text-muted-foreground text-center py-4">
+            Record a reassessment to snapshot the current body map. Repeat over the first 48-72 hours to track depth progression.
+          </p>
+        ) : (
+          <ol className="space-y-2" aria-label="Recorded reassessments">
+            {ordered.map((r, index) => (
+              <li key={r.id} className="flex items-center justify-between gap-2 p-2 border rounded-md text-sm">
+                <div>
+                  <span className="font-medium">#{index + 1} · {r.hoursSinceInjury}h post-injury</span>
+                  <span className="text-muted-foreground"> · TBSA {r.tbsa.tbsaPct}%</span>
+                  <div className="text-xs text-muted-foreground">{new Date(r.recordedAt).toLocaleString()}</div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeReassessment(r.id)}
+                  aria-label={`Remove reassessment ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {ordered.length >= 2 && latest && (
+          <div className="space-y-2 pt-4 border-t border-border">
+            <label htmlFor="compare-from" className="text-sm font-medium">Compare latest with:</label>
+            <select
+              id="compare-from"
+              value={compareFrom?.id ?? ''}
+              onChange={(e) => setCompareFromId(e.target.value)}
+              className="w-full p-2 border border-border rounded-md bg-background text-sm"
+            >
+              {ordered.slice(0, -1).map((r, index) => (
+                <option key={r.id} value={r.id}>
+                  #{index + 1} ({r.hoursSinceInjury}h, TBSA {r.tbsa.tbsaPct}%)
+                </option>
+              ))}
+            </select>
+
+            {diff && (
+              <div className="bg-muted/50 rounded-md p-3 text-sm space-y-1">
+                <p className="font-medium">
+                  TBSA {diff.tbsaBefore}% → {diff.tbsaAfter}% ({diff.tbsaDelta > 0 ? '+' : ''}{diff.tbsaDelta}%) over {diff.hoursElapsed}h
+                </p>
+                {diff.changes.length === 0 ? (
+                  <p className="text-muted-foreground">No regional changes</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {diff.changes.map(change => (
+                      <li key={change.region} className={cn(CHANGE_STYLES[change.type])}>
+                        • {describeRegionChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BadgeAlert } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { evaluateReferralCriteria } from '@/domain/referral';
+import { cn } from '@/lib/utils';
+
+/**
+ * Shows which ABA burn-center referral criteria the current assessment meets
+ */
+export default function ReferralPanel() {
+  const { patientData, regionSelections } = useWizardStore();
+
+  const assessment = React.useMemo(() => {
+    try {
+      return evaluateReferralCriteria(patientData, regionSelections);
+    } catch {
+      return null;
+    }
+  }, [patientData, regionSelections]);
+
+  if (!assessment) return null;
+
+  const notAssessed = assessment.criteria.filter(criterion => criterion.status === 'not-assessed');
+
+  return (
+    <Card className="burn-wizard-card animate-fade-in-up">
+      <CardHeader>
+        <CardTitle className="burn-wizard-heading-sm flex items-center gap-2">
+          <BadgeAlert className="h-4 w-4" />
+          Burn Center Referral
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div
+          className={cn(
+            'p-3 rounded-md border text-sm font-medium',
+            assessment.referralRecommended
+              ? 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-800 text-orange-800 dark:text-orange-200'
+              : 'bg-muted/30 border-border'
+          )}
+          role="status"
+        >
+          {assessment.referralRecommended
+            ? `Referral recommended: ${assessment.met.length} ABA criteri${assessment.met.length === 1 ? 'on' : 'a'} met`
+            : 'No ABA referral criteria met from the recorded data'}
+        </div>
+
+        {assessment.met.length > 0 && (
+          <ul className="text-sm space-y-2">
+            {assessment.met.map(criterion => (
+              <li key={criterion.id}>
+                <div className="font-medium">{criterion.label}</div>
+                <div className="text-xs text-muted-foreground">{criterion.reason}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {notAssessed.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            <div className="font-medium mb-1">Also consider (not assessed here):</div>
+            <ul className="space-y-0.5">
+              {notAssessed.map(criterion => (
+                <li key={criterion.id}>• {criterion.label}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
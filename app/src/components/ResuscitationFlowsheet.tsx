@@ -0,0 +1,317 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Trash2 } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { buildFlowsheet, MAX_FLOWSHEET_HOUR } from '@/domain/flowsheet';
+import { analyzeFluidCreep, IVY_INDEX_ML_PER_KG } from '@/domain/fluidCreep';
+import { WEIGHT_BASIS_LABELS } from '@/domain/dosingWeight';
+import { cn } from '@/lib/utils';
+import type { FlowsheetRow, FluidResult, VitalSigns } from '@/domain/types';
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 28;
+
+/**
+ * Parses an optional numeric input ('' = not recorded)
+ */
+function parseOptional(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Actual vs target cumulative volume chart
+ */
+function ActualVsTargetChart({ rows, fluidResult }: { rows: FlowsheetRow[]; fluidResult: FluidResult }) {
+  const maxHour = Math.max(24, ...rows.map(r => r.hourFromInjury));
+  const visibleTarget = fluidResult.timeline.filter(p => p.hourFromInjury <= maxHour);
+  const maxMl = Math.max(...visibleTarget.map(p => p.targetCumulativeMl), ...rows.map(r => r.cumulativeMl), 1);
+  const x = (hour: number) => CHART_PADDING + (hour / maxHour) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (ml: number) => CHART_HEIGHT - CHART_PADDING - (ml / maxMl) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const targetPoints = visibleTarget
+    .map(p => `${x(p.hourFromInjury)},${y(p.targetCumulativeMl)}`)
+    .join(' ');
+  const actualPoints = [{ hourFromInjury: 0, cumulativeMl: 0 }, ...rows]
+    .map(r => `${x(r.hourFromInjury)},${y(r.cumulativeMl)}`)
+    .join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Actual cumulative fluid compared with Parkland target"
+    >
+      <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-muted-foreground" strokeWidth={1} />
+      <line x1={CHART_PADDING} y1={CHART_PADDING} x2={CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="stroke-muted-foreground" strokeWidth={1} />
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 8} className="fill-muted-foreground" fontSize={9}>0h</text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-muted-foreground" fontSize={9}>{maxHour}h</text>
+      <text x={CHART_PADDING + 2} y={CHART_PADDING - 6} className="fill-muted-foreground" fontSize={9}>{Math.round(maxMl)} mL</text>
+      <polyline points={targetPoints} fill="none" stroke="#2563eb" strokeWidth={2} strokeDasharray="4 3" />
+      <polyline points={actualPoints} fill="none" stroke="#ea580c" strokeWidth={2} />
+      {rows.map(r => (
+        <circle key={r.hourFromInjury} cx={x(r.hourFromInjury)} cy={y(r.cumulativeMl)} r={2.5} fill="#ea580c" />
+      ))}
+    </svg>
+  );
+}
+
+export default function ResuscitationFlowsheet() {
+  const { fluidResult, tbsaResult, patientData, flowsheet, recordFlowsheetHour, removeFlowsheetHour } = useWizardStore();
+  const nextHour = Math.min(MAX_FLOWSHEET_HOUR, (flowsheet[flowsheet.length - 1]?.hourFromInjury ?? 0) + 1);
+  const [form, setForm] = React.useState({
+    hour: String(nextHour),
+    infused: '',
+    urine: '',
+    heartRate: '',
+    systolicBP: '',
+    diastolicBP: '',
+    oxygenSat: '',
+  });
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setForm(prev => ({ ...prev, hour: String(nextHour) }));
+  }, [nextHour]);
+
+  const summary = React.useMemo(
+    () => (fluidResult
+      ? buildFlowsheet(flowsheet, fluidResult, {
+          weightKg: patientData.weightKg,
+          ageMonths: patientData.ageMonths,
+          mechanism: patientData.burnMechanism,
+        })
+      : null),
+    [flowsheet, fluidResult, patientData.weightKg, patientData.ageMonths, patientData.burnMechanism]
+  );
+
+  const creep = React.useMemo(() => {
+    if (!fluidResult || !tbsaResult) return null;
+    try {
+      return analyzeFluidCreep(flowsheet, fluidResult, {
+        weightKg: patientData.weightKg,
+        ageMonths: patientData.ageMonths,
+        tbsaPct: tbsaResult.tbsaPct,
+        mechanism: patientData.burnMechanism,
+      });
+    } catch {
+      return null;
+    }
+  }, [flowsheet, fluidResult, tbsaResult, patientData.weightKg, patientData.ageMonths, patientData.burnMechanism]);
+
+  if (!fluidResult || !summary) {
+    return null;
+  }
+
+  const updateField = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const vitals: VitalSigns = {
+      heartRate: parseOptional(form.heartRate),
+      systolicBP: parseOptional(form.systolicBP),
+      diastolicBP: parseOptional(form.diastolicBP),
+      oxygenSat: parseOptional(form.oxygenSat),
+    };
+    const hasVitals = Object.values(vitals).some(v => v !== undefined);
+
+    try {
+      recordFlowsheetHour(Number(form.hour), Number(form.infused), Number(form.urine), hasVitals ? vitals : undefined);
+      setForm(prev => ({ ...prev, infused: '', urine: '', heartRate: '', systolicBP: '', diastolicBP: '', oxygenSat: '' }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to record hour');
+    }
+  };
+
+  const deficit = summary.currentDeficitMl;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hourly Resuscitation Flowsheet</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Entry Form */}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="fs-hour">Hour post-injury</Label>
+              <Input id="fs-hour" type="number" min={1} max={MAX_FLOWSHEET_HOUR} step={1} value={form.hour} onChange={updateField('hour')} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fs-infused">Infused (mL)</Label>
+              <Input id="fs-infused" type="number" min={0} value={form.infused} onChange={updateField('infused')} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fs-urine">Urine output (mL)</Label>
+              <Input id="fs-urine" type="number" min={0} value={form.urine} onChange={updateField('urine')} required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fs-hr">HR (bpm)</Label>
+              <Input id="fs-hr" type="number" min={0} value={form.heartRate} onChange={updateField('heartRate')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fs-sbp">BP (mmHg)</Label>
+              <div className="flex gap-1">
+                <Input id="fs-sbp" type="number" min={0} placeholder="Sys" value={form.systolicBP} onChange={updateField('systolicBP')} aria-label="Systolic BP" />
+                <Input type="number" min={0} placeholder="Dia" value={form.diastolicBP} onChange={updateField('diastolicBP')} aria-label="Diastolic BP" />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fs-spo2">SpO₂ (%)</Label>
+              <Input id="fs-spo2" type="number" min={0} max={100} value={form.oxygenSat} onChange={updateField('oxygenSat')} />
+            </div>
+          </div>
+          <Button type="submit" size="sm">Record Hour</Button>
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+        </form>
+
+        {summary.rows.length > 0 && (
+          <>
+            {/* Running Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded">
+                <p className="text-sm font-medium">Total Infused</p>
+                <p className="text-xl font-bold text-blue-600">{summary.totalInfusedMl} mL</p>
+              </div>
+              <div className={cn(
+                'p-3 rounded',
+                deficit > 0 ? 'bg-orange-50 dark:bg-orange-900/20' : 'bg-green-50 dark:bg-green-900/20'
+              )}>
+                <p className="text-sm font-medium">{deficit > 0 ? 'Behind Target' : deficit < 0 ? 'Ahead of Target' : 'On Target'}</p>
+                <p className={cn('text-xl font-bold', deficit > 0 ? 'text-orange-600' : 'text-green-600')}>
+                  {Math.abs(deficit)} mL
+                </p>
+              </div>
+              <div className="bg-purple-50 dark:bg-purple-900/20 p-3 rounded">
+                <p className="text-sm font-medium">Recommended Rate</p>
+                <p className="text-xl font-bold text-purple-600">{summary.recommendedRateMlPerHr} mL/hr</p>
+              </div>
+            </div>
+
+            {/* Cumulative Fluid Creep */}
+            {creep && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  Delivered <span className="font-medium">{creep.deliveredMlPerKgPerTbsa} mL/kg/%TBSA</span> vs{' '}
+                  {creep.targetMlPerKgPerTbsa} target at hour {creep.hoursCharted} (formula {creep.formulaMlPerKgPerTbsa} over 24h
+                  {creep.weightBasis !== 'actual' && `; per kg of ${WEIGHT_BASIS_LABELS[creep.weightBasis]}, ${creep.weightKg}kg`})
+                  {' · '}Ivy index {creep.ivyIndexMlPerKg} / {IVY_INDEX_ML_PER_KG} mL/kg
+                </p>
+                {creep.alerts.length > 0 && (
+                  <ul className="space-y-1" role="alert">
+                    {creep.alerts.map(alert => (
+                      <li
+                        key={alert.id}
+                        className={cn(
+                          'p-2 rounded-md border text-sm',
+                          alert.severity === 'critical'
+                            ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+                            : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+                        )}
+                      >
+                        {alert.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {creep.compartmentSyndromePrompts.length > 0 && (
+                  <div className="text-sm space-y-1">
+                    <p className="font-medium">Abdominal compartment syndrome risk</p>
+                    <ul className="space-y-1">
+                      {creep.compartmentSyndromePrompts.map(prompt => (
+                        <li key={prompt}>□ {prompt}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Chart */}
+            <div className="space-y-1">
+              <ActualVsTargetChart rows={summary.rows} fluidResult={fluidResult} />
+              <div className="flex gap-4 text-xs text-muted-foreground">
+                <span><span className="inline-block w-3 border-t-2 border-dashed border-blue-600 mr-1 align-middle" />Parkland target</span>
+                <span><span className="inline-block w-3 border-t-2 border-orange-600 mr-1 align-middle" />Actual</span>
+              </div>
+            </div>
+
+            {/* Flowsheet Table */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse border border-gray-200 dark:border-gray-700">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-800">
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Hour</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">In (mL)</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Actual / Target</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Deficit</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">UO</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Titration</th>
+                    <th className="border border-gray-200 dark:border-gray-700 p-2" aria-label="Actions" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.rows.map((row, index) => (
+                    <tr key={row.hourFromInjury} className={index % 2 === 0 ? 'bg-white dark:bg-gray-900' : 'bg-gray-50 dark:bg-gray-800'}>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">
+                        {row.hourFromInjury}h
+                        {!row.vitalsStable && <Badge variant="destructive" className="ml-1">Vitals</Badge>}
+                      </td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{row.infusedMl}</td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">{row.cumulativeMl} / {row.targetCumulativeMl}</td>
+                      <td className={cn(
+                        'border border-gray-200 dark:border-gray-700 p-2',
+                        row.deficitMl > 0 ? 'text-orange-600' : 'text-green-600'
+                      )}>
+                        {row.deficitMl > 0 ? `-${row.deficitMl}` : `+${Math.abs(row.deficitMl)}`}
+                      </td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2">
+                        {row.urineOutputMl} mL ({row.urineOutputMlPerKgPerHr} mL/kg/hr)
+                      </td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2" title={row.titration.reason}>
+                        <span className="capitalize">{row.titration.adjustment}</span> → {row.titration.toRateMlPerHr} mL/hr
+                      </td>
+                      <td className="border border-gray-200 dark:border-gray-700 p-2 text-center">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeFlowsheetHour(row.hourFromInjury)}
+                          aria-label={`Remove hour ${row.hourFromInjury}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Titration Log */}
+            <div className="space-y-2">
+              <h3 className="font-semibold">Titration Steps</h3>
+              <ul className="text-sm space-y-1">
+                {summary.titrationSteps.map(step => (
+                  <li key={step.hourFromInjury}>
+                    <span className="font-medium">Hour {step.hourFromInjury}:</span>{' '}
+                    {step.fromRateMlPerHr} → {step.toRateMlPerHr} mL/hr — {step.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Ruler } from 'lucide-react';
+import { useWizardStore } from '@/store/useWizardStore';
+import { TBSA_METHOD_LABELS, compareTbsaMethods } from '@/domain/tbsaMethods';
+import { cn } from '@/lib/utils';
+import type { TbsaMethod } from '@/domain/types';
+
+/**
+ * Chooses the TBSA estimation method and compares quick estimates with Lund-Browder
+ */
+export default function TbsaMethodPanel() {
+  const { patientData, regionSelections, setPatientData } = useWizardStore();
+  const method = patientData.tbsaMethod ?? 'lund-browder';
+
+  const comparison = React.useMemo(() => {
+    try {
+      return compareTbsaMethods(patientData.ageMonths, regionSelections, patientData.palmCount);
+    } catch {
+      return [];
+    }
+  }, [patientData.ageMonths, regionSelections, patientData.palmCount]);
+
+  return (
+    <Card className="burn-wizard-card animate-fade-in-up">
+      <CardHeader>
+        <CardTitle className="burn-wizard-heading-sm flex items-center gap-2">
+          <Ruler className="h-4 w-4" />
+          TBSA Estimation Method
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="tbsa-method">Method used for calculation</Label>
+          <select
+            id="tbsa-method"
+            value={method}
+            onChange={(e) => setPatientData({ tbsaMethod: e.target.value as TbsaMethod })}
+            className="w-full p-2 border border-border rounded-md bg-background text-sm"
+          >
+            {Object.entries(TBSA_METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="palm-count">Palm count (scattered burns)</Label>
+          <Input
+            id="palm-count"
+            type="number"
+            min="0"
+            max="100"
+            step="0.5"
+            value={patientData.palmCount ?? ''}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setPatientData({ palmCount: Number.isFinite(value) ? value : undefined });
+            }}
+            placeholder="Number of patient palms"
+          />
+          <p className="text-xs text-muted-foreground">
+            One patient palm including fingers ≈ 1% TBSA. Used by the Rule of Palms; body map selections are ignored.
+          </p>
+        </div>
+
+        {comparison.length > 0 && regionSelections.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="border border-gray-200 dark:border-gray-700 p-2 text-left">Method</th>
+                  <th className="border border-gray-200 dark:border-gray-700 p-2 text-right">TBSA</th>
+                  <th className="border border-gray-200 dark:border-gray-700 p-2 text-right">vs Lund-Browder</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(row => (
+                  <tr key={row.method} className={cn(row.method === method && 'font-medium bg-muted/50')}>
+                    <td className="border border-gray-200 dark:border-gray-700 p-2">{row.label}</td>
+                    <td className="border border-gray-200 dark:border-gray-700 p-2 text-right">{row.tbsaPct}%</td>
+                    <td
+                      className={cn(
+                        'border border-gray-200 dark:border-gray-700 p-2 text-right',
+                        Math.abs(row.deltaFromLundBrowder) >= 5 && 'text-amber-700 dark:text-amber-300'
+                      )}
+                    >
+                      {row.method === 'lund-browder'
+                        ? 'reference'
+                        : `${row.deltaFromLundBrowder > 0 ? '+' : ''}${row.deltaFromLundBrowder}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground mt-2">
+              Rule of Nines overestimates the head and underestimates the legs in young children; Lund-Browder adjusts for age.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
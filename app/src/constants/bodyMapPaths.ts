@@ -0,0 +1,67 @@
+/**
+ * Body Map Outlines
+ *
+ * SVG path data for the interactive body map, shared with the PDF report so
+ * the printed map matches what was charted. Coordinates are in a 400 × 600
+ * viewBox with y increasing downwards.
+ *
+ * CLINICAL NOTES:
+ * - The anterior view shows the posterior trunk as an inset (upper left) and
+ *   the posterior view shows the anterior trunk the same way
+ * - Left and right swap between views, as when facing the patient's back
+ */
+
+import type { BodyArea, BodyView } from '@/domain/types';
+
+export const BODY_MAP_VIEWBOX = { width: 400, height: 600 } as const;
+
+export const BODY_MAP_PATHS: Record<BodyView, Record<BodyArea, string>> = {
+  anterior: {
+    Head: 'M 180 30 Q 200 10 220 30 Q 235 45 230 70 Q 225 85 200 90 Q 175 85 170 70 Q 165 45 180 30 Z',
+    Neck: 'M 190 90 Q 200 95 210 90 L 215 110 L 185 110 Z',
+    Ant_Trunk: 'M 170 110 Q 200 105 230 110 L 240 200 Q 200 210 160 200 Z',
+    Post_Trunk: 'M 80 80 Q 120 75 130 100 L 125 140 Q 115 150 85 145 Q 75 135 80 110 Z',
+    R_U_Arm: 'M 240 120 Q 260 125 270 140 L 275 180 Q 265 185 250 180 L 245 145 Z',
+    L_U_Arm: 'M 160 120 Q 140 125 130 140 L 125 180 Q 135 185 150 180 L 155 145 Z',
+    R_L_Arm: 'M 270 180 Q 280 185 285 200 L 290 240 Q 280 245 265 240 L 260 205 Z',
+    L_L_Arm: 'M 130 180 Q 120 185 115 200 L 110 240 Q 120 245 135 240 L 140 205 Z',
+    R_Hand: 'M 285 240 Q 295 245 300 260 Q 295 275 285 270 Q 275 265 280 250 Z',
+    L_Hand: 'M 115 240 Q 105 245 100 260 Q 105 275 115 270 Q 125 265 120 250 Z',
+    R_Buttock: 'M 210 200 Q 225 205 235 220 Q 230 235 215 230 Q 205 225 210 210 Z',
+    L_Buttock: 'M 190 200 Q 175 205 165 220 Q 170 235 185 230 Q 195 225 190 210 Z',
+    Genitalia: 'M 190 230 Q 200 235 210 230 Q 205 245 195 240 Z',
+    R_Thigh: 'M 210 240 Q 230 245 240 280 L 235 340 Q 225 345 210 340 L 205 280 Z',
+    L_Thigh: 'M 190 240 Q 170 245 160 280 L 165 340 Q 175 345 190 340 L 195 280 Z',
+    R_Leg: 'M 235 340 Q 245 345 250 380 L 245 480 Q 235 485 225 480 L 230 380 Z',
+    L_Leg: 'M 165 340 Q 155 345 150 380 L 155 480 Q 165 485 175 480 L 170 380 Z',
+    R_Foot: 'M 245 480 Q 255 485 265 500 Q 260 515 245 510 Q 235 505 240 490 Z',
+    L_Foot: 'M 155 480 Q 145 485 135 500 Q 140 515 155 510 Q 165 505 160 490 Z',
+  },
+  posterior: {
+    Head: 'M 185 35 Q 200 15 215 35 Q 225 50 220 65 Q 215 80 200 85 Q 185 80 180 65 Q 175 50 185 35 Z',
+    Neck: 'M 190 90 Q 200 95 210 90 L 215 110 L 185 110 Z',
+    Ant_Trunk: 'M 80 80 Q 120 75 130 100 L 125 140 Q 115 150 85 145 Q 75 135 80 110 Z',
+    Post_Trunk: 'M 170 110 Q 200 105 230 110 L 240 200 Q 200 210 160 200 Z',
+    R_U_Arm: 'M 160 120 Q 140 125 130 140 L 125 180 Q 135 185 150 180 L 155 145 Z',
+    L_U_Arm: 'M 240 120 Q 260 125 270 140 L 275 180 Q 265 185 250 180 L 245 145 Z',
+    R_L_Arm: 'M 130 180 Q 120 185 115 200 L 110 240 Q 120 245 135 240 L 140 205 Z',
+    L_L_Arm: 'M 270 180 Q 280 185 285 200 L 290 240 Q 280 245 265 240 L 260 205 Z',
+    R_Hand: 'M 115 240 Q 105 245 100 260 Q 105 275 115 270 Q 125 265 120 250 Z',
+    L_Hand: 'M 285 240 Q 295 245 300 260 Q 295 275 285 270 Q 275 265 280 250 Z',
+    R_Buttock: 'M 190 200 Q 175 205 165 220 Q 170 235 185 230 Q 195 225 190 210 Z',
+    L_Buttock: 'M 210 200 Q 225 205 235 220 Q 230 235 215 230 Q 205 225 210 210 Z',
+    Genitalia: 'M 190 230 Q 200 235 210 230 Q 205 245 195 240 Z',
+    R_Thigh: 'M 190 240 Q 170 245 160 280 L 165 340 Q 175 345 190 340 L 195 280 Z',
+    L_Thigh: 'M 210 240 Q 230 245 240 280 L 235 340 Q 225 345 210 340 L 205 280 Z',
+    R_Leg: 'M 165 340 Q 155 345 150 380 L 155 480 Q 165 485 175 480 L 170 380 Z',
+    L_Leg: 'M 235 340 Q 245 345 250 380 L 245 480 Q 235 485 225 480 L 230 380 Z',
+    R_Foot: 'M 160 485 Q 150 490 140 505 Q 145 520 160 515 Q 170 510 165 495 Z',
+    L_Foot: 'M 240 485 Q 250 490 260 505 Q 255 520 240 515 Q 230 510 235 495 Z',
+  },
+};
+
+/**
+ * Whole-body silhouette drawn behind the regions for reference
+ */
+export const BODY_OUTLINE_PATH =
+  'M 180 30 Q 200 10 220 30 Q 235 45 230 70 Q 225 85 200 90 Q 175 85 170 70 Q 165 45 180 30 Z M 190 90 Q 200 95 210 90 L 230 110 Q 240 120 270 140 L 285 200 Q 295 245 300 260 Q 295 275 285 270 Q 280 265 285 240 L 250 380 L 265 500 Q 260 515 245 510 Q 235 505 240 490 L 245 480 L 235 340 L 240 280 Q 235 245 240 200 L 160 200 Q 165 245 160 280 L 165 340 L 155 480 L 160 490 Q 165 505 155 510 Q 140 515 135 500 L 150 380 L 115 240 Q 105 275 100 260 Q 105 245 115 240 L 130 180 Q 140 125 170 110 Z';
@@ -65,21 +65,3 @@ export function getBurnDepthInfo(depth: BurnDepth): BurnDepthInfo {
 export function getAllBurnDepths(): BurnDepthInfo[] {
   return Object.values(BURN_DEPTH_INFO);
 }
-
-/**
- * Determine if burn depth typically requires transfer to burn center
- */
-export function requiresBurnCenter(depth: BurnDepth, tbsaPct: number): boolean {
-  switch (depth) {
-    case 'superficial':
-      return false;
-    case 'superficial-partial':
-      return tbsaPct > 10; // >10% partial thickness in adults
-    case 'deep-partial':
-      return tbsaPct > 5; // >5% deep partial thickness
-    case 'full-thickness':
-      return tbsaPct > 2; // >2% full thickness
-    default:
-      return false;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,326 @@
+/**
+ * Built-in note templates and the variables they can use
+ * See domain/noteTemplates for the placeholder language
+ */
+
+import type { ClinicalNoteType } from '@/domain/types';
+
+const BURN_ASSESSMENT_TEMPLATE = `BURN ASSESSMENT NOTE
+Generated: {{generatedAt}}
+
+PATIENT: {{patient.age}}, {{patient.weightKg}}kg{{#if patient.heightCm}}, {{patient.heightCm}}cm{{/if}}
+
+MECHANISM: {{mechanism.description}}{{#if patient.hoursSinceInjury}} occurring {{patient.hoursSinceInjury}} hours ago{{/if}}
+{{#if mechanism.pathway}}
+
+MECHANISM-SPECIFIC PATHWAY ({{mechanism.pathway.label}}):
+{{#each mechanism.pathway.warnings}}
+⚠️  {{this}}
+{{/each}}
+{{#each mechanism.pathway.checklists}}
+{{title}}:
+{{#each items}}
+□ {{this}}
+{{/each}}
+{{/each}}
+{{/if}}
+
+BURN ASSESSMENT:
+- Total Body Surface Area: {{tbsa.pct}}% ({{tbsa.method}}, {{tbsa.ageGroup}} age group)
+{{#if tbsa.bsaM2}}
+- Body surface area: {{tbsa.bsaM2}} m² ({{tbsa.bsaMethod}}), burned {{tbsa.burnedBsaM2}} m²
+{{/if}}
+{{#if tbsa.superficialPct}}
+- Superficial (not counted): {{tbsa.superficialPct}}% - first-degree burns are excluded from TBSA and fluid calculations
+{{/if}}
+{{#if tbsa.depth}}
+- Depth: partial thickness {{tbsa.depth.partialThicknessPct}}% TBSA, full thickness {{tbsa.depth.fullThicknessPct}}% TBSA
+{{/if}}
+- Distribution: {{#each regions}}{{description}}{{#unless @last}}, {{/unless}}{{else}}{{#if regionsCharted}}No significant burns{{else}}No burns selected{{/if}}{{/each}}
+- Special areas involved: {{#if specialSites}}{{specialSites}}{{else}}None identified{{/if}}
+{{#if airway}}
+
+AIRWAY / INHALATION INJURY:
+- Risk: {{airway.risk}} (score {{airway.score}}){{#if airway.considerIntubation}} - consider intubation{{/if}}
+- Findings: {{#if airway.findings}}{{airway.findings}}{{else}}None{{/if}}
+{{#if airway.carboxyhemoglobin}}
+- Carboxyhemoglobin: {{airway.carboxyhemoglobin}}
+{{/if}}
+{{#each airway.recommendations}}
+□ {{this}}
+{{/each}}
+{{/if}}
+{{#if reassessments.lines}}
+
+BURN EVOLUTION ({{reassessments.count}} assessments):
+{{#each reassessments.lines}}
+{{this}}
+{{/each}}
+{{/if}}
+
+FLUID RESUSCITATION (Educational):
+{{#if fluids.notice}}
+⚠️  {{fluids.notice}}
+{{/if}}
+
+{{#if fluids.weights}}
+{{#if fluids.weights.idealKg}}
+- Body weight: actual {{fluids.weights.actualKg}}kg, ideal {{fluids.weights.idealKg}}kg, adjusted {{fluids.weights.adjustedKg}}kg (BMI {{fluids.weights.bmi}})
+{{/if}}
+- Resuscitation weight: {{fluids.weights.resuscitation}}
+- Maintenance weight: {{fluids.weights.maintenance}}
+- Urine output weight: {{fluids.weights.urineOutput}}
+{{/if}}
+- {{fluids.formula}} Formula ({{fluids.equation}}): {{fluids.totalMl}}ml total over 24h
+- First 8 hours: {{fluids.first8hMl}}ml ({{fluids.first8hRateMlPerHr}}ml/hr average)
+- Next 16 hours: {{fluids.next16hMl}}ml ({{fluids.next16hRateMlPerHr}}ml/hr average)
+- Current rate needed: {{fluids.rateNowMlPerHr}}ml/hr
+{{#if fluids.delivery}}
+- Fluid already given: {{fluids.delivery.givenMl}}ml ({{fluids.delivery.versusSchedule}} vs schedule)
+- Catch-up rate: {{fluids.delivery.catchUpRateMlPerHr}}ml/hr (ceiling {{fluids.delivery.catchUpCeilingMlPerHr}}ml/hr)
+{{#if fluids.delivery.exceedsCeiling}}
+- ⚠️  Catch-up rate exceeds safe ceiling - avoid bolus catch-up, titrate to urine output
+{{/if}}
+{{/if}}
+- Maintenance fluids: {{fluids.maintenanceMlPerHr}}ml/hr ({{fluids.maintenanceMethod}}: {{fluids.maintenanceFormula}}){{#if fluids.maintenanceIncluded}} - already included in formula volume{{/if}}
+{{#if fluids.hours24To72}}
+- Hours 24-72: {{fluids.hours24To72.totalMlPerHr}}ml/hr ({{fluids.hours24To72.maintenanceMlPerHr}}ml/hr maintenance{{#if fluids.hours24To72.evaporativeLossMlPerHr}}{{#if fluids.hours24To72.evaporativeLossIncluded}}, including{{else}} +{{/if}} {{fluids.hours24To72.evaporativeLossMlPerHr}}ml/hr evaporative loss{{/if}})
+{{/if}}
+{{#if day2To7.lines}}
+
+POST-RESUSCITATION PLAN (DAYS 2-7):
+{{#each day2To7.lines}}
+{{this}}
+{{/each}}
+{{/if}}
+{{#if flowsheet.lines}}
+
+RESUSCITATION FLOWSHEET ({{flowsheet.hours}} charted hours):
+{{#each flowsheet.lines}}
+{{this}}
+{{/each}}
+{{/if}}
+
+{{CLINICAL_ASSESSMENT_PLACEHOLDER}}
+
+PLAN:
+□ Verify fluid calculations with protocol
+□ Monitor urine output (target: {{fluids.urineOutputTarget}} ml/hr)
+□ Pain management per protocol
+□ Wound care per burn team guidelines
+□ Consider transfer to burn center if indicated
+
+EDUCATIONAL DISCLAIMER:
+This tool provides educational calculations only. All treatments must be verified with institutional protocols and clinical judgment. Not for direct patient care decisions.
+
+Generated by Burn Wizard v0.1.0
+`;
+
+const BURN_PROCEDURE_TEMPLATE = `BURN CARE PROCEDURE NOTE
+Generated: {{generatedAt}}
+
+PATIENT: {{patient.age}}, {{patient.weightKg}}kg
+
+INDICATION: Burn wound care for {{tbsa.pct}}% TBSA burn
+
+PROCEDURE PERFORMED:
+□ Wound assessment and documentation
+□ Gentle debridement of loose tissue
+□ Cleansing with {{CLEANSING_SOLUTION}}
+□ Application of {{TOPICAL_AGENT}}
+□ Dressing with {{DRESSING_TYPE}}
+
+WOUND ASSESSMENT:
+- Appearance: {{WOUND_APPEARANCE}}
+- Depth: {{BURN_DEPTH}}
+- Drainage: {{DRAINAGE_DESCRIPTION}}
+- Surrounding skin: {{SURROUNDING_SKIN}}
+- Pain level: {{PAIN_SCORE}}/10
+
+TOLERANCE:
+Patient tolerated procedure {{TOLERANCE_DESCRIPTION}}
+Pain management: {{PAIN_MANAGEMENT}}
+
+PLAN:
+□ Continue current dressing regimen
+□ Redress in {{REDRESSING_FREQUENCY}}
+□ Monitor for signs of infection
+□ Follow-up as scheduled
+
+Clinician: {{CLINICIAN_NAME}}
+Date/Time: {{generatedAt}}
+
+Generated by Burn Wizard v0.1.0
+`;
+
+const DISCHARGE_TEACHING_TEMPLATE = `BURN DISCHARGE TEACHING DOCUMENTATION
+Generated: {{generatedAt}}
+
+PATIENT: {{patient.age}}, burn injury with {{tbsa.pct}}% TBSA
+
+EDUCATION PROVIDED:
+{{#each discharge.topics}}
+{{#unless @first}}
+
+{{/unless}}
+{{heading}}:
+{{#each points}}
+• {{this}}
+{{/each}}
+{{/each}}
+
+
+WHEN TO CONTACT HEALTHCARE PROVIDER:
+{{#each discharge.whenToCall}}
+• {{this}}
+{{/each}}
+
+FOLLOW-UP APPOINTMENTS:
+□ Burn clinic: {{FOLLOW_UP_DATE}}
+□ Primary care: {{PCP_DATE}}
+□ Other: {{OTHER_APPOINTMENTS}}
+
+PATIENT/CAREGIVER UNDERSTANDING:
+□ Demonstrated understanding of wound care
+□ Verbalized when to contact provider
+□ Received written instructions
+□ Questions answered
+
+EDUCATIONAL DISCLAIMER:
+This educational material supplements but does not replace individualized clinical instruction. Follow your healthcare team's specific guidance.
+
+Generated by Burn Wizard v0.1.0
+`;
+
+const BURN_HANDOFF_TEMPLATE = `BURN PATIENT HANDOFF SUMMARY
+Generated: {{generatedAt}}
+
+PATIENT: {{patient.age}}, {{patient.weightKg}}kg
+
+INJURY DETAILS:
+- Mechanism: {{mechanism.description}}
+{{#each mechanism.warnings}}
+- ⚠️ {{this}}
+{{/each}}
+- Time of injury: {{patient.hoursSinceInjury}}h ago
+- TBSA: {{tbsa.pct}}% ({{tbsa.method}}, {{tbsa.ageGroup}} calculations)
+{{#if tbsa.superficialPct}}
+- Superficial (not counted): {{tbsa.superficialPct}}% - first-degree burns are excluded from TBSA and fluid calculations
+{{/if}}
+{{#if tbsa.depth}}
+- Depth: partial thickness {{tbsa.depth.partialThicknessPct}}% TBSA, full thickness {{tbsa.depth.fullThicknessPct}}% TBSA
+{{/if}}
+- Distribution: {{#each regions}}{{description}}{{#unless @last}}, {{/unless}}{{else}}{{#if regionsCharted}}No significant burns{{else}}No burns selected{{/if}}{{/each}}
+- Special concerns: {{#if specialSites}}{{specialSites}}{{else}}None identified{{/if}}
+
+BURN CENTER REFERRAL (ABA criteria):
+{{#if referral.evaluated}}
+{{#each referral.criteria}}
+- {{label}}: {{reason}}
+{{else}}
+- No referral criteria met from the recorded data
+{{/each}}
+{{else}}
+- Referral not evaluated ({{referral.error}}) - review the ABA criteria manually
+{{/if}}
+
+CURRENT FLUID STATUS:
+- Phase: {{fluids.phase}}
+- Formula: {{fluids.formula}} ({{fluids.equation}})
+- Current rate: {{fluids.rateNowMlPerHr}}ml/hr (resuscitation)
+{{#if fluids.delivery}}
+- Fluid already given: {{fluids.delivery.givenMl}}ml ({{fluids.delivery.versusSchedule}} vs schedule)
+- Catch-up rate: {{fluids.delivery.catchUpRateMlPerHr}}ml/hr (ceiling {{fluids.delivery.catchUpCeilingMlPerHr}}ml/hr)
+{{#if fluids.delivery.exceedsCeiling}}
+- ⚠️  Catch-up rate exceeds safe ceiling - avoid bolus catch-up, titrate to urine output
+{{/if}}
+{{/if}}
+- Maintenance: {{fluids.maintenanceMlPerHr}}ml/hr
+- Remaining resuscitation: {{fluids.remainingPhaseMl}}ml
+{{#if day2To7.lines}}
+
+POST-RESUSCITATION PLAN (DAYS 2-7):
+{{#each day2To7.lines}}
+{{this}}
+{{/each}}
+{{/if}}
+{{#if flowsheet.lines}}
+
+RESUSCITATION FLOWSHEET ({{flowsheet.hours}} charted hours):
+{{#each flowsheet.lines}}
+{{this}}
+{{/each}}
+{{/if}}
+
+MONITORING PRIORITIES:
+□ Urine output trending
+□ Fluid balance assessment
+□ Pain management effectiveness
+□ Wound progression
+□ Vital signs stability
+
+PENDING TASKS:
+□ {{PENDING_TASKS}}
+
+CONTACT INFORMATION:
+Burn Team: {{BURN_TEAM_CONTACT}}
+Attending: {{ATTENDING_CONTACT}}
+
+Generated by Burn Wizard v0.1.0
+`;
+
+/**
+ * Built-in templates, reproducing the notes as shipped
+ */
+export const DEFAULT_NOTE_TEMPLATES: Record<ClinicalNoteType, string> = {
+  assessment: BURN_ASSESSMENT_TEMPLATE,
+  procedure: BURN_PROCEDURE_TEMPLATE,
+  discharge: DISCHARGE_TEACHING_TEMPLATE,
+  handoff: BURN_HANDOFF_TEMPLATE,
+};
+
+/**
+ * Variables bound by buildNoteTemplateContext, listed in the template editor
+ */
+export const NOTE_TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'generatedAt', description: 'Note date and time' },
+  { name: 'patient.age', description: 'Age in words, e.g. "4 years, 2 months old"' },
+  { name: 'patient.ageMonths', description: 'Age in months' },
+  { name: 'patient.weightKg', description: 'Weight (kg)' },
+  { name: 'patient.heightCm', description: 'Height (cm), empty when not recorded' },
+  { name: 'patient.hoursSinceInjury', description: 'Hours since injury' },
+  { name: 'mechanism.description', description: 'Structured mechanism and free-text description' },
+  { name: 'mechanism.warnings', description: 'List: mechanism-specific warnings' },
+  { name: 'mechanism.pathway', description: 'label, warnings, checklists (title, items); empty for standard thermal burns' },
+  { name: 'tbsa.pct', description: 'TBSA % (partial and full thickness)' },
+  { name: 'tbsa.method', description: 'TBSA method name' },
+  { name: 'tbsa.ageGroup', description: 'Lund-Browder age group' },
+  { name: 'tbsa.bsaM2', description: 'Body surface area (m²), with tbsa.bsaMethod and tbsa.burnedBsaM2' },
+  { name: 'tbsa.superficialPct', description: 'Superficial area excluded from TBSA (%)' },
+  { name: 'tbsa.depth', description: 'partialThicknessPct, fullThicknessPct; empty when depth is unknown' },
+  { name: 'regions', description: 'List of burned regions: name, description, depth, percentOfRegion, tbsaPct' },
+  { name: 'regionsCharted', description: 'Number of regions charted, including unburned ones' },
+  { name: 'specialSites', description: 'List: special areas involved' },
+  { name: 'airway', description: 'risk, score, considerIntubation, findings, carboxyhemoglobin, recommendations; empty when not assessed' },
+  { name: 'reassessments', description: 'count, lines: burn evolution across reassessments' },
+  { name: 'referral.evaluated', description: 'Yes when the referral criteria could be checked; otherwise referral.error says why' },
+  { name: 'referral.criteria', description: 'List of ABA referral criteria met: label, reason' },
+  { name: 'fluids.formula', description: 'Resuscitation formula name, with fluids.equation' },
+  { name: 'fluids.totalMl', description: '24-hour resuscitation volume (ml)' },
+  { name: 'fluids.first8hMl', description: 'First 8 hours volume (ml), with fluids.first8hRateMlPerHr' },
+  { name: 'fluids.next16hMl', description: 'Next 16 hours volume (ml), with fluids.next16hRateMlPerHr' },
+  { name: 'fluids.rateNowMlPerHr', description: 'Current resuscitation rate (ml/hr)' },
+  { name: 'fluids.phase', description: 'Current resuscitation phase' },
+  { name: 'fluids.remainingPhaseMl', description: 'Volume remaining in the current phase (ml)' },
+  { name: 'fluids.maintenanceMlPerHr', description: 'Maintenance rate, with fluids.maintenanceMethod and fluids.maintenanceFormula' },
+  { name: 'fluids.maintenanceIncluded', description: 'Maintenance is already part of the formula volume' },
+  { name: 'fluids.notice', description: 'Formula notice, empty when none' },
+  { name: 'fluids.weights', description: 'actualKg, idealKg, adjustedKg, bmi, resuscitation, maintenance, urineOutput; empty without a weight policy' },
+  { name: 'fluids.delivery', description: 'givenMl, versusSchedule, catchUpRateMlPerHr, catchUpCeilingMlPerHr, exceedsCeiling; empty when delivery is assumed on schedule' },
+  { name: 'fluids.hours24To72', description: 'totalMlPerHr, maintenanceMlPerHr, evaporativeLossMlPerHr, evaporativeLossIncluded; empty outside hours 24-72' },
+  { name: 'fluids.urineOutputTarget', description: 'Urine output target range (ml/hr)' },
+  { name: 'day2To7.lines', description: 'List: day 2-7 fluid and nutrition plan lines' },
+  { name: 'flowsheet', description: 'hours, lines: charted resuscitation summary' },
+  { name: 'discharge.topics', description: 'List of teaching topics: title, heading, points' },
+  { name: 'discharge.whenToCall', description: 'List: reasons to contact a provider' },
+];
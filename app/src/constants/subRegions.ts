@@ -0,0 +1,77 @@
+/**
+ * Finer Anatomical Regions
+ *
+ * Splits the Lund-Browder chart regions into the parts clinicians chart
+ * separately: face vs scalp, palm vs dorsum of hand, sole vs dorsum of foot,
+ * and anterior vs posterior of each neck and limb segment.
+ *
+ * CLINICAL NOTES:
+ * - Each sub-region is a fixed share of its Lund-Browder parent, and the
+ *   shares of a parent sum to 1, so %TBSA totals are unchanged
+ * - Anterior and posterior surfaces are each taken as half of a segment;
+ *   face and scalp are each half of the head (Lund-Browder charts A/B halves)
+ * - Trunk, buttocks and genitalia already are single-surface regions
+ * - Views follow anatomical position (palms and dorsum of feet face anterior)
+ */
+
+import type { BodyArea, BodyView, DerivedSpecialSite, SubRegionKey } from '@/domain/types';
+
+export interface SubRegionInfo {
+  key: SubRegionKey;
+  parent: BodyArea;
+  share: number; // Fraction of the parent region's area
+  label: string;
+  view: BodyView;
+  specialSite?: DerivedSpecialSite;
+}
+
+export const SUB_REGIONS: Record<SubRegionKey, SubRegionInfo> = {
+  Face: { key: 'Face', parent: 'Head', share: 0.5, label: 'Face', view: 'anterior', specialSite: 'face' },
+  Scalp: { key: 'Scalp', parent: 'Head', share: 0.5, label: 'Scalp', view: 'posterior' },
+  Ant_Neck: { key: 'Ant_Neck', parent: 'Neck', share: 0.5, label: 'Anterior Neck', view: 'anterior' },
+  Post_Neck: { key: 'Post_Neck', parent: 'Neck', share: 0.5, label: 'Posterior Neck', view: 'posterior' },
+  Ant_Trunk: { key: 'Ant_Trunk', parent: 'Ant_Trunk', share: 1, label: 'Anterior Trunk', view: 'anterior' },
+  Post_Trunk: { key: 'Post_Trunk', parent: 'Post_Trunk', share: 1, label: 'Posterior Trunk', view: 'posterior' },
+  R_Buttock: { key: 'R_Buttock', parent: 'R_Buttock', share: 1, label: 'Right Buttock', view: 'posterior' },
+  L_Buttock: { key: 'L_Buttock', parent: 'L_Buttock', share: 1, label: 'Left Buttock', view: 'posterior' },
+  Genitalia: { key: 'Genitalia', parent: 'Genitalia', share: 1, label: 'Genitalia/Perineum', view: 'anterior', specialSite: 'perineum' },
+  R_U_Arm_Ant: { key: 'R_U_Arm_Ant', parent: 'R_U_Arm', share: 0.5, label: 'Right Upper Arm (anterior)', view: 'anterior' },
+  R_U_Arm_Post: { key: 'R_U_Arm_Post', parent: 'R_U_Arm', share: 0.5, label: 'Right Upper Arm (posterior)', view: 'posterior' },
+  L_U_Arm_Ant: { key: 'L_U_Arm_Ant', parent: 'L_U_Arm', share: 0.5, label: 'Left Upper Arm (anterior)', view: 'anterior' },
+  L_U_Arm_Post: { key: 'L_U_Arm_Post', parent: 'L_U_Arm', share: 0.5, label: 'Left Upper Arm (posterior)', view: 'posterior' },
+  R_L_Arm_Ant: { key: 'R_L_Arm_Ant', parent: 'R_L_Arm', share: 0.5, label: 'Right Forearm (anterior)', view: 'anterior' },
+  R_L_Arm_Post: { key: 'R_L_Arm_Post', parent: 'R_L_Arm', share: 0.5, label: 'Right Forearm (posterior)', view: 'posterior' },
+  L_L_Arm_Ant: { key: 'L_L_Arm_Ant', parent: 'L_L_Arm', share: 0.5, label: 'Left Forearm (anterior)', view: 'anterior' },
+  L_L_Arm_Post: { key: 'L_L_Arm_Post', parent: 'L_L_Arm', share: 0.5, label: 'Left Forearm (posterior)', view: 'posterior' },
+  R_Palm: { key: 'R_Palm', parent: 'R_Hand', share: 0.5, label: 'Right Palm', view: 'anterior', specialSite: 'hands' },
+  R_Hand_Dorsum: { key: 'R_Hand_Dorsum', parent: 'R_Hand', share: 0.5, label: 'Right Hand (dorsum)', view: 'posterior', specialSite: 'hands' },
+  L_Palm: { key: 'L_Palm', parent: 'L_Hand', share: 0.5, label: 'Left Palm', view: 'anterior', specialSite: 'hands' },
+  L_Hand_Dorsum: { key: 'L_Hand_Dorsum', parent: 'L_Hand', share: 0.5, label: 'Left Hand (dorsum)', view: 'posterior', specialSite: 'hands' },
+  R_Thigh_Ant: { key: 'R_Thigh_Ant', parent: 'R_Thigh', share: 0.5, label: 'Right Thigh (anterior)', view: 'anterior' },
+  R_Thigh_Post: { key: 'R_Thigh_Post', parent: 'R_Thigh', share: 0.5, label: 'Right Thigh (posterior)', view: 'posterior' },
+  L_Thigh_Ant: { key: 'L_Thigh_Ant', parent: 'L_Thigh', share: 0.5, label: 'Left Thigh (anterior)', view: 'anterior' },
+  L_Thigh_Post: { key: 'L_Thigh_Post', parent: 'L_Thigh', share: 0.5, label: 'Left Thigh (posterior)', view: 'posterior' },
+  R_Leg_Ant: { key: 'R_Leg_Ant', parent: 'R_Leg', share: 0.5, label: 'Right Lower Leg (anterior)', view: 'anterior' },
+  R_Leg_Post: { key: 'R_Leg_Post', parent: 'R_Leg', share: 0.5, label: 'Right Lower Leg (posterior)', view: 'posterior' },
+  L_Leg_Ant: { key: 'L_Leg_Ant', parent: 'L_Leg', share: 0.5, label: 'Left Lower Leg (anterior)', view: 'anterior' },
+  L_Leg_Post: { key: 'L_Leg_Post', parent: 'L_Leg', share: 0.5, label: 'Left Lower Leg (posterior)', view: 'posterior' },
+  R_Foot_Dorsum: { key: 'R_Foot_Dorsum', parent: 'R_Foot', share: 0.5, label: 'Right Foot (dorsum)', view: 'anterior', specialSite: 'feet' },
+  R_Sole: { key: 'R_Sole', parent: 'R_Foot', share: 0.5, label: 'Right Sole', view: 'posterior', specialSite: 'feet' },
+  L_Foot_Dorsum: { key: 'L_Foot_Dorsum', parent: 'L_Foot', share: 0.5, label: 'Left Foot (dorsum)', view: 'anterior', specialSite: 'feet' },
+  L_Sole: { key: 'L_Sole', parent: 'L_Foot', share: 0.5, label: 'Left Sole', view: 'posterior', specialSite: 'feet' },
+};
+
+/**
+ * Special site implied by a whole Lund-Browder region when it is charted without sub-region detail
+ *
+ * A coarse Head selection is treated as involving the face because the face
+ * cannot be excluded without the finer chart.
+ */
+export const PARENT_SPECIAL_SITES: Partial<Record<BodyArea, DerivedSpecialSite>> = {
+  Head: 'face',
+  R_Hand: 'hands',
+  L_Hand: 'hands',
+  R_Foot: 'feet',
+  L_Foot: 'feet',
+  Genitalia: 'perineum',
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createEncryptedStorageAdapter } from '../encryptedStorage';
+
+const patientData = { ageMonths: 360, weightKg: 70, hoursSinceInjury: 2, mechanism: 'Kettle scald at home' };
+const persisted = {
+  state: {
+    patientData,
+    regionSelections: [{ region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' }],
+    reassessments: [{ id: 'reassessment-1', recordedAt: '2024-01-01T12:00:00.000Z', hoursSinceInjury: 1, regionSelections: [] }],
+    flowsheet: [{ hourFromInjury: 1, infusedMl: 350, urineOutputMl: 40, recordedAt: '2024-01-01T12:00:00.000Z' }],
+    cases: [{ id: 'case-1', label: 'Bed 4', patientData, regionSelections: [] }],
+    settings: { darkMode: false },
+  },
+  version: 1,
+};
+
+describe('createEncryptedStorageAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should encrypt the sensitive fields inside the zustand persist state', async () => {
+    const storage = createEncryptedStorageAdapter({ storageKey: 'test-store' });
+    await storage.setItem('test-store', persisted);
+
+    const raw = localStorage.getItem('test-store') ?? '';
+    expect(raw).not.toContain('Kettle scald');
+    expect(raw).not.toContain('Bed 4');
+    const { state } = JSON.parse(raw).data;
+    ['patientData', 'regionSelections', 'reassessments', 'flowsheet', 'cases'].forEach(field => {
+      expect(typeof state[field]).toBe('string');
+    });
+    expect(state.settings).toEqual({ darkMode: false });
+
+    expect(await storage.getItem('test-store')).toEqual(persisted);
+  });
+});
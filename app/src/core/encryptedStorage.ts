@@ -7,6 +7,8 @@
  * - Graceful fallback for encryption failures
  * - Migration support for existing unencrypted data
  * - Selective field encryption based on sensitivity
+ * - Zustand persist wraps the store as { state, version }; the sensitive
+ *   fields inside state are encrypted, not the wrapper
  */
 
 import { 
@@ -25,7 +27,10 @@ const SENSITIVE_DATA_TYPES = {
   PATIENT_DATA: 'patientData',
   REGION_SELECTIONS: 'regionSelections', 
   TBSA_RESULT: 'tbsaResult',
-  FLUID_RESULT: 'fluidResult'
+  FLUID_RESULT: 'fluidResult',
+  REASSESSMENTS: 'reassessments',
+  FLOWSHEET: 'flowsheet',
+  CASES: 'cases'
 } as const;
 
 // Fields within patient data that are considered sensitive
@@ -51,6 +56,13 @@ interface StorageMetadata {
   fields: string[];
 }
 
+/**
+ * Zustand persist value: the partialized store plus its version
+ */
+function isPersistEnvelope(data: Record<string, unknown>): data is { state: Record<string, unknown>; version?: number } {
+  return typeof data.state === 'object' && data.state !== null && !Array.isArray(data.state);
+}
+
 /**
  * Encrypted Storage implementation that wraps localStorage
  */
@@ -123,6 +135,10 @@ export class EncryptedStorage {
       return data;
     }
 
+    if (isPersistEnvelope(data)) {
+      return { ...data, state: await this.encryptSensitiveData(data.state) };
+    }
+
     const result = { ...data };
     
     try {
@@ -144,6 +160,21 @@ export class EncryptedStorage {
       if (result.fluidResult) {
         result.fluidResult = await encryptData(result.fluidResult as Record<string, unknown>);
       }
+      
+      // Encrypt serial reassessment snapshots
+      if (result.reassessments && Array.isArray(result.reassessments)) {
+        result.reassessments = await encryptData({ reassessments: result.reassessments });
+      }
+      
+      // Encrypt hourly flowsheet entries
+      if (result.flowsheet && Array.isArray(result.flowsheet)) {
+        result.flowsheet = await encryptData({ flowsheet: result.flowsheet });
+      }
+      
+      // Encrypt saved cases (each holds a full patient assessment)
+      if (result.cases && Array.isArray(result.cases)) {
+        result.cases = await encryptData({ cases: result.cases });
+      }
 
       return result;
     } catch (error) {
@@ -160,6 +191,10 @@ export class EncryptedStorage {
       return data;
     }
 
+    if (isPersistEnvelope(data)) {
+      return { ...data, state: await this.decryptSensitiveData(data.state) };
+    }
+
     const result = { ...data };
     
     try {
@@ -195,6 +230,30 @@ export class EncryptedStorage {
           result.fluidResult = decrypted;
         }
       }
+      
+      // Decrypt serial reassessment snapshots
+      if (result.reassessments && typeof result.reassessments === 'string') {
+        const decrypted = await decryptData(result.reassessments);
+        if (decrypted && typeof decrypted === 'object' && 'reassessments' in decrypted) {
+          result.reassessments = (decrypted as { reassessments: unknown }).reassessments;
+        }
+      }
+      
+      // Decrypt hourly flowsheet entries
+      if (result.flowsheet && typeof result.flowsheet === 'string') {
+        const decrypted = await decryptData(result.flowsheet);
+        if (decrypted && typeof decrypted === 'object' && 'flowsheet' in decrypted) {
+          result.flowsheet = (decrypted as { flowsheet: unknown }).flowsheet;
+        }
+      }
+      
+      // Decrypt saved cases
+      if (result.cases && typeof result.cases === 'string') {
+        const decrypted = await decryptData(result.cases);
+        if (decrypted && typeof decrypted === 'object' && 'cases' in decrypted) {
+          result.cases = (decrypted as { cases: unknown }).cases;
+        }
+      }
 
       return result;
     } catch (error) {
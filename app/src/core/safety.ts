@@ -115,6 +115,7 @@ export function getContextualDisclaimer(context: 'calculation' | 'assessment' |
  */
 export function validateClinicalInputs(inputs: {
   weightKg?: number;
+  heightCm?: number;
   ageMonths?: number; 
   tbsaPct?: number;
   hoursSinceInjury?: number;
@@ -135,7 +136,17 @@ export function validateClinicalInputs(inputs: {
     } else if (inputs.weightKg < 10) {
       warnings.push('Low weight - consider pediatric protocols');
     } else if (inputs.weightKg > 200) {
-      warnings.push('High weight - consider bariatric considerations');
+      warnings.push(inputs.heightCm === undefined
+        ? 'High weight - record height to calculate ideal/adjusted body weight'
+        : 'High weight - confirm the dosing weight used for fluids');
+    }
+
+    // Adults (≥15 years) with BMI ≥30 get fluids on the dosing weight policy
+    if (inputs.heightCm !== undefined && inputs.heightCm > 0 && (inputs.ageMonths ?? 0) >= 180) {
+      const heightM = inputs.heightCm / 100;
+      if (inputs.weightKg / (heightM * heightM) >= 30) {
+        warnings.push('Obese adult (BMI ≥30) - fluids use ideal/adjusted body weight per policy');
+      }
     }
   }
   
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_AIRWAY_ASSESSMENT, INHALATION_FLUID_FACTOR, assessAirway } from '../airway';
+import { assessBurnFluidManagement } from '../fluids';
+import { evaluateReferralCriteria } from '../referral';
+import { makeBurnAssessmentNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import { calculateFluids } from '../fluids';
+import type { AirwayAssessment, PatientData, RegionSelection } from '../types';
+
+const fluidParams = {
+  weightKg: 70,
+  tbsaPct: 30,
+  ageMonths: 30 * 12,
+  hoursSinceInjury: 1,
+  currentIVRateMlPerHr: 1050,
+  urineOutputMlPerHr: 40,
+  vitals: { heartRate: 100, systolicBP: 120, diastolicBP: 80, oxygenSat: 98 },
+};
+
+const smokeExposure: AirwayAssessment = {
+  ...EMPTY_AIRWAY_ASSESSMENT,
+  enclosedSpace: true,
+  carbonaceousSputum: true,
+  carboxyhemoglobinPct: 18,
+};
+
+describe('assessAirway', () => {
+  it('should score no findings as low risk without recommendations', () => {
+    const result = assessAirway(EMPTY_AIRWAY_ASSESSMENT);
+    expect(result).toEqual({
+      score: 0,
+      risk: 'low',
+      inhalationLikely: false,
+      considerIntubation: false,
+      findings: [],
+      recommendations: [],
+    });
+  });
+
+  it('should grade soft signs as moderate risk', () => {
+    const result = assessAirway({ ...EMPTY_AIRWAY_ASSESSMENT, enclosedSpace: true, singedNasalHair: true });
+    expect(result.score).toBe(2);
+    expect(result.risk).toBe('moderate');
+    expect(result.inhalationLikely).toBe(false);
+    expect(result.recommendations).toContain('Measure carboxyhemoglobin (co-oximetry; pulse oximetry is falsely normal)');
+  });
+
+  it('should count facial burns from the body map', () => {
+    expect(assessAirway({ ...EMPTY_AIRWAY_ASSESSMENT, enclosedSpace: true }, { facialBurns: true }).score).toBe(2);
+  });
+
+  it('should make inhalation injury likely with carbonaceous sputum and raised COHb', () => {
+    const result = assessAirway(smokeExposure);
+    expect(result.score).toBe(6);
+    expect(result.risk).toBe('high');
+    expect(result.inhalationLikely).toBe(true);
+    expect(result.considerIntubation).toBe(true);
+    expect(result.findings).toEqual(['Carbonaceous sputum', 'Carboxyhemoglobin 18%', 'Enclosed-space exposure']);
+    expect(result.recommendations).toContain('Continue 100% oxygen until COHb <5%');
+  });
+
+  it('should always recommend securing the airway for stridor', () => {
+    const result = assessAirway({ ...EMPTY_AIRWAY_ASSESSMENT, stridor: true });
+    expect(result.considerIntubation).toBe(true);
+    expect(result.recommendations[0]).toMatch(/^Stridor: secure the airway now/);
+  });
+
+  it('should recommend hyperbaric review and hydroxocobalamin when indicated', () => {
+    const result = assessAirway({ ...EMPTY_AIRWAY_ASSESSMENT, carboxyhemoglobinPct: 30, cyanideSuspected: true });
+    expect(result.recommendations).toContain('COHb ≥25%: discuss hyperbaric oxygen');
+    expect(result.recommendations).toContain('Give hydroxocobalamin 70 mg/kg IV (maximum 5 g); check lactate');
+  });
+
+  it('should reject an impossible carboxyhemoglobin', () => {
+    expect(() => assessAirway({ ...EMPTY_AIRWAY_ASSESSMENT, carboxyhemoglobinPct: 120 }))
+      .toThrow('Carboxyhemoglobin must be between 0 and 100%');
+  });
+});
+
+describe('assessBurnFluidManagement with inhalation injury', () => {
+  it('should keep the formula volume when inhalation injury is unlikely', () => {
+    const result = assessBurnFluidManagement({ ...fluidParams, airway: EMPTY_AIRWAY_ASSESSMENT });
+    expect(result.expectedTotalFluidMl).toBe(result.parklandCalculation.parkland.totalMl);
+  });
+
+  it('should raise the expected fluid requirement when inhalation injury is likely', () => {
+    const result = assessBurnFluidManagement({ ...fluidParams, airway: smokeExposure });
+    // Parkland 4 × 70 × 30 = 8400 ml
+    expect(result.expectedTotalFluidMl).toBe(Math.round(8400 * INHALATION_FLUID_FACTOR));
+    expect(result.parklandCalculation.parkland.totalMl).toBe(8400);
+    expect(result.clinicalNotes).toContain('Inhalation injury likely (airway score 6)');
+    expect(result.protocolRecommendations).toContain('Expect ~12180ml over 24h (formula 8400ml) - titrate to urine output');
+  });
+
+  it('should score facial burns from the body map with the airway findings', () => {
+    const airway = { ...EMPTY_AIRWAY_ASSESSMENT, hoarseness: true, singedNasalHair: true };
+    expect(assessBurnFluidManagement({ ...fluidParams, airway }).airwayAssessment?.risk).toBe('moderate');
+    const result = assessBurnFluidManagement({ ...fluidParams, airway, facialBurns: true });
+    expect(result.airwayAssessment?.findings).toContain('Facial burns');
+    expect(result.expectedTotalFluidMl).toBe(Math.round(8400 * INHALATION_FLUID_FACTOR));
+  });
+});
+
+describe('inhalation findings in referral and notes', () => {
+  const patient: PatientData = {
+    ageMonths: 30 * 12,
+    weightKg: 70,
+    hoursSinceInjury: 1,
+    mechanism: 'house fire',
+    airway: smokeExposure,
+    specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+  };
+  const regions: RegionSelection[] = [{ region: 'Ant_Trunk', fraction: 0.5, depth: 'deep-partial' }];
+
+  it('should meet the inhalation referral criterion from the airway assessment', () => {
+    const inhalation = evaluateReferralCriteria(patient, regions).criteria.find(criterion => criterion.id === 'inhalation');
+    expect(inhalation?.status).toBe('met');
+    expect(inhalation?.reason).toBe('Airway assessment: high risk (Carbonaceous sputum, Carboxyhemoglobin 18%, Enclosed-space exposure)');
+  });
+
+  it('should add an airway section to the assessment note', () => {
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = makeBurnAssessmentNote({
+      patient,
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note).toContain('AIRWAY / INHALATION INJURY:');
+    expect(note).toContain('- Risk: high (score 6) - consider intubation');
+    expect(note).toContain('- Carboxyhemoglobin: 18%');
+  });
+
+  it('should leave the airway section out when no assessment was recorded', () => {
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = makeBurnAssessmentNote({
+      patient: { ...patient, airway: undefined },
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note).not.toContain('AIRWAY / INHALATION INJURY:');
+  });
+});
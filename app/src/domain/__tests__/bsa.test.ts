@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBSA, calculateBurnedBsa, estimateBsaFromWeight } from '../bsa';
+import { calculateTBSA } from '../tbsa';
+import type { RegionSelection } from '../types';
+
+describe('calculateBSA', () => {
+  // Reference adult: 70kg, 170cm
+  it('should match published values for a reference adult', () => {
+    expect(calculateBSA(70, 170, 'mosteller').bsaM2).toBeCloseTo(1.82, 2);
+    expect(calculateBSA(70, 170, 'dubois').bsaM2).toBeCloseTo(1.81, 2);
+    expect(calculateBSA(70, 170, 'haycock').bsaM2).toBeCloseTo(1.83, 2);
+    expect(calculateBSA(70, 170, 'boyd').bsaM2).toBeCloseTo(1.835, 2);
+  });
+
+  it('should give exactly 2.0 m² with Mosteller at 180cm/80kg', () => {
+    expect(calculateBSA(80, 180).bsaM2).toBeCloseTo(2.0, 3);
+  });
+
+  it('should match published values for a child and a neonate', () => {
+    // 20kg, 110cm child
+    expect(calculateBSA(20, 110, 'mosteller').bsaM2).toBeCloseTo(0.78, 2);
+    expect(calculateBSA(20, 110, 'haycock').bsaM2).toBeCloseTo(0.78, 2);
+    // 3.5kg, 50cm term neonate
+    expect(calculateBSA(3.5, 50, 'mosteller').bsaM2).toBeCloseTo(0.22, 2);
+    expect(calculateBSA(3.5, 50, 'haycock').bsaM2).toBeCloseTo(0.22, 2);
+  });
+
+  it('should default to Mosteller', () => {
+    expect(calculateBSA(70, 170).method).toBe('mosteller');
+  });
+
+  it('should fall back to a weight-only estimate without height', () => {
+    const result = calculateBSA(10);
+    expect(result.method).toBe('costeff');
+    expect(result.bsaM2).toBeCloseTo(0.47, 2);
+    expect(result.bsaM2).toBe(estimateBsaFromWeight(10));
+  });
+
+  it('should reject invalid inputs', () => {
+    expect(() => calculateBSA(0, 170)).toThrow('Weight must be positive');
+    expect(() => calculateBSA(70, -1)).toThrow('Height must be positive');
+  });
+});
+
+describe('calculateBurnedBsa', () => {
+  it('should convert %TBSA to m²', () => {
+    expect(calculateBurnedBsa(2.0, 25)).toBeCloseTo(0.5, 3);
+    expect(calculateBurnedBsa(0.8, 0)).toBe(0);
+  });
+
+  it('should reject invalid TBSA', () => {
+    expect(() => calculateBurnedBsa(1, 101)).toThrow();
+  });
+});
+
+describe('calculateTBSA with body measurements', () => {
+  const selections: RegionSelection[] = [
+    { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+    { region: 'R_U_Arm', fraction: 1, depth: 'full-thickness' },
+  ];
+
+  it('should include BSA and burned m² when weight is supplied', () => {
+    const result = calculateTBSA(300, selections, { weightKg: 80, heightCm: 180 });
+    expect(result.tbsaPct).toBeCloseTo(17, 1);
+    expect(result.bsaM2).toBe(2);
+    expect(result.burnedBsaM2).toBe(0.34);
+    expect(result.bsaMethod).toBe('mosteller');
+  });
+
+  it('should omit BSA without body measurements', () => {
+    const result = calculateTBSA(300, selections);
+    expect(result.bsaM2).toBeUndefined();
+    expect(result.burnedBsaM2).toBeUndefined();
+  });
+});
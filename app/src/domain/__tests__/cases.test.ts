@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { createCase, updateCase, duplicateCase, setCaseArchived, searchCases } from '../cases';
+import type { CaseSnapshot } from '../cases';
+import type { PatientCase } from '../types';
+
+const baseSnapshot: CaseSnapshot = {
+  patientData: {
+    ageMonths: 36,
+    weightKg: 14,
+    hoursSinceInjury: 2,
+    mechanism: 'scald',
+    specialSites: { face: false, hands: true, feet: false, perineum: false, majorJoints: false },
+  },
+  regionSelections: [{ region: 'R_Hand', fraction: 1, depth: 'superficial-partial' }],
+  tbsaResult: null,
+  fluidResult: null,
+};
+
+describe('createCase', () => {
+  it('should snapshot inputs with timestamps', () => {
+    const now = new Date('2025-01-01T10:00:00.000Z');
+    const created = createCase('  Bed 4 scald  ', baseSnapshot, now);
+
+    expect(created.id).toBeTruthy();
+    expect(created.name).toBe('Bed 4 scald');
+    expect(created.createdAt).toBe('2025-01-01T10:00:00.000Z');
+    expect(created.updatedAt).toBe(created.createdAt);
+    expect(created.archived).toBe(false);
+    expect(created.regionSelections).toEqual(baseSnapshot.regionSelections);
+  });
+
+  it('should not share references with the live snapshot', () => {
+    const created = createCase('Case', baseSnapshot);
+    expect(created.regionSelections).not.toBe(baseSnapshot.regionSelections);
+    expect(created.patientData.specialSites).not.toBe(baseSnapshot.patientData.specialSites);
+  });
+
+  it('should require a name', () => {
+    expect(() => createCase('   ', baseSnapshot)).toThrow('Case name is required');
+  });
+});
+
+describe('updateCase', () => {
+  it('should replace the snapshot and bump updatedAt only', () => {
+    const created = createCase('Case', baseSnapshot, new Date('2025-01-01T10:00:00.000Z'));
+    const updated = updateCase(
+      created,
+      { ...baseSnapshot, regionSelections: [] },
+      'Renamed',
+      new Date('2025-01-01T12:00:00.000Z')
+    );
+
+    expect(updated.id).toBe(created.id);
+    expect(updated.name).toBe('Renamed');
+    expect(updated.regionSelections).toHaveLength(0);
+    expect(updated.createdAt).toBe('2025-01-01T10:00:00.000Z');
+    expect(updated.updatedAt).toBe('2025-01-01T12:00:00.000Z');
+  });
+
+  it('should keep the existing name when given a blank one', () => {
+    const created = createCase('Case', baseSnapshot);
+    expect(updateCase(created, baseSnapshot, '').name).toBe('Case');
+  });
+});
+
+describe('duplicateCase', () => {
+  it('should copy data under a new id and name', () => {
+    const source = setCaseArchived(createCase('Original', baseSnapshot), true);
+    const copy = duplicateCase(source);
+
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.name).toBe('Copy of Original');
+    expect(copy.archived).toBe(false);
+    expect(copy.patientData).toEqual(source.patientData);
+  });
+});
+
+describe('searchCases', () => {
+  const makeCase = (name: string, updatedAt: string, overrides: Partial<PatientCase> = {}): PatientCase => ({
+    ...createCase(name, baseSnapshot),
+    updatedAt,
+    ...overrides,
+  });
+
+  const cases = [
+    makeCase('Kitchen scald', '2025-01-01T08:00:00.000Z'),
+    makeCase('House fire', '2025-01-03T08:00:00.000Z', {
+      patientData: { ...baseSnapshot.patientData, mechanism: 'flame' },
+    }),
+    makeCase('Old teaching case', '2025-01-02T08:00:00.000Z', { archived: true }),
+  ];
+
+  it('should hide archived cases by default and sort newest first', () => {
+    const result = searchCases(cases);
+    expect(result.map(c => c.name)).toEqual(['House fire', 'Kitchen scald']);
+  });
+
+  it('should include archived cases on request', () => {
+    const result = searchCases(cases, '', { includeArchived: true });
+    expect(result.map(c => c.name)).toEqual(['House fire', 'Old teaching case', 'Kitchen scald']);
+  });
+
+  it('should match name and mechanism case-insensitively', () => {
+    expect(searchCases(cases, 'KITCHEN').map(c => c.name)).toEqual(['Kitchen scald']);
+    expect(searchCases(cases, 'flame').map(c => c.name)).toEqual(['House fire']);
+  });
+});
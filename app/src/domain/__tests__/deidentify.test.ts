@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDeidentificationContext,
+  deidentifyAssessment,
+  deidentifyNoteData,
+  deidentifyPatientData,
+  deidentifyText,
+  formatDeidentificationReport,
+  makeDeidentifiedNote,
+  summarizeDeidentification,
+} from '../deidentify';
+import { calculateFluids } from '../fluids';
+import { calculateTBSA } from '../tbsa';
+import { createFlowsheetEntry } from '../flowsheet';
+import { makeClinicalNote } from '../notes';
+import type { BurnNoteData, PatientData, RegionSelection } from '../types';
+
+const patient: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 2,
+  mechanism: 'Kettle pulled over by her brother',
+  burnMechanism: { type: 'scald' },
+  specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+};
+const regions: RegionSelection[] = [{ region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' }];
+const tbsa = calculateTBSA(patient.ageMonths, regions);
+const data: BurnNoteData = {
+  patient,
+  tbsa,
+  fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+  regions,
+  timestamp: new Date('2024-03-15T14:30:00Z'),
+  flowsheet: [createFlowsheetEntry(1, 500, 40, {}, new Date('2024-03-15T15:30:00Z'))],
+};
+
+describe('deidentifyText', () => {
+  it('should redact Safe Harbor identifiers with category markers', () => {
+    const ctx = createDeidentificationContext('redact');
+    const text = [
+      'Name: Jane Doe',
+      'MRN: 00123456',
+      'Phone: (555) 123-4567, jane.doe@example.com',
+      'Address: 12 Elm Street, Springfield',
+      'SSN 123-45-6789, seen by Dr Smith on 3/15/2024, 2:30:00 PM',
+    ].join('\n');
+    expect(deidentifyText(text, ctx)).toBe([
+      'Name: [NAME]',
+      'MRN: [MRN]',
+      'Phone: [PHONE], [EMAIL]',
+      'Address: [ADDRESS]',
+      'SSN [SSN], seen by Dr [NAME] on [DATE 2024]',
+    ].join('\n'));
+  });
+
+  it('should leave clinical content alone', () => {
+    const ctx = createDeidentificationContext('redact');
+    const text = 'PATIENT: 30 years old, 70kg\n- Monitor UO ≥0.5 ml/kg/hr (md review at hour 8)\nClinician: {{CLINICIAN_NAME}}';
+    expect(deidentifyText(text, ctx)).toBe(text);
+    expect(ctx.findings).toEqual([]);
+  });
+
+  it('should aggregate ages over 89', () => {
+    const ctx = createDeidentificationContext('redact');
+    expect(deidentifyText('PATIENT: 93 years, 4 months old; aged 91; 89 years old', ctx))
+      .toBe('PATIENT: 90+ years old; aged 90+; 89 years old');
+  });
+
+  it('should give the same value the same token when pseudonymizing', () => {
+    const ctx = createDeidentificationContext('pseudonymize');
+    expect(deidentifyText('Mr John Smith called 555-123-4567. Dr Ada Lee and Mr John  Smith, then 555.123.4567', ctx))
+      .toBe('Mr [NAME-1] called [PHONE-1]. Dr [NAME-2] and Mr [NAME-1], then [PHONE-1]');
+  });
+
+  it('should shift dates by one offset and keep their format', () => {
+    const ctx = createDeidentificationContext('date-shift', -10);
+    expect(deidentifyText('Injured 2024-03-15T14:30, seen 3/20/2024, 9:00 AM, DOB March 2, 1950; 5 Jan 2024; May 2023', ctx))
+      .toBe('Injured 2024-03-05T14:30, seen 3/10/2024, 9:00 AM, DOB February 20, 1950; 26 December 2023; April 2023');
+  });
+
+  it('should replace a mechanism line that mentions a person', () => {
+    const ctx = createDeidentificationContext('redact');
+    expect(deidentifyText('MECHANISM: pushed onto a heater by his father\nMECHANISM: house fire', ctx))
+      .toBe('MECHANISM: [MECHANISM]\nMECHANISM: house fire');
+  });
+
+  it('should keep mechanisms whose only person reference is a pronoun', () => {
+    const ctx = createDeidentificationContext('redact');
+    expect(deidentifyText('MECHANISM: spilled hot water on her arm', ctx)).toBe('MECHANISM: spilled hot water on her arm');
+    expect(deidentifyText('MECHANISM: he fell against the radiator', ctx)).toBe('MECHANISM: he fell against the radiator');
+    expect(deidentifyText('MECHANISM: pushed into a bonfire by Jake', ctx)).toBe('MECHANISM: [MECHANISM]');
+    expect(deidentifyText('MECHANISM: scalded at Mrs Patel\'s house', ctx)).toBe('MECHANISM: [MECHANISM]');
+  });
+});
+
+describe('structured de-identification', () => {
+  it('should cap age and replace a mechanism mentioning a person', () => {
+    const ctx = createDeidentificationContext('redact');
+    const result = deidentifyPatientData({ ...patient, ageMonths: 95 * 12 }, ctx);
+    expect(result.ageMonths).toBe(90 * 12);
+    expect(result.mechanism).toBe('[MECHANISM]');
+    expect(result.burnMechanism).toEqual(patient.burnMechanism);
+    expect(deidentifyPatientData({ ...patient, mechanism: 'House fire, call 555-123-4567' }, ctx).mechanism)
+      .toBe('House fire, call [PHONE]');
+    expect(deidentifyPatientData({ ...patient, mechanism: 'Spilled hot water on her arm' }, ctx).mechanism)
+      .toBe('Spilled hot water on her arm');
+  });
+
+  it('should keep only the year of timestamps or shift them', () => {
+    const redacted = deidentifyAssessment({ flowsheet: data.flowsheet }, createDeidentificationContext('redact'));
+    expect(redacted.flowsheet?.[0].recordedAt).toBe('2024-01-01T00:00:00.000Z');
+
+    const shifted = deidentifyNoteData(data, createDeidentificationContext('date-shift', -30));
+    expect(shifted.timestamp.toISOString()).toBe('2024-02-14T14:30:00.000Z');
+    expect(shifted.flowsheet?.[0].recordedAt).toBe('2024-02-14T15:30:00.000Z');
+    expect(data.flowsheet?.[0].recordedAt).toBe('2024-03-15T15:30:00.000Z');
+  });
+});
+
+describe('makeDeidentifiedNote', () => {
+  it('should de-identify every note type and report what was removed', () => {
+    (['assessment', 'procedure', 'discharge', 'handoff'] as const).forEach(type => {
+      const ctx = createDeidentificationContext('redact');
+      const note = makeDeidentifiedNote(type, data, ctx);
+      const original = makeClinicalNote(type, data);
+
+      expect(note).not.toContain('brother');
+      expect(note).toContain('Generated: [DATE 2024]');
+      expect(note.split('\n').length).toBe(original.split('\n').length);
+      // The procedure note also carries a Date/Time line
+      expect(summarizeDeidentification(ctx).counts.date).toBe(type === 'procedure' ? 2 : 1);
+    });
+  });
+
+  it('should keep the structured mechanism readable', () => {
+    const ctx = createDeidentificationContext('redact');
+    expect(makeDeidentifiedNote('assessment', data, ctx)).toMatch(/^MECHANISM: Scald.* - \[MECHANISM\]/m);
+    expect(formatDeidentificationReport(summarizeDeidentification(ctx)))
+      .toBe('Removed mechanisms mentioning a person (1), dates (1)');
+  });
+});
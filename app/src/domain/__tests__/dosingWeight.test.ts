@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAdjustedBodyWeight,
+  calculateBMI,
+  calculateIdealBodyWeight,
+  resolveDosingWeights,
+} from '../dosingWeight';
+import { assessBurnFluidManagement, calculateFluids } from '../fluids';
+import { makeBurnAssessmentNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import type { PatientData, WeightPolicy } from '../types';
+
+// 120kg, 175cm adult male: BMI 39.2, IBW 70.5kg, ABW 90.3kg
+const obeseAdult = { weightKg: 120, heightCm: 175, ageMonths: 40 * 12, sex: 'male' as const };
+const adjustedPolicy: WeightPolicy = { resuscitation: 'adjusted', maintenance: 'adjusted', urineOutput: 'ideal' };
+
+describe('body weight calculations', () => {
+  it('should calculate BMI', () => {
+    expect(calculateBMI(120, 175)).toBe(39.2);
+    expect(() => calculateBMI(120, 0)).toThrow('Height must be positive');
+  });
+
+  it('should use the Devine equation when sex is recorded', () => {
+    expect(calculateIdealBodyWeight(175, 'male')).toBe(70.5);
+    expect(calculateIdealBodyWeight(175, 'female')).toBe(66);
+  });
+
+  it('should fall back to 22 × height² when sex is not recorded', () => {
+    expect(calculateIdealBodyWeight(175)).toBe(67.4);
+  });
+
+  it('should add 40% of the excess weight for adjusted body weight', () => {
+    expect(calculateAdjustedBodyWeight(120, 70.5)).toBe(90.3);
+  });
+});
+
+describe('resolveDosingWeights', () => {
+  it('should keep actual weight for obese adults unless a policy opts in', () => {
+    const weights = resolveDosingWeights(obeseAdult);
+    expect(weights.obese).toBe(true);
+    expect(weights.resuscitation).toEqual({ weightKg: 120, basis: 'actual', reason: 'BMI 39.2 (≥30) - set by weight policy' });
+    expect(weights.maintenance.weightKg).toBe(120);
+    expect(weights.urineOutput.weightKg).toBe(120);
+  });
+
+  it('should apply an adjusted weight policy to obese adults', () => {
+    const weights = resolveDosingWeights(obeseAdult, adjustedPolicy);
+    expect(weights).toMatchObject({ actualKg: 120, idealKg: 70.5, adjustedKg: 90.3, bmi: 39.2, obese: true });
+    expect(weights.resuscitation).toEqual({
+      weightKg: 90.3,
+      basis: 'adjusted',
+      reason: 'BMI 39.2 (≥30) - set by weight policy',
+    });
+    expect(weights.maintenance.weightKg).toBe(90.3);
+    expect(weights.urineOutput).toMatchObject({ weightKg: 70.5, basis: 'ideal' });
+  });
+
+  it('should follow a configured policy', () => {
+    const weights = resolveDosingWeights(obeseAdult, { resuscitation: 'actual', maintenance: 'ideal', urineOutput: 'actual' });
+    expect(weights.resuscitation.weightKg).toBe(120);
+    expect(weights.maintenance.weightKg).toBe(70.5);
+    expect(weights.urineOutput.weightKg).toBe(120);
+  });
+
+  it('should use actual weight without a height, for non-obese adults and for children', () => {
+    expect(resolveDosingWeights({ weightKg: 120, ageMonths: 480 }).resuscitation).toEqual({
+      weightKg: 120,
+      basis: 'actual',
+      reason: 'No height recorded - actual weight',
+    });
+    expect(resolveDosingWeights({ ...obeseAdult, weightKg: 70 }).resuscitation.reason).toBe('BMI 22.9 (<30) - actual weight');
+    const child = resolveDosingWeights({ weightKg: 60, heightCm: 130, ageMonths: 120 });
+    expect(child.obese).toBe(false);
+    expect(child.resuscitation.reason).toBe('Child - actual weight');
+  });
+});
+
+describe('dosing weight in fluid calculations', () => {
+  const weights = resolveDosingWeights(obeseAdult, adjustedPolicy);
+
+  it('should scale the formula volume and maintenance to the policy weights', () => {
+    const result = calculateFluids({ weightKg: 120, tbsaPct: 20, hoursSinceInjury: 0, weights });
+    expect(result.parkland.totalMl).toBe(7224); // 4 × 90.3 × 20
+    expect(result.maintenance.mlPerHr).toBe(130.3); // 4-2-1 on 90.3kg
+    expect(result.weights).toBe(weights);
+    expect(calculateFluids({ weightKg: 120, tbsaPct: 20, hoursSinceInjury: 0 }).parkland.totalMl).toBe(9600);
+  });
+
+  it('should note the resuscitation weight in the fluid assessment', () => {
+    const result = assessBurnFluidManagement({
+      weightKg: 120,
+      tbsaPct: 20,
+      ageMonths: 480,
+      hoursSinceInjury: 2,
+      currentIVRateMlPerHr: 450,
+      urineOutputMlPerHr: 40,
+      vitals: { heartRate: 100, systolicBP: 130, diastolicBP: 80, oxygenSat: 97 },
+      weights,
+    });
+    expect(result.parklandCalculation.parkland.totalMl).toBe(7224);
+    // Albumin uses the same weight as the second-day colloid
+    const albumin = assessBurnFluidManagement({
+      weightKg: 120,
+      tbsaPct: 40,
+      ageMonths: 480,
+      hoursSinceInjury: 10,
+      currentIVRateMlPerHr: 450,
+      urineOutputMlPerHr: 40,
+      vitals: { heartRate: 100, systolicBP: 130, diastolicBP: 80, oxygenSat: 97 },
+      weights,
+    });
+    expect(albumin.colloid.dose?.rateMlPerHr).toBe(77); // 0.3 × 90.3 × 40 over hours 10-24
+    expect(albumin.parklandCalculation.secondDay.colloidMl).toBe(1083.6); // 0.3 × 90.3 × 40
+    expect(result.clinicalNotes).toContain(
+      'Resuscitation weight: 90.3kg (adjusted body weight) - BMI 39.2 (≥30) - set by weight policy'
+    );
+  });
+
+  it('should show which weight was used and why in the assessment note', () => {
+    const patient: PatientData = {
+      ...obeseAdult,
+      hoursSinceInjury: 2,
+      specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+    };
+    const regions = [{ region: 'Ant_Trunk' as const, fraction: 1 as const, depth: 'deep-partial' as const }];
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = makeBurnAssessmentNote({
+      patient,
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct, weights }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note).toContain('- Body weight: actual 120kg, ideal 70.5kg, adjusted 90.3kg (BMI 39.2)');
+    expect(note).toContain('- Resuscitation weight: 90.3kg (adjusted body weight) - BMI 39.2 (≥30) - set by weight policy');
+    expect(note).toContain('- Urine output weight: 70.5kg (ideal body weight)');
+  });
+});
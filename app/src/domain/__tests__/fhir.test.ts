@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { ANONYMIZED_SECURITY_LABEL, buildFhirBundle, validateFhirBundle } from '../fhir';
+import { calculateFluids } from '../fluids';
+import { calculateTBSA } from '../tbsa';
+import { createZonedSelection } from '../regionSelections';
+import { makeBurnHandoffNote } from '../notes';
+import type {
+  BurnNoteData,
+  FhirClinicalImpression,
+  FhirDocumentReference,
+  FhirObservation,
+  FhirPatient,
+  PatientData,
+  RegionSelection,
+} from '../types';
+
+const patient: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  heightCm: 175,
+  sex: 'female',
+  hoursSinceInjury: 2,
+  specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+};
+const regions: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+  createZonedSelection('R_U_Arm', [
+    { fraction: 0.5, depth: 'superficial-partial' },
+    { fraction: 0.5, depth: 'full-thickness' },
+  ])!,
+];
+
+function makeData(overrides: Partial<PatientData> = {}): BurnNoteData {
+  const p = { ...patient, ...overrides };
+  const tbsa = calculateTBSA(p.ageMonths, regions);
+  return {
+    patient: p,
+    tbsa,
+    fluids: calculateFluids({ ...p, tbsaPct: tbsa.tbsaPct }),
+    regions,
+    timestamp: new Date('2024-01-01T12:00:00Z'),
+  };
+}
+
+const bundle = buildFhirBundle(makeData());
+const resources = bundle.entry.map(item => item.resource);
+const observations = resources.filter((r): r is FhirObservation => r.resourceType === 'Observation');
+const byText = (text: string) => observations.find(o => o.code.text === text);
+
+describe('buildFhirBundle', () => {
+  it('should build a structurally valid transaction Bundle', () => {
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('transaction');
+    expect(bundle.timestamp).toBe('2024-01-01T12:00:00.000Z');
+    expect(validateFhirBundle(bundle)).toEqual([]);
+    expect(resources.map(r => r.resourceType)).toEqual([
+      'Patient',
+      'Observation', 'Observation', 'Observation', 'Observation', 'Observation', 'Observation',
+      'ClinicalImpression',
+      'DocumentReference',
+    ]);
+  });
+
+  it('should de-identify the Patient', () => {
+    const fhirPatient = resources[0] as FhirPatient;
+    expect(fhirPatient).toEqual({
+      resourceType: 'Patient',
+      id: fhirPatient.id,
+      meta: { security: [ANONYMIZED_SECURITY_LABEL] },
+      gender: 'female',
+    });
+    expect(buildFhirBundle(makeData({ sex: undefined })).entry[0].resource).toMatchObject({ gender: 'unknown' });
+  });
+
+  it('should code weight, height and age with LOINC and UCUM', () => {
+    expect(byText('Body weight')).toMatchObject({
+      code: { coding: [{ system: 'http://loinc.org', code: '29463-7' }] },
+      valueQuantity: { value: 70, unit: 'kg', system: 'http://unitsofmeasure.org', code: 'kg' },
+    });
+    expect(byText('Body height')?.valueQuantity?.value).toBe(175);
+    expect(byText('Age')?.valueQuantity).toMatchObject({ value: 360, code: 'mo' });
+    expect(buildFhirBundle(makeData({ heightCm: undefined })).entry.some(
+      item => item.resource.resourceType === 'Observation' && item.resource.code.text === 'Body height'
+    )).toBe(false);
+  });
+
+  it('should report TBSA with depth components', () => {
+    const tbsa = observations.find(o => o.code.coding?.[0].code === 'tbsa-burned');
+    expect(tbsa?.valueQuantity?.value).toBe(17);
+    expect(tbsa?.component?.map(c => [c.code.coding?.[0].code, c.valueQuantity.value])).toEqual([
+      ['tbsa-superficial', 0],
+      ['tbsa-partial-thickness', 15],
+      ['tbsa-full-thickness', 2],
+    ]);
+  });
+
+  it('should add one Observation per region with SNOMED body site and depth', () => {
+    const arm = byText('Burn extent - Right upper arm');
+    expect(arm?.bodySite).toEqual({
+      coding: [{ system: 'http://snomed.info/sct', code: '40983000', display: 'Upper arm structure' }],
+      text: 'Right upper arm',
+    });
+    expect(arm?.valueQuantity?.value).toBe(4);
+    expect(arm?.component?.map(c => [c.code.coding?.[0].code, c.valueQuantity.value])).toEqual([
+      ['403193008', 2],
+      ['403192003', 2],
+    ]);
+    expect(byText('Burn extent - Anterior trunk')?.component?.[0].code.text).toBe('deep-partial');
+  });
+
+  it('should record the referral decision as a ClinicalImpression', () => {
+    const impression = resources.find((r): r is FhirClinicalImpression => r.resourceType === 'ClinicalImpression');
+    expect(impression?.summary).toMatch(/^Burn center referral recommended: /);
+    expect(impression?.finding?.map(f => f.itemCodeableConcept.coding?.[0].code)).toContain('full-thickness');
+    expect(impression?.subject.reference).toBe(bundle.entry[0].fullUrl);
+  });
+
+  it('should export with referral not evaluated when the body map no longer fits the age', () => {
+    // 15% head charted for an infant (19% head), then the age corrected to an adult (7% head)
+    const infantRegions: RegionSelection[] = [{ region: 'Head', fraction: 1, depth: 'deep-partial', entryMode: 'percent', tbsaPct: 15 }];
+    const tbsa = calculateTBSA(6, infantRegions);
+    const data: BurnNoteData = {
+      patient,
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+      regions: infantRegions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    };
+    const impression = buildFhirBundle(data).entry
+      .map(item => item.resource)
+      .find((r): r is FhirClinicalImpression => r.resourceType === 'ClinicalImpression');
+    expect(impression?.summary).toBe(
+      "Burn center referral not evaluated: Invalid %TBSA for Head: 15%. Must not exceed the region's 7%"
+    );
+    expect(impression?.finding).toEqual([]);
+    expect(makeBurnHandoffNote(data)).toContain(
+      "- Referral not evaluated (Invalid %TBSA for Head: 15%. Must not exceed the region's 7%) - review the ABA criteria manually"
+    );
+  });
+
+  it('should carry the note as a base64 UTF-8 DocumentReference', () => {
+    const document = buildFhirBundle(makeData(), 'Note ≥ ⚠️').entry
+      .map(item => item.resource)
+      .find((r): r is FhirDocumentReference => r.resourceType === 'DocumentReference');
+    const bytes = Uint8Array.from(atob(document!.content[0].attachment.data), char => char.charCodeAt(0));
+    expect(new TextDecoder().decode(bytes)).toBe('Note ≥ ⚠️');
+    expect(document?.type.coding?.[0].code).toBe('11506-3');
+  });
+});
+
+describe('validateFhirBundle', () => {
+  it('should report unresolved references and malformed entries', () => {
+    const broken = structuredClone(bundle);
+    (broken.entry[1].resource as FhirObservation).subject = { reference: 'urn:uuid:missing' };
+    broken.entry[2].fullUrl = 'Observation/1';
+    broken.entry.splice(0, 1);
+    const errors = validateFhirBundle(broken);
+    expect(errors).toContain('entry[0] Observation: unresolved reference urn:uuid:missing');
+    expect(errors).toContain('entry[1] Observation: fullUrl must be urn:uuid:<id>');
+    expect(errors).toContain('Bundle must contain exactly one Patient');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFlowsheetEntry,
+  upsertFlowsheetEntry,
+  getTargetCumulativeMl,
+  buildFlowsheet,
+  summarizeFlowsheet,
+} from '../flowsheet';
+import { calculateFluids } from '../fluids';
+
+// 70kg, 20% TBSA: 5600 mL total, 350 mL/hr for the first 8 hours
+const fluidResult = calculateFluids({ weightKg: 70, tbsaPct: 20, hoursSinceInjury: 0 });
+const adult = { weightKg: 70, ageMonths: 30 * 12 };
+
+describe('createFlowsheetEntry', () => {
+  it('should record an hour with optional vitals', () => {
+    const entry = createFlowsheetEntry(1, 350, 40, { heartRate: 110 }, new Date('2025-01-01T10:00:00.000Z'));
+    expect(entry).toEqual({
+      hourFromInjury: 1,
+      infusedMl: 350,
+      urineOutputMl: 40,
+      vitals: { heartRate: 110 },
+      recordedAt: '2025-01-01T10:00:00.000Z',
+    });
+  });
+
+  it('should reject invalid hours and negative volumes', () => {
+    expect(() => createFlowsheetEntry(0, 350, 40)).toThrow('Hour must be a whole number');
+    expect(() => createFlowsheetEntry(1.5, 350, 40)).toThrow('Hour must be a whole number');
+    expect(() => createFlowsheetEntry(1, -1, 40)).toThrow('Infused volume must be non-negative');
+    expect(() => createFlowsheetEntry(1, 350, -1)).toThrow('Urine output must be non-negative');
+  });
+});
+
+describe('upsertFlowsheetEntry', () => {
+  it('should replace an existing hour and keep entries ordered', () => {
+    const entries = [createFlowsheetEntry(2, 300, 35), createFlowsheetEntry(1, 350, 40)];
+    const result = upsertFlowsheetEntry(entries, createFlowsheetEntry(1, 400, 45));
+    expect(result.map(e => [e.hourFromInjury, e.infusedMl])).toEqual([[1, 400], [2, 300]]);
+  });
+});
+
+describe('getTargetCumulativeMl', () => {
+  it('should follow the Parkland timeline, then the second-day rate to hour 48', () => {
+    expect(getTargetCumulativeMl(fluidResult, 1)).toBe(350);
+    expect(getTargetCumulativeMl(fluidResult, 8)).toBe(2800);
+    // Day 2: maintenance 110 + free water 80.7 = 190.7 mL/hr on top of 5600
+    expect(getTargetCumulativeMl(fluidResult, 30)).toBe(6744.2);
+    expect(getTargetCumulativeMl(fluidResult, 60)).toBe(10176.8);
+  });
+});
+
+describe('buildFlowsheet', () => {
+  const entries = [
+    createFlowsheetEntry(1, 350, 40),
+    createFlowsheetEntry(2, 300, 20),
+    createFlowsheetEntry(3, 360, 60, { heartRate: 130 }),
+  ];
+  const summary = buildFlowsheet(entries, fluidResult, adult);
+
+  it('should track cumulative volume and running deficit', () => {
+    expect(summary.rows.map(r => r.cumulativeMl)).toEqual([350, 650, 1010]);
+    expect(summary.rows.map(r => r.deficitMl)).toEqual([0, 50, 40]);
+    expect(summary.totalInfusedMl).toBe(1010);
+    expect(summary.currentDeficitMl).toBe(40);
+  });
+
+  it('should record a titration step from each hour of urine output', () => {
+    expect(summary.titrationSteps.map(s => s.adjustment)).toEqual(['maintain', 'increase', 'decrease']);
+    expect(summary.titrationSteps[1]).toMatchObject({ fromRateMlPerHr: 300, toRateMlPerHr: 360 });
+    expect(summary.recommendedRateMlPerHr).toBe(288);
+  });
+
+  it('should flag unstable vitals and compute weight-based urine output', () => {
+    expect(summary.rows[2].vitalsStable).toBe(false);
+    expect(summary.rows[0].urineOutputMlPerKgPerHr).toBe(0.6);
+  });
+
+  it('should titrate a small child against the weight-based target', () => {
+    // 10kg child: 10-20 ml/hr (1-2 ml/kg/hr), so 15 ml/hr is on target
+    const child = calculateFluids({ weightKg: 10, tbsaPct: 20, hoursSinceInjury: 0 });
+    const result = buildFlowsheet([createFlowsheetEntry(1, 100, 15)], child, { weightKg: 10, ageMonths: 24 });
+    expect(result.titrationSteps[0]).toMatchObject({ adjustment: 'maintain', reason: 'Urine output 10-20ml/hr - Maintain current IV rate' });
+    expect(result.rows[0].urineOutputMlPerKgPerHr).toBe(1.5);
+  });
+
+  it('should titrate high-voltage electrical injury against the raised target', () => {
+    // 70kg: 70-105 ml/hr (1-1.5 ml/kg/hr) to clear myoglobin
+    const result = buildFlowsheet([createFlowsheetEntry(1, 350, 60)], fluidResult, {
+      ...adult,
+      mechanism: { type: 'electrical', voltage: 'high' },
+    });
+    expect(result.titrationSteps[0]).toMatchObject({ adjustment: 'increase', toRateMlPerHr: 420 });
+    expect(result.titrationSteps[0].reason).toBe('Urine output <70ml/hr - Increase IV rate by 20%');
+  });
+
+  it('should return an empty summary when nothing is charted', () => {
+    const empty = buildFlowsheet([], fluidResult, adult);
+    expect(empty.rows).toHaveLength(0);
+    expect(empty.recommendedRateMlPerHr).toBeNull();
+    expect(summarizeFlowsheet(empty)).toEqual([]);
+  });
+});
+
+describe('summarizeFlowsheet', () => {
+  it('should report totals and one line per hour', () => {
+    const lines = summarizeFlowsheet(buildFlowsheet([
+      createFlowsheetEntry(1, 300, 20),
+    ], fluidResult, adult));
+
+    expect(lines[0]).toBe('- Total infused: 300 mL (50 mL behind target)');
+    expect(lines[1]).toContain('Hour 1: 300 mL in');
+    expect(lines[1]).toContain('increase to 360 mL/hr');
+  });
+});
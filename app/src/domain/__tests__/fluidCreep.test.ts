@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { COMPARTMENT_SYNDROME_PROMPTS, analyzeFluidCreep, summarizeFluidCreep } from '../fluidCreep';
+import { createFlowsheetEntry } from '../flowsheet';
+import { calculateFluids } from '../fluids';
+import { resolveDosingWeights } from '../dosingWeight';
+import { makeBurnAssessmentNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import type { FlowsheetEntry, PatientData } from '../types';
+
+// 70kg, 20% TBSA: 5600 mL total (4 ml/kg/%TBSA), 350 mL/hr for the first 8 hours
+const fluidResult = calculateFluids({ weightKg: 70, tbsaPct: 20, hoursSinceInjury: 0 });
+const adult = { weightKg: 70, ageMonths: 30 * 12, tbsaPct: 20 };
+
+function chartHours(hours: number, infusedMl: number, urineOutputMl: number): FlowsheetEntry[] {
+  return Array.from({ length: hours }, (_, i) => createFlowsheetEntry(i + 1, infusedMl, urineOutputMl));
+}
+
+describe('analyzeFluidCreep', () => {
+  it('should report cumulative ml/kg/%TBSA without alerts when on target', () => {
+    const result = analyzeFluidCreep(chartHours(3, 350, 40), fluidResult, adult);
+    expect(result).toMatchObject({
+      hoursCharted: 3,
+      deliveredMl: 1050,
+      targetMl: 1050,
+      ratioToTarget: 1,
+      deliveredMlPerKgPerTbsa: 0.75,
+      targetMlPerKgPerTbsa: 0.75,
+      formulaMlPerKgPerTbsa: 4,
+      ivyIndexMlPerKg: 15,
+      averageUrineOutputMlPerKgPerHr: 0.6,
+      compartmentSyndromeRisk: false,
+    });
+    expect(result.alerts).toEqual([]);
+    expect(result.compartmentSyndromePrompts).toEqual([]);
+  });
+
+  it('should flag fluid creep when delivery runs 20% above the formula', () => {
+    const result = analyzeFluidCreep(chartHours(3, 500, 40), fluidResult, adult);
+    expect(result.ratioToTarget).toBe(1.43);
+    expect(result.alerts).toEqual([{
+      id: 'fluid-creep',
+      severity: 'warning',
+      message: 'Fluid creep: 1500ml given vs 1050ml target (143% of formula)',
+    }]);
+  });
+
+  it('should warn when approaching the Ivy index', () => {
+    const result = analyzeFluidCreep(chartHours(24, 600, 40), fluidResult, adult);
+    expect(result.ivyIndexMlPerKg).toBe(205.7);
+    expect(result.alerts.map(alert => alert.id)).toContain('ivy-approaching');
+    expect(result.compartmentSyndromeRisk).toBe(true);
+  });
+
+  it('should raise a critical alert and bladder pressure prompts past the Ivy index', () => {
+    const result = analyzeFluidCreep(chartHours(24, 750, 40), fluidResult, adult);
+    expect(result.ivyIndexMlPerKg).toBe(257.1);
+    expect(result.alerts.map(alert => alert.id)).toEqual(['fluid-creep', 'pruitt-limit', 'ivy-exceeded']);
+    expect(result.alerts.find(alert => alert.id === 'ivy-exceeded')?.severity).toBe('critical');
+    expect(result.compartmentSyndromePrompts).toEqual(COMPARTMENT_SYNDROME_PROMPTS);
+  });
+
+  it('should only count the first 24 hours towards the Ivy index', () => {
+    const entries = [...chartHours(24, 350, 40), createFlowsheetEntry(30, 5000, 40)];
+    expect(analyzeFluidCreep(entries, fluidResult, adult).ivyIndexMlPerKg).toBe(120);
+  });
+
+  it('should flag sustained high urine output as over-resuscitation', () => {
+    const result = analyzeFluidCreep(chartHours(3, 350, 80), fluidResult, adult);
+    expect(result.sustainedHighUrineOutputHours).toBe(3);
+    expect(result.alerts).toContainEqual({
+      id: 'sustained-high-urine-output',
+      severity: 'warning',
+      message: 'Urine output >50ml/hr for 3 consecutive hours - over-resuscitation likely; reduce IV rate',
+    });
+  });
+
+  it('should restart the high urine output run after a normal or uncharted hour', () => {
+    const gap = [createFlowsheetEntry(1, 350, 80), createFlowsheetEntry(2, 350, 80), createFlowsheetEntry(4, 350, 80)];
+    expect(analyzeFluidCreep(gap, fluidResult, adult).sustainedHighUrineOutputHours).toBe(1);
+
+    const normal = [...chartHours(2, 350, 80), createFlowsheetEntry(3, 350, 40)];
+    expect(analyzeFluidCreep(normal, fluidResult, adult).sustainedHighUrineOutputHours).toBe(0);
+  });
+
+  it('should use the weight-based urine output target for small children', () => {
+    const child = calculateFluids({ weightKg: 15, tbsaPct: 20, hoursSinceInjury: 0 });
+    const result = analyzeFluidCreep(chartHours(3, 75, 35), child, { weightKg: 15, ageMonths: 24, tbsaPct: 20 });
+    expect(result.sustainedHighUrineOutputHours).toBe(3);
+  });
+
+  it('should divide by the resuscitation weight the target was built on', () => {
+    // 120kg obese adult: 90.3kg adjusted weight for resuscitation, 70.5kg ideal weight for urine output
+    const weights = resolveDosingWeights(
+      { weightKg: 120, heightCm: 175, ageMonths: 40 * 12, sex: 'male' },
+      { resuscitation: 'adjusted', maintenance: 'adjusted', urineOutput: 'ideal' }
+    );
+    const obese = calculateFluids({ weightKg: 120, tbsaPct: 20, hoursSinceInjury: 0, weights });
+    const result = analyzeFluidCreep(chartHours(3, 451.5, 40), obese, { weightKg: 120, ageMonths: 40 * 12, tbsaPct: 20 });
+    expect(result).toMatchObject({
+      ratioToTarget: 1,
+      weightKg: 90.3,
+      weightBasis: 'adjusted',
+      deliveredMlPerKgPerTbsa: 0.75,
+      targetMlPerKgPerTbsa: 0.75,
+      formulaMlPerKgPerTbsa: 4,
+      ivyIndexMlPerKg: 15,
+    });
+    expect(summarizeFluidCreep(result)[0])
+      .toBe('- Delivered: 0.75 ml/kg/%TBSA vs 0.75 target at hour 3 (formula 4 over 24h; per kg of adjusted body weight, 90.3kg)');
+  });
+
+  it('should return an empty analysis when nothing is charted', () => {
+    const result = analyzeFluidCreep([], fluidResult, adult);
+    expect(result.hoursCharted).toBe(0);
+    expect(result.ratioToTarget).toBeNull();
+    expect(result.alerts).toEqual([]);
+    expect(summarizeFluidCreep(result)).toEqual([]);
+  });
+
+  it('should reject a non-positive weight', () => {
+    expect(() => analyzeFluidCreep([], fluidResult, { ...adult, weightKg: 0 })).toThrow('Weight must be positive');
+  });
+});
+
+describe('fluid creep in the assessment note', () => {
+  it('should add cumulative analytics and alerts to the flowsheet section', () => {
+    const patient: PatientData = {
+      ageMonths: 30 * 12,
+      weightKg: 70,
+      hoursSinceInjury: 3,
+      specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+    };
+    const regions = [{ region: 'Ant_Trunk' as const, fraction: 1 as const, depth: 'deep-partial' as const }];
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = makeBurnAssessmentNote({
+      patient,
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+      flowsheet: chartHours(3, 600, 80),
+    });
+    expect(note).toContain('- Ivy index: 25.7 of 250 ml/kg');
+    expect(note).toContain('⚠️ Urine output >50ml/hr for 3 consecutive hours');
+  });
+});
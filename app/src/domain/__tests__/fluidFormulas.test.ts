@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FLUID_FORMULAS,
+  getFluidFormula,
+  isFormulaApplicable,
+  resolveFormulaId,
+} from '../fluidFormulas';
+import { calculateFluids } from '../fluids';
+import { estimateBsaFromWeight } from '../bsa';
+
+describe('resuscitation formula volumes', () => {
+  const adult = { weightKg: 70, tbsaPct: 30 };
+
+  it('should match per-kg formulas', () => {
+    expect(FLUID_FORMULAS['parkland'].totalVolumeMl(adult)).toBe(8400);
+    expect(FLUID_FORMULAS['modified-brooke'].totalVolumeMl(adult)).toBe(4200);
+    expect(FLUID_FORMULAS['abls-2'].totalVolumeMl(adult)).toBe(4200);
+    expect(FLUID_FORMULAS['abls-3'].totalVolumeMl(adult)).toBe(6300);
+    expect(FLUID_FORMULAS['abls-4'].totalVolumeMl(adult)).toBe(8400);
+  });
+
+  it('should calculate Galveston from BSA', () => {
+    // 1.0 m² child, 40% TBSA: 5000 × 0.4 + 2000 × 1.0
+    expect(FLUID_FORMULAS['galveston'].totalVolumeMl({ weightKg: 30, tbsaPct: 40, bsaM2: 1 })).toBe(4000);
+  });
+
+  it('should calculate Cincinnati from weight and BSA', () => {
+    // 4 × 30 × 40 + 1500 × 1.0
+    expect(FLUID_FORMULAS['cincinnati'].totalVolumeMl({ weightKg: 30, tbsaPct: 40, bsaM2: 1 })).toBe(6300);
+  });
+
+  it('should estimate BSA from weight when not supplied', () => {
+    expect(estimateBsaFromWeight(10)).toBeCloseTo(0.47, 2);
+    const estimated = FLUID_FORMULAS['galveston'].totalVolumeMl({ weightKg: 10, tbsaPct: 20 });
+    expect(estimated).toBeCloseTo(1410, 0); // 5000 × 0.47 × 0.2 + 2000 × 0.47
+  });
+
+  it('should reject unknown formulas', () => {
+    // @ts-expect-error testing runtime guard
+    expect(() => getFluidFormula('unknown')).toThrow('Unknown resuscitation formula');
+  });
+});
+
+describe('formula applicability', () => {
+  it('should restrict formulas by population', () => {
+    expect(isFormulaApplicable(FLUID_FORMULAS['galveston'], 60)).toBe(true);
+    expect(isFormulaApplicable(FLUID_FORMULAS['galveston'], 360)).toBe(false);
+    expect(isFormulaApplicable(FLUID_FORMULAS['modified-brooke'], 360)).toBe(true);
+    expect(isFormulaApplicable(FLUID_FORMULAS['parkland'], 6)).toBe(true);
+  });
+
+  it('should prefer a per-patient choice over institutional defaults', () => {
+    const preferences = { adult: 'modified-brooke', pediatric: 'galveston' } as const;
+    expect(resolveFormulaId({ ageMonths: 360 }, preferences)).toBe('modified-brooke');
+    expect(resolveFormulaId({ ageMonths: 60 }, preferences)).toBe('galveston');
+    expect(resolveFormulaId({ ageMonths: 60, fluidFormula: 'abls-3' }, preferences)).toBe('abls-3');
+    expect(resolveFormulaId({ ageMonths: 60 })).toBe('parkland');
+  });
+});
+
+describe('calculateFluids with a selected formula', () => {
+  it('should default to Parkland and record the formula', () => {
+    const result = calculateFluids({ weightKg: 70, tbsaPct: 30, hoursSinceInjury: 0 });
+    expect(result.formula.id).toBe('parkland');
+    expect(result.parkland.totalMl).toBe(8400);
+  });
+
+  it('should use the selected formula volume and phase split', () => {
+    const result = calculateFluids({ weightKg: 70, tbsaPct: 30, hoursSinceInjury: 0, formulaId: 'modified-brooke' });
+    expect(result.formula.name).toBe('Modified Brooke');
+    expect(result.parkland.totalMl).toBe(4200);
+    expect(result.parkland.first8hMl).toBe(2100);
+    expect(result.parkland.rateNowMlPerHr).toBeCloseTo(262.5, 1);
+  });
+});
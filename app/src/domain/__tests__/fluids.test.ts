@@ -5,8 +5,19 @@ import {
   adjustFluidRateByUrineOutput,
   assessVitalStability,
   getFluidTypeRecommendation,
-  assessBurnFluidManagement
+  getColloidRecommendation,
+  getAlbuminDoseMlPerKgPerTbsa,
+  getPediatricMaintenancePlan,
+  calculateMaintenance,
+  calcEvaporativeLossMlPerHr,
+  assessBurnFluidManagement,
+  splitDeliveredFluids
 } from '../fluids';
+import { calculateTBSA } from '../tbsa';
+import { calculateBSA } from '../bsa';
+import { createZonedSelection } from '../regionSelections';
+import { createFlowsheetEntry } from '../flowsheet';
+import type { RegionSelection } from '../types';
 
 describe('calculateFluids', () => {
   it('should calculate Parkland formula correctly for infant example', () => {
@@ -52,6 +63,121 @@ describe('calculateFluids', () => {
   });
 });
 
+describe('calculateFluids with actual delivered volume', () => {
+  // 70kg, 20% TBSA: 5600ml total, 2800ml in first 8h (350ml/hr planned)
+  const base = { weightKg: 70, tbsaPct: 20 };
+
+  it('should report on-schedule delivery by default', () => {
+    const result = calculateFluids({ ...base, hoursSinceInjury: 3 });
+    expect(result.parkland.deliveryBasis).toBe('scheduled');
+    expect(result.parkland.deficitMl).toBe(0);
+    expect(result.parkland.exceedsCatchUpCeiling).toBe(false);
+  });
+
+  it('should carry the full missed volume when no fluid was given', () => {
+    const result = calculateFluids({ ...base, hoursSinceInjury: 3, priorFluids: [] });
+
+    expect(result.parkland.deliveryBasis).toBe('actual');
+    expect(result.parkland.deliveredTotalMl).toBe(0);
+    expect(result.parkland.deficitMl).toBeCloseTo(1050, 1); // 3h × 350ml/hr
+    expect(result.parkland.remainingFirst8hMl).toBeCloseTo(2800, 1);
+    expect(result.parkland.rateNowMlPerHr).toBeCloseTo(560, 1); // 2800 / 5h
+    expect(result.parkland.catchUpCeilingMlPerHr).toBeCloseTo(525, 1);
+    expect(result.parkland.exceedsCatchUpCeiling).toBe(true);
+  });
+
+  it('should subtract prehospital and referring volumes', () => {
+    const result = calculateFluids({
+      ...base,
+      hoursSinceInjury: 3,
+      priorFluids: [
+        { source: 'prehospital', volumeMl: 500, startHour: 0, endHour: 1 },
+        { source: 'referring-facility', volumeMl: 500, startHour: 1, endHour: 3 },
+      ],
+    });
+
+    expect(result.parkland.deliveredTotalMl).toBe(1000);
+    expect(result.parkland.deficitMl).toBeCloseTo(50, 1);
+    expect(result.parkland.rateNowMlPerHr).toBeCloseTo(360, 1); // 1800 / 5h
+    expect(result.parkland.exceedsCatchUpCeiling).toBe(false);
+  });
+
+  it('should roll first-8h shortfall into the remaining 24h volume', () => {
+    const result = calculateFluids({
+      ...base,
+      hoursSinceInjury: 12,
+      priorFluids: [{ source: 'referring-facility', volumeMl: 2000, startHour: 2, endHour: 12 }],
+    });
+
+    expect(result.parkland.phase).toBe('next16');
+    expect(result.parkland.remainingNext16hMl).toBeCloseTo(3600, 1);
+    expect(result.parkland.rateNowMlPerHr).toBeCloseTo(300, 1); // 3600 / 12h
+    expect(result.parkland.deficitMl).toBeCloseTo(1500, 1); // 3500 scheduled - 2000
+  });
+
+  it('should reject volumes that end in the future', () => {
+    expect(() => calculateFluids({
+      ...base,
+      hoursSinceInjury: 2,
+      priorFluids: [{ source: 'prehospital', volumeMl: 500, startHour: 0, endHour: 4 }],
+    })).toThrow('Prior fluid cannot end after the current time since injury');
+  });
+});
+
+describe('splitDeliveredFluids', () => {
+  it('should divide an infusion spanning hour 8 between phases', () => {
+    const result = splitDeliveredFluids(
+      [{ source: 'referring-facility', volumeMl: 1000, startHour: 6, endHour: 10 }],
+      10
+    );
+    expect(result.first8hMl).toBeCloseTo(500, 1);
+    expect(result.after8hMl).toBeCloseTo(500, 1);
+    expect(result.totalMl).toBeCloseTo(1000, 1);
+  });
+});
+
+describe('calculateFluids excludes superficial burns', () => {
+  const ADULT_MONTHS = 360;
+  const deepBurns: RegionSelection[] = [
+    { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+    { region: 'R_Thigh', fraction: 1, depth: 'full-thickness' },
+  ];
+  const fluidsFor = (selections: RegionSelection[]) => calculateFluids({
+    weightKg: 70,
+    tbsaPct: calculateTBSA(ADULT_MONTHS, selections).tbsaPct,
+    hoursSinceInjury: 0,
+  });
+
+  it('should give the same volume when superficial regions are added', () => {
+    const withSunburn = fluidsFor([
+      ...deepBurns,
+      { region: 'Post_Trunk', fraction: 1, depth: 'superficial' },
+      { region: 'L_U_Arm', fraction: 1, depth: 'superficial' },
+    ]);
+    expect(withSunburn.parkland.totalMl).toBe(fluidsFor(deepBurns).parkland.totalMl);
+    // 4 × 70 × 22.5%
+    expect(withSunburn.parkland.totalMl).toBe(6300);
+  });
+
+  it('should count only the deeper zones of a mixed-depth region', () => {
+    const mixedTrunk = createZonedSelection('Ant_Trunk', [
+      { fraction: 0.5, depth: 'superficial' },
+      { fraction: 0.5, depth: 'superficial-partial' },
+    ]);
+    const result = fluidsFor([mixedTrunk!]);
+    // 13% × 0.5 = 6.5% counted → 4 × 70 × 6.5
+    expect(result.parkland.totalMl).toBe(1820);
+  });
+
+  it('should need no resuscitation volume for a purely superficial burn', () => {
+    const result = fluidsFor([
+      { region: 'Ant_Trunk', fraction: 1, depth: 'superficial' },
+      { region: 'Post_Trunk', fraction: 1, depth: 'superficial' },
+    ]);
+    expect(result.parkland.totalMl).toBe(0);
+  });
+});
+
 describe('calcUrineOutputTarget', () => {
   it('should use protocol targets for patients >20kg', () => {
     const adult = calcUrineOutputTarget(70, 300); // 25 year old, 70kg
@@ -126,6 +252,169 @@ describe('getFluidTypeRecommendation', () => {
   });
 });
 
+describe('maintenance methods', () => {
+  // 70kg adult, BSA 1.8 m², 20% TBSA
+  const adult = { weightKg: 70, bsaM2: 1.8, tbsaPct: 20 };
+
+  it('should default to 4-2-1 with its formula text', () => {
+    const result = calculateFluids({ ...adult, hoursSinceInjury: 0 });
+    expect(result.maintenance).toMatchObject({ mlPerHr: 110, method: '4-2-1' });
+    expect(result.maintenance.formula).toContain('4 ml/kg/hr first 10kg');
+  });
+
+  it('should calculate 100/50/20 per day', () => {
+    // (1000 + 500 + 50 × 20) / 24
+    expect(calculateMaintenance('100-50-20', adult).mlPerHr).toBe(104.2);
+  });
+
+  it('should calculate 1500 ml/m²/day from BSA', () => {
+    expect(calculateMaintenance('bsa', adult).mlPerHr).toBe(112.5);
+  });
+
+  it('should add (25 + %TBSA) × BSA evaporative loss to basal BSA fluid', () => {
+    expect(calcEvaporativeLossMlPerHr(20, 1.8)).toBe(81);
+    expect(calculateMaintenance('evaporative', adult)).toMatchObject({ mlPerHr: 193.5, evaporativeLossMlPerHr: 81 });
+  });
+
+  it('should use the selected method in calculateFluids', () => {
+    const result = calculateFluids({ ...adult, hoursSinceInjury: 0, maintenanceMethod: 'bsa' });
+    expect(result.maintenance).toMatchObject({ mlPerHr: 112.5, method: 'bsa' });
+  });
+
+  it('should estimate maintenance plus evaporative loss between 24 and 72 hours', () => {
+    expect(calculateFluids({ ...adult, hoursSinceInjury: 30 }).postResuscitation).toEqual({
+      maintenanceMlPerHr: 110,
+      evaporativeLossMlPerHr: 81,
+      evaporativeLossIncluded: false,
+      totalMlPerHr: 191,
+    });
+    expect(calculateFluids({ ...adult, hoursSinceInjury: 30, maintenanceMethod: 'evaporative' }).postResuscitation)
+      .toEqual({ maintenanceMlPerHr: 193.5, evaporativeLossMlPerHr: 81, evaporativeLossIncluded: true, totalMlPerHr: 193.5 });
+    expect(calculateFluids({ ...adult, hoursSinceInjury: 10 }).postResuscitation).toBeUndefined();
+    expect(calculateFluids({ ...adult, hoursSinceInjury: 80 }).postResuscitation).toBeUndefined();
+  });
+});
+
+describe('getPediatricMaintenancePlan', () => {
+  it('should add D5LR maintenance on top of LR for children under 30kg', () => {
+    const plan = getPediatricMaintenancePlan({ weightKg: 15, ageMonths: 48, resuscitationRateMlPerHr: 50, maintenanceMlPerHr: 50 });
+    expect(plan.required).toBe(true);
+    expect(plan.fluid).toBe('D5LR (5% dextrose in Lactated Ringers)');
+    expect(plan.maintenanceMlPerHr).toBe(50);
+    expect(plan.totalRateMlPerHr).toBe(100);
+    expect(plan.glucoseMonitoring?.intervalHours).toBe(4);
+    expect(plan.glucoseMonitoring?.instructions).toContain(
+      'Glucose <60mg/dL (3.3mmol/L): give D10W 2ml/kg (30ml) IV and recheck in 15 minutes'
+    );
+  });
+
+  it('should check glucose every 2 hours in infants', () => {
+    const plan = getPediatricMaintenancePlan({ weightKg: 8, ageMonths: 6, resuscitationRateMlPerHr: 20, maintenanceMlPerHr: 32 });
+    expect(plan.maintenanceMlPerHr).toBe(32);
+    expect(plan.glucoseMonitoring?.intervalHours).toBe(2);
+  });
+
+  it('should not add pediatric maintenance for a small adult', () => {
+    const plan = getPediatricMaintenancePlan({ weightKg: 28, ageMonths: 240, resuscitationRateMlPerHr: 60, maintenanceMlPerHr: 68 });
+    expect(plan.required).toBe(false);
+    expect(plan.reason).toBe('Adult - maintenance not routinely added during resuscitation');
+    expect(plan.totalRateMlPerHr).toBe(60);
+    expect(plan.glucoseMonitoring).toBeUndefined();
+  });
+
+  it('should not add maintenance at 30kg and above', () => {
+    const plan = getPediatricMaintenancePlan({ weightKg: 30, ageMonths: 120, resuscitationRateMlPerHr: 150, maintenanceMlPerHr: 70 });
+    expect(plan.required).toBe(false);
+    expect(plan.totalRateMlPerHr).toBe(150);
+    expect(plan.glucoseMonitoring).toBeUndefined();
+  });
+
+  it('should keep glucose checks but not add volume when the formula includes maintenance', () => {
+    const plan = getPediatricMaintenancePlan({
+      weightKg: 15,
+      ageMonths: 48,
+      resuscitationRateMlPerHr: 80,
+      maintenanceMlPerHr: 50,
+      formulaMaintenance: 'included',
+    });
+    expect(plan.required).toBe(false);
+    expect(plan.totalRateMlPerHr).toBe(80);
+    expect(plan.glucoseMonitoring).toBeDefined();
+  });
+
+  it('should reject a non-positive weight', () => {
+    expect(() => getPediatricMaintenancePlan({ weightKg: 0, ageMonths: 12, resuscitationRateMlPerHr: 10, maintenanceMlPerHr: 0 }))
+      .toThrow('Weight must be positive');
+  });
+});
+
+describe('getColloidRecommendation', () => {
+  const majorBurn = { weightKg: 80, tbsaPct: 40, hoursSinceInjury: 10, crystalloidRateMlPerHr: 700 };
+
+  it('should scale the albumin dose with TBSA', () => {
+    expect(getAlbuminDoseMlPerKgPerTbsa(30)).toBe(0.3);
+    expect(getAlbuminDoseMlPerKgPerTbsa(55)).toBe(0.4);
+    expect(getAlbuminDoseMlPerKgPerTbsa(75)).toBe(0.5);
+  });
+
+  it('should start albumin after hour 8 for TBSA ≥30% and cut LR to match', () => {
+    const result = getColloidRecommendation(majorBurn);
+    expect(result.status).toBe('start');
+    expect(result.startHour).toBe(10);
+    // 0.3 × 80 × 40 = 960 mL over hours 10-24
+    expect(result.dose).toEqual({
+      fluid: '5% albumin',
+      mlPerKgPerTbsa: 0.3,
+      totalMl: 960,
+      rateMlPerHr: 69,
+      crystalloidRateMlPerHr: 631,
+    });
+  });
+
+  it('should plan albumin from hour 8 during the first 8 hours', () => {
+    const result = getColloidRecommendation({ ...majorBurn, hoursSinceInjury: 4 });
+    expect(result.status).toBe('planned');
+    expect(result.startHour).toBe(8);
+    expect(result.dose?.totalMl).toBe(960);
+  });
+
+  it('should start rescue colloid now when crystalloid runs ≥1.5× the formula', () => {
+    const result = getColloidRecommendation({
+      weightKg: 70,
+      tbsaPct: 25,
+      hoursSinceInjury: 4,
+      crystalloidRateMlPerHr: 700,
+      requirementRatio: 1.6,
+    });
+    expect(result.status).toBe('rescue');
+    expect(result.reason).toBe('Crystalloid requirement 1.6× formula (≥1.5×) - start albumin rescue');
+    expect(result.startHour).toBe(4);
+    expect(result.dose?.rateMlPerHr).toBe(26);
+    expect(result.dose?.crystalloidRateMlPerHr).toBe(674);
+  });
+
+  it('should give an early rescue the stated dose over the hours left to hour 24', () => {
+    const result = getColloidRecommendation({
+      weightKg: 70,
+      tbsaPct: 25,
+      hoursSinceInjury: 3,
+      crystalloidRateMlPerHr: 700,
+      requirementRatio: 1.6,
+    });
+    // 0.3 × 70 × 25 = 525 mL over hours 3-24, not 21/16 of it
+    expect(result.dose).toMatchObject({ totalMl: 525, rateMlPerHr: 25 });
+  });
+
+  it('should not recommend colloid for smaller burns on formula or after 24 hours', () => {
+    const base = { weightKg: 70, hoursSinceInjury: 10, crystalloidRateMlPerHr: 300 };
+    expect(getColloidRecommendation({ ...base, tbsaPct: 25, requirementRatio: 1.2 }).status).toBe('not-indicated');
+    expect(getColloidRecommendation({ ...base, tbsaPct: 15, requirementRatio: 2 }).status).toBe('not-indicated');
+    const late = getColloidRecommendation({ ...majorBurn, hoursSinceInjury: 30 });
+    expect(late.status).toBe('not-indicated');
+    expect(late.dose).toBeUndefined();
+  });
+});
+
 // Comprehensive test coverage for complex scenarios
 describe('assessBurnFluidManagement', () => {
   it('should provide complete clinical assessment for pediatric patient', () => {
@@ -162,6 +451,105 @@ describe('assessBurnFluidManagement', () => {
     expect(result.fluidRateAdjustment.adjustment).toBe('increase');
   });
 
+  it('should add dextrose maintenance and glucose checks for a child under 30kg', () => {
+    const result = assessBurnFluidManagement({
+      weightKg: 25,
+      tbsaPct: 20,
+      ageMonths: 96,
+      hoursSinceInjury: 3,
+      currentIVRateMlPerHr: 125,
+      urineOutputMlPerHr: 35,
+      vitals: { heartRate: 100, systolicBP: 105, diastolicBP: 65, oxygenSat: 98 },
+    });
+
+    expect(result.pediatricMaintenance.required).toBe(true);
+    expect(result.pediatricMaintenance.totalRateMlPerHr).toBe(190); // 125 LR + 65 maintenance
+    expect(result.protocolRecommendations).toContain(
+      'Add maintenance: D5LR (5% dextrose in Lactated Ringers) at 65ml/hr on top of LR - total 190ml/hr'
+    );
+    expect(result.protocolRecommendations).toContain('Check blood glucose every 4 hours during resuscitation');
+  });
+
+  it('should take pediatric maintenance from the configured method', () => {
+    const params = {
+      weightKg: 25,
+      tbsaPct: 20,
+      ageMonths: 96,
+      hoursSinceInjury: 3,
+      currentIVRateMlPerHr: 125,
+      urineOutputMlPerHr: 35,
+      vitals: { heartRate: 100, systolicBP: 105, diastolicBP: 65, oxygenSat: 98 },
+    };
+
+    const bsa = assessBurnFluidManagement({ ...params, maintenanceMethod: 'bsa' });
+    expect(bsa.pediatricMaintenance.maintenanceMlPerHr).toBe(bsa.parklandCalculation.maintenance.mlPerHr);
+    expect(bsa.pediatricMaintenance.maintenanceMlPerHr).not.toBe(65);
+    // The general maintenance flag keeps its ≤20kg cutoff
+    expect(assessBurnFluidManagement(params).needsMaintenanceFluid).toBe(false);
+    expect(assessBurnFluidManagement({ ...params, weightKg: 20 }).needsMaintenanceFluid).toBe(true);
+  });
+
+  it('should size BSA-based formulas from the supplied height-based BSA', () => {
+    const params = {
+      weightKg: 10,
+      tbsaPct: 30,
+      ageMonths: 18,
+      hoursSinceInjury: 2,
+      currentIVRateMlPerHr: 80,
+      urineOutputMlPerHr: 10,
+      vitals: {},
+      formulaId: 'galveston' as const,
+    };
+    const { bsaM2 } = calculateBSA(10, 90); // Mosteller 0.5 m², Costeff would give 0.47 m²
+
+    const result = assessBurnFluidManagement({ ...params, bsaM2 });
+    // 5000 × 0.5 × 0.3 + 2000 × 0.5
+    expect(result.parklandCalculation.parkland.totalMl).toBe(1750);
+    expect(result.parklandCalculation).toEqual(calculateFluids({ ...params, bsaM2 }));
+    expect(assessBurnFluidManagement(params).parklandCalculation.parkland.totalMl).not.toBe(1750);
+  });
+
+  it('should include the colloid decision and LR reduction', () => {
+    // Parkland target to hour 10 is 7200 ml
+    const hourly = (ml: number) => Array.from({ length: 10 }, (_, i) => createFlowsheetEntry(i + 1, ml, 40));
+    const params = {
+      weightKg: 80,
+      tbsaPct: 40,
+      ageMonths: 300,
+      hoursSinceInjury: 10,
+      currentIVRateMlPerHr: 700,
+      urineOutputMlPerHr: 40,
+      vitals: { heartRate: 100, systolicBP: 120, diastolicBP: 80, oxygenSat: 98 },
+      flowsheet: hourly(1260),
+    };
+
+    const rescue = assessBurnFluidManagement(params);
+    expect(rescue.colloid.status).toBe('rescue');
+    expect(rescue.protocolRecommendations).toContain('Crystalloid requirement 1.75× formula (≥1.5×) - start albumin rescue');
+    expect(rescue.protocolRecommendations).toContain('5% albumin at 69ml/hr (0.3ml/kg/%TBSA over hours 10-24) - reduce LR to 631ml/hr');
+
+    const onFormula = assessBurnFluidManagement({ ...params, flowsheet: hourly(720) });
+    expect(onFormula.colloid.status).toBe('start');
+    expect(onFormula.colloid.dose?.crystalloidRateMlPerHr).toBe(631);
+  });
+
+  it('should judge albumin rescue on total volume given, not the current pump rate', () => {
+    const params = {
+      weightKg: 80,
+      tbsaPct: 40,
+      ageMonths: 300,
+      hoursSinceInjury: 10,
+      currentIVRateMlPerHr: 400,
+      urineOutputMlPerHr: 40,
+      vitals: { heartRate: 100, systolicBP: 120, diastolicBP: 80, oxygenSat: 98 },
+    };
+
+    const overTotal = Array.from({ length: 10 }, (_, i) => createFlowsheetEntry(i + 1, 1440, 40));
+    expect(assessBurnFluidManagement({ ...params, flowsheet: overTotal }).colloid.status).toBe('rescue');
+    // One uptitrated hour without a flowsheet is not a rescue trigger
+    expect(assessBurnFluidManagement({ ...params, currentIVRateMlPerHr: 900 }).colloid.status).toBe('start');
+  });
+
   it('should handle adult patient with stable vitals', () => {
     const params = {
       weightKg: 70,
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { formatMechanism, getMechanismPathway } from '../mechanisms';
+import { assessBurnFluidManagement, calcUrineOutputTarget } from '../fluids';
+import { navigateDecisionTree } from '../clinicalDecisionTree';
+import { evaluateReferralCriteria } from '../referral';
+import { makeBurnAssessmentNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import { calculateFluids } from '../fluids';
+import type { BurnMechanism, PatientData } from '../types';
+
+const HIGH_VOLTAGE: BurnMechanism = { type: 'electrical', voltage: 'high' };
+
+const fluidParams = {
+  weightKg: 70,
+  tbsaPct: 20,
+  ageMonths: 30 * 12,
+  hoursSinceInjury: 2,
+  currentIVRateMlPerHr: 700,
+  urineOutputMlPerHr: 45,
+  vitals: { heartRate: 100, systolicBP: 120, diastolicBP: 80, oxygenSat: 98 },
+};
+
+describe('formatMechanism', () => {
+  it('should include voltage and chemical agent', () => {
+    expect(formatMechanism(HIGH_VOLTAGE)).toBe('Electrical (high voltage)');
+    expect(formatMechanism({ type: 'chemical', chemicalClass: 'alkali', agent: 'oven cleaner' }))
+      .toBe('Chemical (alkali: oven cleaner)');
+    expect(formatMechanism({ type: 'scald' })).toBe('Scald');
+  });
+});
+
+describe('getMechanismPathway', () => {
+  it('should keep the standard pathway for scald and contact burns', () => {
+    for (const type of ['scald', 'contact'] as const) {
+      const pathway = getMechanismPathway({ type });
+      expect(pathway.warnings).toEqual([]);
+      expect(pathway.checklists).toEqual([]);
+      expect(pathway.urineOutputMlPerKgPerHr).toBeUndefined();
+    }
+  });
+
+  it('should raise the urine output target and warn of myoglobinuria for high voltage only', () => {
+    const high = getMechanismPathway(HIGH_VOLTAGE);
+    expect(high.urineOutputMlPerKgPerHr).toEqual({ min: 1, max: 1.5 });
+    expect(high.warnings.some(warning => warning.includes('Myoglobinuria'))).toBe(true);
+
+    const low = getMechanismPathway({ type: 'electrical', voltage: 'low' });
+    expect(low.urineOutputMlPerKgPerHr).toBeUndefined();
+    expect(low.warnings.some(warning => warning.includes('Myoglobinuria'))).toBe(false);
+  });
+
+  it('should irrigate alkalis for longer than acids', () => {
+    const items = (mechanism: BurnMechanism) => getMechanismPathway(mechanism).checklists[0].items.join(' ');
+    expect(items({ type: 'chemical', chemicalClass: 'acid' })).toContain('at least 20 minutes');
+    expect(items({ type: 'chemical', chemicalClass: 'alkali' })).toContain('at least 60 minutes');
+  });
+
+  it('should add calcium gluconate for hydrofluoric acid', () => {
+    const pathway = getMechanismPathway({ type: 'chemical', chemicalClass: 'acid', agent: 'Hydrofluoric acid' });
+    expect(pathway.warnings.some(warning => warning.includes('calcium gluconate'))).toBe(true);
+  });
+
+  it('should add the airway checklist for inhalation injury', () => {
+    const pathway = getMechanismPathway({ type: 'inhalation' });
+    expect(pathway.checklists[0].title).toBe('Airway assessment');
+    expect(pathway.checklists[0].items).toContain('Give 100% oxygen and check carboxyhaemoglobin');
+  });
+});
+
+describe('mechanism-aware fluid management', () => {
+  it('should use 1-1.5 ml/kg/hr for high-voltage injury', () => {
+    expect(calcUrineOutputTarget(70, 360, HIGH_VOLTAGE)).toEqual({
+      min: 70,
+      max: 105,
+      method: 'Electrical (high voltage) (1-1.5ml/kg/hr)',
+    });
+    expect(calcUrineOutputTarget(70, 360, { type: 'scald' }).min).toBe(30);
+  });
+
+  it('should increase fluids when urine output is adequate for a thermal burn but not for myoglobinuria', () => {
+    expect(assessBurnFluidManagement(fluidParams).fluidRateAdjustment.adjustment).toBe('maintain');
+
+    const electrical = assessBurnFluidManagement({ ...fluidParams, mechanism: HIGH_VOLTAGE });
+    expect(electrical.fluidRateAdjustment.adjustment).toBe('increase');
+    expect(electrical.fluidRateAdjustment.reason).toBe('Urine output <70ml/hr - Increase IV rate by 20%');
+    expect(electrical.clinicalNotes).toContain('Mechanism: Electrical (high voltage)');
+    expect(electrical.protocolRecommendations).toContain('Monitor urine output hourly (target: 70-105ml/hr)');
+  });
+});
+
+describe('mechanism-aware decision tree', () => {
+  it('should run the electrical pathway alongside urine output titration', () => {
+    const result = navigateDecisionTree({ weightKg: 70, tbsaPct: 20, urineOutputMlPerHr: 45, mechanism: HIGH_VOLTAGE });
+    expect(result.currentNode.id).toBe('increase-rate');
+    expect(result.mechanismNode?.id).toBe('electrical-pathway');
+    expect(result.nextRecommendations[0]).toBe('Target urine output 1-1.5ml/kg/hr until urine is clear');
+  });
+
+  it('should leave the burn protocol for frostbite', () => {
+    const result = navigateDecisionTree({ weightKg: 70, tbsaPct: 5, mechanism: { type: 'frostbite' } });
+    expect(result.currentNode.id).toBe('frostbite-pathway');
+  });
+
+  it('should not change navigation for thermal burns', () => {
+    const result = navigateDecisionTree({ weightKg: 70, tbsaPct: 20, urineOutputMlPerHr: 45, mechanism: { type: 'scald' } });
+    expect(result.currentNode.id).toBe('maintain-rate');
+    expect(result.mechanismNode).toBeUndefined();
+  });
+});
+
+describe('mechanism in referral and notes', () => {
+  const patient: PatientData = {
+    ageMonths: 30 * 12,
+    weightKg: 70,
+    hoursSinceInjury: 1,
+    mechanism: 'Splash at work',
+    burnMechanism: { type: 'chemical', chemicalClass: 'alkali', agent: 'sodium hydroxide' },
+    specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+  };
+
+  it('should refer on the structured mechanism', () => {
+    const { met } = evaluateReferralCriteria(patient, []);
+    expect(met.map(criterion => criterion.id)).toEqual(['chemical']);
+    expect(met[0].reason).toBe('Mechanism: Chemical (alkali: sodium hydroxide)');
+  });
+
+  it('should include the irrigation protocol in the assessment note', () => {
+    const regions = [{ region: 'R_L_Arm' as const, fraction: 0.5 as const, depth: 'deep-partial' as const }];
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = makeBurnAssessmentNote({
+      patient,
+      tbsa,
+      fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note).toContain('MECHANISM: Chemical (alkali: sodium hydroxide) - Splash at work');
+    expect(note).toContain('MECHANISM-SPECIFIC PATHWAY (Chemical (alkali: sodium hydroxide)):');
+    expect(note).toContain('□ Irrigate with copious running water for at least 60 minutes');
+  });
+});
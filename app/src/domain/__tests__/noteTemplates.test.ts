@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TEMPLATE_VERSIONS,
+  activateNoteTemplateVersion,
+  getActiveNoteTemplate,
+  renderTemplate,
+  saveNoteTemplateVersion,
+  validateTemplate,
+} from '../noteTemplates';
+import { buildNoteTemplateContext, makeClinicalNote } from '../notes';
+import { calculateFluids } from '../fluids';
+import { calculateTBSA } from '../tbsa';
+import { DEFAULT_NOTE_TEMPLATES } from '@/constants/noteTemplates';
+import type { BurnNoteData, PatientData, RegionSelection } from '../types';
+
+const patient: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 2,
+  mechanism: 'House fire',
+  specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: true },
+};
+const regions: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+  { region: 'R_U_Arm', fraction: 0.5, depth: 'full-thickness' },
+];
+const tbsa = calculateTBSA(patient.ageMonths, regions);
+const data: BurnNoteData = {
+  patient,
+  tbsa,
+  fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+  regions,
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+};
+
+describe('renderTemplate', () => {
+  it('should insert variables, join lists and leave unknown names for the clinician', () => {
+    const result = renderTemplate('{{patient.weightKg}}kg, {{sites}}, {{ok}}, {{none}}. {{CLINICIAN_NAME}} {{patient.nope}}', {
+      patient: { weightKg: 70 },
+      sites: ['face', 'hands'],
+      ok: true,
+      none: null,
+    });
+    expect(result.text).toBe('70kg, face, hands, Yes, . {{CLINICIAN_NAME}} {{patient.nope}}');
+    expect(result.unresolved).toEqual(['CLINICIAN_NAME', 'patient.nope']);
+  });
+
+  it('should treat empty text, 0, null and empty lists as false', () => {
+    const template = '{{#if value}}yes{{else}}no{{/if}}/{{#unless value}}unless{{/unless}}';
+    expect(renderTemplate(template, { value: 'x' }).text).toBe('yes/');
+    [0, '', null, []].forEach(value => expect(renderTemplate(template, { value }).text).toBe('no/unless'));
+    expect(renderTemplate(template, {}).unresolved).toEqual(['value']);
+  });
+
+  it('should loop with item fields, this, loop markers and outer variables', () => {
+    const context = {
+      unit: '%',
+      regions: [{ name: 'Trunk', pct: 13 }, { name: 'Arm', pct: 2 }],
+      tags: ['a', 'b', 'c'],
+    };
+    expect(renderTemplate('{{#each regions}}{{@number}}. {{name}} {{pct}}{{unit}}{{#unless @last}}; {{/unless}}{{/each}}', context).text)
+      .toBe('1. Trunk 13%; 2. Arm 2%');
+    expect(renderTemplate('{{#each tags}}{{#if @first}}[{{/if}}{{this}}{{#if @last}}]{{/if}}{{/each}}', context).text).toBe('[abc]');
+    expect(renderTemplate('{{#each missing}}x{{else}}none{{/each}}', { missing: [] }).text).toBe('none');
+  });
+
+  it('should drop lines holding only a block tag', () => {
+    const template = 'A:\n{{#each items}}\n  - {{this}}\n{{/each}}\n{{#if extra}}\nExtra\n{{/if}}\nEnd';
+    expect(renderTemplate(template, { items: ['x', 'y'], extra: false }).text).toBe('A:\n  - x\n  - y\nEnd');
+  });
+
+  it('should leave braces that are not tags as text', () => {
+    expect(renderTemplate('{{ two words }} {{}}', {}).text).toBe('{{ two words }} {{}}');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('should report block errors with line numbers', () => {
+    expect(validateTemplate('a\n{{#if x}}\nb')).toBe('Line 2: {{#if x}} is never closed');
+    expect(validateTemplate('{{#if x}}\n{{/each}}')).toBe('Line 2: {{/each}} closes {{#if}} from line 1');
+    expect(validateTemplate('{{#with x}}{{/with}}')).toBe('Line 1: unknown block {{#with}}');
+    expect(validateTemplate('x\n\n{{else}}')).toBe('Line 3: {{else}} outside a block');
+    expect(validateTemplate('{{#if}}{{/if}}')).toBe('Line 1: {{#if}} needs a variable name');
+    expect(validateTemplate(DEFAULT_NOTE_TEMPLATES.assessment)).toBeNull();
+  });
+});
+
+describe('note templates', () => {
+  it('should bind the urine output target in the built-in assessment note', () => {
+    const note = makeClinicalNote('assessment', data);
+    expect(note).toContain('□ Monitor urine output (target: 30-50 ml/hr)');
+    expect(note).toContain('{{CLINICAL_ASSESSMENT_PLACEHOLDER}}');
+  });
+
+  it('should render a custom template with conditions and region loops', () => {
+    const template = [
+      'BURN NOTE {{patient.weightKg}}kg',
+      '{{#each regions}}',
+      '- {{name}}: {{percentOfRegion}}% {{depth}} ({{tbsaPct}}% TBSA)',
+      '{{/each}}',
+      '{{#if specialSites}}',
+      'Special sites: {{specialSites}}',
+      '{{/if}}',
+    ].join('\n');
+    expect(makeClinicalNote('assessment', data, template)).toBe([
+      'BURN NOTE 70kg',
+      '- Ant_Trunk: 100% deep-partial (13% TBSA)',
+      '- R_U_Arm: 50% full-thickness (2% TBSA)',
+      'Special sites: majorJoints',
+    ].join('\n'));
+  });
+
+  it('should mark optional sections as empty when they do not apply', () => {
+    const context = buildNoteTemplateContext(data);
+    expect(context).toMatchObject({ airway: null, flowsheet: { hours: 0, lines: [] }, day2To7: { lines: [] } });
+  });
+});
+
+describe('template versions', () => {
+  const now = new Date('2024-05-01T08:00:00Z');
+
+  it('should append and activate each saved version', () => {
+    const first = saveNoteTemplateVersion(undefined, 'v1 {{tbsa.pct}}', '  first  ', now);
+    const second = saveNoteTemplateVersion(first, 'v2', undefined, now);
+    expect(first).toEqual({ versions: [{ version: 1, source: 'v1 {{tbsa.pct}}', savedAt: now.toISOString(), comment: 'first' }], activeVersion: 1 });
+    expect(second.activeVersion).toBe(2);
+    expect(second.versions).toHaveLength(2);
+    expect(getActiveNoteTemplate('handoff', second)).toBe('v2');
+  });
+
+  it('should fall back to the built-in template and reject unknown versions', () => {
+    const history = saveNoteTemplateVersion(undefined, 'custom', undefined, now);
+    expect(getActiveNoteTemplate('discharge', activateNoteTemplateVersion(history, null))).toBe(DEFAULT_NOTE_TEMPLATES.discharge);
+    expect(getActiveNoteTemplate('discharge', undefined)).toBe(DEFAULT_NOTE_TEMPLATES.discharge);
+    expect(() => activateNoteTemplateVersion(history, 7)).toThrow('Template version 7 not found');
+  });
+
+  it('should refuse templates with syntax errors and keep a bounded history', () => {
+    expect(() => saveNoteTemplateVersion(undefined, '{{#if x}}', undefined, now)).toThrow('Line 1');
+    let history = saveNoteTemplateVersion(undefined, 'v1', undefined, now);
+    for (let i = 2; i <= MAX_TEMPLATE_VERSIONS + 2; i++) history = saveNoteTemplateVersion(history, `v${i}`, undefined, now);
+    expect(history.versions).toHaveLength(MAX_TEMPLATE_VERSIONS);
+    expect(history.versions[0].version).toBe(3);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNutritionPlan, planPostResuscitation, summarizePostResuscitation } from '../postResuscitation';
+import { calculateFluids } from '../fluids';
+import { makeBurnAssessmentNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import type { PatientData } from '../types';
+
+// 70kg adult, 40% TBSA, BSA 1.8 m²: 11200 mL over 24h, 350 mL/hr for hours 8-24
+const adult = { weightKg: 70, ageMonths: 30 * 12, tbsaPct: 40, bsaM2: 1.8 };
+const fluidsAt = (hoursSinceInjury: number) => calculateFluids({ ...adult, hoursSinceInjury });
+
+describe('second-day fluids in calculateFluids', () => {
+  it('should give albumin, maintenance and free water for hours 24-48', () => {
+    // Albumin 0.3 × 70 × 40 = 840 mL; free water (25 + 40) × 1.8 = 117 mL/hr
+    expect(fluidsAt(0).secondDay).toEqual({
+      colloidMl: 840,
+      colloidMlPerHr: 35,
+      maintenanceMlPerHr: 110,
+      freeWaterMlPerHr: 117,
+      rateMlPerHr: 262,
+      totalMl: 6288,
+    });
+  });
+
+  it('should continue the timeline to hour 48 at the second-day rate', () => {
+    const { timeline } = fluidsAt(0);
+    expect(timeline).toHaveLength(49);
+    expect(timeline[24]).toEqual({ hourFromInjury: 24, targetCumulativeMl: 11200, phase: 'next16' });
+    expect(timeline[25]).toEqual({ hourFromInjury: 25, targetCumulativeMl: 11462, phase: 'day2' });
+    expect(timeline[48].targetCumulativeMl).toBe(17488);
+  });
+
+  it('should omit colloid below 30% TBSA', () => {
+    const result = calculateFluids({ ...adult, tbsaPct: 20, hoursSinceInjury: 0 });
+    expect(result.secondDay.colloidMl).toBe(0);
+    expect(result.secondDay.rateMlPerHr).toBe(191); // 110 + (25 + 20) × 1.8
+  });
+});
+
+describe('planPostResuscitation', () => {
+  it('should give the current day rate instead of zero after hour 24', () => {
+    const fluids = fluidsAt(30);
+    expect(fluids.parkland.rateNowMlPerHr).toBe(0);
+    const plan = planPostResuscitation(fluids, { ...adult, hoursSinceInjury: 30 });
+    expect(plan.currentDay).toBe(2);
+    expect(plan.rateNowMlPerHr).toBe(262);
+  });
+
+  it('should move to maintenance plus evaporative loss on day 3 and maintenance from day 4', () => {
+    const plan = planPostResuscitation(fluidsAt(60), { ...adult, hoursSinceInjury: 60 });
+    expect(plan.days.map(day => day.day)).toEqual([2, 3, 4, 5, 6, 7]);
+    expect(plan.days[1]).toMatchObject({ day: 3, startHour: 48, endHour: 72, colloidMl: 0, rateMlPerHr: 227 });
+    expect(plan.days[2]).toMatchObject({ day: 4, freeWaterMlPerHr: 0, rateMlPerHr: 110, totalMl: 2640 });
+    expect(plan.currentDay).toBe(3);
+  });
+
+  it('should have no current day before hour 24 or after day 7', () => {
+    expect(planPostResuscitation(fluidsAt(12), { ...adult, hoursSinceInjury: 12 }).currentDay).toBeNull();
+    expect(planPostResuscitation(fluidsAt(168), { ...adult, hoursSinceInjury: 168 }).currentDay).toBe(7);
+    expect(planPostResuscitation(fluidsAt(24), { ...adult, hoursSinceInjury: 170 }).rateNowMlPerHr).toBeNull();
+  });
+
+  it('should wean LR by 20% of the hour-24 rate down to the day 2 rate', () => {
+    const plan = planPostResuscitation(fluidsAt(24), { ...adult, hoursSinceInjury: 24 });
+    expect(plan.transition).toEqual([
+      { hourFromInjury: 24, rateMlPerHr: 280 },
+      { hourFromInjury: 25, rateMlPerHr: 262 },
+    ]);
+  });
+
+  it('should not wean when the day 2 rate is at or above the resuscitation rate', () => {
+    const smallBurn = calculateFluids({ ...adult, tbsaPct: 5, hoursSinceInjury: 30 });
+    expect(planPostResuscitation(smallBurn, { ...adult, tbsaPct: 5, hoursSinceInjury: 30 }).transition).toEqual([]);
+  });
+});
+
+describe('calculateNutritionPlan', () => {
+  it('should use Curreri for adults with TBSA capped at 50%', () => {
+    expect(calculateNutritionPlan(adult)).toMatchObject({ equation: 'curreri', kcalPerDay: 3350, proteinGPerDay: 140 });
+    expect(calculateNutritionPlan({ ...adult, tbsaPct: 80 }).kcalPerDay).toBe(3750);
+  });
+
+  it('should use Galveston for children', () => {
+    // 1800 × 0.8 + 2200 × 0.24
+    expect(calculateNutritionPlan({ weightKg: 20, ageMonths: 60, tbsaPct: 30, bsaM2: 0.8 })).toMatchObject({
+      equation: 'galveston',
+      kcalPerDay: 1968,
+      proteinGPerKgPerDay: 3,
+      proteinGPerDay: 60,
+    });
+  });
+
+  it('should reject a non-positive weight', () => {
+    expect(() => calculateNutritionPlan({ ...adult, weightKg: 0 })).toThrow('Weight must be positive');
+  });
+});
+
+describe('day 2-7 plan in notes', () => {
+  it('should summarize the current day, day 2 fluids, wean and nutrition', () => {
+    const lines = summarizePostResuscitation(planPostResuscitation(fluidsAt(30), { ...adult, hoursSinceInjury: 30 }));
+    expect(lines).toEqual([
+      '- Day 2 (hours 24-48): 262ml/hr IV - Stop LR; give colloid and D5W free water, titrate to urine output',
+      '- Day 2 fluids: 5% albumin 840ml over 24h + maintenance 110ml/hr + D5W 117ml/hr = 262ml/hr',
+      '- Wean LR from hour 24 by 20% per hour while urine output on target: 280 → 262 ml/hr',
+      '- Nutrition: 3350 kcal/day (25 kcal/kg + 40 kcal/%TBSA, TBSA capped at 50%), protein 140 g/day (2 g/kg) - start enteral feeds by hour 24',
+    ]);
+  });
+
+  it('should add the section to the assessment note only after hour 24', () => {
+    const patient: PatientData = {
+      ageMonths: 30 * 12,
+      weightKg: 70,
+      hoursSinceInjury: 30,
+      specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+    };
+    const regions = [{ region: 'Ant_Trunk' as const, fraction: 1 as const, depth: 'deep-partial' as const }];
+    const tbsa = calculateTBSA(patient.ageMonths, regions);
+    const note = (hoursSinceInjury: number) => makeBurnAssessmentNote({
+      patient: { ...patient, hoursSinceInjury },
+      tbsa,
+      fluids: calculateFluids({ ...patient, hoursSinceInjury, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note(30)).toContain('POST-RESUSCITATION PLAN (DAYS 2-7):');
+    expect(note(30)).toContain('- Day 2 (hours 24-48):');
+    expect(note(4)).not.toContain('POST-RESUSCITATION PLAN');
+  });
+});
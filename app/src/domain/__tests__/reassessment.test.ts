@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReassessment,
+  compareReassessments,
+  sortReassessments,
+  summarizeBurnEvolution,
+} from '../reassessment';
+import type { RegionSelection } from '../types';
+
+const ADULT_AGE = 360;
+
+const initial: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'superficial-partial' },
+  { region: 'R_U_Arm', fraction: 0.5, depth: 'deep-partial' },
+  { region: 'L_Hand', fraction: 1, depth: 'superficial-partial' },
+];
+
+const later: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+  { region: 'R_U_Arm', fraction: 1, depth: 'deep-partial' },
+  { region: 'Head', fraction: 0.5, depth: 'superficial-partial' },
+];
+
+describe('createReassessment', () => {
+  it('should snapshot selections with TBSA and timestamps', () => {
+    const now = new Date('2025-01-01T10:00:00.000Z');
+    const snapshot = createReassessment(ADULT_AGE, initial, 2, now);
+
+    expect(snapshot.id).toMatch(/^reassessment-/);
+    expect(snapshot.recordedAt).toBe('2025-01-01T10:00:00.000Z');
+    expect(snapshot.hoursSinceInjury).toBe(2);
+    expect(snapshot.tbsa.tbsaPct).toBeGreaterThan(0);
+    expect(snapshot.regionSelections).toEqual(initial);
+    expect(snapshot.regionSelections).not.toBe(initial);
+  });
+});
+
+describe('compareReassessments', () => {
+  const first = createReassessment(ADULT_AGE, initial, 2);
+  const second = createReassessment(ADULT_AGE, later, 24);
+  const diff = compareReassessments(first, second);
+
+  it('should report TBSA change and elapsed time', () => {
+    expect(diff.hoursElapsed).toBe(22);
+    expect(diff.tbsaBefore).toBe(first.tbsa.tbsaPct);
+    expect(diff.tbsaAfter).toBe(second.tbsa.tbsaPct);
+    expect(diff.tbsaDelta).toBeCloseTo(second.tbsa.tbsaPct - first.tbsa.tbsaPct, 1);
+  });
+
+  it('should classify each changed region', () => {
+    const byRegion = Object.fromEntries(diff.changes.map(c => [c.region, c.type]));
+    expect(byRegion).toEqual({
+      Ant_Trunk: 'progressed',
+      R_U_Arm: 'extent-changed',
+      L_Hand: 'resolved',
+      Head: 'new',
+    });
+  });
+
+  it('should keep the extent change when depth changes too', () => {
+    const deeperAndWider = createReassessment(ADULT_AGE, [
+      { region: 'R_U_Arm', fraction: 0.5, depth: 'superficial-partial' },
+    ], 2);
+    const result = compareReassessments(deeperAndWider, createReassessment(ADULT_AGE, [
+      { region: 'R_U_Arm', fraction: 1, depth: 'full-thickness' },
+    ], 24));
+    expect(result.changes).toMatchObject([{ region: 'R_U_Arm', type: 'progressed', extentChanged: true }]);
+    expect(diff.changes.find(c => c.region === 'Ant_Trunk')?.extentChanged).toBe(false);
+  });
+
+  it('should report improvement when a region is reassessed shallower', () => {
+    const shallower = createReassessment(ADULT_AGE, [
+      { region: 'Ant_Trunk', fraction: 1, depth: 'superficial' },
+    ], 48);
+    const result = compareReassessments(second, shallower);
+    expect(result.changes.find(c => c.region === 'Ant_Trunk')?.type).toBe('improved');
+  });
+
+  it('should return no changes for identical snapshots', () => {
+    const repeat = createReassessment(ADULT_AGE, initial, 4);
+    expect(compareReassessments(first, repeat).changes).toHaveLength(0);
+  });
+});
+
+describe('sortReassessments', () => {
+  it('should order by hours since injury', () => {
+    const a = createReassessment(ADULT_AGE, initial, 24);
+    const b = createReassessment(ADULT_AGE, initial, 2);
+    expect(sortReassessments([a, b]).map(r => r.hoursSinceInjury)).toEqual([2, 24]);
+  });
+});
+
+describe('summarizeBurnEvolution', () => {
+  it('should be empty with fewer than two assessments', () => {
+    expect(summarizeBurnEvolution([createReassessment(ADULT_AGE, initial, 2)])).toEqual([]);
+  });
+
+  it('should describe each interval and its region changes', () => {
+    const lines = summarizeBurnEvolution([
+      createReassessment(ADULT_AGE, later, 24),
+      createReassessment(ADULT_AGE, initial, 2),
+    ]);
+
+    expect(lines[0]).toMatch(/^- 2h → 24h: TBSA/);
+    expect(lines.some(l => l.includes('Ant Trunk: progressed'))).toBe(true);
+    expect(lines.some(l => l.includes('L Hand: no longer involved'))).toBe(true);
+  });
+
+  it('should note depth and extent when both change', () => {
+    const lines = summarizeBurnEvolution([
+      createReassessment(ADULT_AGE, [{ region: 'R_U_Arm', fraction: 0.5, depth: 'superficial-partial' }], 2),
+      createReassessment(ADULT_AGE, [{ region: 'R_U_Arm', fraction: 1, depth: 'full-thickness' }], 24),
+    ]);
+    expect(lines[1]).toBe('  • R U Arm: progressed Superficial Partial Thickness → Full Thickness, extent 50% → 100%');
+  });
+});
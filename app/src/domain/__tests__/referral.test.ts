@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateReferralCriteria } from '../referral';
+import { setSubRegion } from '../subRegions';
+import { makeBurnHandoffNote } from '../notes';
+import { calculateTBSA } from '../tbsa';
+import { calculateFluids } from '../fluids';
+import type { PatientData, ReferralCriterionId, RegionSelection } from '../types';
+
+const adult: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 1,
+  mechanism: 'scald',
+  specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+};
+
+function metIds(patient: PatientData, regions: RegionSelection[]): ReferralCriterionId[] {
+  return evaluateReferralCriteria(patient, regions).met.map(criterion => criterion.id);
+}
+
+describe('evaluateReferralCriteria', () => {
+  it('should list every ABA criterion in order', () => {
+    const { criteria, referralRecommended } = evaluateReferralCriteria(adult, []);
+    expect(criteria.map(criterion => criterion.id)).toEqual([
+      'partial-thickness',
+      'full-thickness',
+      'special-sites',
+      'age-extremes',
+      'electrical',
+      'chemical',
+      'inhalation',
+      'comorbidities',
+      'concomitant-trauma',
+      'pediatric-capability',
+      'social-rehabilitation',
+    ]);
+    expect(criteria.filter(criterion => criterion.status === 'not-assessed')).toHaveLength(4);
+    expect(referralRecommended).toBe(false);
+  });
+
+  it('should total partial thickness across regions and depths', () => {
+    // 6.5% superficial partial + 6.5% deep partial on the trunk: neither region alone exceeds 10%
+    const regions: RegionSelection[] = [
+      { region: 'Ant_Trunk', fraction: 0.5, depth: 'superficial-partial' },
+      { region: 'Post_Trunk', fraction: 0.5, depth: 'deep-partial' },
+    ];
+    const { met } = evaluateReferralCriteria(adult, regions);
+    expect(met.map(criterion => criterion.id)).toEqual(['partial-thickness']);
+    expect(met[0].reason).toBe('Partial thickness 13% TBSA');
+  });
+
+  it('should not count superficial burns toward partial thickness', () => {
+    expect(metIds(adult, [{ region: 'Ant_Trunk', fraction: 1, depth: 'superficial' }])).toEqual([]);
+  });
+
+  it('should refer any full-thickness area', () => {
+    const regions: RegionSelection[] = [{
+      region: 'R_Thigh',
+      fraction: 0.5,
+      depth: 'full-thickness',
+      entryMode: 'quarter',
+      zones: [
+        { fraction: 0.25, depth: 'superficial-partial' },
+        { fraction: 0.25, depth: 'full-thickness' },
+      ],
+    }];
+    expect(metIds(adult, regions)).toEqual(['full-thickness']);
+  });
+
+  it('should derive special sites from the body map', () => {
+    const { met } = evaluateReferralCriteria(adult, setSubRegion([], 'L_Palm', 0.5, 'superficial-partial'));
+    expect(met.map(criterion => criterion.id)).toEqual(['special-sites']);
+    expect(met[0].reason).toBe('Involves hands');
+    expect(metIds(adult, setSubRegion([], 'Scalp', 0.5, 'superficial-partial'))).toEqual([]);
+  });
+
+  it('should apply the lower threshold at the age extremes', () => {
+    const regions: RegionSelection[] = [{ region: 'Ant_Trunk', fraction: 0.5, depth: 'superficial-partial' }];
+    expect(metIds(adult, regions)).toEqual([]);
+    expect(metIds({ ...adult, ageMonths: 4 * 12 }, regions)).toEqual(['age-extremes']);
+    expect(metIds({ ...adult, ageMonths: 70 * 12 }, regions)).toEqual(['age-extremes']);
+  });
+
+  it('should refer electrical, chemical and inhalation mechanisms regardless of size', () => {
+    expect(metIds({ ...adult, mechanism: 'High-voltage electrical' }, [])).toEqual(['electrical']);
+    expect(metIds({ ...adult, mechanism: 'Lightning strike' }, [])).toEqual(['electrical']);
+    expect(metIds({ ...adult, mechanism: 'Alkali splash' }, [])).toEqual(['chemical']);
+    expect(metIds({ ...adult, mechanism: 'House fire, smoke inhalation' }, [])).toEqual(['inhalation']);
+  });
+});
+
+describe('handoff note referral section', () => {
+  it('should list the criteria met and why', () => {
+    const regions: RegionSelection[] = [{ region: 'Head', fraction: 1, depth: 'full-thickness' }];
+    const tbsa = calculateTBSA(adult.ageMonths, regions);
+    const note = makeBurnHandoffNote({
+      patient: adult,
+      tbsa,
+      fluids: calculateFluids({ ...adult, tbsaPct: tbsa.tbsaPct }),
+      regions,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+    });
+    expect(note).toContain('BURN CENTER REFERRAL (ABA criteria):');
+    expect(note).toContain('- Full-thickness burns in any age group: Full thickness 7% TBSA');
+    expect(note).toContain('Involves face');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPreciseSelection,
+  createZonedSelection,
+  getSelectionTbsa,
+  migrateRegionSelections,
+  nextQuarterFraction,
+  toDisplayFraction,
+  validateRegionSelection,
+} from '../regionSelections';
+import { calculateTBSA } from '../tbsa';
+import type { RegionSelection } from '../types';
+
+const ADULT_MONTHS = 30 * 12;
+
+describe('validateRegionSelection', () => {
+  it('should keep quarter steps strict for legacy selections', () => {
+    expect(() => validateRegionSelection({ region: 'Head', fraction: 0.3 })).toThrow(/Invalid fraction/);
+    expect(() => validateRegionSelection({ region: 'Head', fraction: 0.25 })).not.toThrow();
+  });
+
+  it('should accept any fraction between 0 and 1 in fraction mode', () => {
+    expect(() => validateRegionSelection({ region: 'Ant_Trunk', fraction: 0.1, entryMode: 'fraction' })).not.toThrow();
+    expect(() => validateRegionSelection({ region: 'Ant_Trunk', fraction: 1.2, entryMode: 'fraction' })).toThrow(
+      'Must be between 0 and 1'
+    );
+  });
+
+  it('should bound percent entries by the region share', () => {
+    const selection: RegionSelection = { region: 'Ant_Trunk', fraction: 1, entryMode: 'percent', tbsaPct: 14 };
+    expect(() => validateRegionSelection(selection, 30)).toThrow(/exceed the region's 13%/);
+    expect(() => validateRegionSelection({ ...selection, tbsaPct: undefined }, 30)).toThrow(/Invalid %TBSA/);
+  });
+});
+
+describe('createPreciseSelection', () => {
+  it('should store an exact fraction', () => {
+    const selection = createPreciseSelection('Ant_Trunk', { fraction: 0.1 }, ADULT_MONTHS, 'deep-partial');
+    expect(selection).toEqual({ region: 'Ant_Trunk', fraction: 0.1, entryMode: 'fraction', depth: 'deep-partial' });
+    expect(getSelectionTbsa(selection, 30)).toBeCloseTo(1.3, 6);
+  });
+
+  it('should store an exact %TBSA and derive the fraction', () => {
+    const selection = createPreciseSelection('Ant_Trunk', { tbsaPct: 6.5 }, ADULT_MONTHS);
+    expect(selection.tbsaPct).toBe(6.5);
+    expect(selection.fraction).toBeCloseTo(0.5, 6);
+    expect(getSelectionTbsa(selection, 30)).toBe(6.5);
+  });
+
+  it('should reject a %TBSA larger than the region', () => {
+    expect(() => createPreciseSelection('Neck', { tbsaPct: 3 }, ADULT_MONTHS)).toThrow(/Must not exceed/);
+  });
+});
+
+describe('calculateTBSA with precise selections', () => {
+  it('should combine quarter-step and precise entries', () => {
+    const result = calculateTBSA(ADULT_MONTHS, [
+      { region: 'Head', fraction: 1 },
+      createPreciseSelection('Ant_Trunk', { fraction: 0.1 }, ADULT_MONTHS),
+      createPreciseSelection('R_Thigh', { tbsaPct: 2.2 }, ADULT_MONTHS),
+    ]);
+    // 7 + 1.3 + 2.2
+    expect(result.tbsaPct).toBe(10.5);
+    expect(result.breakdown.Ant_Trunk).toBe(1.3);
+    expect(result.breakdown.R_Thigh).toBe(2.2);
+  });
+});
+
+describe('quarter-step helpers', () => {
+  it('should shade precise fractions at the next quarter', () => {
+    expect(toDisplayFraction(0)).toBe(0);
+    expect(toDisplayFraction(0.1)).toBe(0.25);
+    expect(toDisplayFraction(0.5)).toBe(0.5);
+    expect(toDisplayFraction(0.8)).toBe(1);
+  });
+
+  it('should cycle from any fraction to the next quarter step', () => {
+    expect(nextQuarterFraction(0)).toBe(0.25);
+    expect(nextQuarterFraction(0.1)).toBe(0.25);
+    expect(nextQuarterFraction(0.75)).toBe(1);
+    expect(nextQuarterFraction(1)).toBe(0);
+  });
+});
+
+describe('migrateRegionSelections', () => {
+  it('should stamp entry modes on legacy selections', () => {
+    const migrated = migrateRegionSelections([
+      { region: 'Head', fraction: 0.5, depth: 'full-thickness' },
+      { region: 'Ant_Trunk', fraction: 0.1 },
+    ]);
+    expect(migrated).toEqual([
+      { region: 'Head', fraction: 0.5, entryMode: 'quarter', depth: 'full-thickness' },
+      { region: 'Ant_Trunk', fraction: 0.1, entryMode: 'fraction' },
+    ]);
+  });
+
+  it('should drop unusable entries and repair inconsistent modes', () => {
+    const migrated = migrateRegionSelections([
+      null,
+      { region: 'Tail', fraction: 1 },
+      { region: 'Neck', fraction: 0 },
+      { region: 'Neck', fraction: 2 },
+      { region: 'L_Hand', fraction: '0.75', depth: 'charred' },
+      { region: 'R_Hand', fraction: 0.4, entryMode: 'percent' },
+    ]);
+    expect(migrated).toEqual([
+      { region: 'L_Hand', fraction: 0.75, entryMode: 'quarter' },
+      { region: 'R_Hand', fraction: 0.4, entryMode: 'fraction' },
+    ]);
+  });
+
+  it('should return an empty list for non-array input', () => {
+    expect(migrateRegionSelections(undefined)).toEqual([]);
+    expect(migrateRegionSelections({})).toEqual([]);
+  });
+
+  it('should produce selections that calculateTBSA accepts', () => {
+    const migrated = migrateRegionSelections([
+      { region: 'Ant_Trunk', fraction: 0.1 },
+      { region: 'Head', fraction: 1, entryMode: 'percent', tbsaPct: 5 },
+    ]);
+    expect(calculateTBSA(ADULT_MONTHS, migrated).tbsaPct).toBe(6.3);
+  });
+});
+
+describe('createZonedSelection', () => {
+  it('should total the zones and record the deepest depth', () => {
+    const selection = createZonedSelection('Ant_Trunk', [
+      { fraction: 0.25, depth: 'full-thickness' },
+      { fraction: 0.5, depth: 'superficial-partial' },
+    ]);
+    expect(selection).toEqual({
+      region: 'Ant_Trunk',
+      fraction: 0.75,
+      depth: 'full-thickness',
+      entryMode: 'quarter',
+      zones: [
+        { depth: 'superficial-partial', fraction: 0.5 },
+        { depth: 'full-thickness', fraction: 0.25 },
+      ],
+    });
+  });
+
+  it('should merge zones of the same depth and drop empty zones', () => {
+    const selection = createZonedSelection('Head', [
+      { fraction: 0.1, depth: 'deep-partial' },
+      { fraction: 0.2, depth: 'deep-partial' },
+      { fraction: 0, depth: 'superficial' },
+    ]);
+    expect(selection?.zones).toHaveLength(1);
+    expect(selection?.fraction).toBeCloseTo(0.3, 9);
+    expect(selection?.entryMode).toBe('fraction');
+  });
+
+  it('should return null when no zone has area', () => {
+    expect(createZonedSelection('Head', [{ fraction: 0, depth: 'superficial' }])).toBeNull();
+  });
+
+  it('should reject zones totalling more than the region', () => {
+    expect(() => createZonedSelection('Head', [
+      { fraction: 0.75, depth: 'superficial-partial' },
+      { fraction: 0.5, depth: 'full-thickness' },
+    ])).toThrow('Depth zones in Head total 125% of the region. Must not exceed 100%');
+  });
+
+  it('should be preserved by migration', () => {
+    const [migrated] = migrateRegionSelections([{
+      region: 'Ant_Trunk',
+      fraction: 0.75,
+      depth: 'full-thickness',
+      zones: [
+        { fraction: 0.5, depth: 'superficial-partial' },
+        { fraction: 0.25, depth: 'full-thickness' },
+      ],
+    }]);
+    expect(migrated.zones).toHaveLength(2);
+    expect(migrated.depth).toBe('full-thickness');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveSpecialSites,
+  getSubRegionFraction,
+  getSubRegionForView,
+  getSubRegionsOf,
+  setSubRegion,
+} from '../subRegions';
+import { applySelectionDepth, migrateRegionSelections } from '../regionSelections';
+import { calculateTBSA } from '../tbsa';
+import { SUB_REGIONS } from '@/constants/subRegions';
+import type { BodyArea, PatientData, RegionSelection } from '../types';
+
+const ADULT_MONTHS = 30 * 12;
+const NO_SITES: PatientData['specialSites'] = {
+  face: false,
+  hands: false,
+  feet: false,
+  perineum: false,
+  majorJoints: false,
+};
+
+describe('SUB_REGIONS', () => {
+  it('should split every parent region into shares totalling 1', () => {
+    const totals = new Map<BodyArea, number>();
+    Object.values(SUB_REGIONS).forEach(info => totals.set(info.parent, (totals.get(info.parent) ?? 0) + info.share));
+    expect(totals.size).toBe(19);
+    totals.forEach(total => expect(total).toBeCloseTo(1, 9));
+  });
+
+  it('should map each view of the head to face and scalp', () => {
+    expect(getSubRegionForView('Head', 'anterior')?.key).toBe('Face');
+    expect(getSubRegionForView('Head', 'posterior')?.key).toBe('Scalp');
+    expect(getSubRegionForView('Ant_Trunk', 'posterior')).toBeUndefined();
+  });
+});
+
+describe('setSubRegion', () => {
+  it('should give the same TBSA as charting the whole region', () => {
+    let selections: RegionSelection[] = [];
+    getSubRegionsOf('R_Thigh').forEach(info => {
+      selections = setSubRegion(selections, info.key, 1, 'deep-partial');
+    });
+    selections = setSubRegion(selections, 'Face', 1, 'deep-partial');
+    selections = setSubRegion(selections, 'Scalp', 1, 'deep-partial');
+
+    const detailed = calculateTBSA(ADULT_MONTHS, selections);
+    const coarse = calculateTBSA(ADULT_MONTHS, [
+      { region: 'R_Thigh', fraction: 1, depth: 'deep-partial' },
+      { region: 'Head', fraction: 1, depth: 'deep-partial' },
+    ]);
+    expect(detailed.tbsaPct).toBe(coarse.tbsaPct);
+    expect(detailed.breakdown).toEqual(coarse.breakdown);
+  });
+
+  it('should chart half the head for the face alone', () => {
+    const selections = setSubRegion([], 'Face', 1, 'full-thickness');
+    expect(selections).toHaveLength(1);
+    expect(selections[0].fraction).toBe(0.5);
+    expect(calculateTBSA(ADULT_MONTHS, selections).tbsaPct).toBe(3.5);
+    expect(getSubRegionFraction(selections, 'Face')).toBe(1);
+    expect(getSubRegionFraction(selections, 'Scalp')).toBe(0);
+  });
+
+  it('should keep depths of different sub-regions as depth zones', () => {
+    let selections = setSubRegion([], 'R_Palm', 1, 'superficial-partial');
+    selections = setSubRegion(selections, 'R_Hand_Dorsum', 0.5, 'full-thickness');
+    expect(selections[0].zones).toEqual([
+      { depth: 'superficial-partial', fraction: 0.5 },
+      { depth: 'full-thickness', fraction: 0.25 },
+    ]);
+    expect(selections[0].depth).toBe('full-thickness');
+  });
+
+  it('should expand a coarse region before editing one of its sub-regions', () => {
+    const selections = setSubRegion([{ region: 'L_Leg', fraction: 1, depth: 'deep-partial' }], 'L_Leg_Post', 0, 'deep-partial');
+    expect(selections[0].fraction).toBe(0.5);
+    expect(getSubRegionFraction(selections, 'L_Leg_Ant')).toBe(1);
+  });
+
+  it('should remove the region when its last sub-region is cleared', () => {
+    const selections = setSubRegion(setSubRegion([], 'Scalp', 0.5, 'superficial-partial'), 'Scalp', 0, 'superficial-partial');
+    expect(selections).toEqual([]);
+  });
+});
+
+describe('deriveSpecialSites', () => {
+  it('should derive the face from the face but not the scalp', () => {
+    expect(deriveSpecialSites(setSubRegion([], 'Scalp', 1, 'deep-partial'), NO_SITES).face).toBe(false);
+    expect(deriveSpecialSites(setSubRegion([], 'Face', 0.25, 'deep-partial'), NO_SITES).face).toBe(true);
+  });
+
+  it('should treat coarse regions conservatively', () => {
+    const sites = deriveSpecialSites([
+      { region: 'Head', fraction: 0.25, depth: 'superficial-partial' },
+      { region: 'L_Hand', fraction: 0.5, depth: 'deep-partial' },
+      { region: 'R_Foot', fraction: 1, depth: 'full-thickness' },
+      { region: 'Genitalia', fraction: 1, depth: 'superficial-partial' },
+    ], NO_SITES);
+    expect(sites).toEqual({ face: true, hands: true, feet: true, perineum: true, majorJoints: false });
+  });
+
+  it('should ignore superficial burns and keep major joints from manual entry', () => {
+    let selections = setSubRegion([], 'R_Palm', 1, 'superficial');
+    selections = [...selections, { region: 'Head', fraction: 1, depth: 'superficial' }];
+    const sites = deriveSpecialSites(selections, { ...NO_SITES, face: true, majorJoints: true });
+    expect(sites).toEqual({ face: false, hands: false, feet: false, perineum: false, majorJoints: true });
+  });
+});
+
+describe('sub-region persistence', () => {
+  it('should rebuild the region from sub-regions on migration', () => {
+    const [migrated] = migrateRegionSelections([{
+      region: 'Head',
+      fraction: 1,
+      subRegions: [
+        { subRegion: 'Face', fraction: 1, depth: 'deep-partial' },
+        { subRegion: 'R_Palm', fraction: 1, depth: 'deep-partial' },
+      ],
+    }]);
+    expect(migrated.fraction).toBe(0.5);
+    expect(migrated.subRegions).toEqual([{ subRegion: 'Face', fraction: 1, depth: 'deep-partial' }]);
+  });
+
+  it('should apply a new depth to every sub-region', () => {
+    const [selection] = setSubRegion([], 'R_Thigh_Ant', 1, 'superficial-partial');
+    const updated = applySelectionDepth(selection, 'full-thickness');
+    expect(updated.subRegions?.[0].depth).toBe('full-thickness');
+    expect(updated.zones).toEqual([{ depth: 'full-thickness', fraction: 0.5 }]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { calculateAgeGroup, calculateTBSA, getRegionPercent, getAllRegionPercents } from '../tbsa';
+import { createZonedSelection } from '../regionSelections';
 import type { RegionSelection, BurnFraction, BodyArea, RegionKey } from '../types';
 import { LUND_BROWDER_PERCENTAGES } from '@/constants/lundBrowder';
 
@@ -55,7 +56,9 @@ describe('calculateTBSA', () => {
     ];
     
     const result = calculateTBSA(300, selections);
-    expect(result.tbsaPct).toBeCloseTo(3.25, 1); // 7 * 0.25 + 2 * 0.75 = 1.75 + 1.5
+    // Superficial head (7 * 0.25 = 1.75) is reported but not counted; neck 2 * 0.75 = 1.5
+    expect(result.tbsaPct).toBeCloseTo(1.5, 1);
+    expect(result.superficialPct).toBe(1.8);
   });
 
   it('should return zero for no selections', () => {
@@ -240,3 +243,75 @@ describe('getAllRegionPercents', () => {
     expect(infantPercentages.Neck).toBe(adultPercentages.Neck);
   });
 });
+
+describe('depth breakdown', () => {
+  it('should report single-depth regions under their depth', () => {
+    const result = calculateTBSA(300, [
+      { region: 'Head', fraction: 1, depth: 'full-thickness' },
+      { region: 'Ant_Trunk', fraction: 1, depth: 'superficial-partial' },
+      { region: 'Neck', fraction: 1, depth: 'deep-partial' },
+    ]);
+    expect(result.depthBreakdown?.fullThicknessPct).toBe(7);
+    expect(result.depthBreakdown?.partialThicknessPct).toBe(15);
+    expect(result.depthBreakdown?.byDepth['deep-partial']).toBe(2);
+  });
+
+  it('should split a mixed-depth region between its zones', () => {
+    // Adult anterior trunk (13%): 50% superficial partial, 25% full thickness
+    const trunk = createZonedSelection('Ant_Trunk', [
+      { fraction: 0.5, depth: 'superficial-partial' },
+      { fraction: 0.25, depth: 'full-thickness' },
+    ]);
+    const result = calculateTBSA(300, [trunk!]);
+
+    expect(result.tbsaPct).toBe(9.8);
+    expect(result.depthBreakdown?.partialThicknessPct).toBe(6.5);
+    expect(result.depthBreakdown?.fullThicknessPct).toBe(3.3);
+  });
+
+  it('should default regions without a depth to superficial partial', () => {
+    const result = calculateTBSA(300, [{ region: 'Head', fraction: 0.5 }]);
+    expect(result.depthBreakdown?.byDepth['superficial-partial']).toBe(3.5);
+  });
+
+  it('should reject zones that exceed the region', () => {
+    expect(() => calculateTBSA(300, [{
+      region: 'Ant_Trunk',
+      fraction: 1,
+      entryMode: 'quarter',
+      zones: [
+        { fraction: 0.75, depth: 'superficial-partial' },
+        { fraction: 0.5, depth: 'full-thickness' },
+      ],
+    }])).toThrow(/Must not exceed 100%/);
+  });
+});
+
+describe('superficial burn exclusion', () => {
+  it('should exclude superficial regions from TBSA and the regional breakdown', () => {
+    const result = calculateTBSA(300, [
+      { region: 'Ant_Trunk', fraction: 1, depth: 'superficial' },
+      { region: 'Head', fraction: 1, depth: 'deep-partial' },
+    ]);
+    expect(result.tbsaPct).toBe(7);
+    expect(result.superficialPct).toBe(13);
+    expect(result.breakdown.Ant_Trunk).toBe(0);
+    expect(result.depthBreakdown?.superficialPct).toBe(13);
+  });
+
+  it('should exclude only the superficial zone of a mixed region', () => {
+    const trunk = createZonedSelection('Ant_Trunk', [
+      { fraction: 0.25, depth: 'superficial' },
+      { fraction: 0.75, depth: 'full-thickness' },
+    ]);
+    const result = calculateTBSA(300, [trunk!]);
+    expect(result.tbsaPct).toBe(9.8);
+    expect(result.superficialPct).toBe(3.3);
+  });
+
+  it('should count selections without a depth', () => {
+    const result = calculateTBSA(300, [{ region: 'Head', fraction: 1 }]);
+    expect(result.tbsaPct).toBe(7);
+    expect(result.superficialPct).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTbsaByMethod, compareTbsaMethods, getRuleOfNinesPercentages } from '../tbsaMethods';
+import type { BodyArea, RegionSelection } from '../types';
+
+const ADULT_MONTHS = 30 * 12;
+const INFANT_MONTHS = 6;
+
+const fullLeg = (side: 'R' | 'L'): RegionSelection[] =>
+  (['Thigh', 'Leg', 'Foot'] as const).map(part => ({
+    region: `${side}_${part}` as BodyArea,
+    fraction: 1,
+    depth: 'superficial-partial',
+  }));
+
+describe('getRuleOfNinesPercentages', () => {
+  it('should total 100% for both variants', () => {
+    for (const variant of ['rule-of-nines-adult', 'rule-of-nines-pediatric'] as const) {
+      const total = Object.values(getRuleOfNinesPercentages(variant)).reduce((sum, pct) => sum + pct, 0);
+      expect(total).toBeCloseTo(100, 6);
+    }
+  });
+
+  it('should split blocks in Lund-Browder proportion', () => {
+    const adult = getRuleOfNinesPercentages('rule-of-nines-adult');
+    expect(adult.Head + adult.Neck).toBeCloseTo(9, 6);
+    expect(adult.Head).toBeCloseTo(7, 6);
+    expect(adult.Ant_Trunk).toBe(18);
+
+    const pediatric = getRuleOfNinesPercentages('rule-of-nines-pediatric');
+    expect(pediatric.Head + pediatric.Neck).toBeCloseTo(18, 6);
+    expect(pediatric.R_Thigh + pediatric.R_Leg + pediatric.R_Foot).toBeCloseTo(13.5, 6);
+  });
+});
+
+describe('calculateTbsaByMethod', () => {
+  it('should return the Lund-Browder result unchanged for lund-browder', () => {
+    const result = calculateTbsaByMethod('lund-browder', ADULT_MONTHS, fullLeg('R'));
+    expect(result.method).toBe('lund-browder');
+    expect(result.tbsaPct).toBe(20);
+  });
+
+  it('should score a whole adult leg as 18% with the adult Rule of Nines', () => {
+    const result = calculateTbsaByMethod('rule-of-nines-adult', ADULT_MONTHS, fullLeg('R'));
+    expect(result.method).toBe('rule-of-nines-adult');
+    expect(result.tbsaPct).toBe(18);
+    expect(result.breakdown.L_Thigh).toBe(0);
+  });
+
+  it('should score a whole infant leg as 13.5% with the pediatric Rule of Nines', () => {
+    const result = calculateTbsaByMethod('rule-of-nines-pediatric', INFANT_MONTHS, fullLeg('L'));
+    expect(result.tbsaPct).toBe(13.5);
+  });
+
+  it('should apply fractional involvement', () => {
+    const result = calculateTbsaByMethod('rule-of-nines-adult', ADULT_MONTHS, [
+      { region: 'Ant_Trunk', fraction: 0.5, depth: 'superficial-partial' },
+    ]);
+    expect(result.tbsaPct).toBe(9);
+    expect(result.breakdown.Ant_Trunk).toBe(9);
+  });
+
+  it('should count palms as 1% each and ignore region selections', () => {
+    const result = calculateTbsaByMethod('rule-of-palms', ADULT_MONTHS, fullLeg('R'), { palmCount: 6.5 });
+    expect(result.method).toBe('rule-of-palms');
+    expect(result.tbsaPct).toBe(6.5);
+  });
+
+  it('should reject invalid palm counts', () => {
+    expect(() => calculateTbsaByMethod('rule-of-palms', ADULT_MONTHS, [], { palmCount: -1 })).toThrow(
+      'Palm count must be between 0 and 100'
+    );
+    expect(() => calculateTbsaByMethod('rule-of-palms', ADULT_MONTHS, [], { palmCount: 101 })).toThrow();
+  });
+
+  it('should recompute burned m² from the method total', () => {
+    const result = calculateTbsaByMethod('rule-of-palms', ADULT_MONTHS, [], {
+      palmCount: 10,
+      body: { weightKg: 80, heightCm: 180 },
+    });
+    expect(result.bsaM2).toBe(2);
+    expect(result.burnedBsaM2).toBe(0.2);
+  });
+
+  it('should still validate selections', () => {
+    expect(() =>
+      calculateTbsaByMethod('rule-of-nines-adult', ADULT_MONTHS, [
+        { region: 'Head', fraction: 0.3 as RegionSelection['fraction'], depth: 'superficial-partial' },
+      ])
+    ).toThrow('Invalid fraction');
+  });
+});
+
+describe('compareTbsaMethods', () => {
+  it('should report deviation from Lund-Browder for an infant head burn', () => {
+    const rows = compareTbsaMethods(INFANT_MONTHS, [{ region: 'Head', fraction: 1, depth: 'full-thickness' }]);
+    expect(rows.map(r => r.method)).toEqual(['lund-browder', 'rule-of-nines-adult', 'rule-of-nines-pediatric']);
+
+    const byMethod = Object.fromEntries(rows.map(r => [r.method, r]));
+    expect(byMethod['lund-browder'].deltaFromLundBrowder).toBe(0);
+    expect(byMethod['rule-of-nines-adult'].tbsaPct).toBe(7);
+    expect(byMethod['rule-of-nines-adult'].deltaFromLundBrowder).toBe(-12);
+    expect(byMethod['rule-of-nines-pediatric'].tbsaPct).toBe(16.3);
+  });
+
+  it('should include the Rule of Palms only when a palm count is given', () => {
+    const rows = compareTbsaMethods(ADULT_MONTHS, fullLeg('R'), 15);
+    const palms = rows.find(r => r.method === 'rule-of-palms');
+    expect(palms?.tbsaPct).toBe(15);
+    expect(palms?.deltaFromLundBrowder).toBe(-5);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Inhalation Injury and Airway Assessment Module
+ *
+ * Scores the clinical signs of inhalation injury, recommends airway and
+ * oxygen management, and flags when inhalation injury is likely enough to
+ * raise the expected resuscitation fluid requirement.
+ *
+ * Key Clinical Concepts:
+ * - Stridor signals impending airway obstruction: secure the airway now
+ * - Carbonaceous sputum and hoarseness indicate injury below the cords
+ * - Enclosed-space exposure, singed nasal hair and facial burns raise suspicion
+ * - COHb >10% confirms significant smoke exposure; ≥25% warrants hyperbaric review
+ * - Suspected cyanide toxicity (high lactate, collapse) is treated with hydroxocobalamin
+ * - Inhalation injury increases fluid needs by roughly 45% (5.76 vs 3.98
+ *   ml/kg/%TBSA, Navar 1985); titrate to urine output rather than front-load
+ *
+ * AI Development Notes:
+ * - Weights are additive; thresholds are MODERATE_RISK_SCORE and HIGH_RISK_SCORE
+ * - assessBurnFluidManagement reads inhalationLikely from this module
+ * - Test coverage in __tests__/airway.test.ts
+ */
+
+import type { AirwayAssessment, AirwayRiskResult, InhalationRisk } from './types';
+
+/**
+ * Points for each finding
+ */
+export const AIRWAY_FINDING_WEIGHTS = {
+  stridor: 4,
+  carbonaceousSputum: 3,
+  hoarseness: 2,
+  elevatedCarboxyhemoglobin: 2,
+  cyanideSuspected: 2,
+  enclosedSpace: 1,
+  singedNasalHair: 1,
+  facialBurns: 1,
+};
+
+export const MODERATE_RISK_SCORE = 2;
+export const HIGH_RISK_SCORE = 4;
+
+/**
+ * COHb thresholds (%)
+ */
+export const CARBOXYHEMOGLOBIN_ELEVATED_PCT = 10;
+export const CARBOXYHEMOGLOBIN_HYPERBARIC_PCT = 25;
+
+/**
+ * Expected increase in resuscitation volume when inhalation injury is likely
+ */
+export const INHALATION_FLUID_FACTOR = 1.45;
+
+/**
+ * Empty assessment (no findings recorded)
+ */
+export const EMPTY_AIRWAY_ASSESSMENT: AirwayAssessment = {
+  enclosedSpace: false,
+  singedNasalHair: false,
+  carbonaceousSputum: false,
+  stridor: false,
+  hoarseness: false,
+  cyanideSuspected: false,
+};
+
+/**
+ * Scores an airway assessment for inhalation injury
+ * @param airway - Recorded findings
+ * @param options - facialBurns: face involved on the body map
+ * @returns Score, risk band, findings and recommendations
+ * @throws Error when the carboxyhemoglobin value is out of range
+ */
+export function assessAirway(
+  airway: AirwayAssessment,
+  options: { facialBurns?: boolean } = {}
+): AirwayRiskResult {
+  const cohb = airway.carboxyhemoglobinPct;
+  if (cohb !== undefined && (!Number.isFinite(cohb) || cohb < 0 || cohb > 100)) {
+    throw new Error('Carboxyhemoglobin must be between 0 and 100%');
+  }
+
+  const findings: string[] = [];
+  let score = 0;
+  const add = (present: boolean, weight: number, finding: string) => {
+    if (!present) return;
+    score += weight;
+    findings.push(finding);
+  };
+
+  add(airway.stridor, AIRWAY_FINDING_WEIGHTS.stridor, 'Stridor');
+  add(airway.carbonaceousSputum, AIRWAY_FINDING_WEIGHTS.carbonaceousSputum, 'Carbonaceous sputum');
+  add(airway.hoarseness, AIRWAY_FINDING_WEIGHTS.hoarseness, 'Hoarse voice');
+  add(
+    cohb !== undefined && cohb > CARBOXYHEMOGLOBIN_ELEVATED_PCT,
+    AIRWAY_FINDING_WEIGHTS.elevatedCarboxyhemoglobin,
+    `Carboxyhemoglobin ${cohb}%`
+  );
+  add(airway.cyanideSuspected, AIRWAY_FINDING_WEIGHTS.cyanideSuspected, 'Suspected cyanide toxicity');
+  add(airway.enclosedSpace, AIRWAY_FINDING_WEIGHTS.enclosedSpace, 'Enclosed-space exposure');
+  add(airway.singedNasalHair, AIRWAY_FINDING_WEIGHTS.singedNasalHair, 'Singed nasal hair');
+  add(options.facialBurns ?? false, AIRWAY_FINDING_WEIGHTS.facialBurns, 'Facial burns');
+
+  const risk: InhalationRisk = score >= HIGH_RISK_SCORE ? 'high' : score >= MODERATE_RISK_SCORE ? 'moderate' : 'low';
+  const considerIntubation = airway.stridor || risk === 'high';
+
+  const recommendations: string[] = [];
+  if (airway.stridor) {
+    recommendations.push('Stridor: secure the airway now - intubation by the most experienced operator');
+  } else if (risk === 'high') {
+    recommendations.push('Early intubation before airway oedema progresses - discuss with anaesthesia/ICU');
+  } else if (risk === 'moderate') {
+    recommendations.push('Observe closely with repeated airway assessment; low threshold to intubate');
+  }
+  if (score > 0) {
+    recommendations.push('100% oxygen via non-rebreather mask');
+  }
+  if (risk === 'high') {
+    recommendations.push('Consider bronchoscopy to confirm and grade inhalation injury');
+    recommendations.push('Expect higher fluid requirements - titrate to urine output rather than front-loading');
+  }
+  if (cohb !== undefined && cohb > CARBOXYHEMOGLOBIN_ELEVATED_PCT) {
+    recommendations.push('Continue 100% oxygen until COHb <5%');
+  }
+  if (cohb !== undefined && cohb >= CARBOXYHEMOGLOBIN_HYPERBARIC_PCT) {
+    recommendations.push(`COHb ≥${CARBOXYHEMOGLOBIN_HYPERBARIC_PCT}%: discuss hyperbaric oxygen`);
+  }
+  if (airway.cyanideSuspected) {
+    recommendations.push('Give hydroxocobalamin 70 mg/kg IV (maximum 5 g); check lactate');
+  }
+  if (cohb === undefined && score > 0) {
+    recommendations.push('Measure carboxyhemoglobin (co-oximetry; pulse oximetry is falsely normal)');
+  }
+
+  return {
+    score,
+    risk,
+    inhalationLikely: risk === 'high',
+    considerIntubation,
+    findings,
+    recommendations,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Body Surface Area (BSA) Calculation Module
+ *
+ * Computes body surface area in m² for BSA-based dosing such as the Galveston
+ * and Cincinnati pediatric resuscitation formulas, and converts %TBSA burned
+ * into square metres of burned skin.
+ *
+ * Key Clinical Concepts:
+ * - Mosteller: √(height(cm) × weight(kg) / 3600) - simple, widely used default
+ * - Haycock: 0.024265 × W^0.5378 × H^0.3964 - validated in infants and children
+ * - Du Bois: 0.007184 × W^0.425 × H^0.725 - classic adult formula
+ * - Boyd: 0.0003207 × H^0.3 × W(g)^(0.7285 − 0.0188 × log10 W(g)) - pediatric
+ * - Without height, BSA is estimated from weight (Costeff: (4W + 7) / (W + 90))
+ * - Burned m² = BSA × %TBSA / 100
+ *
+ * AI Development Notes:
+ * - All functions are pure and deterministic
+ * - Test coverage in __tests__/bsa.test.ts against published reference values
+ */
+
+import type { BsaMethod } from './types';
+
+/**
+ * Estimates body surface area from weight alone
+ *
+ * Costeff formula (4W + 7) / (W + 90). Used when height is not available.
+ * @param weightKg - Patient weight in kg
+ * @returns BSA in m²
+ */
+export function estimateBsaFromWeight(weightKg: number): number {
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+  return (4 * weightKg + 7) / (weightKg + 90);
+}
+
+/**
+ * Height/weight BSA equations
+ */
+const BSA_EQUATIONS: Record<Exclude<BsaMethod, 'costeff'>, (weightKg: number, heightCm: number) => number> = {
+  mosteller: (w, h) => Math.sqrt((h * w) / 3600),
+  haycock: (w, h) => 0.024265 * Math.pow(w, 0.5378) * Math.pow(h, 0.3964),
+  dubois: (w, h) => 0.007184 * Math.pow(w, 0.425) * Math.pow(h, 0.725),
+  boyd: (w, h) => {
+    const grams = w * 1000;
+    return 0.0003207 * Math.pow(h, 0.3) * Math.pow(grams, 0.7285 - 0.0188 * Math.log10(grams));
+  },
+};
+
+/**
+ * Display names for BSA methods
+ */
+export const BSA_METHOD_LABELS: Record<BsaMethod, string> = {
+  mosteller: 'Mosteller',
+  haycock: 'Haycock',
+  dubois: 'Du Bois',
+  boyd: 'Boyd',
+  costeff: 'Costeff (weight only)',
+};
+
+/**
+ * Calculates body surface area
+ *
+ * Falls back to the weight-only Costeff estimate when height is missing.
+ * @param weightKg - Patient weight in kg
+ * @param heightCm - Patient height in cm (optional)
+ * @param method - Height/weight equation to use (default Mosteller)
+ * @returns BSA in m² (unrounded) and the method actually used
+ */
+export function calculateBSA(
+  weightKg: number,
+  heightCm?: number,
+  method: Exclude<BsaMethod, 'costeff'> = 'mosteller'
+): { bsaM2: number; method: BsaMethod } {
+  if (!Number.isFinite(weightKg) || weightKg <= 0) throw new Error('Weight must be positive');
+
+  if (heightCm === undefined || heightCm === null) {
+    return { bsaM2: estimateBsaFromWeight(weightKg), method: 'costeff' };
+  }
+  if (!Number.isFinite(heightCm) || heightCm <= 0) throw new Error('Height must be positive');
+
+  const equation = BSA_EQUATIONS[method];
+  if (!equation) throw new Error(`Unknown BSA method: ${method}`);
+  return { bsaM2: equation(weightKg, heightCm), method };
+}
+
+/**
+ * Converts %TBSA burned into square metres of burned skin
+ * @param bsaM2 - Total body surface area in m²
+ * @param tbsaPct - Percent of body surface burned
+ * @returns Burned area in m²
+ */
+export function calculateBurnedBsa(bsaM2: number, tbsaPct: number): number {
+  if (bsaM2 <= 0) throw new Error('BSA must be positive');
+  if (tbsaPct < 0 || tbsaPct > 100) throw new Error('TBSA must be between 0 and 100');
+  return bsaM2 * (tbsaPct / 100);
+}
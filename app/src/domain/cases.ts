@@ -0,0 +1,137 @@
+/**
+ * Case Registry Module
+ *
+ * Pure helpers for managing saved patient assessments ("cases"). Each case
+ * holds the wizard inputs, the computed TBSA/fluid results and timestamps so
+ * an assessment can be reopened later without recalculating.
+ *
+ * Persistence is handled by the wizard store, which writes the case list
+ * through the encrypted storage adapter.
+ *
+ * AI Development Notes:
+ * - All functions are pure and return new objects (never mutate inputs)
+ * - Timestamps are ISO strings so cases serialize cleanly
+ * - Test coverage in __tests__/cases.test.ts
+ */
+
+import type { PatientCase, PatientData, RegionSelection, TbsaResult, FluidResult, Reassessment, FlowsheetEntry } from './types';
+import { formatMechanism } from './mechanisms';
+
+/**
+ * Snapshot of the wizard state stored in a case
+ */
+export interface CaseSnapshot {
+  patientData: PatientData;
+  regionSelections: RegionSelection[];
+  tbsaResult: TbsaResult | null;
+  fluidResult: FluidResult | null;
+  reassessments?: Reassessment[];
+  flowsheet?: FlowsheetEntry[];
+}
+
+/**
+ * Generates a unique case identifier
+ */
+export function generateCaseId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `case-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Deep-copies a snapshot so saved cases never share references with the live store
+ */
+function cloneSnapshot(snapshot: CaseSnapshot): CaseSnapshot {
+  return JSON.parse(JSON.stringify(snapshot)) as CaseSnapshot;
+}
+
+/**
+ * Creates a new case from the current assessment
+ * @param name - Display name for the case
+ * @param snapshot - Current wizard inputs and results
+ * @param now - Creation time (injectable for testing)
+ */
+export function createCase(name: string, snapshot: CaseSnapshot, now: Date = new Date()): PatientCase {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Case name is required');
+  }
+
+  const timestamp = now.toISOString();
+  return {
+    id: generateCaseId(),
+    name: trimmedName,
+    ...cloneSnapshot(snapshot),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    archived: false,
+  };
+}
+
+/**
+ * Overwrites a case with a newer snapshot of the assessment
+ */
+export function updateCase(
+  existing: PatientCase,
+  snapshot: CaseSnapshot,
+  name: string = existing.name,
+  now: Date = new Date()
+): PatientCase {
+  return {
+    ...existing,
+    ...cloneSnapshot(snapshot),
+    name: name.trim() || existing.name,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Creates an independent copy of a case under a new identifier
+ */
+export function duplicateCase(source: PatientCase, now: Date = new Date()): PatientCase {
+  return createCase(`Copy of ${source.name}`, {
+    patientData: source.patientData,
+    regionSelections: source.regionSelections,
+    tbsaResult: source.tbsaResult,
+    fluidResult: source.fluidResult,
+    reassessments: source.reassessments,
+    flowsheet: source.flowsheet,
+  }, now);
+}
+
+/**
+ * Archives or restores a case
+ */
+export function setCaseArchived(existing: PatientCase, archived: boolean, now: Date = new Date()): PatientCase {
+  return {
+    ...existing,
+    archived,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Filters cases by a free-text query and sorts most recently updated first
+ *
+ * The query matches the case name and mechanism of injury (case-insensitive).
+ * Archived cases are hidden unless includeArchived is set.
+ */
+export function searchCases(
+  cases: PatientCase[],
+  query: string = '',
+  options: { includeArchived?: boolean } = {}
+): PatientCase[] {
+  const { includeArchived = false } = options;
+  const needle = query.trim().toLowerCase();
+
+  return cases
+    .filter(c => includeArchived || !c.archived)
+    .filter(c => {
+      if (!needle) return true;
+      const mechanismType = c.patientData.burnMechanism ? formatMechanism(c.patientData.burnMechanism) : '';
+      const haystack = [c.name, mechanismType, c.patientData.mechanism ?? ''].join(' ').toLowerCase();
+      return haystack.includes(needle);
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
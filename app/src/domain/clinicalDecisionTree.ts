@@ -19,6 +19,7 @@
  * 5. Rate Adjustments (±20% protocol)
  * 6. Vital Sign Assessment (stability indicators)
  * 7. Maintenance Considerations (additional fluids)
+ * 8. Mechanism Pathways (electrical, chemical, inhalation, frostbite)
  * 
  * EDUCATIONAL FEATURES:
  * - Step-by-step protocol guidance
@@ -30,10 +31,14 @@
  * - Decision nodes are stateless and reusable
  * - Navigation logic in navigateDecisionTree() function
  * - Add new nodes by extending parklandDecisionTree array
+ * - Mechanism nodes run alongside the fluid protocol; frostbite replaces it
  * - All branches include clinical rationale for education
  * - System designed for teaching, not direct patient care
  */
 
+import type { BurnMechanism } from './types';
+import { getMechanismPathway } from './mechanisms';
+
 export interface DecisionNode {
   id: string;
   question: string;
@@ -71,6 +76,26 @@ export const parklandDecisionTree: DecisionNode[] = [
         condition: 'Weight ≤20kg OR TBSA <10%',
         nextNodeId: 'pediatric-considerations',
         rationale: 'Consider pediatric modifications or alternative protocols'
+      },
+      {
+        condition: 'High-voltage electrical injury',
+        nextNodeId: 'electrical-pathway',
+        rationale: 'Deep muscle injury and myoglobinuria change fluid targets'
+      },
+      {
+        condition: 'Chemical injury',
+        nextNodeId: 'chemical-pathway',
+        rationale: 'Decontaminate before resuscitation and wound care'
+      },
+      {
+        condition: 'Inhalation injury or enclosed-space fire',
+        nextNodeId: 'inhalation-pathway',
+        rationale: 'Airway compromise can develop rapidly'
+      },
+      {
+        condition: 'Frostbite',
+        nextNodeId: 'frostbite-pathway',
+        rationale: 'Cold injury - burn resuscitation formulas do not apply'
       }
     ],
     clinicalNotes: [
@@ -284,6 +309,85 @@ export const parklandDecisionTree: DecisionNode[] = [
     ]
   },
 
+  {
+    id: 'electrical-pathway',
+    question: 'High-Voltage Electrical Injury',
+    type: 'action',
+    branches: [
+      {
+        condition: 'Urine output <1ml/kg/hr or pigmented urine',
+        nextNodeId: 'increase-rate',
+        rationale: 'Myoglobin clearance requires higher urine output'
+      }
+    ],
+    recommendations: [
+      'Target urine output 1-1.5ml/kg/hr until urine is clear',
+      'Check CK, renal function and urine myoglobin',
+      '12-lead ECG and cardiac monitoring',
+      'Assess limbs for compartment syndrome'
+    ],
+    clinicalNotes: [
+      'Surface TBSA underestimates the injury - formula volumes are a minimum'
+    ]
+  },
+
+  {
+    id: 'chemical-pathway',
+    question: 'Chemical Injury Decontamination',
+    type: 'action',
+    branches: [
+      {
+        condition: 'Skin pH neutral after irrigation',
+        nextNodeId: 'calculate-parkland',
+        action: 'Proceed with burn assessment and resuscitation'
+      }
+    ],
+    recommendations: [
+      'Remove contaminated clothing; brush off dry powder',
+      'Irrigate with copious water (at least 20 minutes; 60 minutes for alkalis)',
+      'Check skin pH with litmus paper',
+      'Identify the agent and contact poison information'
+    ]
+  },
+
+  {
+    id: 'inhalation-pathway',
+    question: 'Inhalation Injury Airway Assessment',
+    type: 'assessment',
+    branches: [
+      {
+        condition: 'Stridor, hoarseness or rapidly progressing facial swelling',
+        nextNodeId: 'clinical-consultation',
+        rationale: 'Secure the airway early before oedema progresses'
+      },
+      {
+        condition: 'Airway patent and stable',
+        nextNodeId: 'calculate-parkland',
+        rationale: 'Continue resuscitation with close airway observation'
+      }
+    ],
+    recommendations: [
+      'Give 100% oxygen; check carboxyhaemoglobin',
+      'Consider cyanide toxicity if lactate is high',
+      'Anticipate higher fluid requirements'
+    ]
+  },
+
+  {
+    id: 'frostbite-pathway',
+    question: 'Frostbite Management',
+    type: 'endpoint',
+    recommendations: [
+      'Treat hypothermia first',
+      'Rapid rewarming in 37-39°C water for 15-30 minutes unless refreezing is likely',
+      'Analgesia during rewarming',
+      'Consider thrombolysis or iloprost for severe frostbite within 24 hours'
+    ],
+    clinicalNotes: [
+      'Burn resuscitation formulas are not validated for cold injury'
+    ]
+  },
+
   {
     id: 'clinical-consultation',
     question: 'Clinical Consultation Required',
@@ -297,15 +401,35 @@ export const parklandDecisionTree: DecisionNode[] = [
   }
 ];
 
+/**
+ * Decision node for a mechanism-specific pathway, if the mechanism has one
+ */
+function getMechanismNodeId(mechanism?: BurnMechanism): string | undefined {
+  if (!mechanism) return undefined;
+  switch (mechanism.type) {
+    case 'electrical':
+      return mechanism.voltage === 'high' ? 'electrical-pathway' : undefined;
+    case 'chemical':
+      return 'chemical-pathway';
+    case 'inhalation':
+      return 'inhalation-pathway';
+    case 'frostbite':
+      return 'frostbite-pathway';
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Navigates the decision tree based on patient data
  * @param patientData - Current patient assessment data
- * @returns Current decision node and next steps
+ * @returns Current decision node, the mechanism pathway node (if any) and next steps
  */
 export function navigateDecisionTree(patientData: {
   weightKg: number;
   tbsaPct: number;
   urineOutputMlPerHr?: number;
+  mechanism?: BurnMechanism;
   vitals?: {
     heartRate?: number;
     systolicBP?: number;
@@ -314,9 +438,30 @@ export function navigateDecisionTree(patientData: {
   };
 }): {
   currentNode: DecisionNode;
+  mechanismNode?: DecisionNode;
   applicableBranches: DecisionNode['branches'];
   nextRecommendations: string[];
 } {
+  const mechanismNodeId = getMechanismNodeId(patientData.mechanism);
+  const mechanismNode = parklandDecisionTree.find(node => node.id === mechanismNodeId);
+
+  // Frostbite does not follow the burn resuscitation protocol
+  if (mechanismNode?.type === 'endpoint') {
+    return {
+      currentNode: mechanismNode,
+      mechanismNode,
+      applicableBranches: [],
+      nextRecommendations: mechanismNode.recommendations || []
+    };
+  }
+
+  // Myoglobinuria risk raises the urine output thresholds (ml/kg/hr)
+  const perKgTarget = patientData.mechanism
+    ? getMechanismPathway(patientData.mechanism).urineOutputMlPerKgPerHr
+    : undefined;
+  const urineMin = perKgTarget ? perKgTarget.min * patientData.weightKg : 30;
+  const urineMax = perKgTarget ? perKgTarget.max * patientData.weightKg : 50;
+
   // Start with initial assessment
   let currentNodeId = 'initial-assessment';
   
@@ -329,9 +474,9 @@ export function navigateDecisionTree(patientData: {
   
   // If we have urine output data, determine appropriate action
   if (patientData.urineOutputMlPerHr !== undefined) {
-    if (patientData.urineOutputMlPerHr < 30) {
+    if (patientData.urineOutputMlPerHr < urineMin) {
       currentNodeId = 'increase-rate';
-    } else if (patientData.urineOutputMlPerHr > 50) {
+    } else if (patientData.urineOutputMlPerHr > urineMax) {
       currentNodeId = 'decrease-rate';
     } else {
       currentNodeId = 'maintain-rate';
@@ -342,8 +487,12 @@ export function navigateDecisionTree(patientData: {
   
   return {
     currentNode,
+    mechanismNode,
     applicableBranches: currentNode.branches || [],
-    nextRecommendations: currentNode.recommendations || []
+    nextRecommendations: [
+      ...(mechanismNode?.recommendations || []),
+      ...(currentNode.recommendations || [])
+    ]
   };
 }
 
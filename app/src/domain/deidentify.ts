@@ -0,0 +1,376 @@
+/**
+ * De-identification Module
+ *
+ * Removes HIPAA Safe Harbor identifiers from clinical notes and exported
+ * assessments before they leave the device. Replaces the line-prefix regexes
+ * of the former redactPHI, which blanked the note's "PATIENT:" line and any
+ * text following "md" while missing phone numbers, emails and dates.
+ *
+ * Key Clinical Concepts:
+ * - Safe Harbor identifiers handled: names, dates more specific than the year,
+ *   ages over 89, record numbers, SSNs, phone numbers, emails, street addresses
+ * - Ages over 89 are aggregated as "90+"; ageMonths is capped at 90 years,
+ *   which changes no adult calculation
+ * - Free-text mechanisms that mention a person (relative, titled or proper
+ *   name) are replaced whole; pronouns alone do not identify anyone, so
+ *   "spilled hot water on her arm" is kept; the structured burn mechanism is kept
+ *
+ * Modes:
+ * - redact: category markers such as [NAME]; dates keep only the year
+ * - pseudonymize: the same value always gets the same token ([NAME-1]) so a
+ *   reader can still follow who is who; dates keep only the year
+ * - date-shift: tokens as pseudonymize, and every date moves by one offset
+ *   so intervals between events survive
+ *
+ * AI Development Notes:
+ * - A DeidentificationContext is shared by every field of one export so that
+ *   tokens and the date offset stay consistent across note, data and file
+ * - Detection is pattern based and errs toward removal; it is a safety net,
+ *   not a certified de-identification service
+ * - Reports list categories and replacements, never the original values
+ * - Test coverage in __tests__/deidentify.test.ts
+ */
+
+import type {
+  BurnNoteData,
+  ClinicalNoteType,
+  DeidentificationContext,
+  DeidentificationMode,
+  DeidentificationReport,
+  DeidentificationSettings,
+  PatientData,
+  PhiCategory,
+} from './types';
+import type { CaseSnapshot } from './cases';
+import { makeClinicalNote } from './notes';
+
+/**
+ * Used when settings.deidentification is unset; matches the PDF export,
+ * which always redacted
+ */
+export const DEFAULT_DEIDENTIFICATION: DeidentificationSettings = {
+  enabled: true,
+  mode: 'redact',
+};
+
+/**
+ * Display names for de-identification modes
+ */
+export const DEIDENTIFICATION_MODE_LABELS: Record<DeidentificationMode, string> = {
+  redact: 'Redact identifiers',
+  pseudonymize: 'Pseudonymize (consistent tokens)',
+  'date-shift': 'Pseudonymize and shift dates',
+};
+
+/**
+ * Plural display names for identifier categories in reports
+ */
+export const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: 'names',
+  date: 'dates',
+  age: 'ages over 89',
+  mrn: 'record numbers',
+  ssn: 'social security numbers',
+  phone: 'phone numbers',
+  email: 'email addresses',
+  address: 'street addresses',
+  mechanism: 'mechanisms mentioning a person',
+};
+
+/**
+ * Oldest age reported as-is; older ages are aggregated as 90+
+ */
+export const SAFE_HARBOR_MAX_AGE_YEARS = 89;
+
+const AGE_CAP_MONTHS = (SAFE_HARBOR_MAX_AGE_YEARS + 1) * 12;
+const MAX_DATE_SHIFT_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MONTH = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const CLOCK_TIME = '(?:,?\\s+\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\s*[AP]M)?)?';
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const MRN_PATTERN = /\b(MRN|MR#|Medical record (?:number|no\.?|#)|Patient ID|Hospital (?:number|no\.?)|Chart (?:number|no\.?))(\s*[:#]?\s*)([A-Z0-9-]*\d[A-Z0-9-]*)/gi;
+const PHONE_PATTERN = /(?<![\w/.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\w-])/g;
+const INTERNATIONAL_PHONE_PATTERN = /\+\d{1,3}(?:[\s.-]\d{2,4}){3,5}\b/g;
+const ADDRESS_LINE_PATTERN = /^(\s*(?:[-•]\s*)?(?:home address|address|lives at|residence)\s*:\s*)(.+)$/gim;
+const STREET_PATTERN = /\b\d{1,5}\s+(?:[A-Z][a-zA-Z]*\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent|Close)\b\.?(?:,?\s*(?:Apt|Unit|Suite|#)\.?\s*\w+)?/g;
+const ISO_DATE_PATTERN = /\b(\d{4})([-/])(\d{1,2})\2(\d{1,2})((?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?)/g;
+const SLASH_DATE_PATTERN = new RegExp(`\\b(\\d{1,2})/(\\d{1,2})/(\\d{4}|\\d{2})\\b(${CLOCK_TIME})`, 'gi');
+const DOT_DATE_PATTERN = new RegExp(`\\b(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})\\b(${CLOCK_TIME})`, 'gi');
+const MONTH_DAY_YEAR_PATTERN = new RegExp(`\\b${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'g');
+const DAY_MONTH_YEAR_PATTERN = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH}\\.?,?\\s+(\\d{4})\\b`, 'g');
+// Skips a month already preceded by a day (e.g. the output of a day-month-year shift)
+const MONTH_YEAR_PATTERN = new RegExp(`(?<!\\d(?:st|nd|rd|th)?\\s)\\b${MONTH}\\.?\\s+(\\d{4})\\b`, 'g');
+const AGE_UNIT_PATTERN = /\b(9\d|1[0-4]\d)(\s*-?\s*)(years?|yrs?|y\/o|yo)\b(?:,\s*\d{1,2}\s*months?)?/gi;
+const AGE_LABEL_PATTERN = /\b(aged?:?)(\s*)(9\d|1[0-4]\d)\b/gi;
+const NAME_LINE_PATTERN = /^(\s*(?:[-•]\s*)?(?:patient name|pt name|name|provider|clinician|attending|physician|surgeon|signed(?: by)?|guardian|parent|next of kin)\s*:\s*)(.+)$/gim;
+const TITLED_NAME_PATTERN = /\b(Dr|Mr|Mrs|Ms|Miss|Mx|Prof)(\.?\s+)([A-Z][a-zA-Z'-]+(?:\s+[A-Z][a-zA-Z'-]+)?)/g;
+const CREDENTIALED_NAME_PATTERN = /\b([A-Z][a-z'-]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z'-]+)(,?\s+)(MD|DO|RN|NP|PA-C)\b/g;
+const MECHANISM_LINE_PATTERN = /^(\s*(?:mechanism|history|hpi)\s*:\s*)(.+)$/gim;
+const PERSON_PATTERN = /\b(?:mother|father|mom|mum|dad|parents?|brother|sister|sibling|son|daughter|wife|husband|partner|boyfriend|girlfriend|friend|neighbou?r|grand(?:mother|father|ma|pa|parent)|uncle|aunt|cousin|caregiver|carer|babysitter|nanny|roommate|co-?worker|boss)\b/i;
+// Capitalised word mid-sentence (after a lowercase word or comma), e.g. "pushed by Jake"
+const PROPER_NAME_PATTERN = /[a-z,]\s+[A-Z][a-z'-]+/;
+
+/**
+ * Values that are template placeholders or empty rather than identifiers
+ */
+function isPlaceholder(value: string): boolean {
+  return /^(\{\{[A-Z_]+\}\}|N\/A|None|Not specified|Unknown)?$/i.test(value.trim());
+}
+
+function mentionsPerson(text: string): boolean {
+  return PERSON_PATTERN.test(text) || PROPER_NAME_PATTERN.test(text) || new RegExp(TITLED_NAME_PATTERN.source).test(text);
+}
+
+/**
+ * Starts a de-identification pass shared by every field of one export
+ * @param mode - How identifiers are replaced
+ * @param dateShiftDays - Offset for date-shift mode (random, 1-365 days back, when omitted)
+ * @returns Empty context to pass to the deidentify functions
+ */
+export function createDeidentificationContext(mode: DeidentificationMode, dateShiftDays?: number): DeidentificationContext {
+  return {
+    mode,
+    dateShiftDays: mode === 'date-shift'
+      ? dateShiftDays ?? -(1 + Math.floor(Math.random() * MAX_DATE_SHIFT_DAYS))
+      : 0,
+    tokens: {},
+    findings: [],
+  };
+}
+
+/**
+ * Replaces one identifier with a marker or its consistent token and records it
+ */
+function replaceIdentifier(ctx: DeidentificationContext, category: PhiCategory, value: string, field: string): string {
+  let replacement = `[${category.toUpperCase()}]`;
+  if (ctx.mode !== 'redact') {
+    const normalized = category === 'phone' ? value.replace(/\D/g, '') : value.trim().toLowerCase().replace(/\s+/g, ' ');
+    const key = `${category}:${normalized}`;
+    if (!ctx.tokens[key]) {
+      const used = Object.keys(ctx.tokens).filter(existing => existing.startsWith(`${category}:`)).length;
+      ctx.tokens[key] = `[${category.toUpperCase()}-${used + 1}]`;
+    }
+    replacement = ctx.tokens[key];
+  }
+  ctx.findings.push({ category, field, replacement });
+  return replacement;
+}
+
+/**
+ * Replaces a calendar date: year-only marker, or the shifted date in the
+ * caller's format (with any time of day kept) in date-shift mode
+ * @returns null when the parts do not form a real date
+ */
+function replaceDate(
+  ctx: DeidentificationContext,
+  parts: { year: number; month: number; day: number; time?: string },
+  field: string,
+  format: (year: number, month: number, day: number) => string
+): string | null {
+  const { month, day, time = '' } = parts;
+  const year = parts.year < 100
+    ? (2000 + parts.year > new Date().getFullYear() ? 1900 : 2000) + parts.year
+    : parts.year;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  let replacement = `[DATE ${year}]`;
+  if (ctx.mode === 'date-shift') {
+    const shifted = new Date(date.getTime() + ctx.dateShiftDays * DAY_MS);
+    replacement = format(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate()) + time;
+  }
+  ctx.findings.push({ category: 'date', field, replacement });
+  return replacement;
+}
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.findIndex(month => month.toLowerCase().startsWith(name.slice(0, 3).toLowerCase())) + 1;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Replaces every date more specific than the year
+ */
+function deidentifyDates(text: string, ctx: DeidentificationContext, field: string): string {
+  return text
+    .replace(ISO_DATE_PATTERN, (match, y, sep, m, d, time) =>
+      replaceDate(ctx, { year: +y, month: +m, day: +d, time }, field, (yy, mm, dd) => `${yy}${sep}${pad(mm)}${sep}${pad(dd)}`) ?? match)
+    .replace(SLASH_DATE_PATTERN, (match, a, b, y, time) => {
+      // Month first (en-US) unless the first part cannot be a month
+      const dayFirst = +a > 12;
+      const [month, day] = dayFirst ? [+b, +a] : [+a, +b];
+      return replaceDate(ctx, { year: +y, month, day, time }, field, (yy, mm, dd) => (dayFirst ? `${dd}/${mm}/${yy}` : `${mm}/${dd}/${yy}`)) ?? match;
+    })
+    .replace(DOT_DATE_PATTERN, (match, d, m, y, time) =>
+      replaceDate(ctx, { year: +y, month: +m, day: +d, time }, field, (yy, mm, dd) => `${pad(dd)}.${pad(mm)}.${yy}`) ?? match)
+    .replace(MONTH_DAY_YEAR_PATTERN, (match, m, d, y) =>
+      replaceDate(ctx, { year: +y, month: monthIndex(m), day: +d }, field, (yy, mm, dd) => `${MONTH_NAMES[mm - 1]} ${dd}, ${yy}`) ?? match)
+    .replace(DAY_MONTH_YEAR_PATTERN, (match, d, m, y) =>
+      replaceDate(ctx, { year: +y, month: monthIndex(m), day: +d }, field, (yy, mm, dd) => `${dd} ${MONTH_NAMES[mm - 1]} ${yy}`) ?? match)
+    .replace(MONTH_YEAR_PATTERN, (match, m, y) =>
+      replaceDate(ctx, { year: +y, month: monthIndex(m), day: 1 }, field, (yy, mm) => `${MONTH_NAMES[mm - 1]} ${yy}`) ?? match);
+}
+
+/**
+ * De-identifies free text such as a clinical note or a comment field
+ * @param text - Text to clean
+ * @param ctx - Context of the current export
+ * @param field - Where the text comes from, recorded in the report
+ * @returns Text with identifiers replaced according to ctx.mode
+ */
+export function deidentifyText(text: string, ctx: DeidentificationContext, field: string = 'text'): string {
+  const labelled = (category: PhiCategory) => (match: string, label: string, value: string) =>
+    isPlaceholder(value) ? match : `${label}${replaceIdentifier(ctx, category, value, field)}`;
+
+  let result = text
+    .replace(MECHANISM_LINE_PATTERN, (match, label, value) => (mentionsPerson(value) ? labelled('mechanism')(match, label, value) : match))
+    .replace(EMAIL_PATTERN, match => replaceIdentifier(ctx, 'email', match, field))
+    .replace(SSN_PATTERN, match => replaceIdentifier(ctx, 'ssn', match, field))
+    .replace(MRN_PATTERN, (_match, label, sep, value) => `${label}${sep}${replaceIdentifier(ctx, 'mrn', value, field)}`)
+    .replace(PHONE_PATTERN, match => replaceIdentifier(ctx, 'phone', match, field))
+    .replace(INTERNATIONAL_PHONE_PATTERN, match => replaceIdentifier(ctx, 'phone', match, field))
+    .replace(ADDRESS_LINE_PATTERN, labelled('address'))
+    .replace(STREET_PATTERN, match => replaceIdentifier(ctx, 'address', match, field));
+
+  result = deidentifyDates(result, ctx, field);
+
+  return result
+    .replace(AGE_UNIT_PATTERN, (_match, _age, sep, unit) => {
+      ctx.findings.push({ category: 'age', field, replacement: '90+' });
+      return `90+${sep}${unit}`;
+    })
+    .replace(AGE_LABEL_PATTERN, (_match, label, sep) => {
+      ctx.findings.push({ category: 'age', field, replacement: '90+' });
+      return `${label}${sep}90+`;
+    })
+    .replace(NAME_LINE_PATTERN, labelled('name'))
+    .replace(TITLED_NAME_PATTERN, (_match, title, sep, name) => `${title}${sep}${replaceIdentifier(ctx, 'name', name, field)}`)
+    .replace(CREDENTIALED_NAME_PATTERN, (_match, name, sep, credential) => `${replaceIdentifier(ctx, 'name', name, field)}${sep}${credential}`);
+}
+
+/**
+ * Replaces a free-text mechanism that mentions a person, otherwise cleans it as text
+ */
+function deidentifyMechanism(mechanism: string, ctx: DeidentificationContext, field: string): string {
+  return mentionsPerson(mechanism)
+    ? replaceIdentifier(ctx, 'mechanism', mechanism, field)
+    : deidentifyText(mechanism, ctx, field);
+}
+
+/**
+ * De-identifies an ISO timestamp: January 1st of its year, or shifted in date-shift mode
+ * @returns The timestamp unchanged when it cannot be parsed
+ */
+export function deidentifyTimestamp(timestamp: string, ctx: DeidentificationContext, field: string): string {
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) return timestamp;
+
+  const replacement = ctx.mode === 'date-shift'
+    ? new Date(time + ctx.dateShiftDays * DAY_MS).toISOString()
+    : new Date(Date.UTC(new Date(time).getUTCFullYear(), 0, 1)).toISOString();
+  ctx.findings.push({ category: 'date', field, replacement });
+  return replacement;
+}
+
+/**
+ * De-identifies patient data: free-text mechanism and ages over 89
+ * @returns Copy of the patient data safe to export
+ */
+export function deidentifyPatientData(patient: PatientData, ctx: DeidentificationContext): PatientData {
+  const result = { ...patient };
+  if (patient.ageMonths >= AGE_CAP_MONTHS) {
+    result.ageMonths = AGE_CAP_MONTHS;
+    ctx.findings.push({ category: 'age', field: 'patientData.ageMonths', replacement: '90+' });
+  }
+  if (patient.mechanism) {
+    result.mechanism = deidentifyMechanism(patient.mechanism, ctx, 'patientData.mechanism');
+  }
+  return result;
+}
+
+/**
+ * De-identifies an assessment snapshot for JSON, CSV and TXT export
+ * @returns Copy with patient data, reassessment and flowsheet times de-identified
+ */
+export function deidentifyAssessment(snapshot: Partial<CaseSnapshot>, ctx: DeidentificationContext): Partial<CaseSnapshot> {
+  return {
+    ...snapshot,
+    ...(snapshot.patientData && { patientData: deidentifyPatientData(snapshot.patientData, ctx) }),
+    ...(snapshot.reassessments && {
+      reassessments: snapshot.reassessments.map((r, i) => ({
+        ...r,
+        recordedAt: deidentifyTimestamp(r.recordedAt, ctx, `reassessments.${i}.recordedAt`),
+      })),
+    }),
+    ...(snapshot.flowsheet && {
+      flowsheet: snapshot.flowsheet.map((entry, i) => ({
+        ...entry,
+        recordedAt: deidentifyTimestamp(entry.recordedAt, ctx, `flowsheet.${i}.recordedAt`),
+      })),
+    }),
+  };
+}
+
+/**
+ * De-identifies note data for structured exports such as FHIR
+ * @returns Copy with patient data and every timestamp de-identified
+ */
+export function deidentifyNoteData(data: BurnNoteData, ctx: DeidentificationContext): BurnNoteData {
+  const { reassessments, flowsheet } = deidentifyAssessment(
+    { reassessments: data.reassessments, flowsheet: data.flowsheet },
+    ctx
+  );
+  return {
+    ...data,
+    patient: deidentifyPatientData(data.patient, ctx),
+    timestamp: new Date(deidentifyTimestamp(data.timestamp.toISOString(), ctx, 'timestamp')),
+    reassessments,
+    flowsheet,
+  };
+}
+
+/**
+ * Generates a clinical note and de-identifies its text
+ * @param type - Note to generate
+ * @param data - Assessment data (not modified)
+ * @param ctx - Context of the current export
+ * @param template - Template source; the built-in template when omitted
+ * @returns Note text safe to copy, download or print
+ */
+export function makeDeidentifiedNote(
+  type: ClinicalNoteType,
+  data: BurnNoteData,
+  ctx: DeidentificationContext,
+  template?: string
+): string {
+  // The mechanism is replaced before generation so the structured type stays readable
+  const patient = data.patient.mechanism
+    ? { ...data.patient, mechanism: deidentifyMechanism(data.patient.mechanism, ctx, 'patientData.mechanism') }
+    : data.patient;
+  return deidentifyText(makeClinicalNote(type, { ...data, patient }, template), ctx, 'note');
+}
+
+/**
+ * Summarises what a de-identification pass removed
+ */
+export function summarizeDeidentification(ctx: DeidentificationContext): DeidentificationReport {
+  const counts: DeidentificationReport['counts'] = {};
+  ctx.findings.forEach(({ category }) => {
+    counts[category] = (counts[category] ?? 0) + 1;
+  });
+  return { mode: ctx.mode, findings: [...ctx.findings], counts };
+}
+
+/**
+ * Formats a report for display, e.g. "Removed dates (2), names (1)"
+ */
+export function formatDeidentificationReport(report: DeidentificationReport): string {
+  const parts = (Object.entries(report.counts) as Array<[PhiCategory, number]>)
+    .map(([category, count]) => `${PHI_CATEGORY_LABELS[category]} (${count})`);
+  return parts.length > 0 ? `Removed ${parts.join(', ')}` : 'No identifiers found';
+}
@@ -5,7 +5,7 @@
 
 import type { PatientData, RegionSelection, TbsaResult, FluidResult } from './types';
 import { calculateTBSA } from './tbsa';
-import { calculateFluids } from './fluids';
+import { calculateFluids, MAINTENANCE_METHOD_LABELS } from './fluids';
 import { generateEducationalContent } from './protocolTemplates';
 // Decision tree functions removed to reduce unused imports
 
@@ -186,7 +186,7 @@ function generateTreatmentPlan(
   }
   
   plan += `**Maintenance Fluids (if indicated):**\n`;
-  plan += `- Rate: ${fluidResult.maintenance.mlPerHr}ml/hr (${fluidResult.maintenance.method} method)\n`;
+  plan += `- Rate: ${fluidResult.maintenance.mlPerHr}ml/hr (${MAINTENANCE_METHOD_LABELS[fluidResult.maintenance.method]}: ${fluidResult.maintenance.formula})\n`;
   plan += `- Fluid type: D5 1/2 NS + 20mEq KCl/L\n`;
   plan += `- Route: Oral preferred if tolerated, IV if needed\n`;
   
@@ -0,0 +1,157 @@
+/**
+ * Dosing Weight Module
+ *
+ * Calculates ideal and adjusted body weight for obese adults and picks the
+ * weight that drives each fluid calculation according to an institutional
+ * policy, so that an institution can stop obese patients receiving formula
+ * volumes scaled to their full actual weight. The default policy uses actual
+ * weight, so nothing changes until a policy is chosen in settings.
+ *
+ * Key Clinical Concepts:
+ * - BMI = weight(kg) / height(m)²; the policy applies to adults with BMI ≥30
+ * - Ideal body weight (Devine): 50kg (male) or 45.5kg (female) + 2.3kg per inch over 5 feet
+ * - Sex not recorded: BMI-based ideal weight 22 × height(m)² (Lemmens)
+ * - Adjusted body weight: IBW + 0.4 × (actual − IBW)
+ * - Children, non-obese adults and patients without a height use actual weight
+ *
+ * AI Development Notes:
+ * - All functions are pure and deterministic
+ * - calculateFluids uses resuscitation and maintenance weights; calcUrineOutputTarget
+ *   callers pass urineOutput.weightKg
+ * - Test coverage in __tests__/dosingWeight.test.ts
+ */
+
+import type { BiologicalSex, DosingWeight, DosingWeights, PatientData, WeightBasis, WeightPolicy } from './types';
+import { PEDIATRIC_AGE_MONTHS } from './fluidFormulas';
+import { round1 } from '@/lib/utils';
+
+/**
+ * BMI at and above which the weight policy applies
+ */
+export const OBESITY_BMI = 30;
+
+/**
+ * Fraction of excess weight added back to IBW for adjusted body weight
+ */
+export const ADJUSTED_WEIGHT_FACTOR = 0.4;
+
+const CM_PER_INCH = 2.54;
+
+/**
+ * Display names for weight bases
+ */
+export const WEIGHT_BASIS_LABELS: Record<WeightBasis, string> = {
+  actual: 'actual body weight',
+  ideal: 'ideal body weight',
+  adjusted: 'adjusted body weight',
+};
+
+/**
+ * Default policy: actual weight everywhere; institutions opt in to ideal or
+ * adjusted weight in settings
+ */
+export const DEFAULT_WEIGHT_POLICY: WeightPolicy = {
+  resuscitation: 'actual',
+  maintenance: 'actual',
+  urineOutput: 'actual',
+};
+
+/**
+ * Calculates body mass index
+ * @param weightKg - Actual weight in kg
+ * @param heightCm - Height in cm
+ * @returns BMI in kg/m² (one decimal)
+ */
+export function calculateBMI(weightKg: number, heightCm: number): number {
+  if (!Number.isFinite(weightKg) || weightKg <= 0) throw new Error('Weight must be positive');
+  if (!Number.isFinite(heightCm) || heightCm <= 0) throw new Error('Height must be positive');
+  const heightM = heightCm / 100;
+  return round1(weightKg / (heightM * heightM));
+}
+
+/**
+ * Calculates ideal body weight
+ *
+ * Devine equation when sex is recorded, otherwise 22 × height(m)².
+ * @param heightCm - Height in cm
+ * @param sex - Biological sex (optional)
+ * @returns Ideal body weight in kg (one decimal)
+ */
+export function calculateIdealBodyWeight(heightCm: number, sex?: BiologicalSex): number {
+  if (!Number.isFinite(heightCm) || heightCm <= 0) throw new Error('Height must be positive');
+
+  if (!sex) {
+    const heightM = heightCm / 100;
+    return round1(22 * heightM * heightM);
+  }
+  const inchesOver5Feet = heightCm / CM_PER_INCH - 60;
+  return round1((sex === 'male' ? 50 : 45.5) + 2.3 * inchesOver5Feet);
+}
+
+/**
+ * Calculates adjusted body weight
+ * @param actualKg - Actual weight in kg
+ * @param idealKg - Ideal body weight in kg
+ * @returns Adjusted body weight in kg (one decimal)
+ */
+export function calculateAdjustedBodyWeight(actualKg: number, idealKg: number): number {
+  return round1(idealKg + ADJUSTED_WEIGHT_FACTOR * (actualKg - idealKg));
+}
+
+/**
+ * Picks the weight for resuscitation, maintenance and urine output targets
+ * @param patient - Weight, age and optional height and sex
+ * @param policy - Weight basis for each calculation in obese adults
+ * @returns Actual, ideal and adjusted weights with the weight used for each calculation and why
+ */
+export function resolveDosingWeights(
+  patient: Pick<PatientData, 'weightKg' | 'ageMonths' | 'heightCm' | 'sex'>,
+  policy: WeightPolicy = DEFAULT_WEIGHT_POLICY
+): DosingWeights {
+  const { weightKg, ageMonths, heightCm, sex } = patient;
+  if (!Number.isFinite(weightKg) || weightKg <= 0) throw new Error('Weight must be positive');
+
+  const actual = (reason: string): DosingWeight => ({ weightKg, basis: 'actual', reason });
+  const allActual = (reason: string) => ({
+    resuscitation: actual(reason),
+    maintenance: actual(reason),
+    urineOutput: actual(reason),
+  });
+
+  if (heightCm === undefined) {
+    return { actualKg: weightKg, obese: false, ...allActual('No height recorded - actual weight') };
+  }
+
+  const bmi = calculateBMI(weightKg, heightCm);
+  const idealKg = calculateIdealBodyWeight(heightCm, sex);
+  const adjustedKg = calculateAdjustedBodyWeight(weightKg, idealKg);
+  const measured = { actualKg: weightKg, idealKg, adjustedKg, bmi };
+
+  if (ageMonths < PEDIATRIC_AGE_MONTHS) {
+    return { ...measured, obese: false, ...allActual('Child - actual weight') };
+  }
+  if (bmi < OBESITY_BMI) {
+    return { ...measured, obese: false, ...allActual(`BMI ${bmi} (<${OBESITY_BMI}) - actual weight`) };
+  }
+
+  const pick = (basis: WeightBasis): DosingWeight => ({
+    weightKg: basis === 'ideal' ? idealKg : basis === 'adjusted' ? adjustedKg : weightKg,
+    basis,
+    reason: `BMI ${bmi} (≥${OBESITY_BMI}) - set by weight policy`,
+  });
+
+  return {
+    ...measured,
+    obese: true,
+    resuscitation: pick(policy.resuscitation),
+    maintenance: pick(policy.maintenance),
+    urineOutput: pick(policy.urineOutput),
+  };
+}
+
+/**
+ * Formats one dosing weight for notes, e.g. "84.5kg (adjusted body weight) - BMI 41.3 (≥30) ..."
+ */
+export function formatDosingWeight(weight: DosingWeight): string {
+  return `${weight.weightKg}kg (${WEIGHT_BASIS_LABELS[weight.basis]}) - ${weight.reason}`;
+}
@@ -0,0 +1,382 @@
+/**
+ * FHIR R4 Export Module
+ *
+ * Maps a burn assessment onto an HL7 FHIR R4 transaction Bundle so it can be
+ * posted to a FHIR server or picked up by an EHR integration pipeline
+ * without hand mapping: a de-identified Patient, Observations for weight,
+ * height, age, TBSA and each burned region, a ClinicalImpression for the
+ * burn-center referral decision and a DocumentReference carrying the note.
+ *
+ * Key Clinical Concepts:
+ * - Patient carries gender only (no name, identifiers or birth date) and is
+ *   labelled ANONYED; age is sent as an Observation instead
+ * - TBSA Observation: partial and full thickness %TBSA, with superficial,
+ *   partial and full thickness components
+ * - Region Observations: %TBSA of the region, SNOMED body site, one component
+ *   per burn depth (SNOMED burn-of-skin depth concepts)
+ * - ClinicalImpression summarises the ABA referral criteria that were met
+ *
+ * AI Development Notes:
+ * - Entries use urn:uuid fullUrls; references point at those, so the Bundle
+ *   is self-contained and the server assigns the final ids
+ * - Concepts without a standard code use FHIR_LOCAL_SYSTEM
+ * - SNOMED and LOINC codes are kept in the tables below; check them against
+ *   the local terminology server before production use
+ * - validateFhirBundle is the structural check used by the tests
+ * - Test coverage in __tests__/fhir.test.ts
+ */
+
+import type {
+  BodyArea,
+  BurnDepth,
+  BurnNoteData,
+  FhirBundle,
+  FhirBundleEntry,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirObservation,
+  FhirQuantity,
+  FhirReference,
+  FhirResource,
+  ReferralAssessment,
+  RegionSelection,
+} from './types';
+import { makeBurnAssessmentNote } from './notes';
+import { evaluateReferralCriteria } from './referral';
+import { getSelectionTbsa, getSelectionZones } from './regionSelections';
+import { round1 } from '@/lib/utils';
+
+export const SNOMED_SYSTEM = 'http://snomed.info/sct';
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+export const FHIR_LOCAL_SYSTEM = 'urn:burn-wizard:fhir:burn-assessment';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+/**
+ * Security label marking the Patient as de-identified
+ */
+export const ANONYMIZED_SECURITY_LABEL: FhirCoding = {
+  system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue',
+  code: 'ANONYED',
+  display: 'anonymized',
+};
+
+/**
+ * SNOMED CT body structure for each Lund-Browder region, with a readable label
+ */
+export const BODY_SITE_CODES: Record<BodyArea, { code: string; display: string; text: string }> = {
+  Head: { code: '69536005', display: 'Head structure', text: 'Head' },
+  Neck: { code: '45048000', display: 'Neck structure', text: 'Neck' },
+  Ant_Trunk: { code: '22943007', display: 'Trunk structure', text: 'Anterior trunk' },
+  Post_Trunk: { code: '77568009', display: 'Back structure, excluding neck', text: 'Posterior trunk' },
+  R_Buttock: { code: '46862004', display: 'Buttock structure', text: 'Right buttock' },
+  L_Buttock: { code: '46862004', display: 'Buttock structure', text: 'Left buttock' },
+  Genitalia: { code: '38864007', display: 'Perineal structure', text: 'Genitalia' },
+  R_U_Arm: { code: '40983000', display: 'Upper arm structure', text: 'Right upper arm' },
+  L_U_Arm: { code: '40983000', display: 'Upper arm structure', text: 'Left upper arm' },
+  R_L_Arm: { code: '14975008', display: 'Forearm structure', text: 'Right forearm' },
+  L_L_Arm: { code: '14975008', display: 'Forearm structure', text: 'Left forearm' },
+  R_Hand: { code: '85562004', display: 'Hand structure', text: 'Right hand' },
+  L_Hand: { code: '85562004', display: 'Hand structure', text: 'Left hand' },
+  R_Thigh: { code: '68367000', display: 'Thigh structure', text: 'Right thigh' },
+  L_Thigh: { code: '68367000', display: 'Thigh structure', text: 'Left thigh' },
+  R_Leg: { code: '30021000', display: 'Lower leg structure', text: 'Right lower leg' },
+  L_Leg: { code: '30021000', display: 'Lower leg structure', text: 'Left lower leg' },
+  R_Foot: { code: '56459004', display: 'Foot structure', text: 'Right foot' },
+  L_Foot: { code: '56459004', display: 'Foot structure', text: 'Left foot' },
+};
+
+/**
+ * SNOMED CT burn-of-skin concept for each depth
+ */
+export const BURN_DEPTH_CODES: Record<BurnDepth, FhirCoding> = {
+  superficial: { system: SNOMED_SYSTEM, code: '403190006', display: 'Epidermal burn of skin' },
+  'superficial-partial': { system: SNOMED_SYSTEM, code: '403193008', display: 'Superficial partial thickness burn of skin' },
+  'deep-partial': { system: SNOMED_SYSTEM, code: '403194002', display: 'Deep partial thickness burn of skin' },
+  'full-thickness': { system: SNOMED_SYSTEM, code: '403192003', display: 'Full thickness burn of skin' },
+};
+
+const BURN_OF_SKIN: FhirCoding = { system: SNOMED_SYSTEM, code: '284196006', display: 'Burn of skin' };
+const BODY_WEIGHT: FhirCoding = { system: LOINC_SYSTEM, code: '29463-7', display: 'Body weight' };
+const BODY_HEIGHT: FhirCoding = { system: LOINC_SYSTEM, code: '8302-2', display: 'Body height' };
+const AGE: FhirCoding = { system: LOINC_SYSTEM, code: '30525-0', display: 'Age' };
+const PROGRESS_NOTE: FhirCoding = { system: LOINC_SYSTEM, code: '11506-3', display: 'Progress note' };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+/**
+ * Generates a random (version 4) UUID for resource ids
+ */
+function generateUuid(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Base64-encodes text as UTF-8 (notes contain symbols outside Latin-1)
+ */
+function encodeBase64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function quantity(value: number, unit: string, code: string = unit): FhirQuantity {
+  return { value, unit, system: UCUM_SYSTEM, code };
+}
+
+function category(code: 'exam' | 'vital-signs', display: string): FhirCodeableConcept[] {
+  return [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code, display }] }];
+}
+
+function localConcept(code: string, text: string): FhirCodeableConcept {
+  return { coding: [{ system: FHIR_LOCAL_SYSTEM, code, display: text }], text };
+}
+
+function entry(resource: FhirResource): FhirBundleEntry {
+  return { fullUrl: `urn:uuid:${resource.id}`, resource, request: { method: 'POST', url: resource.resourceType } };
+}
+
+/**
+ * Builds the Observation for one burned region
+ */
+function regionObservation(
+  selection: RegionSelection,
+  ageYears: number,
+  base: Pick<FhirObservation, 'subject' | 'effectiveDateTime'>
+): FhirObservation {
+  const site = BODY_SITE_CODES[selection.region];
+  const regionTbsa = getSelectionTbsa(selection, ageYears);
+  return {
+    resourceType: 'Observation',
+    id: generateUuid(),
+    status: 'final',
+    category: category('exam', 'Exam'),
+    code: { coding: [BURN_OF_SKIN], text: `Burn extent - ${site.text}` },
+    ...base,
+    bodySite: { coding: [{ system: SNOMED_SYSTEM, code: site.code, display: site.display }], text: site.text },
+    valueQuantity: quantity(round1(regionTbsa), '%'),
+    component: getSelectionZones(selection).map(zone => ({
+      code: { coding: [BURN_DEPTH_CODES[zone.depth]], text: zone.depth },
+      valueQuantity: quantity(round1((regionTbsa * zone.fraction) / selection.fraction), '%'),
+    })),
+  };
+}
+
+/**
+ * Builds a FHIR R4 transaction Bundle for a burn assessment
+ * @param data - Assessment data (patient, TBSA, fluids, regions, timestamp)
+ * @param note - Note text for the DocumentReference (defaults to the burn assessment note)
+ * @returns Bundle with Patient, Observations, ClinicalImpression and DocumentReference entries
+ */
+export function buildFhirBundle(data: BurnNoteData, note: string = makeBurnAssessmentNote(data)): FhirBundle {
+  const { patient, tbsa, regions, timestamp } = data;
+  const effectiveDateTime = timestamp.toISOString();
+
+  const patientId = generateUuid();
+  const subject: FhirReference = { reference: `urn:uuid:${patientId}` };
+  const base = { subject, effectiveDateTime };
+
+  const observations: FhirObservation[] = [
+    {
+      resourceType: 'Observation',
+      id: generateUuid(),
+      status: 'final',
+      category: category('vital-signs', 'Vital Signs'),
+      code: { coding: [BODY_WEIGHT], text: 'Body weight' },
+      ...base,
+      valueQuantity: quantity(patient.weightKg, 'kg'),
+    },
+    ...(patient.heightCm !== undefined ? [{
+      resourceType: 'Observation' as const,
+      id: generateUuid(),
+      status: 'final' as const,
+      category: category('vital-signs', 'Vital Signs'),
+      code: { coding: [BODY_HEIGHT], text: 'Body height' },
+      ...base,
+      valueQuantity: quantity(patient.heightCm, 'cm'),
+    }] : []),
+    {
+      resourceType: 'Observation',
+      id: generateUuid(),
+      status: 'final',
+      code: { coding: [AGE], text: 'Age' },
+      ...base,
+      valueQuantity: quantity(patient.ageMonths, 'mo'),
+    },
+  ];
+
+  const depth = tbsa.depthBreakdown;
+  const tbsaObservation: FhirObservation = {
+    resourceType: 'Observation',
+    id: generateUuid(),
+    status: 'final',
+    category: category('exam', 'Exam'),
+    code: localConcept('tbsa-burned', 'Total body surface area burned (partial and full thickness)'),
+    ...base,
+    valueQuantity: quantity(tbsa.tbsaPct, '%'),
+    component: [
+      { code: localConcept('tbsa-superficial', 'Superficial %TBSA (not counted)'), valueQuantity: quantity(tbsa.superficialPct, '%') },
+      ...(depth ? [
+        { code: localConcept('tbsa-partial-thickness', 'Partial thickness %TBSA'), valueQuantity: quantity(depth.partialThicknessPct, '%') },
+        { code: localConcept('tbsa-full-thickness', 'Full thickness %TBSA'), valueQuantity: quantity(depth.fullThicknessPct, '%') },
+      ] : []),
+    ],
+  };
+  observations.push(tbsaObservation);
+
+  const ageYears = patient.ageMonths / 12;
+  regions
+    .filter(selection => selection.fraction > 0)
+    .forEach(selection => observations.push(regionObservation(selection, ageYears, base)));
+
+  let referral: ReferralAssessment | null;
+  let referralError = '';
+  try {
+    referral = evaluateReferralCriteria(patient, regions);
+  } catch (error) {
+    referral = null;
+    referralError = error instanceof Error ? error.message : String(error);
+  }
+  const impressionId = generateUuid();
+  const documentId = generateUuid();
+
+  const resources: FhirResource[] = [
+    {
+      resourceType: 'Patient',
+      id: patientId,
+      meta: { security: [ANONYMIZED_SECURITY_LABEL] },
+      gender: patient.sex ?? 'unknown',
+    },
+    ...observations,
+    {
+      resourceType: 'ClinicalImpression',
+      id: impressionId,
+      status: 'completed',
+      code: localConcept('burn-center-referral', 'Burn center referral assessment'),
+      subject,
+      effectiveDateTime,
+      date: effectiveDateTime,
+      description: 'ABA burn center referral criteria',
+      summary: !referral
+        ? `Burn center referral not evaluated: ${referralError}`
+        : referral.referralRecommended
+          ? `Burn center referral recommended: ${referral.met.map(criterion => criterion.label).join('; ')}`
+          : 'Burn center referral criteria not met',
+      finding: (referral?.met ?? []).map(criterion => ({
+        itemCodeableConcept: localConcept(criterion.id, criterion.label),
+        basis: criterion.reason,
+      })),
+      supportingInfo: [{ reference: `urn:uuid:${tbsaObservation.id}`, display: 'Total body surface area burned' }],
+    },
+    {
+      resourceType: 'DocumentReference',
+      id: documentId,
+      status: 'current',
+      type: { coding: [PROGRESS_NOTE], text: 'Burn assessment note' },
+      subject,
+      date: effectiveDateTime,
+      description: 'Burn assessment note (educational)',
+      content: [{
+        attachment: {
+          contentType: 'text/plain',
+          data: encodeBase64Utf8(note),
+          title: 'Burn assessment note',
+          creation: effectiveDateTime,
+        },
+      }],
+    },
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    id: generateUuid(),
+    type: 'transaction',
+    timestamp: effectiveDateTime,
+    entry: resources.map(entry),
+  };
+}
+
+/**
+ * Collects every reference string in a resource
+ */
+function collectReferences(value: unknown, found: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => {
+      if (key === 'reference' && typeof child === 'string') found.push(child);
+      else collectReferences(child, found);
+    });
+  }
+  return found;
+}
+
+/**
+ * Checks the structure of an exported Bundle
+ *
+ * Not a full profile validation: checks what a FHIR server needs to accept
+ * the transaction and resolve its references.
+ * @param bundle - Bundle to check
+ * @returns Problems found (empty when the Bundle is structurally valid)
+ */
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const errors: string[] = [];
+  if (bundle.resourceType !== 'Bundle') errors.push('resourceType must be Bundle');
+  if (bundle.type !== 'transaction') errors.push('Bundle type must be transaction');
+  if (Number.isNaN(Date.parse(bundle.timestamp))) errors.push('Bundle timestamp must be an ISO date-time');
+  if (!Array.isArray(bundle.entry) || bundle.entry.length === 0) {
+    errors.push('Bundle must contain entries');
+    return errors;
+  }
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((item, index) => {
+    const { resource } = item;
+    const where = `entry[${index}] ${resource?.resourceType ?? 'unknown'}`;
+    if (!UUID_PATTERN.test(resource.id)) errors.push(`${where}: id must be a UUID`);
+    if (item.fullUrl !== `urn:uuid:${resource.id}`) errors.push(`${where}: fullUrl must be urn:uuid:<id>`);
+    if (fullUrls.has(item.fullUrl)) errors.push(`${where}: duplicate fullUrl`);
+    fullUrls.add(item.fullUrl);
+    if (item.request?.method !== 'POST' || item.request.url !== resource.resourceType) {
+      errors.push(`${where}: request must be POST to ${resource.resourceType}`);
+    }
+
+    switch (resource.resourceType) {
+      case 'Patient':
+        if (!resource.meta?.security?.some(label => label.code === ANONYMIZED_SECURITY_LABEL.code)) {
+          errors.push(`${where}: Patient must carry the ANONYED security label`);
+        }
+        break;
+      case 'Observation':
+        if (!resource.code.coding?.length && !resource.code.text) errors.push(`${where}: code is required`);
+        if (!resource.valueQuantity && !resource.component?.length) errors.push(`${where}: value or component is required`);
+        break;
+      case 'ClinicalImpression':
+        if (!resource.summary) errors.push(`${where}: summary is required`);
+        break;
+      case 'DocumentReference':
+        if (!resource.content[0]?.attachment.data) errors.push(`${where}: attachment data is required`);
+        break;
+    }
+  });
+
+  const patients = bundle.entry.filter(item => item.resource.resourceType === 'Patient');
+  if (patients.length !== 1) errors.push('Bundle must contain exactly one Patient');
+
+  bundle.entry.forEach((item, index) => {
+    collectReferences(item.resource).forEach(reference => {
+      if (!fullUrls.has(reference)) errors.push(`entry[${index}] ${item.resource.resourceType}: unresolved reference ${reference}`);
+    });
+  });
+
+  return errors;
+}
@@ -0,0 +1,159 @@
+/**
+ * Hourly Resuscitation Flowsheet Module
+ *
+ * Tracks what was actually infused hour by hour against the Parkland target
+ * curve produced by calculateFluids. Each charted hour's urine output is fed
+ * through adjustFluidRateByUrineOutput so the rate recommendation becomes a
+ * recorded series of titration steps rather than a single snapshot.
+ *
+ * Key Clinical Concepts:
+ * - Deficit = target cumulative volume − actual cumulative volume
+ *   (positive = behind target, negative = ahead of target)
+ * - Hourly infused volume is treated as that hour's rate (mL/hr)
+ * - Urine output drives titration (±20% per protocol) against the patient's
+ *   own target: weight-based for small children, raised for high-voltage injury
+ *
+ * AI Development Notes:
+ * - All functions are pure; entries are never mutated
+ * - Uncharted hours are skipped, not interpolated
+ * - Test coverage in __tests__/flowsheet.test.ts
+ */
+
+import type { BurnMechanism, FlowsheetEntry, FlowsheetRow, FlowsheetSummary, FluidResult, VitalSigns } from './types';
+import { adjustFluidRateByUrineOutput, assessVitalStability, calcUrineOutputTarget } from './fluids';
+import { round1 } from '@/lib/utils';
+
+/**
+ * Maximum hour that can be charted (resuscitation plus early post-burn period)
+ */
+export const MAX_FLOWSHEET_HOUR = 72;
+
+/**
+ * Creates a validated flowsheet entry
+ * @param hourFromInjury - End of the charted hour (1-72)
+ * @param infusedMl - Volume infused during the hour
+ * @param urineOutputMl - Urine output during the hour
+ * @param vitals - Optional vital signs at the end of the hour
+ * @param now - Recording time (injectable for testing)
+ */
+export function createFlowsheetEntry(
+  hourFromInjury: number,
+  infusedMl: number,
+  urineOutputMl: number,
+  vitals?: VitalSigns,
+  now: Date = new Date()
+): FlowsheetEntry {
+  if (!Number.isInteger(hourFromInjury) || hourFromInjury < 1 || hourFromInjury > MAX_FLOWSHEET_HOUR) {
+    throw new Error(`Hour must be a whole number between 1 and ${MAX_FLOWSHEET_HOUR}`);
+  }
+  if (!Number.isFinite(infusedMl) || infusedMl < 0) throw new Error('Infused volume must be non-negative');
+  if (!Number.isFinite(urineOutputMl) || urineOutputMl < 0) throw new Error('Urine output must be non-negative');
+
+  return {
+    hourFromInjury,
+    infusedMl: round1(infusedMl),
+    urineOutputMl: round1(urineOutputMl),
+    vitals: vitals ? { ...vitals } : undefined,
+    recordedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Adds an entry, replacing any existing entry for the same hour
+ * @returns New entry list ordered by hour
+ */
+export function upsertFlowsheetEntry(entries: FlowsheetEntry[], entry: FlowsheetEntry): FlowsheetEntry[] {
+  return [...entries.filter(e => e.hourFromInjury !== entry.hourFromInjury), entry]
+    .sort((a, b) => a.hourFromInjury - b.hourFromInjury);
+}
+
+/**
+ * Parkland target cumulative volume at a given hour
+ *
+ * Uses the calculateFluids timeline (hours 0-24 plus the second-day
+ * hours 25-48); after the timeline ends the target stays at its last value.
+ */
+export function getTargetCumulativeMl(fluidResult: FluidResult, hourFromInjury: number): number {
+  const point = fluidResult.timeline.find(p => p.hourFromInjury === hourFromInjury);
+  if (point) return point.targetCumulativeMl;
+  return fluidResult.timeline[fluidResult.timeline.length - 1]?.targetCumulativeMl ?? fluidResult.parkland.totalMl;
+}
+
+/**
+ * Builds the flowsheet: actual vs target, running deficit and titration steps
+ * @param entries - Charted hours (any order)
+ * @param fluidResult - Parkland calculation providing the target curve
+ * @param patient - Actual weight, age and optional mechanism for the urine output target
+ * @returns Computed rows and summary
+ * @throws Error when weight is not positive
+ */
+export function buildFlowsheet(
+  entries: FlowsheetEntry[],
+  fluidResult: FluidResult,
+  patient: { weightKg: number; ageMonths: number; mechanism?: BurnMechanism }
+): FlowsheetSummary {
+  if (patient.weightKg <= 0) throw new Error('Weight must be positive');
+
+  const urineWeightKg = fluidResult.weights?.urineOutput.weightKg ?? patient.weightKg;
+  const urineTarget = calcUrineOutputTarget(urineWeightKg, patient.ageMonths, patient.mechanism);
+
+  const ordered = [...entries].sort((a, b) => a.hourFromInjury - b.hourFromInjury);
+  const rows: FlowsheetRow[] = [];
+  let cumulativeMl = 0;
+
+  ordered.forEach(entry => {
+    cumulativeMl += entry.infusedMl;
+    const targetCumulativeMl = getTargetCumulativeMl(fluidResult, entry.hourFromInjury);
+    const adjustment = adjustFluidRateByUrineOutput(entry.infusedMl, entry.urineOutputMl, urineTarget);
+
+    rows.push({
+      hourFromInjury: entry.hourFromInjury,
+      infusedMl: entry.infusedMl,
+      cumulativeMl: round1(cumulativeMl),
+      targetCumulativeMl,
+      deficitMl: round1(targetCumulativeMl - cumulativeMl),
+      urineOutputMl: entry.urineOutputMl,
+      urineOutputMlPerKgPerHr: round1(entry.urineOutputMl / urineWeightKg),
+      vitalsStable: entry.vitals ? assessVitalStability(entry.vitals).isStable : true,
+      titration: {
+        hourFromInjury: entry.hourFromInjury,
+        fromRateMlPerHr: entry.infusedMl,
+        toRateMlPerHr: adjustment.newRateMlPerHr,
+        adjustment: adjustment.adjustment,
+        reason: adjustment.reason,
+      },
+    });
+  });
+
+  const last = rows[rows.length - 1];
+  return {
+    rows,
+    totalInfusedMl: round1(cumulativeMl),
+    currentDeficitMl: last ? last.deficitMl : 0,
+    recommendedRateMlPerHr: last ? last.titration.toRateMlPerHr : null,
+    titrationSteps: rows.map(r => r.titration),
+  };
+}
+
+/**
+ * Builds the flowsheet lines for clinical notes
+ * @returns Summary line plus one line per charted hour; empty when nothing charted
+ */
+export function summarizeFlowsheet(summary: FlowsheetSummary): string[] {
+  if (summary.rows.length === 0) return [];
+
+  const deficit = summary.currentDeficitMl;
+  const status = deficit > 0
+    ? `${deficit} mL behind target`
+    : deficit < 0 ? `${Math.abs(deficit)} mL ahead of target` : 'on target';
+
+  const lines = [
+    `- Total infused: ${summary.totalInfusedMl} mL (${status})`,
+  ];
+  summary.rows.forEach(row => {
+    lines.push(
+      `- Hour ${row.hourFromInjury}: ${row.infusedMl} mL in, UO ${row.urineOutputMl} mL (${row.urineOutputMlPerKgPerHr} mL/kg/hr) → ${row.titration.adjustment} to ${row.titration.toRateMlPerHr} mL/hr`
+    );
+  });
+  return lines;
+}
@@ -0,0 +1,201 @@
+/**
+ * Fluid Creep and Over-Resuscitation Module
+ *
+ * Looks across every charted flowsheet hour rather than a single urine
+ * output reading: how much has actually been given per kg and per %TBSA
+ * compared with the formula, whether the Ivy index has been reached, and
+ * whether urine output has stayed high long enough to suggest the patient
+ * is being over-resuscitated.
+ *
+ * Key Clinical Concepts:
+ * - Fluid creep: delivered volume drifting above the formula (≥120% of target)
+ * - Pruitt limit: >6 ml/kg/%TBSA in the first 24 hours is excessive
+ * - Ivy index: ≥250 ml/kg in 24 hours predicts abdominal compartment syndrome
+ * - Sustained urine output above target means the rate should come down
+ * - Intra-abdominal pressure >20 mmHg with new organ dysfunction = ACS
+ *
+ * AI Development Notes:
+ * - Target volumes come from the FluidResult.timeline via getTargetCumulativeMl
+ * - Urine output thresholds reuse calcUrineOutputTarget (mechanism-aware)
+ * - Per-kg volumes use the resuscitation weight the target was built on, and
+ *   urine output the urine output weight, when a dosing weight policy applied
+ * - Only hours 1-24 count towards the Pruitt limit and Ivy index
+ * - Test coverage in __tests__/fluidCreep.test.ts
+ */
+
+import type {
+  BurnMechanism,
+  FlowsheetEntry,
+  FluidCreepAlert,
+  FluidCreepAnalysis,
+  FluidResult,
+} from './types';
+import { calcUrineOutputTarget, convertToMlPerKgPerHr } from './fluids';
+import { getTargetCumulativeMl } from './flowsheet';
+import { WEIGHT_BASIS_LABELS } from './dosingWeight';
+import { round1, round2 } from '@/lib/utils';
+
+/**
+ * Delivered ÷ target ratio that counts as fluid creep
+ */
+export const FLUID_CREEP_RATIO = 1.2;
+
+/**
+ * Maximum first-24-hour volume before resuscitation is considered excessive
+ */
+export const PRUITT_LIMIT_ML_PER_KG_PER_TBSA = 6;
+
+/**
+ * Ivy index threshold and the fraction of it that triggers an early warning
+ */
+export const IVY_INDEX_ML_PER_KG = 250;
+export const IVY_INDEX_WARNING_FRACTION = 0.8;
+
+/**
+ * Consecutive charted hours above the urine output target that flag over-resuscitation
+ */
+export const SUSTAINED_HIGH_URINE_OUTPUT_HOURS = 3;
+
+/**
+ * Bladder pressure prompts shown when compartment syndrome risk is raised
+ */
+export const COMPARTMENT_SYNDROME_PROMPTS = [
+  'Measure bladder pressure every 4 hours',
+  'IAP >12 mmHg: intra-abdominal hypertension - reduce fluid rate, optimise sedation and consider truncal escharotomy',
+  'IAP >20 mmHg with new organ dysfunction (falling urine output, rising airway pressures): abdominal compartment syndrome - urgent surgical review for decompression',
+];
+
+/**
+ * Counts the most recent consecutive hours with urine output above the target
+ */
+function countSustainedHighHours(ordered: FlowsheetEntry[], maxUrineOutputMlPerHr: number): number {
+  let hours = 0;
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const entry = ordered[i];
+    const next = ordered[i + 1];
+    if (next && next.hourFromInjury !== entry.hourFromInjury + 1) break;
+    if (entry.urineOutputMl <= maxUrineOutputMlPerHr) break;
+    hours++;
+  }
+  return hours;
+}
+
+/**
+ * Analyses cumulative resuscitation for fluid creep and over-resuscitation
+ * @param entries - Charted flowsheet hours (any order)
+ * @param fluidResult - Formula calculation providing the target curve
+ * @param patient - Actual weight, age, resuscitation TBSA and optional mechanism
+ * @returns Cumulative volumes, Ivy index, alerts and compartment syndrome prompts
+ * @throws Error when weight is not positive
+ */
+export function analyzeFluidCreep(
+  entries: FlowsheetEntry[],
+  fluidResult: FluidResult,
+  patient: { weightKg: number; ageMonths: number; tbsaPct: number; mechanism?: BurnMechanism }
+): FluidCreepAnalysis {
+  const { weightKg, ageMonths, tbsaPct, mechanism } = patient;
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+
+  const ordered = [...entries].sort((a, b) => a.hourFromInjury - b.hourFromInjury);
+  const hoursCharted = ordered.length > 0 ? ordered[ordered.length - 1].hourFromInjury : 0;
+  const deliveredMl = ordered.reduce((sum, entry) => sum + entry.infusedMl, 0);
+  const first24hMl = ordered
+    .filter(entry => entry.hourFromInjury <= 24)
+    .reduce((sum, entry) => sum + entry.infusedMl, 0);
+  const urineOutputMl = ordered.reduce((sum, entry) => sum + entry.urineOutputMl, 0);
+  const targetMl = hoursCharted > 0 ? getTargetCumulativeMl(fluidResult, hoursCharted) : 0;
+
+  // Same weight as the formula target, so delivered and target figures compare
+  const volumeWeightKg = fluidResult.weights?.resuscitation.weightKg ?? weightKg;
+  const urineWeightKg = fluidResult.weights?.urineOutput.weightKg ?? weightKg;
+  const perKgPerTbsa = (ml: number) => (tbsaPct > 0 ? round2(ml / (volumeWeightKg * tbsaPct)) : 0);
+  const ratioToTarget = targetMl > 0 ? round2(deliveredMl / targetMl) : null;
+  const first24hMlPerKgPerTbsa = perKgPerTbsa(first24hMl);
+  const ivyIndexMlPerKg = round1(first24hMl / volumeWeightKg);
+
+  const urineTarget = calcUrineOutputTarget(urineWeightKg, ageMonths, mechanism);
+  const sustainedHighUrineOutputHours = countSustainedHighHours(ordered, urineTarget.max);
+
+  const alerts: FluidCreepAlert[] = [];
+  if (ratioToTarget !== null && ratioToTarget >= FLUID_CREEP_RATIO) {
+    alerts.push({
+      id: 'fluid-creep',
+      severity: 'warning',
+      message: `Fluid creep: ${round1(deliveredMl)}ml given vs ${targetMl}ml target (${Math.round(ratioToTarget * 100)}% of formula)`,
+    });
+  }
+  if (first24hMlPerKgPerTbsa > PRUITT_LIMIT_ML_PER_KG_PER_TBSA) {
+    alerts.push({
+      id: 'pruitt-limit',
+      severity: 'warning',
+      message: `${first24hMlPerKgPerTbsa} ml/kg/%TBSA given - exceeds ${PRUITT_LIMIT_ML_PER_KG_PER_TBSA} ml/kg/%TBSA in the first 24h`,
+    });
+  }
+  if (ivyIndexMlPerKg >= IVY_INDEX_ML_PER_KG) {
+    alerts.push({
+      id: 'ivy-exceeded',
+      severity: 'critical',
+      message: `Ivy index exceeded: ${ivyIndexMlPerKg} ml/kg (≥${IVY_INDEX_ML_PER_KG} ml/kg) - high risk of abdominal compartment syndrome`,
+    });
+  } else if (ivyIndexMlPerKg >= IVY_INDEX_ML_PER_KG * IVY_INDEX_WARNING_FRACTION) {
+    alerts.push({
+      id: 'ivy-approaching',
+      severity: 'warning',
+      message: `Approaching Ivy index: ${ivyIndexMlPerKg} of ${IVY_INDEX_ML_PER_KG} ml/kg`,
+    });
+  }
+  if (sustainedHighUrineOutputHours >= SUSTAINED_HIGH_URINE_OUTPUT_HOURS) {
+    alerts.push({
+      id: 'sustained-high-urine-output',
+      severity: 'warning',
+      message: `Urine output >${urineTarget.max}ml/hr for ${sustainedHighUrineOutputHours} consecutive hours - over-resuscitation likely; reduce IV rate`,
+    });
+  }
+
+  const compartmentSyndromeRisk = alerts.some(
+    alert => alert.id === 'ivy-approaching' || alert.id === 'ivy-exceeded' || alert.id === 'pruitt-limit'
+  );
+
+  return {
+    hoursCharted,
+    deliveredMl: round1(deliveredMl),
+    targetMl,
+    ratioToTarget,
+    weightKg: volumeWeightKg,
+    weightBasis: fluidResult.weights?.resuscitation.basis ?? 'actual',
+    deliveredMlPerKgPerTbsa: perKgPerTbsa(deliveredMl),
+    targetMlPerKgPerTbsa: perKgPerTbsa(targetMl),
+    formulaMlPerKgPerTbsa: perKgPerTbsa(fluidResult.parkland.totalMl),
+    ivyIndexMlPerKg,
+    averageUrineOutputMlPerKgPerHr: ordered.length > 0
+      ? convertToMlPerKgPerHr(urineOutputMl / ordered.length, urineWeightKg)
+      : 0,
+    sustainedHighUrineOutputHours,
+    compartmentSyndromeRisk,
+    alerts,
+    compartmentSyndromePrompts: compartmentSyndromeRisk ? [...COMPARTMENT_SYNDROME_PROMPTS] : [],
+  };
+}
+
+/**
+ * Builds the fluid creep lines for clinical notes
+ * @returns Cumulative volume line plus one line per alert and prompt; empty when nothing charted
+ */
+export function summarizeFluidCreep(analysis: FluidCreepAnalysis): string[] {
+  if (analysis.hoursCharted === 0) return [];
+
+  const perKg = analysis.weightBasis === 'actual'
+    ? ''
+    : `; per kg of ${WEIGHT_BASIS_LABELS[analysis.weightBasis]}, ${analysis.weightKg}kg`;
+  const lines = [
+    `- Delivered: ${analysis.deliveredMlPerKgPerTbsa} ml/kg/%TBSA vs ${analysis.targetMlPerKgPerTbsa} target at hour ${analysis.hoursCharted} (formula ${analysis.formulaMlPerKgPerTbsa} over 24h${perKg})`,
+    `- Ivy index: ${analysis.ivyIndexMlPerKg} of ${IVY_INDEX_ML_PER_KG} ml/kg`,
+  ];
+  analysis.alerts.forEach(alert => {
+    lines.push(`- ${alert.severity === 'critical' ? '🚨' : '⚠️'} ${alert.message}`);
+  });
+  analysis.compartmentSyndromePrompts.forEach(prompt => {
+    lines.push(`□ ${prompt}`);
+  });
+  return lines;
+}
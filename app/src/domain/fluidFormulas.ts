@@ -0,0 +1,143 @@
+/**
+ * Resuscitation Formula Registry
+ *
+ * Each burn resuscitation formula declares its 24-hour volume equation, how
+ * that volume is split across the first 8 and next 16 hours, whether
+ * maintenance fluid should be added on top, and which population it is
+ * intended for. calculateFluids looks formulas up here instead of hard-coding
+ * Parkland.
+ *
+ * Key Clinical Concepts:
+ * - Parkland: 4 mL/kg/%TBSA (adults and children, maintenance separate)
+ * - Modified Brooke: 2 mL/kg/%TBSA (adults)
+ * - Galveston: 5000 mL/m² burned + 2000 mL/m² total BSA (children, includes maintenance)
+ * - Cincinnati: 4 mL/kg/%TBSA + 1500 mL/m² total BSA (children, includes maintenance)
+ * - ABLS: 2 mL (adult thermal), 3 mL (pediatric, add maintenance), 4 mL (electrical)
+ *
+ * AI Development Notes:
+ * - Add new formulas to FLUID_FORMULAS; the UI and notes pick them up automatically
+ * - BSA comes from TbsaResult.bsaM2 (bsa.ts); estimated from weight when not supplied
+ * - Test coverage in __tests__/fluidFormulas.test.ts
+ */
+
+import type { FluidFormula, FluidFormulaId, FluidFormulaInput, PatientData } from './types';
+import { estimateBsaFromWeight } from './bsa';
+
+/**
+ * Age below which a patient uses pediatric formulas (15 years, matching urine output targets)
+ */
+export const PEDIATRIC_AGE_MONTHS = 180;
+
+/**
+ * Resolves the BSA to use for a calculation
+ */
+function resolveBsa(input: FluidFormulaInput): number {
+  return input.bsaM2 && input.bsaM2 > 0 ? input.bsaM2 : estimateBsaFromWeight(input.weightKg);
+}
+
+/**
+ * Builds a simple mL/kg/%TBSA formula
+ */
+function perKgFormula(
+  id: FluidFormulaId,
+  name: string,
+  mlPerKgPerPct: number,
+  population: FluidFormula['population'],
+  maintenance: FluidFormula['maintenance'],
+  indication: string
+): FluidFormula {
+  return {
+    id,
+    name,
+    equation: `${mlPerKgPerPct} mL × weight (kg) × %TBSA`,
+    population,
+    indication,
+    first8hFraction: 0.5,
+    maintenance,
+    totalVolumeMl: ({ weightKg, tbsaPct }) => mlPerKgPerPct * weightKg * tbsaPct,
+  };
+}
+
+/**
+ * Registered resuscitation formulas
+ */
+export const FLUID_FORMULAS: Record<FluidFormulaId, FluidFormula> = {
+  'parkland': perKgFormula('parkland', 'Parkland', 4, 'all', 'separate',
+    'Classic consensus formula for adults and children'),
+  'modified-brooke': perKgFormula('modified-brooke', 'Modified Brooke', 2, 'adult', 'separate',
+    'Lower-volume adult formula to reduce fluid creep'),
+  'galveston': {
+    id: 'galveston',
+    name: 'Galveston',
+    equation: '5000 mL/m² burned BSA + 2000 mL/m² total BSA',
+    population: 'pediatric',
+    indication: 'BSA-based pediatric formula (Shriners Galveston); maintenance included',
+    first8hFraction: 0.5,
+    maintenance: 'included',
+    totalVolumeMl: (input) => {
+      const bsa = resolveBsa(input);
+      return 5000 * bsa * (input.tbsaPct / 100) + 2000 * bsa;
+    },
+  },
+  'cincinnati': {
+    id: 'cincinnati',
+    name: 'Cincinnati',
+    equation: '4 mL × weight (kg) × %TBSA + 1500 mL/m² total BSA',
+    population: 'pediatric',
+    indication: 'Pediatric formula (Shriners Cincinnati); maintenance included',
+    first8hFraction: 0.5,
+    maintenance: 'included',
+    totalVolumeMl: (input) => 4 * input.weightKg * input.tbsaPct + 1500 * resolveBsa(input),
+  },
+  'abls-2': perKgFormula('abls-2', 'ABLS 2 mL', 2, 'adult', 'separate',
+    'ABLS adult thermal and chemical burns'),
+  'abls-3': perKgFormula('abls-3', 'ABLS 3 mL', 3, 'pediatric', 'required',
+    'ABLS pediatric burns; add dextrose-containing maintenance'),
+  'abls-4': perKgFormula('abls-4', 'ABLS 4 mL', 4, 'all', 'separate',
+    'ABLS high-voltage electrical injury'),
+};
+
+/**
+ * Looks up a formula by id
+ */
+export function getFluidFormula(id: FluidFormulaId): FluidFormula {
+  const formula = FLUID_FORMULAS[id];
+  if (!formula) throw new Error(`Unknown resuscitation formula: ${id}`);
+  return formula;
+}
+
+/**
+ * Whether a formula is intended for a patient of the given age
+ */
+export function isFormulaApplicable(formula: FluidFormula, ageMonths: number): boolean {
+  if (formula.population === 'all') return true;
+  const isPediatric = ageMonths < PEDIATRIC_AGE_MONTHS;
+  return formula.population === (isPediatric ? 'pediatric' : 'adult');
+}
+
+/**
+ * Institutional adult/pediatric formula defaults
+ */
+export interface FormulaPreferences {
+  adult: FluidFormulaId;
+  pediatric: FluidFormulaId;
+}
+
+export const DEFAULT_FORMULA_PREFERENCES: FormulaPreferences = {
+  adult: 'parkland',
+  pediatric: 'parkland',
+};
+
+/**
+ * Picks the formula for a patient: an explicit per-patient choice wins,
+ * otherwise the institutional default for the patient's age group
+ * @param patient - Patient data (age and optional fluidFormula override)
+ * @param preferences - Institutional adult/pediatric defaults
+ */
+export function resolveFormulaId(
+  patient: Pick<PatientData, 'ageMonths' | 'fluidFormula'>,
+  preferences: FormulaPreferences = DEFAULT_FORMULA_PREFERENCES
+): FluidFormulaId {
+  if (patient.fluidFormula) return patient.fluidFormula;
+  return patient.ageMonths < PEDIATRIC_AGE_MONTHS ? preferences.pediatric : preferences.adult;
+}
@@ -7,17 +7,33 @@
  * 1. PARKLAND FORMULA: 4ml/kg × %TBSA × weight(kg)
  *    - First 8 hours: 50% of total (higher capillary leak)
  *    - Next 16 hours: 50% of total (maintenance phase)
+ *    - Other formulas (Brooke, Galveston, ABLS...) come from fluidFormulas.ts
+ *    - Obese adults: weight chosen by the dosing weight policy (dosingWeight.ts)
  * 
  * 2. MONITORING PROTOCOLS:
  *    - Urine output targets: 30-50ml/hr (adults >20kg)
+ *    - High-voltage electrical: 1-1.5ml/kg/hr (myoglobinuria risk)
+ *    - Likely inhalation injury: expected volume raised ~45% (airway.ts)
  *    - Rate adjustments: ±20% based on urine output
  *    - Vital sign stability: HR <120, BP >90/60, SaO2 >90%
  * 
- * 3. FLUID TYPES:
+ * 3. ACTUAL DELIVERY (transfers / late presentation):
+ *    - Prehospital and referring-facility volumes replace the on-schedule assumption
+ *    - Missed volume becomes a deficit; catch-up rate covers it by hour 8 (or 24)
+ *    - Catch-up above 1.5× the planned phase rate is flagged for review
+ * 
+ * 4. FLUID TYPES:
  *    - Resuscitation: Lactated Ringers (LR)
  *    - Maintenance: D5 1/2 NS + 20mEq KCl/L
+ *    - Children <30kg: D5LR maintenance on top of LR with glucose checks
+ *    - Maintenance methods: 4-2-1, 100/50/20, 1500 ml/m²/day, basal + evaporative loss
+ *    - Hours 24-72: maintenance plus evaporative loss (25 + %TBSA) × BSA ml/hr
+ *    - Hours 24-48 (second day): albumin for TBSA ≥30% plus maintenance and D5W
+ *      free water; day 2-7 planning and nutrition live in postResuscitation.ts
+ *    - Colloid: 5% albumin from hour 8 for TBSA ≥30%, or as rescue when the
+ *      crystalloid requirement runs ≥1.5× the formula (LR reduced to match)
  * 
- * 4. EDUCATIONAL FEATURES:
+ * 5. EDUCATIONAL FEATURES:
  *    - Clinical decision support
  *    - Protocol explanations
  *    - Safety validation
@@ -30,9 +46,72 @@
  * - Hospital-validated protocols - maintain clinical accuracy
  */
 
-import type { FluidResult, FluidPhase } from './types';
-import { round1 } from '@/lib/utils';
+import type {
+  FluidResult,
+  FluidPhase,
+  PriorFluidVolume,
+  FluidFormulaId,
+  BurnMechanism,
+  AirwayAssessment,
+  AirwayRiskResult,
+  ColloidRecommendation,
+  FluidFormula,
+  PediatricMaintenancePlan,
+  DosingWeights,
+  MaintenanceMethod,
+  SecondDayFluids,
+  FlowsheetEntry,
+} from './types';
+import { round1, round2 } from '@/lib/utils';
+import { getMechanismPathway } from './mechanisms';
+import { INHALATION_FLUID_FACTOR, assessAirway } from './airway';
 import { validateFluidInputs } from './validation';
+import { PEDIATRIC_AGE_MONTHS, getFluidFormula } from './fluidFormulas';
+import { estimateBsaFromWeight } from './bsa';
+import { formatDosingWeight } from './dosingWeight';
+import { getTargetCumulativeMl } from './flowsheet';
+
+/**
+ * Catch-up rates above this multiple of the planned phase rate are flagged
+ */
+export const CATCH_UP_CEILING_MULTIPLIER = 1.5;
+
+/**
+ * Splits fluid already given into the Parkland phases
+ *
+ * Each volume is assumed to run evenly between its start and end hour, so an
+ * infusion spanning hour 8 is divided between the two phases.
+ * @param priorFluids - Volumes given before the current team took over
+ * @param hoursSinceInjury - Current time (volumes cannot end in the future)
+ * @returns Volume delivered in the first 8 hours, after hour 8, and in total
+ */
+export function splitDeliveredFluids(
+  priorFluids: PriorFluidVolume[],
+  hoursSinceInjury: number
+): { first8hMl: number; after8hMl: number; totalMl: number } {
+  let first8hMl = 0;
+  let after8hMl = 0;
+
+  priorFluids.forEach(fluid => {
+    if (fluid.volumeMl < 0) throw new Error('Prior fluid volume cannot be negative');
+    if (fluid.startHour < 0 || fluid.endHour < fluid.startHour) {
+      throw new Error('Prior fluid times must be within 0 and end after start');
+    }
+    if (fluid.endHour > hoursSinceInjury) {
+      throw new Error('Prior fluid cannot end after the current time since injury');
+    }
+
+    const duration = fluid.endHour - fluid.startHour;
+    const inFirst8h = duration === 0
+      ? (fluid.startHour < 8 ? 1 : 0)
+      : Math.max(0, Math.min(fluid.endHour, 8) - fluid.startHour) / duration;
+
+    first8hMl += fluid.volumeMl * inFirst8h;
+    after8hMl += fluid.volumeMl * (1 - inFirst8h);
+  });
+
+  return { first8hMl, after8hMl, totalMl: first8hMl + after8hMl };
+}
 
 /**
  * Calculates maintenance fluid requirements using Holliday-Segar (4-2-1) method
@@ -58,8 +137,103 @@ function calcMaintenanceFluids(weightKg: number): number {
   return round1(maintenanceMlPerHr);
 }
 
+/**
+ * Basal maintenance by body surface area (ml/m²/day)
+ */
+export const BSA_MAINTENANCE_ML_PER_M2_PER_DAY = 1500;
+
+/**
+ * Post-resuscitation window in which evaporative loss is estimated (hours from injury)
+ */
+export const POST_RESUSCITATION_END_HOUR = 72;
+
+/**
+ * Display names for maintenance methods
+ */
+export const MAINTENANCE_METHOD_LABELS: Record<MaintenanceMethod, string> = {
+  '4-2-1': 'Holliday-Segar 4-2-1',
+  '100-50-20': 'Holliday-Segar 100/50/20',
+  bsa: 'BSA-based',
+  evaporative: 'Basal + evaporative loss',
+};
+
+const MAINTENANCE_FORMULAS: Record<MaintenanceMethod, string> = {
+  '4-2-1': '4 ml/kg/hr first 10kg + 2 ml/kg/hr next 10kg + 1 ml/kg/hr remainder',
+  '100-50-20': '(100 ml/kg first 10kg + 50 ml/kg next 10kg + 20 ml/kg remainder) per day ÷ 24',
+  bsa: '1500 ml/m²/day × BSA ÷ 24',
+  evaporative: '1500 ml/m²/day × BSA ÷ 24 + (25 + %TBSA) × BSA ml/hr',
+};
+
+/**
+ * Estimates evaporative water loss through burned skin
+ * @param tbsaPct - Percent of body surface burned
+ * @param bsaM2 - Body surface area in m²
+ * @returns Loss in ml/hr: (25 + %TBSA) × BSA
+ */
+export function calcEvaporativeLossMlPerHr(tbsaPct: number, bsaM2: number): number {
+  if (bsaM2 <= 0) throw new Error('BSA must be positive');
+  if (tbsaPct < 0 || tbsaPct > 100) throw new Error('TBSA must be between 0 and 100');
+  return round1((25 + tbsaPct) * bsaM2);
+}
+
+/**
+ * Calculates maintenance fluid with the selected method
+ * @param method - Maintenance method
+ * @param params - Maintenance weight, BSA and resuscitation TBSA
+ * @returns Hourly rate, method, formula text and the evaporative loss estimate
+ */
+export function calculateMaintenance(
+  method: MaintenanceMethod,
+  params: { weightKg: number; bsaM2: number; tbsaPct: number }
+): FluidResult['maintenance'] {
+  const { weightKg, bsaM2, tbsaPct } = params;
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+  const evaporativeLossMlPerHr = calcEvaporativeLossMlPerHr(tbsaPct, bsaM2);
+  const basalBsaMlPerHr = (BSA_MAINTENANCE_ML_PER_M2_PER_DAY * bsaM2) / 24;
+
+  let mlPerHr: number;
+  switch (method) {
+    case '4-2-1':
+      mlPerHr = calcMaintenanceFluids(weightKg);
+      break;
+    case '100-50-20': {
+      const first10 = Math.min(weightKg, 10);
+      const next10 = Math.min(Math.max(weightKg - 10, 0), 10);
+      const remainder = Math.max(weightKg - 20, 0);
+      mlPerHr = (first10 * 100 + next10 * 50 + remainder * 20) / 24;
+      break;
+    }
+    case 'bsa':
+      mlPerHr = basalBsaMlPerHr;
+      break;
+    case 'evaporative':
+      mlPerHr = basalBsaMlPerHr + evaporativeLossMlPerHr;
+      break;
+    default:
+      throw new Error(`Unknown maintenance method: ${method}`);
+  }
+
+  return {
+    mlPerHr: round1(mlPerHr),
+    method,
+    formula: MAINTENANCE_FORMULAS[method],
+    evaporativeLossMlPerHr,
+  };
+}
+
 /**
  * Calculates fluid resuscitation using Parkland formula with temporal adjustments
+ *
+ * Without priorFluids, delivery is assumed to have followed the schedule. With
+ * priorFluids (even an empty list), the remaining volume, deficit and rate are
+ * recomputed from what was actually given. formulaId selects the resuscitation
+ * formula (default Parkland). weights (resolveDosingWeights) replaces the
+ * actual weight in the formula volume and the maintenance rate.
+ * maintenanceMethod selects the maintenance equation (default 4-2-1); between
+ * 24 and 72 hours postResuscitation adds the evaporative loss estimate.
+ * rateNowMlPerHr covers resuscitation only and is 0 after hour 24; secondDay
+ * gives the hours 24-48 rate, which the timeline continues to hour 48; both
+ * are built on first read.
  * @param params - Calculation parameters
  * @returns Comprehensive fluid calculation result
  */
@@ -67,8 +241,23 @@ export function calculateFluids(params: {
   weightKg: number;
   tbsaPct: number;
   hoursSinceInjury: number;
+  priorFluids?: PriorFluidVolume[];
+  formulaId?: FluidFormulaId;
+  bsaM2?: number;
+  weights?: DosingWeights;
+  maintenanceMethod?: MaintenanceMethod;
 }): FluidResult {
-  const { weightKg, tbsaPct, hoursSinceInjury } = params;
+  const {
+    weightKg,
+    tbsaPct,
+    hoursSinceInjury,
+    priorFluids,
+    formulaId = 'parkland',
+    bsaM2,
+    weights,
+    maintenanceMethod = '4-2-1',
+  } = params;
+  const formula = getFluidFormula(formulaId);
   
   // Enhanced input validation with centralized validators
   const validation = validateFluidInputs(weightKg, tbsaPct, hoursSinceInjury);
@@ -87,10 +276,10 @@ export function calculateFluids(params: {
   if (tbsaPct < 0 || tbsaPct > 100) throw new Error('TBSA must be between 0 and 100');
   if (hoursSinceInjury < 0) throw new Error('Hours since injury cannot be negative');
   
-  // Parkland formula: 4 ml × weight(kg) × %TBSA
-  const totalMl = 4 * weightKg * tbsaPct;
-  const first8hMl = totalMl / 2;
-  const next16hMl = totalMl / 2;
+  // 24-hour volume and phase split from the selected formula (Parkland: 4 ml × weight(kg) × %TBSA)
+  const totalMl = formula.totalVolumeMl({ weightKg: weights?.resuscitation.weightKg ?? weightKg, tbsaPct, bsaM2 });
+  const first8hMl = totalMl * formula.first8hFraction;
+  const next16hMl = totalMl - first8hMl;
   
   // Calculate what should have been delivered by now
   let deliveredFirst8hMl = 0;
@@ -124,34 +313,112 @@ export function calculateFluids(params: {
     currentPhase = 'next16';
   }
   
-  // Generate timeline for visualization
-  const timeline = [];
-  for (let hour = 0; hour <= 24; hour++) {
-    let targetCumulativeMl = 0;
-    let phase: FluidPhase = 'first8';
+  // Volume that should have been given by now if delivery followed the schedule
+  const scheduledByNowMl = hoursSinceInjury < 8
+    ? deliveredFirst8hMl
+    : first8hMl + Math.min(1, (hoursSinceInjury - 8) / 16) * next16hMl;
+  let deliveredTotalMl = scheduledByNowMl;
+  
+  // Recompute from fluid actually delivered (transfers, late presentation)
+  if (priorFluids) {
+    const delivered = splitDeliveredFluids(priorFluids, hoursSinceInjury);
+    deliveredTotalMl = delivered.totalMl;
+    deliveredFirst8hMl = delivered.first8hMl;
     
-    if (hour < 8) {
-      targetCumulativeMl = (hour / 8) * first8hMl;
-      phase = 'first8';
+    if (hoursSinceInjury < 8) {
+      remainingFirst8hMl = first8hMl - delivered.first8hMl;
+      // Anything given beyond the first-8h target counts toward the next 16 hours
+      remainingNext16hMl = next16hMl - Math.max(0, -remainingFirst8hMl);
+      rateNowMlPerHr = Math.max(0, remainingFirst8hMl) / (8 - hoursSinceInjury);
+    } else if (hoursSinceInjury < 24) {
+      // Volume missed in the first 8 hours rolls into the remaining 24-hour total
+      remainingFirst8hMl = 0;
+      remainingNext16hMl = totalMl - delivered.totalMl;
+      rateNowMlPerHr = Math.max(0, remainingNext16hMl) / (24 - hoursSinceInjury);
     } else {
-      targetCumulativeMl = first8hMl + ((hour - 8) / 16) * next16hMl;
-      phase = 'next16';
+      remainingFirst8hMl = 0;
+      remainingNext16hMl = 0;
+      rateNowMlPerHr = 0;
     }
-    
-    timeline.push({
-      hourFromInjury: hour,
-      targetCumulativeMl: round1(targetCumulativeMl),
-      phase,
-    });
   }
   
-  // Calculate maintenance fluids
-  const maintenanceMlPerHr = calcMaintenanceFluids(weightKg);
+  const plannedPhaseRateMlPerHr = currentPhase === 'first8' ? first8hMl / 8 : next16hMl / 16;
+  const catchUpCeilingMlPerHr = plannedPhaseRateMlPerHr * CATCH_UP_CEILING_MULTIPLIER;
+  
+  // Calculate maintenance fluids (BSA estimated from weight when height is unknown)
+  const maintenance = calculateMaintenance(maintenanceMethod, {
+    weightKg: weights?.maintenance.weightKg ?? weightKg,
+    bsaM2: bsaM2 ?? estimateBsaFromWeight(weightKg),
+    tbsaPct,
+  });
+
+  // Second 24 hours: LR stops; colloid for major burns plus free water replacing evaporative loss
+  const colloidMl = tbsaPct >= COLLOID_TBSA_THRESHOLD
+    ? getAlbuminDoseMlPerKgPerTbsa(tbsaPct) * (weights?.resuscitation.weightKg ?? weightKg) * tbsaPct
+    : 0;
+  const freeWaterMlPerHr = maintenanceMethod === 'evaporative' ? 0 : maintenance.evaporativeLossMlPerHr;
+  const secondDayRateMlPerHr = colloidMl / 24 + maintenance.mlPerHr + freeWaterMlPerHr;
+
+  // Second-day plan and 48 h timeline are built on first read; most callers only need the current rate
+  let secondDay: SecondDayFluids | undefined;
+  let timeline: FluidResult['timeline'] | undefined;
+  const getSecondDay = (): SecondDayFluids => {
+    if (!secondDay) {
+      secondDay = {
+        colloidMl: round1(colloidMl),
+        colloidMlPerHr: round1(colloidMl / 24),
+        maintenanceMlPerHr: maintenance.mlPerHr,
+        freeWaterMlPerHr,
+        rateMlPerHr: round1(secondDayRateMlPerHr),
+        totalMl: round1(secondDayRateMlPerHr * 24),
+      };
+    }
+    return secondDay;
+  };
+  const getTimeline = (): FluidResult['timeline'] => {
+    if (!timeline) {
+      // Hours 25-48 follow the second-day rate
+      timeline = [];
+      for (let hour = 0; hour <= 48; hour++) {
+        let targetCumulativeMl = 0;
+        let phase: FluidPhase = 'first8';
+        
+        if (hour < 8) {
+          targetCumulativeMl = (hour / 8) * first8hMl;
+          phase = 'first8';
+        } else if (hour <= 24) {
+          targetCumulativeMl = first8hMl + ((hour - 8) / 16) * next16hMl;
+          phase = 'next16';
+        } else {
+          targetCumulativeMl = totalMl + (hour - 24) * secondDayRateMlPerHr;
+          phase = 'day2';
+        }
+        
+        timeline.push({
+          hourFromInjury: hour,
+          targetCumulativeMl: round1(targetCumulativeMl),
+          phase,
+        });
+      }
+    }
+    return timeline;
+  };
+  
+  // Hours 24-72: resuscitation has ended but evaporative loss through the burn continues
+  let postResuscitation: FluidResult['postResuscitation'];
+  if (hoursSinceInjury >= 24 && hoursSinceInjury <= POST_RESUSCITATION_END_HOUR) {
+    postResuscitation = {
+      maintenanceMlPerHr: maintenance.mlPerHr,
+      evaporativeLossMlPerHr: maintenance.evaporativeLossMlPerHr,
+      evaporativeLossIncluded: maintenanceMethod === 'evaporative',
+      totalMlPerHr: round1(maintenance.mlPerHr + freeWaterMlPerHr),
+    };
+  }
   
   // Generate notice for small burns
   let notice: string | undefined;
   if (tbsaPct < 10) {
-    notice = 'Note: Parkland formula is typically indicated for burns ≥10% TBSA. Consider local protocol for smaller burns.';
+    notice = `Note: ${formula.name} formula is typically indicated for burns ≥10% TBSA. Consider local protocol for smaller burns.`;
   }
   
   // Log warnings for clinical awareness (in development mode)
@@ -169,13 +436,29 @@ export function calculateFluids(params: {
       remainingNext16hMl: round1(Math.max(0, remainingNext16hMl)),
       rateNowMlPerHr: round1(Math.max(0, rateNowMlPerHr)),
       phase: currentPhase,
+      deliveryBasis: priorFluids ? 'actual' : 'scheduled',
+      deliveredTotalMl: round1(deliveredTotalMl),
+      deficitMl: round1(scheduledByNowMl - deliveredTotalMl),
+      catchUpRateMlPerHr: round1(Math.max(0, rateNowMlPerHr)),
+      catchUpCeilingMlPerHr: round1(catchUpCeilingMlPerHr),
+      exceedsCatchUpCeiling: rateNowMlPerHr > catchUpCeilingMlPerHr,
+    },
+    formula: {
+      id: formula.id,
+      name: formula.name,
+      equation: formula.equation,
+      maintenance: formula.maintenance,
+    },
+    maintenance,
+    postResuscitation,
+    get secondDay() {
+      return getSecondDay();
     },
-    maintenance: {
-      mlPerHr: maintenanceMlPerHr,
-      method: '4-2-1',
+    get timeline() {
+      return getTimeline();
     },
-    timeline,
     notice,
+    weights,
     validation: {
       warnings: validation.warnings,
       clinicalFlags: validation.warnings.length > 0
@@ -204,11 +487,13 @@ export function convertToMlPerKgPerHr(mlPerHr: number, weightKg: number): number
  * Adjusts IV fluid rate based on urine output monitoring per protocol
  * @param currentRateMlPerHr - Current IV fluid rate in ml/hr  
  * @param urineOutputMlPerHr - Current urine output in ml/hr
+ * @param target - Urine output range in ml/hr (defaults to the 30-50ml/hr protocol)
  * @returns New recommended IV fluid rate and adjustment recommendation
  */
 export function adjustFluidRateByUrineOutput(
   currentRateMlPerHr: number, 
-  urineOutputMlPerHr: number
+  urineOutputMlPerHr: number,
+  target: { min: number; max: number } = { min: 30, max: 50 }
 ): {
   newRateMlPerHr: number;
   adjustment: 'increase' | 'maintain' | 'decrease';
@@ -217,23 +502,23 @@ export function adjustFluidRateByUrineOutput(
   if (currentRateMlPerHr < 0) throw new Error('Current rate must be non-negative');
   if (urineOutputMlPerHr < 0) throw new Error('Urine output must be non-negative');
   
-  if (urineOutputMlPerHr < 30) {
+  if (urineOutputMlPerHr < target.min) {
     return {
       newRateMlPerHr: round1(currentRateMlPerHr * 1.2),
       adjustment: 'increase',
-      reason: 'Urine output <30ml/hr - Increase IV rate by 20%'
+      reason: `Urine output <${target.min}ml/hr - Increase IV rate by 20%`
     };
-  } else if (urineOutputMlPerHr > 50) {
+  } else if (urineOutputMlPerHr > target.max) {
     return {
       newRateMlPerHr: round1(currentRateMlPerHr * 0.8),
       adjustment: 'decrease', 
-      reason: 'Urine output >50ml/hr - Decrease IV rate by 20%'
+      reason: `Urine output >${target.max}ml/hr - Decrease IV rate by 20%`
     };
   } else {
     return {
       newRateMlPerHr: currentRateMlPerHr,
       adjustment: 'maintain',
-      reason: 'Urine output 30-50ml/hr - Maintain current IV rate'
+      reason: `Urine output ${target.min}-${target.max}ml/hr - Maintain current IV rate`
     };
   }
 }
@@ -294,11 +579,26 @@ export function assessVitalStability(vitals: {
  * Protocol-based urine output target (30-50ml/hr for >20kg patients)
  * @param weightKg - Patient weight in kg
  * @param ageMonths - Patient age in months (for weight-based calculation if <20kg)
+ * @param mechanism - Mechanism of injury; high-voltage electrical raises the target
  * @returns Target urine output range in ml/hr
  */
-export function calcUrineOutputTarget(weightKg: number, ageMonths: number): { min: number; max: number; method: string } {
+export function calcUrineOutputTarget(
+  weightKg: number,
+  ageMonths: number,
+  mechanism?: BurnMechanism
+): { min: number; max: number; method: string } {
   if (weightKg <= 0) throw new Error('Weight must be positive');
   if (ageMonths < 0) throw new Error('Age cannot be negative');
+
+  const pathway = mechanism ? getMechanismPathway(mechanism) : undefined;
+  if (pathway?.urineOutputMlPerKgPerHr) {
+    const { min, max } = pathway.urineOutputMlPerKgPerHr;
+    return {
+      min: round1(min * weightKg),
+      max: round1(max * weightKg),
+      method: `${pathway.label} (${min}-${max}ml/kg/hr)`
+    };
+  }
   
   // Protocol specifies 30-50ml/hr for patients >20kg
   if (weightKg > 20) {
@@ -357,6 +657,176 @@ export function getFluidTypeRecommendation(
   }
 }
 
+/**
+ * Children below this weight get dextrose-containing maintenance on top of resuscitation
+ */
+export const PEDIATRIC_DEXTROSE_WEIGHT_KG = 30;
+
+/**
+ * Blood glucose below this (mg/dL, 3.3 mmol/L) is treated as hypoglycemia
+ */
+export const PEDIATRIC_HYPOGLYCEMIA_MG_DL = 60;
+
+const PEDIATRIC_MAINTENANCE_FLUID = 'D5LR (5% dextrose in Lactated Ringers)';
+
+/**
+ * Builds the pediatric maintenance plan: dextrose fluid, combined rate and glucose checks
+ *
+ * Small children have limited glycogen stores and become hypoglycemic on LR
+ * alone, so maintenance runs as a separate dextrose infusion that is not
+ * titrated to urine output. Infants are checked every 2 hours, older
+ * children every 4 hours.
+ *
+ * @param params.resuscitationRateMlPerHr - Current LR (resuscitation) rate
+ * @param params.maintenanceMlPerHr - Maintenance rate from calculateFluids (the configured method)
+ * @param params.formulaMaintenance - Whether the formula already includes maintenance
+ * @returns Plan with the combined hourly rate; required is false for adults and patients ≥30 kg
+ * @throws Error when weight is not positive
+ */
+export function getPediatricMaintenancePlan(params: {
+  weightKg: number;
+  ageMonths: number;
+  resuscitationRateMlPerHr: number;
+  maintenanceMlPerHr: number;
+  formulaMaintenance?: FluidFormula['maintenance'];
+}): PediatricMaintenancePlan {
+  const { weightKg, ageMonths, resuscitationRateMlPerHr, formulaMaintenance = 'separate' } = params;
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+  const resuscitationRate = round1(Math.max(0, resuscitationRateMlPerHr));
+
+  if (ageMonths >= PEDIATRIC_AGE_MONTHS) {
+    return {
+      required: false,
+      reason: 'Adult - maintenance not routinely added during resuscitation',
+      fluid: PEDIATRIC_MAINTENANCE_FLUID,
+      maintenanceMlPerHr: 0,
+      resuscitationRateMlPerHr: resuscitationRate,
+      totalRateMlPerHr: resuscitationRate,
+    };
+  }
+
+  if (weightKg >= PEDIATRIC_DEXTROSE_WEIGHT_KG) {
+    return {
+      required: false,
+      reason: `Weight ≥${PEDIATRIC_DEXTROSE_WEIGHT_KG}kg - maintenance not routinely added during resuscitation`,
+      fluid: PEDIATRIC_MAINTENANCE_FLUID,
+      maintenanceMlPerHr: 0,
+      resuscitationRateMlPerHr: resuscitationRate,
+      totalRateMlPerHr: resuscitationRate,
+    };
+  }
+
+  const maintenanceMlPerHr = round1(Math.max(0, params.maintenanceMlPerHr));
+  const intervalHours = ageMonths < 12 ? 2 : 4;
+  const glucoseMonitoring = {
+    intervalHours,
+    hypoglycemiaThresholdMgDl: PEDIATRIC_HYPOGLYCEMIA_MG_DL,
+    instructions: [
+      `Check blood glucose every ${intervalHours} hours during resuscitation`,
+      `Glucose <${PEDIATRIC_HYPOGLYCEMIA_MG_DL}mg/dL (3.3mmol/L): give D10W 2ml/kg (${round1(weightKg * 2)}ml) IV and recheck in 15 minutes`,
+      'Titrate LR to urine output; keep the dextrose maintenance rate fixed',
+    ],
+  };
+
+  if (formulaMaintenance === 'included') {
+    return {
+      required: false,
+      reason: 'Formula volume already includes maintenance - do not add separately',
+      fluid: PEDIATRIC_MAINTENANCE_FLUID,
+      maintenanceMlPerHr: 0,
+      resuscitationRateMlPerHr: resuscitationRate,
+      totalRateMlPerHr: resuscitationRate,
+      glucoseMonitoring,
+    };
+  }
+
+  return {
+    required: true,
+    reason: `Child <${PEDIATRIC_DEXTROSE_WEIGHT_KG}kg - add dextrose maintenance on top of LR resuscitation`,
+    fluid: PEDIATRIC_MAINTENANCE_FLUID,
+    maintenanceMlPerHr,
+    resuscitationRateMlPerHr: resuscitationRate,
+    totalRateMlPerHr: round1(resuscitationRate + maintenanceMlPerHr),
+    glucoseMonitoring,
+  };
+}
+
+/**
+ * Colloid rules: scheduled albumin for major burns, rescue when crystalloid runs high
+ */
+export const COLLOID_TBSA_THRESHOLD = 30;
+export const COLLOID_START_HOUR = 8;
+export const COLLOID_RESCUE_RATIO = 1.5;
+export const COLLOID_RESCUE_MIN_TBSA = 20;
+
+/**
+ * 5% albumin dose in ml/kg/%TBSA by TBSA band (0.3 for 30-49%, 0.4 for 50-69%, 0.5 for ≥70%)
+ */
+export function getAlbuminDoseMlPerKgPerTbsa(tbsaPct: number): number {
+  if (tbsaPct >= 70) return 0.5;
+  if (tbsaPct >= 50) return 0.4;
+  return 0.3;
+}
+
+/**
+ * Decides when to start 5% albumin during the first 24 hours and how much to give
+ *
+ * Scheduled colloid starts at hour 8 for TBSA ≥30%. Rescue colloid starts now
+ * when the crystalloid requirement is ≥1.5× the formula (TBSA ≥20%). The
+ * albumin rate is taken off the current crystalloid rate so the total hourly
+ * volume is unchanged. The whole dose runs from the start hour to hour 24.
+ *
+ * @param params.crystalloidRateMlPerHr - Current LR rate
+ * @param params.requirementRatio - Crystalloid given or required ÷ formula (omit when unknown)
+ * @returns Status, reason and dose (absent when colloid is not indicated)
+ * @throws Error when weight is not positive
+ */
+export function getColloidRecommendation(params: {
+  weightKg: number;
+  tbsaPct: number;
+  hoursSinceInjury: number;
+  crystalloidRateMlPerHr: number;
+  requirementRatio?: number;
+}): ColloidRecommendation {
+  const { weightKg, tbsaPct, hoursSinceInjury, crystalloidRateMlPerHr, requirementRatio } = params;
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+
+  if (hoursSinceInjury >= 24) {
+    return { status: 'not-indicated', reason: 'Beyond the first 24 hours - plan colloid with second-day fluids' };
+  }
+
+  const rescue = requirementRatio !== undefined
+    && requirementRatio >= COLLOID_RESCUE_RATIO
+    && tbsaPct >= COLLOID_RESCUE_MIN_TBSA;
+  if (!rescue && tbsaPct < COLLOID_TBSA_THRESHOLD) {
+    return { status: 'not-indicated', reason: `Crystalloid only - TBSA below ${COLLOID_TBSA_THRESHOLD}% and requirement on formula` };
+  }
+
+  const startHour = rescue ? hoursSinceInjury : Math.max(hoursSinceInjury, COLLOID_START_HOUR);
+  const mlPerKgPerTbsa = getAlbuminDoseMlPerKgPerTbsa(tbsaPct);
+  const doseMl = mlPerKgPerTbsa * weightKg * tbsaPct;
+  const rateMlPerHr = Math.round(doseMl / (24 - startHour));
+  const dose = {
+    fluid: '5% albumin',
+    mlPerKgPerTbsa,
+    totalMl: Math.round(doseMl),
+    rateMlPerHr,
+    crystalloidRateMlPerHr: Math.max(0, Math.round(crystalloidRateMlPerHr - rateMlPerHr)),
+  };
+
+  if (rescue) {
+    return {
+      status: 'rescue',
+      reason: `Crystalloid requirement ${round2(requirementRatio)}× formula (≥${COLLOID_RESCUE_RATIO}×) - start albumin rescue`,
+      startHour,
+      dose,
+    };
+  }
+  return hoursSinceInjury >= COLLOID_START_HOUR
+    ? { status: 'start', reason: `TBSA ${tbsaPct}% (≥${COLLOID_TBSA_THRESHOLD}%) - start 5% albumin now`, startHour, dose }
+    : { status: 'planned', reason: `TBSA ${tbsaPct}% (≥${COLLOID_TBSA_THRESHOLD}%) - plan 5% albumin from hour ${COLLOID_START_HOUR}`, startHour, dose };
+}
+
 /**
  * Comprehensive burn fluid management assessment following clinical protocol
  * 
@@ -373,6 +843,9 @@ export function getFluidTypeRecommendation(
  * CLINICAL DECISION LOGIC:
  * - Weight >20kg: Use adult protocol (30-50ml/hr urine target)
  * - Weight ≤20kg: Use pediatric modifications
+ * - Child <30kg: Add D5LR maintenance on top of LR and check glucose
+ * - Albumin rescue: charted crystalloid ≥1.5× the formula target to date
+ *   (needs the flowsheet; dosed on the resuscitation weight)
  * - Vital instability: Consider maintenance fluids
  * - Time-based phases: Adjust recommendations by injury timeline
  * 
@@ -405,13 +878,25 @@ export function assessBurnFluidManagement(params: {
     oxygenSat?: number;
   };
   canToleratePO?: boolean;
+  formulaId?: FluidFormulaId;
+  bsaM2?: number; // From TbsaResult.bsaM2 (height-based); estimated from weight when omitted
+  mechanism?: BurnMechanism;
+  airway?: AirwayAssessment;
+  facialBurns?: boolean; // Face involved on the body map (deriveSpecialSites), scored with the airway
+  weights?: DosingWeights;
+  maintenanceMethod?: MaintenanceMethod;
+  flowsheet?: FlowsheetEntry[]; // Charted hours; albumin rescue is judged on their total
 }): {
   parklandCalculation: ReturnType<typeof calculateFluids>;
+  airwayAssessment?: AirwayRiskResult;
+  expectedTotalFluidMl: number; // Formula volume, raised when inhalation injury is likely
   urineOutputTarget: ReturnType<typeof calcUrineOutputTarget>;
   fluidRateAdjustment: ReturnType<typeof adjustFluidRateByUrineOutput>;
   vitalStability: ReturnType<typeof assessVitalStability>;
   resuscitationFluid: ReturnType<typeof getFluidTypeRecommendation>;
   maintenanceFluid: ReturnType<typeof getFluidTypeRecommendation>;
+  colloid: ColloidRecommendation;
+  pediatricMaintenance: PediatricMaintenancePlan;
   needsMaintenanceFluid: boolean;
   protocolRecommendations: string[];
   clinicalNotes: string[];
@@ -424,18 +909,55 @@ export function assessBurnFluidManagement(params: {
     currentIVRateMlPerHr,
     urineOutputMlPerHr,
     vitals,
-    canToleratePO = false
+    canToleratePO = false,
+    formulaId,
+    bsaM2,
+    mechanism,
+    airway,
+    facialBurns = false,
+    weights,
+    maintenanceMethod,
+    flowsheet = []
   } = params;
 
   // Core calculations
-  const parklandCalculation = calculateFluids({ weightKg, tbsaPct, hoursSinceInjury });
-  const urineOutputTarget = calcUrineOutputTarget(weightKg, ageMonths);
-  const fluidRateAdjustment = adjustFluidRateByUrineOutput(currentIVRateMlPerHr, urineOutputMlPerHr);
+  const parklandCalculation = calculateFluids({
+    weightKg, tbsaPct, hoursSinceInjury, formulaId, bsaM2, weights, maintenanceMethod,
+  });
+  const urineOutputTarget = calcUrineOutputTarget(weights?.urineOutput.weightKg ?? weightKg, ageMonths, mechanism);
+  const pathway = mechanism ? getMechanismPathway(mechanism) : undefined;
+  const airwayAssessment = airway ? assessAirway(airway, { facialBurns }) : undefined;
+  const expectedTotalFluidMl = airwayAssessment?.inhalationLikely
+    ? Math.round(parklandCalculation.parkland.totalMl * INHALATION_FLUID_FACTOR)
+    : parklandCalculation.parkland.totalMl;
+  // Mechanism targets (myoglobinuria) replace the standard 30-50ml/hr titration range
+  const fluidRateAdjustment = pathway?.urineOutputMlPerKgPerHr
+    ? adjustFluidRateByUrineOutput(currentIVRateMlPerHr, urineOutputMlPerHr, urineOutputTarget)
+    : adjustFluidRateByUrineOutput(currentIVRateMlPerHr, urineOutputMlPerHr);
   const vitalStability = assessVitalStability(vitals);
   
   // Fluid type recommendations
   const resuscitationFluid = getFluidTypeRecommendation(true, false);
   const maintenanceFluid = getFluidTypeRecommendation(false, canToleratePO);
+  // Rescue compares total crystalloid charted with the formula target at the last charted hour
+  const chartedHour = flowsheet.reduce((last, entry) => Math.max(last, entry.hourFromInjury), 0);
+  const targetToDateMl = chartedHour > 0 ? getTargetCumulativeMl(parklandCalculation, chartedHour) : 0;
+  const deliveredMl = flowsheet.reduce((sum, entry) => sum + entry.infusedMl, 0);
+  const colloid = getColloidRecommendation({
+    weightKg: weights?.resuscitation.weightKg ?? weightKg,
+    tbsaPct,
+    hoursSinceInjury,
+    crystalloidRateMlPerHr: currentIVRateMlPerHr,
+    requirementRatio: targetToDateMl > 0 ? deliveredMl / targetToDateMl : undefined,
+  });
+  
+  const pediatricMaintenance = getPediatricMaintenancePlan({
+    weightKg,
+    ageMonths,
+    resuscitationRateMlPerHr: currentIVRateMlPerHr,
+    maintenanceMlPerHr: parklandCalculation.maintenance.mlPerHr,
+    formulaMaintenance: parklandCalculation.formula.maintenance,
+  });
   
   // Determine if maintenance fluid is needed (weight unstable or specific protocol criteria)
   const needsMaintenanceFluid = !vitalStability.isStable || weightKg <= 20;
@@ -444,13 +966,35 @@ export function assessBurnFluidManagement(params: {
   const protocolRecommendations: string[] = [];
   const clinicalNotes: string[] = [];
   
+  clinicalNotes.push(`Resuscitation formula: ${parklandCalculation.formula.name} (${parklandCalculation.formula.equation})`);
+  if (weights?.obese) {
+    clinicalNotes.push(`Resuscitation weight: ${formatDosingWeight(weights.resuscitation)}`);
+  }
+  
   // Weight threshold check
   if (weightKg > 20) {
     clinicalNotes.push('Patient >20kg - using adult burn protocol');
-    protocolRecommendations.push('Monitor urine output hourly (target: 30-50ml/hr)');
+    protocolRecommendations.push(`Monitor urine output hourly (target: ${urineOutputTarget.min}-${urineOutputTarget.max}ml/hr)`);
   } else {
     clinicalNotes.push('Patient ≤20kg - consider pediatric modifications to protocol');
   }
+
+  // Mechanism-specific pathway
+  if (pathway) {
+    clinicalNotes.push(`Mechanism: ${pathway.label}`);
+    protocolRecommendations.push(...pathway.warnings);
+  }
+
+  // Inhalation injury raises the expected requirement; the starting rate stays formula-based
+  if (airwayAssessment?.inhalationLikely) {
+    clinicalNotes.push(`Inhalation injury likely (airway score ${airwayAssessment.score})`);
+    protocolRecommendations.push(
+      `Expect ~${expectedTotalFluidMl}ml over 24h (formula ${parklandCalculation.parkland.totalMl}ml) - titrate to urine output`
+    );
+  }
+  if (airwayAssessment?.considerIntubation) {
+    protocolRecommendations.push(airwayAssessment.recommendations[0]);
+  }
   
   // Urine output assessment
   if (urineOutputMlPerHr < urineOutputTarget.min || urineOutputMlPerHr > urineOutputTarget.max) {
@@ -463,11 +1007,31 @@ export function assessBurnFluidManagement(params: {
   // Vital stability recommendations
   protocolRecommendations.push(...vitalStability.recommendations);
   
+  // Colloid (albumin) recommendations
+  if (colloid.dose) {
+    protocolRecommendations.push(colloid.reason);
+  }
+  if (colloid.dose && colloid.status !== 'planned') {
+    protocolRecommendations.push(
+      `${colloid.dose.fluid} at ${colloid.dose.rateMlPerHr}ml/hr (${colloid.dose.mlPerKgPerTbsa}ml/kg/%TBSA over hours ${colloid.startHour}-24) - reduce LR to ${colloid.dose.crystalloidRateMlPerHr}ml/hr`
+    );
+  }
+  
   // Maintenance fluid recommendations
-  if (needsMaintenanceFluid) {
+  const formulaMaintenance = parklandCalculation.formula.maintenance;
+  if (formulaMaintenance === 'included') {
+    clinicalNotes.push(`${parklandCalculation.formula.name} volume already includes maintenance - do not add separately`);
+  } else if (pediatricMaintenance.required) {
+    protocolRecommendations.push(
+      `Add maintenance: ${pediatricMaintenance.fluid} at ${pediatricMaintenance.maintenanceMlPerHr}ml/hr on top of LR - total ${pediatricMaintenance.totalRateMlPerHr}ml/hr`
+    );
+  } else if (needsMaintenanceFluid || formulaMaintenance === 'required') {
     protocolRecommendations.push(`Consider adding maintenance fluid: ${maintenanceFluid.primaryFluid} at ${parklandCalculation.maintenance.mlPerHr}ml/hr`);
     protocolRecommendations.push(`Route: ${maintenanceFluid.route}`);
   }
+  if (pediatricMaintenance.glucoseMonitoring) {
+    protocolRecommendations.push(...pediatricMaintenance.glucoseMonitoring.instructions);
+  }
   
   // Time-based recommendations
   if (hoursSinceInjury < 8) {
@@ -486,11 +1050,15 @@ export function assessBurnFluidManagement(params: {
   
   return {
     parklandCalculation,
+    airwayAssessment,
+    expectedTotalFluidMl,
     urineOutputTarget,
     fluidRateAdjustment,
     vitalStability,
     resuscitationFluid,
     maintenanceFluid,
+    colloid,
+    pediatricMaintenance,
     needsMaintenanceFluid,
     protocolRecommendations,
     clinicalNotes
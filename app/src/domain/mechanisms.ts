@@ -0,0 +1,170 @@
+/**
+ * Burn Mechanism Pathways Module
+ *
+ * Maps the structured mechanism of injury to its management pathway: the
+ * warnings, checklists and urine output target that differ from a standard
+ * thermal burn. Scald, flame and contact burns follow the standard pathway.
+ *
+ * Key Clinical Concepts:
+ * - High-voltage electrical injury (≥1000 V) damages deep muscle that the
+ *   surface TBSA does not show; myoglobin release risks acute kidney injury,
+ *   so urine output is kept at 1-1.5 ml/kg/hr until the urine clears
+ * - Chemical burns continue until the agent is removed; copious water
+ *   irrigation is the first treatment, longer for alkalis than acids
+ * - Inhalation injury threatens the airway and raises fluid requirements
+ * - Friction burns are often combined with abrasion and trauma
+ * - Frostbite is a cold injury; burn resuscitation formulas do not apply
+ *
+ * AI Development Notes:
+ * - getMechanismPathway is consumed by fluids.ts, the decision tree, notes
+ *   and referral criteria; add a mechanism here and all of them follow
+ * - Test coverage in __tests__/mechanisms.test.ts
+ */
+
+import type { BurnMechanism, BurnMechanismType, MechanismPathway, PathwayChecklist } from './types';
+
+/**
+ * Display labels for mechanism categories
+ */
+export const MECHANISM_LABELS: Record<BurnMechanismType, string> = {
+  scald: 'Scald',
+  flame: 'Flame',
+  contact: 'Contact',
+  electrical: 'Electrical',
+  chemical: 'Chemical',
+  inhalation: 'Inhalation',
+  friction: 'Friction',
+  frostbite: 'Frostbite',
+};
+
+/**
+ * Urine output target while myoglobinuria is a risk (high-voltage electrical)
+ */
+export const MYOGLOBINURIA_URINE_OUTPUT = { min: 1, max: 1.5 };
+
+const AIRWAY_CHECKLIST: PathwayChecklist = {
+  title: 'Airway assessment',
+  items: [
+    'Enclosed-space fire or prolonged smoke exposure',
+    'Facial burns, singed nasal hair or eyebrows',
+    'Soot in the mouth or nose, carbonaceous sputum',
+    'Hoarse voice, stridor or wheeze',
+    'Give 100% oxygen and check carboxyhaemoglobin',
+    'Consider cyanide toxicity if lactate is high',
+    'Early senior airway review; intubate before swelling progresses',
+  ],
+};
+
+/**
+ * Describes a mechanism for display, including voltage or chemical agent
+ * @param mechanism - Structured mechanism
+ * @returns Label such as "Electrical (high voltage)" or "Chemical (alkali: oven cleaner)"
+ */
+export function formatMechanism(mechanism: BurnMechanism): string {
+  const label = MECHANISM_LABELS[mechanism.type];
+  if (mechanism.type === 'electrical' && mechanism.voltage) {
+    return `${label} (${mechanism.voltage} voltage)`;
+  }
+  if (mechanism.type === 'chemical') {
+    const detail = [mechanism.chemicalClass, mechanism.agent].filter(Boolean).join(': ');
+    return detail ? `${label} (${detail})` : label;
+  }
+  return label;
+}
+
+/**
+ * Builds the management pathway for a mechanism of injury
+ * @param mechanism - Structured mechanism
+ * @returns Pathway with warnings, checklists and any urine output target override
+ */
+export function getMechanismPathway(mechanism: BurnMechanism): MechanismPathway {
+  const pathway: MechanismPathway = {
+    mechanism,
+    label: formatMechanism(mechanism),
+    warnings: [],
+    checklists: [],
+  };
+
+  switch (mechanism.type) {
+    case 'electrical':
+      if (mechanism.voltage === 'high') {
+        pathway.urineOutputMlPerKgPerHr = MYOGLOBINURIA_URINE_OUTPUT;
+        pathway.warnings.push(
+          'Myoglobinuria risk: target urine output 1-1.5 ml/kg/hr until the urine is clear',
+          'Dark (tea-coloured) urine indicates myoglobin - check CK and renal function',
+          'Surface TBSA underestimates deep muscle injury - fluid needs may exceed the formula'
+        );
+      }
+      pathway.warnings.push('Obtain a 12-lead ECG; arrhythmia risk');
+      pathway.checklists.push({
+        title: 'Electrical injury',
+        items: [
+          'Identify entry and exit wounds',
+          'Cardiac monitoring (24 hours if ECG abnormal or loss of consciousness)',
+          'Check limbs for compartment syndrome',
+          'Screen for associated trauma from falls or muscle contraction',
+        ],
+      });
+      break;
+
+    case 'chemical': {
+      const irrigationMinutes = mechanism.chemicalClass === 'alkali' ? 60 : 20;
+      pathway.warnings.push('Decontaminate before any other wound care; protect staff from the agent');
+      if (mechanism.agent && /hydrofluoric|\bHF\b/i.test(mechanism.agent)) {
+        pathway.warnings.push('Hydrofluoric acid: apply calcium gluconate gel and monitor calcium and ECG');
+      }
+      pathway.checklists.push({
+        title: 'Irrigation protocol',
+        items: [
+          'Remove contaminated clothing and jewellery',
+          'Brush off dry powder before wetting',
+          `Irrigate with copious running water for at least ${irrigationMinutes} minutes`,
+          'Check skin pH with litmus paper; continue until neutral',
+          'Eye involvement: continuous irrigation and urgent ophthalmology review',
+          `Contact poison information with the agent${mechanism.agent ? ` (${mechanism.agent})` : ''}`,
+        ],
+      });
+      break;
+    }
+
+    case 'inhalation':
+      pathway.warnings.push('Inhalation injury increases fluid requirements and airway risk');
+      pathway.checklists.push(AIRWAY_CHECKLIST);
+      break;
+
+    case 'flame':
+      pathway.checklists.push({ ...AIRWAY_CHECKLIST, title: 'Screen for inhalation injury' });
+      break;
+
+    case 'friction':
+      pathway.warnings.push('Friction burns often include abrasion and embedded debris');
+      pathway.checklists.push({
+        title: 'Friction injury',
+        items: [
+          'Screen for associated trauma (road traffic, treadmill, rope injuries)',
+          'Clean and remove embedded debris',
+          'Reassess depth at 48-72 hours; friction burns often deepen',
+        ],
+      });
+      break;
+
+    case 'frostbite':
+      pathway.warnings.push('Frostbite is a cold injury: burn resuscitation formulas are not validated');
+      pathway.checklists.push({
+        title: 'Frostbite rewarming',
+        items: [
+          'Treat hypothermia first',
+          'Do not rewarm if there is a risk of refreezing',
+          'Rapid rewarming in 37-39 °C water for 15-30 minutes',
+          'Give analgesia; rewarming is painful',
+          'Consider thrombolysis or iloprost for severe frostbite within 24 hours',
+        ],
+      });
+      break;
+
+    default:
+      break;
+  }
+
+  return pathway;
+}
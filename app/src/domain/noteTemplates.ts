@@ -0,0 +1,295 @@
+/**
+ * Note Template Module
+ *
+ * A small placeholder language for clinical notes, so an institution can
+ * reword, reorder or drop sections without code changes. The four built-in
+ * notes are themselves templates (constants/noteTemplates); saved edits are
+ * kept as numbered versions in settings and one version per note type is
+ * active.
+ *
+ * Template Language:
+ * - {{patient.weightKg}} inserts a variable; lists are joined with ", "
+ * - {{#if path}}...{{else}}...{{/if}} and {{#unless path}}...{{/unless}};
+ *   empty text, 0, false, null and empty lists count as false
+ * - {{#each path}}...{{else}}...{{/each}} repeats for every list item, with
+ *   {{this}}, the item's own fields, @first, @last and @number (1-based);
+ *   the else branch renders when the list is empty
+ * - A block tag alone on its line removes that whole line, so sections can
+ *   be wrapped without leaving blank lines behind
+ * - Names that do not resolve are left in place ({{CLINICIAN_NAME}}) for the
+ *   clinician to fill in, and are reported as unresolved
+ *
+ * AI Development Notes:
+ * - Variables come from buildNoteTemplateContext in notes.ts; keep
+ *   NOTE_TEMPLATE_VARIABLES in constants/noteTemplates in step with it
+ * - Syntax errors throw with the line number so the editor can show them
+ * - Versions are never edited in place; saving appends and activates
+ * - Test coverage in __tests__/noteTemplates.test.ts
+ */
+
+import type {
+  ClinicalNoteType,
+  NoteTemplateHistory,
+  NoteTemplateVersion,
+  TemplateContext,
+  TemplateRenderResult,
+  TemplateValue,
+} from './types';
+import { DEFAULT_NOTE_TEMPLATES } from '@/constants/noteTemplates';
+
+/**
+ * Oldest inactive versions are dropped beyond this many per note type
+ */
+export const MAX_TEMPLATE_VERSIONS = 20;
+
+type BlockKind = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; path: string; raw: string }
+  | { kind: 'block'; block: BlockKind; path: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+interface LoopMeta {
+  first: boolean;
+  last: boolean;
+  number: number;
+}
+
+interface Scope {
+  value: TemplateValue;
+  loop?: LoopMeta;
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const PATH_PATTERN = /^(@[a-z]+|[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*)$/;
+const BLOCK_KINDS: BlockKind[] = ['if', 'unless', 'each'];
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split('\n').length;
+}
+
+/**
+ * Widens a block tag to its whole line when nothing else is on that line
+ * @returns Start and end of the text to drop
+ */
+function standaloneSpan(source: string, start: number, end: number, consumed: number): [number, number] {
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+  const newline = source.indexOf('\n', end);
+  const lineEnd = newline === -1 ? source.length : newline;
+
+  if (lineStart < consumed) return [start, end];
+  if (!/^[ \t]*$/.test(source.slice(lineStart, start))) return [start, end];
+  if (!/^[ \t\r]*$/.test(source.slice(end, lineEnd))) return [start, end];
+  return [lineStart, newline === -1 ? source.length : newline + 1];
+}
+
+/**
+ * Parses template source into a node tree
+ * @param source - Template text
+ * @returns Nodes to render
+ * @throws Error naming the line of an unknown, unclosed or mismatched block
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'block' }>; parent: TemplateNode[]; line: number; inElse: boolean }> = [];
+  let current = root;
+  let consumed = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const raw = match[0];
+    const content = match[1].trim();
+    const line = lineAt(source, index);
+    const isBlockTag = content.startsWith('#') || content.startsWith('/') || content === 'else';
+
+    if (!isBlockTag && !PATH_PATTERN.test(content)) continue; // Not a tag; stays as text
+
+    const [start, end] = isBlockTag
+      ? standaloneSpan(source, index, index + raw.length, consumed)
+      : [index, index + raw.length];
+    if (start > consumed) current.push({ kind: 'text', text: source.slice(consumed, start) });
+    consumed = end;
+
+    if (content.startsWith('#')) {
+      const [keyword, path = ''] = content.slice(1).trim().split(/\s+/, 2);
+      if (!BLOCK_KINDS.includes(keyword as BlockKind)) {
+        throw new Error(`Line ${line}: unknown block {{#${keyword}}}`);
+      }
+      if (!PATH_PATTERN.test(path)) {
+        throw new Error(`Line ${line}: {{#${keyword}}} needs a variable name`);
+      }
+      const node: Extract<TemplateNode, { kind: 'block' }> = { kind: 'block', block: keyword as BlockKind, path, body: [], elseBody: [] };
+      current.push(node);
+      stack.push({ node, parent: current, line, inElse: false });
+      current = node.body;
+    } else if (content === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open) throw new Error(`Line ${line}: {{else}} outside a block`);
+      if (open.inElse) throw new Error(`Line ${line}: second {{else}} in {{#${open.node.block}}} from line ${open.line}`);
+      open.inElse = true;
+      current = open.node.elseBody;
+    } else if (content.startsWith('/')) {
+      const keyword = content.slice(1).trim();
+      const open = stack.pop();
+      if (!open) throw new Error(`Line ${line}: {{/${keyword}}} without an opening block`);
+      if (open.node.block !== keyword) {
+        throw new Error(`Line ${line}: {{/${keyword}}} closes {{#${open.node.block}}} from line ${open.line}`);
+      }
+      current = open.parent;
+    } else {
+      current.push({ kind: 'variable', path: content, raw });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) throw new Error(`Line ${unclosed.line}: {{#${unclosed.node.block} ${unclosed.node.path}}} is never closed`);
+  if (consumed < source.length) current.push({ kind: 'text', text: source.slice(consumed) });
+  return root;
+}
+
+function isRecord(value: TemplateValue): value is { [key: string]: TemplateValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Looks a path up from the innermost loop item outwards
+ */
+function resolvePath(path: string, scopes: Scope[]): { found: boolean; value: TemplateValue } {
+  if (path.startsWith('@')) {
+    const loop = [...scopes].reverse().find(scope => scope.loop)?.loop;
+    const key = path.slice(1) as keyof LoopMeta;
+    return loop && key in loop ? { found: true, value: loop[key] } : { found: false, value: undefined };
+  }
+
+  const [head, ...rest] = path.split('.');
+  let value: TemplateValue;
+  if (head === 'this') {
+    value = scopes[scopes.length - 1].value;
+  } else {
+    const scope = [...scopes].reverse().find(candidate => isRecord(candidate.value) && head in candidate.value);
+    if (!scope || !isRecord(scope.value)) return { found: false, value: undefined };
+    value = scope.value[head];
+  }
+
+  for (const key of rest) {
+    if (!isRecord(value) || !(key in value)) return { found: false, value: undefined };
+    value = value[key];
+  }
+  return { found: true, value };
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function formatValue(value: TemplateValue): string {
+  if (value === null || value === undefined || isRecord(value)) return '';
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], unresolved: Set<string>): string {
+  return nodes.map(node => {
+    if (node.kind === 'text') return node.text;
+
+    const { found, value } = resolvePath(node.path, scopes);
+    if (!found) unresolved.add(node.path);
+
+    if (node.kind === 'variable') return found ? formatValue(value) : node.raw;
+
+    if (node.block === 'each') {
+      const items = Array.isArray(value) ? value : [];
+      if (items.length === 0) return renderNodes(node.elseBody, scopes, unresolved);
+      return items.map((item, index) => renderNodes(node.body, [
+        ...scopes,
+        { value: item, loop: { first: index === 0, last: index === items.length - 1, number: index + 1 } },
+      ], unresolved)).join('');
+    }
+
+    const passes = node.block === 'if' ? isTruthy(value) : !isTruthy(value);
+    return renderNodes(passes ? node.body : node.elseBody, scopes, unresolved);
+  }).join('');
+}
+
+/**
+ * Renders a note template
+ * @param source - Template text
+ * @param context - Variables, usually from buildNoteTemplateContext
+ * @returns Text with surrounding whitespace trimmed, and the unresolved names
+ * @throws Error with the line number when the template has a syntax error
+ */
+export function renderTemplate(source: string, context: TemplateContext): TemplateRenderResult {
+  const unresolved = new Set<string>();
+  const text = renderNodes(parseTemplate(source), [{ value: context }], unresolved);
+  return { text: text.trim(), unresolved: [...unresolved] };
+}
+
+/**
+ * Checks template syntax without rendering
+ * @returns The syntax error message, or null when the template is valid
+ */
+export function validateTemplate(source: string): string | null {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Template source used for a note type
+ * @param type - Note type
+ * @param history - Saved versions for that type, if any
+ * @returns The active saved version, or the built-in template
+ */
+export function getActiveNoteTemplate(type: ClinicalNoteType, history?: NoteTemplateHistory): string {
+  const active = history?.versions.find(version => version.version === history.activeVersion);
+  return active?.source ?? DEFAULT_NOTE_TEMPLATES[type];
+}
+
+/**
+ * Saves template source as a new version and makes it active
+ * @param history - Existing versions (undefined when none were saved)
+ * @param source - Template text
+ * @param comment - Optional note on what changed
+ * @param now - Save time
+ * @returns New history; the input is not modified
+ * @throws Error when the template has a syntax error
+ */
+export function saveNoteTemplateVersion(
+  history: NoteTemplateHistory | undefined,
+  source: string,
+  comment?: string,
+  now: Date = new Date()
+): NoteTemplateHistory {
+  const error = validateTemplate(source);
+  if (error) throw new Error(error);
+
+  const versions = history?.versions ?? [];
+  const version: NoteTemplateVersion = {
+    version: versions.reduce((max, saved) => Math.max(max, saved.version), 0) + 1,
+    source,
+    savedAt: now.toISOString(),
+    ...(comment?.trim() ? { comment: comment.trim() } : {}),
+  };
+  return {
+    versions: [...versions, version].slice(-MAX_TEMPLATE_VERSIONS),
+    activeVersion: version.version,
+  };
+}
+
+/**
+ * Switches the active version
+ * @param history - Saved versions
+ * @param version - Version number, or null for the built-in template
+ * @returns New history; the input is not modified
+ * @throws Error when the version does not exist
+ */
+export function activateNoteTemplateVersion(history: NoteTemplateHistory, version: number | null): NoteTemplateHistory {
+  if (version !== null && !history.versions.some(saved => saved.version === version)) {
+    throw new Error(`Template version ${version} not found`);
+  }
+  return { ...history, activeVersion: version };
+}
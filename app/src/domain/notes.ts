@@ -1,6 +1,21 @@
-import type { BurnNoteData, PatientData, RegionSelection } from './types';
+import type { BurnNoteData, ClinicalNoteType, PatientData, RegionSelection, TemplateContext } from './types';
 // Age band calculation removed to reduce unused imports
 import { DISCHARGE_TEACHING_TOPICS, WHEN_TO_CALL_PROVIDER } from '@/constants/discharge';
+import { DEFAULT_NOTE_TEMPLATES } from '@/constants/noteTemplates';
+import { renderTemplate } from './noteTemplates';
+import { summarizeBurnEvolution } from './reassessment';
+import { buildFlowsheet, summarizeFlowsheet } from './flowsheet';
+import { analyzeFluidCreep, summarizeFluidCreep } from './fluidCreep';
+import { formatDosingWeight } from './dosingWeight';
+import { MAINTENANCE_METHOD_LABELS, calcUrineOutputTarget } from './fluids';
+import { planPostResuscitation, summarizePostResuscitation } from './postResuscitation';
+import { BSA_METHOD_LABELS } from './bsa';
+import { TBSA_METHOD_LABELS } from './tbsaMethods';
+import { deriveSpecialSites } from './subRegions';
+import { evaluateReferralCriteria } from './referral';
+import { formatMechanism, getMechanismPathway } from './mechanisms';
+import { assessAirway } from './airway';
+import { SUB_REGIONS } from '@/constants/subRegions';
 
 /**
  * Formats age for display in notes
@@ -19,211 +34,324 @@ function formatAge(ageMonths: number): string {
 }
 
 /**
- * Formats region selections for note display
+ * Formats the mechanism of injury (structured type first, then the free-text description)
  */
-function formatBurnDistribution(regions: RegionSelection[]): string {
-  if (regions.length === 0) return 'No burns selected';
-  
-  const significantBurns = regions.filter(r => r.fraction > 0);
-  if (significantBurns.length === 0) return 'No significant burns';
-  
-  const formatted = significantBurns.map(region => {
-    const fractionText = region.fraction === 1 ? '' : ` (${Math.round(region.fraction * 100)}%)`;
-    return `${region.region}${fractionText}`;
-  });
-  
-  return formatted.join(', ');
+function formatMechanismText(patient: PatientData): string {
+  const parts = [
+    patient.burnMechanism ? formatMechanism(patient.burnMechanism) : '',
+    patient.mechanism ?? '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : 'Not specified';
 }
 
 /**
- * Generates a clinical burn assessment note
+ * Formats one burned region for the distribution line
  */
-export function makeBurnAssessmentNote(data: BurnNoteData): string {
-  const { patient, tbsa, fluids, regions, timestamp } = data;
-  
-  const ageText = formatAge(patient.ageMonths);
-  const distributionText = formatBurnDistribution(regions);
-  const hoursSinceText = patient.hoursSinceInjury > 0 
-    ? ` occurring ${patient.hoursSinceInjury} hours ago`
-    : '';
-  
-  return `
-BURN ASSESSMENT NOTE
-Generated: ${timestamp.toLocaleString()}
-
-PATIENT: ${ageText}, ${patient.weightKg}kg
-
-MECHANISM: ${patient.mechanism || 'Not specified'}${hoursSinceText}
-
-BURN ASSESSMENT:
-- Total Body Surface Area: ${tbsa.tbsaPct}% (${tbsa.ageGroup} age group)
-- Distribution: ${distributionText}
-- Special areas involved: ${formatSpecialSites(patient.specialSites)}
+function formatRegion(region: RegionSelection): string {
+  if (region.subRegions) {
+    const subRegionText = region.subRegions
+      .map(sub => `${SUB_REGIONS[sub.subRegion].label} ${Math.round(sub.fraction * 100)}% ${sub.depth}`)
+      .join(', ');
+    return `${region.region} (${subRegionText})`;
+  }
+  if (region.zones && region.zones.length > 1) {
+    const zoneText = region.zones.map(zone => `${Math.round(zone.fraction * 100)}% ${zone.depth}`).join(', ');
+    return `${region.region} (${zoneText})`;
+  }
+  const fractionText = region.entryMode === 'percent' && region.tbsaPct !== undefined
+    ? ` (${region.tbsaPct}% TBSA)`
+    : region.fraction === 1 ? '' : ` (${Math.round(region.fraction * 100)}%)`;
+  return `${region.region}${fractionText}`;
+}
 
-FLUID RESUSCITATION (Educational):
-${fluids.notice ? `⚠️  ${fluids.notice}\n` : ''}
-- Parkland Formula: ${fluids.parkland.totalMl}ml total over 24h
-- First 8 hours: ${fluids.parkland.first8hMl}ml (${Math.round(fluids.parkland.first8hMl/8)}ml/hr average)
-- Next 16 hours: ${fluids.parkland.next16hMl}ml (${Math.round(fluids.parkland.next16hMl/16)}ml/hr average)
-- Current rate needed: ${fluids.parkland.rateNowMlPerHr}ml/hr
-- Maintenance fluids: ${fluids.maintenance.mlPerHr}ml/hr (${fluids.maintenance.method} method)
+/**
+ * Mechanism variables; the pathway is null for the standard thermal pathway
+ */
+function buildMechanismContext(patient: PatientData): TemplateContext {
+  const pathway = patient.burnMechanism ? getMechanismPathway(patient.burnMechanism) : undefined;
+  const hasPathway = pathway !== undefined && (pathway.warnings.length > 0 || pathway.checklists.length > 0);
+
+  return {
+    description: formatMechanismText(patient),
+    warnings: pathway?.warnings ?? [],
+    pathway: hasPathway
+      ? {
+        label: pathway.label,
+        warnings: pathway.warnings,
+        checklists: pathway.checklists.map(checklist => ({ title: checklist.title, items: checklist.items })),
+      }
+      : null,
+  };
+}
 
-{{CLINICAL_ASSESSMENT_PLACEHOLDER}}
+/**
+ * ABA referral variables; evaluated is false when the body map cannot be
+ * scored (e.g. a precise %TBSA entry larger than the region at this age)
+ */
+function buildReferralContext(patient: PatientData, regions: RegionSelection[]): TemplateContext {
+  try {
+    return {
+      evaluated: true,
+      error: null,
+      criteria: evaluateReferralCriteria(patient, regions).met.map(criterion => ({
+        label: criterion.label,
+        reason: criterion.reason,
+      })),
+    };
+  } catch (error) {
+    return { evaluated: false, error: error instanceof Error ? error.message : String(error), criteria: [] };
+  }
+}
 
-PLAN:
-□ Verify fluid calculations with protocol
-□ Monitor urine output (target: {{UO_TARGET}} ml/hr)
-□ Pain management per protocol
-□ Wound care per burn team guidelines
-□ Consider transfer to burn center if indicated
+/**
+ * Airway and inhalation injury variables (null when not assessed)
+ */
+function buildAirwayContext(patient: PatientData, regions: RegionSelection[]): TemplateContext | null {
+  if (!patient.airway) return null;
+  const facialBurns = deriveSpecialSites(regions, patient.specialSites).face;
+  const result = assessAirway(patient.airway, { facialBurns });
+
+  return {
+    risk: result.risk,
+    score: result.score,
+    considerIntubation: result.considerIntubation,
+    findings: result.findings,
+    carboxyhemoglobin: patient.airway.carboxyhemoglobinPct !== undefined ? `${patient.airway.carboxyhemoglobinPct}%` : null,
+    recommendations: result.recommendations,
+  };
+}
 
-EDUCATIONAL DISCLAIMER:
-This tool provides educational calculations only. All treatments must be verified with institutional protocols and clinical judgment. Not for direct patient care decisions.
+/**
+ * Hourly resuscitation flowsheet summary with the fluid creep check (no lines when nothing charted)
+ */
+function buildFlowsheetLines(data: BurnNoteData): string[] {
+  const entries = data.flowsheet ?? [];
+  if (entries.length === 0) return [];
+
+  const lines = summarizeFlowsheet(buildFlowsheet(entries, data.fluids, {
+    weightKg: data.patient.weightKg,
+    ageMonths: data.patient.ageMonths,
+    mechanism: data.patient.burnMechanism,
+  }));
+  lines.push(...summarizeFluidCreep(analyzeFluidCreep(entries, data.fluids, {
+    weightKg: data.patient.weightKg,
+    ageMonths: data.patient.ageMonths,
+    tbsaPct: data.tbsa.tbsaPct,
+    mechanism: data.patient.burnMechanism,
+  })));
+  return lines;
+}
 
-Generated by Burn Wizard v0.1.0
-`.trim();
+/**
+ * Weights behind the fluid calculations (null when no policy was applied)
+ */
+function buildWeightsContext(fluids: BurnNoteData['fluids']): TemplateContext | null {
+  const { weights } = fluids;
+  if (!weights) return null;
+
+  return {
+    actualKg: weights.actualKg,
+    idealKg: weights.idealKg ?? null,
+    adjustedKg: weights.adjustedKg ?? null,
+    bmi: weights.bmi ?? null,
+    resuscitation: formatDosingWeight(weights.resuscitation),
+    maintenance: formatDosingWeight(weights.maintenance),
+    urineOutput: formatDosingWeight(weights.urineOutput),
+  };
 }
 
 /**
- * Formats special sites involvement
+ * Actual-delivery variables (null when delivery is assumed on schedule)
  */
-function formatSpecialSites(specialSites: PatientData['specialSites']): string {
-  const involved = Object.entries(specialSites)
-    .filter(([_, value]) => value)
-    .map(([key]) => key);
-  
-  return involved.length > 0 ? involved.join(', ') : 'None identified';
+function buildDeliveryContext(fluids: BurnNoteData['fluids']): TemplateContext | null {
+  const { parkland } = fluids;
+  if (parkland.deliveryBasis !== 'actual') return null;
+
+  return {
+    givenMl: parkland.deliveredTotalMl,
+    versusSchedule: parkland.deficitMl > 0 ? `deficit ${parkland.deficitMl}ml` : `ahead ${Math.abs(parkland.deficitMl)}ml`,
+    catchUpRateMlPerHr: parkland.catchUpRateMlPerHr,
+    catchUpCeilingMlPerHr: parkland.catchUpCeilingMlPerHr,
+    exceedsCeiling: parkland.exceedsCatchUpCeiling,
+  };
 }
 
 /**
- * Generates discharge teaching documentation
+ * Day 2-7 plan lines once resuscitation has ended (none before hour 24 and after day 7)
  */
-export function makeDischargeTeachingNote(data: BurnNoteData): string {
-  const { patient, tbsa, timestamp } = data;
-  
-  const ageText = formatAge(patient.ageMonths);
-  
-  let teachingContent = '';
-  Object.entries(DISCHARGE_TEACHING_TOPICS).forEach(([_key, topic]) => {
-    teachingContent += `\n${topic.title.toUpperCase()}:\n`;
-    topic.points.forEach(point => {
-      teachingContent += `• ${point}\n`;
-    });
+function buildDay2To7Lines(data: BurnNoteData): string[] {
+  const { patient, tbsa, fluids } = data;
+  const plan = planPostResuscitation(fluids, {
+    weightKg: patient.weightKg,
+    ageMonths: patient.ageMonths,
+    tbsaPct: tbsa.tbsaPct,
+    hoursSinceInjury: patient.hoursSinceInjury,
+    bsaM2: tbsa.bsaM2,
   });
-  
-  return `
-BURN DISCHARGE TEACHING DOCUMENTATION
-Generated: ${timestamp.toLocaleString()}
-
-PATIENT: ${ageText}, burn injury with ${tbsa.tbsaPct}% TBSA
-
-EDUCATION PROVIDED:${teachingContent}
+  return plan.currentDay === null ? [] : summarizePostResuscitation(plan);
+}
 
-WHEN TO CONTACT HEALTHCARE PROVIDER:
-${WHEN_TO_CALL_PROVIDER.map(item => `• ${item}`).join('\n')}
+/**
+ * Urine output target range in ml/hr, using the urine output dosing weight
+ */
+function formatUrineOutputTarget(data: BurnNoteData): string | null {
+  const { patient, fluids } = data;
+  const weightKg = fluids.weights?.urineOutput.weightKg ?? patient.weightKg;
+  if (weightKg <= 0) return null;
+  const target = calcUrineOutputTarget(weightKg, patient.ageMonths, patient.burnMechanism);
+  return `${target.min}-${target.max}`;
+}
 
-FOLLOW-UP APPOINTMENTS:
-□ Burn clinic: {{FOLLOW_UP_DATE}}
-□ Primary care: {{PCP_DATE}}
-□ Other: {{OTHER_APPOINTMENTS}}
+/**
+ * Builds the variables available to note templates
+ * @param data - Assessment data behind the note
+ * @returns Template context; optional sections are null or empty lists when absent
+ */
+export function buildNoteTemplateContext(data: BurnNoteData): TemplateContext {
+  const { patient, tbsa, fluids, regions, timestamp, reassessments = [] } = data;
+  const { parkland } = fluids;
+  const specialSites = deriveSpecialSites(regions, patient.specialSites);
+  const postResuscitation = fluids.postResuscitation;
+
+  return {
+    generatedAt: timestamp.toLocaleString(),
+    patient: {
+      age: formatAge(patient.ageMonths),
+      ageMonths: patient.ageMonths,
+      weightKg: patient.weightKg,
+      heightCm: patient.heightCm ?? null,
+      hoursSinceInjury: patient.hoursSinceInjury,
+    },
+    mechanism: buildMechanismContext(patient),
+    tbsa: {
+      pct: tbsa.tbsaPct,
+      method: TBSA_METHOD_LABELS[tbsa.method ?? 'lund-browder'],
+      ageGroup: tbsa.ageGroup,
+      bsaM2: tbsa.bsaM2 ?? null,
+      bsaMethod: tbsa.bsaM2 !== undefined ? BSA_METHOD_LABELS[tbsa.bsaMethod ?? 'mosteller'] : null,
+      burnedBsaM2: tbsa.burnedBsaM2 ?? null,
+      superficialPct: Math.max(tbsa.superficialPct ?? 0, 0),
+      depth: tbsa.depthBreakdown
+        ? {
+          partialThicknessPct: tbsa.depthBreakdown.partialThicknessPct,
+          fullThicknessPct: tbsa.depthBreakdown.fullThicknessPct,
+        }
+        : null,
+    },
+    regions: regions.filter(region => region.fraction > 0).map(region => ({
+      name: region.region,
+      description: formatRegion(region),
+      depth: region.depth ?? null,
+      percentOfRegion: Math.round(region.fraction * 100),
+      tbsaPct: tbsa.breakdown[region.region] ?? 0,
+    })),
+    regionsCharted: regions.length,
+    specialSites: Object.entries(specialSites).filter(([_, value]) => value).map(([key]) => key),
+    airway: buildAirwayContext(patient, regions),
+    reassessments: {
+      count: reassessments.length,
+      lines: summarizeBurnEvolution(reassessments),
+    },
+    referral: buildReferralContext(patient, regions),
+    fluids: {
+      formula: fluids.formula.name,
+      equation: fluids.formula.equation,
+      notice: fluids.notice ?? null,
+      totalMl: parkland.totalMl,
+      first8hMl: parkland.first8hMl,
+      first8hRateMlPerHr: Math.round(parkland.first8hMl / 8),
+      next16hMl: parkland.next16hMl,
+      next16hRateMlPerHr: Math.round(parkland.next16hMl / 16),
+      rateNowMlPerHr: parkland.rateNowMlPerHr,
+      phase: parkland.phase === 'first8' ? 'First 8 hours' : 'Second 16 hours',
+      remainingPhaseMl: parkland.phase === 'first8' ? parkland.remainingFirst8hMl : parkland.remainingNext16hMl,
+      maintenanceMlPerHr: fluids.maintenance.mlPerHr,
+      maintenanceMethod: MAINTENANCE_METHOD_LABELS[fluids.maintenance.method],
+      maintenanceFormula: fluids.maintenance.formula,
+      maintenanceIncluded: fluids.formula.maintenance === 'included',
+      weights: buildWeightsContext(fluids),
+      delivery: buildDeliveryContext(fluids),
+      hours24To72: postResuscitation
+        ? {
+          totalMlPerHr: postResuscitation.totalMlPerHr,
+          maintenanceMlPerHr: postResuscitation.maintenanceMlPerHr,
+          evaporativeLossMlPerHr: postResuscitation.evaporativeLossMlPerHr,
+          evaporativeLossIncluded: postResuscitation.evaporativeLossIncluded,
+        }
+        : null,
+      urineOutputTarget: formatUrineOutputTarget(data),
+    },
+    day2To7: { lines: buildDay2To7Lines(data) },
+    flowsheet: {
+      hours: data.flowsheet?.length ?? 0,
+      lines: buildFlowsheetLines(data),
+    },
+    discharge: {
+      topics: Object.values(DISCHARGE_TEACHING_TOPICS).map(topic => ({
+        title: topic.title,
+        heading: topic.title.toUpperCase(),
+        points: [...topic.points],
+      })),
+      whenToCall: [...WHEN_TO_CALL_PROVIDER],
+    },
+  };
+}
 
-PATIENT/CAREGIVER UNDERSTANDING:
-□ Demonstrated understanding of wound care
-□ Verbalized when to contact provider
-□ Received written instructions
-□ Questions answered
+/**
+ * Renders a note template against assessment data
+ * @param template - Template source
+ * @param data - Assessment data behind the note
+ * @returns Note text; unresolved placeholders are left for the clinician
+ */
+function renderNote(template: string, data: BurnNoteData): string {
+  return renderTemplate(template, buildNoteTemplateContext(data)).text;
+}
 
-EDUCATIONAL DISCLAIMER:
-This educational material supplements but does not replace individualized clinical instruction. Follow your healthcare team's specific guidance.
+/**
+ * Generates a clinical burn assessment note
+ */
+export function makeBurnAssessmentNote(data: BurnNoteData): string {
+  return renderNote(DEFAULT_NOTE_TEMPLATES.assessment, data);
+}
 
-Generated by Burn Wizard v0.1.0
-`.trim();
+/**
+ * Generates discharge teaching documentation
+ */
+export function makeDischargeTeachingNote(data: BurnNoteData): string {
+  return renderNote(DEFAULT_NOTE_TEMPLATES.discharge, data);
 }
 
 /**
  * Generates a procedure note template for burn care
  */
 export function makeBurnProcedureNote(data: BurnNoteData): string {
-  const { patient, tbsa, timestamp } = data;
-  
-  return `
-BURN CARE PROCEDURE NOTE
-Generated: ${timestamp.toLocaleString()}
-
-PATIENT: ${formatAge(patient.ageMonths)}, ${patient.weightKg}kg
-
-INDICATION: Burn wound care for ${tbsa.tbsaPct}% TBSA burn
-
-PROCEDURE PERFORMED:
-□ Wound assessment and documentation
-□ Gentle debridement of loose tissue
-□ Cleansing with {{CLEANSING_SOLUTION}}
-□ Application of {{TOPICAL_AGENT}}
-□ Dressing with {{DRESSING_TYPE}}
-
-WOUND ASSESSMENT:
-- Appearance: {{WOUND_APPEARANCE}}
-- Depth: {{BURN_DEPTH}}
-- Drainage: {{DRAINAGE_DESCRIPTION}}
-- Surrounding skin: {{SURROUNDING_SKIN}}
-- Pain level: {{PAIN_SCORE}}/10
-
-TOLERANCE:
-Patient tolerated procedure {{TOLERANCE_DESCRIPTION}}
-Pain management: {{PAIN_MANAGEMENT}}
-
-PLAN:
-□ Continue current dressing regimen
-□ Redress in {{REDRESSING_FREQUENCY}}
-□ Monitor for signs of infection
-□ Follow-up as scheduled
-
-Clinician: {{CLINICIAN_NAME}}
-Date/Time: ${timestamp.toLocaleString()}
-
-Generated by Burn Wizard v0.1.0
-`.trim();
+  return renderNote(DEFAULT_NOTE_TEMPLATES.procedure, data);
 }
 
 /**
  * Creates a comprehensive burn summary for handoff
  */
 export function makeBurnHandoffNote(data: BurnNoteData): string {
-  const { patient, tbsa, fluids, regions, timestamp } = data;
-  
-  return `
-BURN PATIENT HANDOFF SUMMARY
-Generated: ${timestamp.toLocaleString()}
-
-PATIENT: ${formatAge(patient.ageMonths)}, ${patient.weightKg}kg
-
-INJURY DETAILS:
-- Mechanism: ${patient.mechanism || 'Not specified'}
-- Time of injury: ${patient.hoursSinceInjury}h ago
-- TBSA: ${tbsa.tbsaPct}% (${tbsa.ageGroup} calculations)
-- Distribution: ${formatBurnDistribution(regions)}
-- Special concerns: ${formatSpecialSites(patient.specialSites)}
-
-CURRENT FLUID STATUS:
-- Phase: ${fluids.parkland.phase === 'first8' ? 'First 8 hours' : 'Second 16 hours'}
-- Current rate: ${fluids.parkland.rateNowMlPerHr}ml/hr (resuscitation)
-- Maintenance: ${fluids.maintenance.mlPerHr}ml/hr
-- Remaining resuscitation: ${fluids.parkland.phase === 'first8' ? fluids.parkland.remainingFirst8hMl : fluids.parkland.remainingNext16hMl}ml
-
-MONITORING PRIORITIES:
-□ Urine output trending
-□ Fluid balance assessment
-□ Pain management effectiveness
-□ Wound progression
-□ Vital signs stability
-
-PENDING TASKS:
-□ {{PENDING_TASKS}}
-
-CONTACT INFORMATION:
-Burn Team: {{BURN_TEAM_CONTACT}}
-Attending: {{ATTENDING_CONTACT}}
-
-Generated by Burn Wizard v0.1.0
-`.trim();
-}
\ No newline at end of file
+  return renderNote(DEFAULT_NOTE_TEMPLATES.handoff, data);
+}
+
+/**
+ * Display titles for each note type
+ */
+export const NOTE_TITLES: Record<ClinicalNoteType, string> = {
+  assessment: 'Burn Assessment Note',
+  procedure: 'Procedure Note',
+  discharge: 'Discharge Teaching',
+  handoff: 'Patient Handoff',
+};
+
+/**
+ * Generates any clinical note by type
+ * @param type - Note type
+ * @param data - Assessment data behind the note
+ * @param template - Template source; the built-in template when omitted
+ * @throws Error when a custom template has a syntax error
+ */
+export function makeClinicalNote(type: ClinicalNoteType, data: BurnNoteData, template?: string): string {
+  return renderNote(template ?? DEFAULT_NOTE_TEMPLATES[type], data);
+}
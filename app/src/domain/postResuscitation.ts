@@ -0,0 +1,211 @@
+/**
+ * Post-Resuscitation (Day 2-7) Planning Module
+ *
+ * Plans fluids and nutrition once the 24-hour resuscitation formula has run
+ * out, so a patient seen after hour 24 gets a rate to run rather than the
+ * zero remaining resuscitation volume. Covers the wean off the final LR rate,
+ * second-day colloid and free water, the move to maintenance from day 3, and
+ * daily energy and protein targets.
+ *
+ * Key Clinical Concepts:
+ * - Day 2 (hours 24-48): stop LR; 5% albumin 0.3-0.5 ml/kg/%TBSA for TBSA ≥30%
+ *   plus D5W free water replacing evaporative loss (25 + %TBSA) × BSA ml/hr
+ * - Wean LR by 20% of the hour-24 rate each hour while urine output stays at target
+ * - Day 3 (hours 48-72): maintenance plus evaporative loss
+ * - Days 4-7: maintenance; enteral feed volume counts towards the daily total
+ * - Curreri (adults): 25 kcal/kg + 40 kcal/%TBSA per day, protein 2 g/kg/day
+ * - Galveston (children): 1800 kcal/m² + 2200 kcal/m² burned per day, protein 3 g/kg/day
+ * - Start enteral feeding within 24 hours of injury
+ *
+ * AI Development Notes:
+ * - Day 2 volumes come from FluidResult.secondDay, which also drives timeline hours 25-48
+ * - Day 3 free water matches FluidResult.postResuscitation (ends at hour 72)
+ * - Test coverage in __tests__/postResuscitation.test.ts
+ */
+
+import type {
+  FluidResult,
+  NutritionPlan,
+  PostResuscitationDay,
+  PostResuscitationPlan,
+  RateWeanStep,
+} from './types';
+import { PEDIATRIC_AGE_MONTHS } from './fluidFormulas';
+import { estimateBsaFromWeight } from './bsa';
+import { round1 } from '@/lib/utils';
+
+/**
+ * Last day covered by the plan (hour 168, the upper limit for hours since injury)
+ */
+export const POST_RESUSCITATION_LAST_DAY = 7;
+
+/**
+ * Fraction of the hour-24 resuscitation rate removed at each hourly wean step
+ */
+export const WEAN_STEP_FRACTION = 0.2;
+
+/**
+ * Curreri: kcal per kg and per %TBSA (TBSA capped at 50%)
+ */
+export const CURRERI_KCAL_PER_KG = 25;
+export const CURRERI_KCAL_PER_TBSA = 40;
+export const CURRERI_MAX_TBSA = 50;
+
+/**
+ * Galveston: kcal per m² of body surface and per m² burned
+ */
+export const GALVESTON_KCAL_PER_M2 = 1800;
+export const GALVESTON_KCAL_PER_BURNED_M2 = 2200;
+
+/**
+ * Protein targets in g/kg/day
+ */
+export const ADULT_PROTEIN_G_PER_KG = 2;
+export const PEDIATRIC_PROTEIN_G_PER_KG = 3;
+
+/**
+ * Hour by which enteral feeding should have started
+ */
+export const ENTERAL_FEEDING_START_HOUR = 24;
+
+const DAY_FOCUS: Record<number, string> = {
+  2: 'Stop LR; give colloid and D5W free water, titrate to urine output',
+  3: 'Maintenance plus evaporative loss; advance enteral feeds to goal',
+};
+const LATER_DAY_FOCUS = 'Maintenance; count enteral feed volume towards the total and replace losses from open wounds';
+
+const POST_RESUSCITATION_MONITORING = [
+  'Serum sodium every 12 hours - raise free water if >145 mmol/L, reduce if <135 mmol/L',
+  'Daily weight - expect to return towards pre-burn weight by day 7-10',
+  'Urine output remains the main target; a falling output needs reassessment, not a maintenance increase alone',
+  'Daily glucose, albumin, phosphate and magnesium while feeds are advanced',
+];
+
+/**
+ * Calculates daily energy and protein targets
+ * @param patient - Actual weight, age, resuscitation TBSA and optional BSA
+ * @returns Curreri targets for adults, Galveston targets for children
+ */
+export function calculateNutritionPlan(patient: {
+  weightKg: number;
+  ageMonths: number;
+  tbsaPct: number;
+  bsaM2?: number;
+}): NutritionPlan {
+  const { weightKg, ageMonths, tbsaPct } = patient;
+  if (weightKg <= 0) throw new Error('Weight must be positive');
+
+  if (ageMonths < PEDIATRIC_AGE_MONTHS) {
+    const bsaM2 = patient.bsaM2 ?? estimateBsaFromWeight(weightKg);
+    const burnedM2 = (bsaM2 * tbsaPct) / 100;
+    return {
+      equation: 'galveston',
+      formula: `${GALVESTON_KCAL_PER_M2} kcal/m² + ${GALVESTON_KCAL_PER_BURNED_M2} kcal/m² burned`,
+      kcalPerDay: Math.round(GALVESTON_KCAL_PER_M2 * bsaM2 + GALVESTON_KCAL_PER_BURNED_M2 * burnedM2),
+      proteinGPerKgPerDay: PEDIATRIC_PROTEIN_G_PER_KG,
+      proteinGPerDay: round1(PEDIATRIC_PROTEIN_G_PER_KG * weightKg),
+      startEnteralByHour: ENTERAL_FEEDING_START_HOUR,
+    };
+  }
+
+  return {
+    equation: 'curreri',
+    formula: `${CURRERI_KCAL_PER_KG} kcal/kg + ${CURRERI_KCAL_PER_TBSA} kcal/%TBSA, TBSA capped at ${CURRERI_MAX_TBSA}%`,
+    kcalPerDay: Math.round(CURRERI_KCAL_PER_KG * weightKg + CURRERI_KCAL_PER_TBSA * Math.min(tbsaPct, CURRERI_MAX_TBSA)),
+    proteinGPerKgPerDay: ADULT_PROTEIN_G_PER_KG,
+    proteinGPerDay: round1(ADULT_PROTEIN_G_PER_KG * weightKg),
+    startEnteralByHour: ENTERAL_FEEDING_START_HOUR,
+  };
+}
+
+/**
+ * Hourly wean from the hour-24 resuscitation rate down to the day 2 rate
+ */
+function buildWean(fluidResult: FluidResult): RateWeanStep[] {
+  const finalRate = fluidResult.parkland.next16hMl / 16;
+  const targetRate = fluidResult.secondDay.rateMlPerHr;
+  const steps: RateWeanStep[] = [];
+  let rate = finalRate;
+  let hour = 24;
+  while (rate > targetRate) {
+    rate = Math.max(targetRate, rate - finalRate * WEAN_STEP_FRACTION);
+    steps.push({ hourFromInjury: hour, rateMlPerHr: round1(rate) });
+    hour++;
+  }
+  return steps;
+}
+
+/**
+ * Plans fluids and nutrition for days 2-7
+ * @param fluidResult - Formula calculation providing secondDay and maintenance
+ * @param patient - Actual weight, age, resuscitation TBSA, hours since injury and optional BSA
+ * @returns Day-by-day IV rates, the LR wean, nutrition targets and monitoring
+ * @throws Error when weight is not positive
+ */
+export function planPostResuscitation(
+  fluidResult: FluidResult,
+  patient: { weightKg: number; ageMonths: number; tbsaPct: number; hoursSinceInjury: number; bsaM2?: number }
+): PostResuscitationPlan {
+  const { hoursSinceInjury } = patient;
+  const { secondDay } = fluidResult;
+  const maintenanceMlPerHr = fluidResult.maintenance.mlPerHr;
+
+  const days: PostResuscitationDay[] = [];
+  for (let day = 2; day <= POST_RESUSCITATION_LAST_DAY; day++) {
+    const colloidMl = day === 2 ? secondDay.colloidMl : 0;
+    const freeWaterMlPerHr = day <= 3 ? secondDay.freeWaterMlPerHr : 0;
+    const rateMlPerHr = round1(colloidMl / 24 + maintenanceMlPerHr + freeWaterMlPerHr);
+    days.push({
+      day,
+      startHour: (day - 1) * 24,
+      endHour: day * 24,
+      colloidMl,
+      maintenanceMlPerHr,
+      freeWaterMlPerHr,
+      rateMlPerHr,
+      totalMl: round1(rateMlPerHr * 24),
+      focus: DAY_FOCUS[day] ?? LATER_DAY_FOCUS,
+    });
+  }
+
+  const current = hoursSinceInjury >= 24 && hoursSinceInjury <= POST_RESUSCITATION_LAST_DAY * 24
+    ? days.find(d => hoursSinceInjury < d.endHour) ?? days[days.length - 1]
+    : undefined;
+
+  return {
+    currentDay: current?.day ?? null,
+    rateNowMlPerHr: current?.rateMlPerHr ?? null,
+    transition: buildWean(fluidResult),
+    days,
+    nutrition: calculateNutritionPlan(patient),
+    monitoring: [...POST_RESUSCITATION_MONITORING],
+  };
+}
+
+/**
+ * Builds the day 2-7 lines for clinical notes
+ * @returns Current day and rate, day 2 breakdown, wean and nutrition lines
+ */
+export function summarizePostResuscitation(plan: PostResuscitationPlan): string[] {
+  const lines: string[] = [];
+  const current = plan.days.find(d => d.day === plan.currentDay);
+  if (current) {
+    lines.push(`- Day ${current.day} (hours ${current.startHour}-${current.endHour}): ${current.rateMlPerHr}ml/hr IV - ${current.focus}`);
+  }
+
+  const day2 = plan.days[0];
+  const colloid = day2.colloidMl > 0 ? `5% albumin ${day2.colloidMl}ml over 24h + ` : '';
+  const freeWater = day2.freeWaterMlPerHr > 0 ? ` + D5W ${day2.freeWaterMlPerHr}ml/hr` : '';
+  lines.push(`- Day 2 fluids: ${colloid}maintenance ${day2.maintenanceMlPerHr}ml/hr${freeWater} = ${day2.rateMlPerHr}ml/hr`);
+
+  if (plan.transition.length > 0) {
+    const steps = plan.transition.map(step => `${step.rateMlPerHr}`).join(' → ');
+    lines.push(`- Wean LR from hour 24 by ${WEAN_STEP_FRACTION * 100}% per hour while urine output on target: ${steps} ml/hr`);
+  }
+
+  const { nutrition } = plan;
+  lines.push(
+    `- Nutrition: ${nutrition.kcalPerDay} kcal/day (${nutrition.formula}), protein ${nutrition.proteinGPerDay} g/day (${nutrition.proteinGPerKgPerDay} g/kg) - start enteral feeds by hour ${nutrition.startEnteralByHour}`
+  );
+  return lines;
+}
@@ -0,0 +1,191 @@
+/**
+ * Serial Reassessment Module
+ *
+ * Burn depth and extent evolve over the first 48-72 hours as zones of stasis
+ * either recover or progress. This module records timestamped snapshots of the
+ * body map and compares them so clinicians can see which regions deepened and
+ * how TBSA changed between assessments.
+ *
+ * Key Clinical Concepts:
+ * - Depth order: superficial → superficial-partial → deep-partial → full-thickness
+ * - "Progressed" means a region got deeper; "improved" means it got shallower
+ * - Extent changes are flagged alongside depth changes so neither is lost
+ *
+ * AI Development Notes:
+ * - All functions are pure; snapshots are deep-copied
+ * - Test coverage in __tests__/reassessment.test.ts
+ */
+
+import type {
+  BurnDepth,
+  BodyArea,
+  RegionSelection,
+  Reassessment,
+  ReassessmentDiff,
+  RegionChange,
+} from './types';
+import { calculateTBSA } from './tbsa';
+import { DEPTH_ORDER } from './regionSelections';
+import { getBurnDepthInfo } from '@/constants/burnDepth';
+import { round1 } from '@/lib/utils';
+
+/**
+ * Generates a unique reassessment identifier (distinct from case ids)
+ */
+export function generateReassessmentId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `reassessment-${crypto.randomUUID()}`;
+  }
+  return `reassessment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Records a reassessment snapshot for the current body map
+ * @param ageMonths - Patient age (drives Lund-Browder percentages)
+ * @param selections - Current region selections
+ * @param hoursSinceInjury - Time of the reassessment relative to injury
+ * @param now - Recording time (injectable for testing)
+ */
+export function createReassessment(
+  ageMonths: number,
+  selections: RegionSelection[],
+  hoursSinceInjury: number,
+  now: Date = new Date()
+): Reassessment {
+  const regionSelections = JSON.parse(JSON.stringify(selections)) as RegionSelection[];
+  return {
+    id: generateReassessmentId(),
+    recordedAt: now.toISOString(),
+    hoursSinceInjury,
+    regionSelections,
+    tbsa: calculateTBSA(ageMonths, regionSelections),
+  };
+}
+
+/**
+ * Classifies the change for one region between two snapshots
+ */
+function classifyChange(before?: RegionSelection, after?: RegionSelection): RegionChange['type'] {
+  if (!before || before.fraction === 0) return after && after.fraction > 0 ? 'new' : 'unchanged';
+  if (!after || after.fraction === 0) return 'resolved';
+
+  if (before.depth && after.depth && before.depth !== after.depth) {
+    return DEPTH_ORDER.indexOf(after.depth) > DEPTH_ORDER.indexOf(before.depth) ? 'progressed' : 'improved';
+  }
+
+  return before.fraction !== after.fraction ? 'extent-changed' : 'unchanged';
+}
+
+/**
+ * Compares two reassessments region by region
+ * @param from - Earlier reassessment
+ * @param to - Later reassessment
+ * @returns Diff with TBSA change and every region that changed
+ */
+export function compareReassessments(from: Reassessment, to: Reassessment): ReassessmentDiff {
+  const regions = new Set<BodyArea>([
+    ...from.regionSelections.map(s => s.region),
+    ...to.regionSelections.map(s => s.region),
+  ]);
+
+  const changes: RegionChange[] = [];
+  regions.forEach(region => {
+    const before = from.regionSelections.find(s => s.region === region);
+    const after = to.regionSelections.find(s => s.region === region);
+    const type = classifyChange(before, after);
+    if (type === 'unchanged') return;
+
+    changes.push({
+      region,
+      type,
+      extentChanged: !!before && !!after && before.fraction > 0 && after.fraction > 0
+        && before.fraction !== after.fraction,
+      before: before && before.fraction > 0
+        ? { fraction: before.fraction, depth: before.depth, tbsaPct: from.tbsa.breakdown[region] ?? 0 }
+        : undefined,
+      after: after && after.fraction > 0
+        ? { fraction: after.fraction, depth: after.depth, tbsaPct: to.tbsa.breakdown[region] ?? 0 }
+        : undefined,
+    });
+  });
+
+  return {
+    fromId: from.id,
+    toId: to.id,
+    hoursElapsed: round1(to.hoursSinceInjury - from.hoursSinceInjury),
+    tbsaBefore: from.tbsa.tbsaPct,
+    tbsaAfter: to.tbsa.tbsaPct,
+    tbsaDelta: round1(to.tbsa.tbsaPct - from.tbsa.tbsaPct),
+    changes,
+  };
+}
+
+/**
+ * Orders reassessments by time since injury, then by recording time
+ */
+export function sortReassessments(reassessments: Reassessment[]): Reassessment[] {
+  return [...reassessments].sort((a, b) =>
+    a.hoursSinceInjury - b.hoursSinceInjury || a.recordedAt.localeCompare(b.recordedAt)
+  );
+}
+
+/**
+ * Short depth label for notes (e.g. "Deep Partial Thickness")
+ */
+function depthLabel(depth?: BurnDepth): string {
+  if (!depth) return 'depth not recorded';
+  return getBurnDepthInfo(depth).name.replace(/\s*\(.*\)$/, '');
+}
+
+/**
+ * Extent change text (e.g. "extent 50% → 100%")
+ */
+function extentLabel(change: RegionChange): string {
+  return `extent ${Math.round((change.before?.fraction ?? 0) * 100)}% → ${Math.round((change.after?.fraction ?? 0) * 100)}%`;
+}
+
+/**
+ * Describes a single region change in one line
+ */
+export function describeRegionChange(change: RegionChange): string {
+  const region = change.region.replace(/_/g, ' ');
+  const extent = change.extentChanged ? `, ${extentLabel(change)}` : '';
+  switch (change.type) {
+    case 'new':
+      return `${region}: new involvement (${Math.round((change.after?.fraction ?? 0) * 100)}%, ${depthLabel(change.after?.depth)})`;
+    case 'resolved':
+      return `${region}: no longer involved`;
+    case 'progressed':
+      return `${region}: progressed ${depthLabel(change.before?.depth)} → ${depthLabel(change.after?.depth)}${extent}`;
+    case 'improved':
+      return `${region}: reassessed shallower ${depthLabel(change.before?.depth)} → ${depthLabel(change.after?.depth)}${extent}`;
+    case 'extent-changed':
+      return `${region}: ${extentLabel(change)}`;
+    default:
+      return `${region}: unchanged`;
+  }
+}
+
+/**
+ * Builds the "burn evolution" lines for clinical notes
+ * @returns One line per reassessment interval; empty when fewer than two snapshots
+ */
+export function summarizeBurnEvolution(reassessments: Reassessment[]): string[] {
+  const ordered = sortReassessments(reassessments);
+  if (ordered.length < 2) return [];
+
+  const lines: string[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const diff = compareReassessments(ordered[i - 1], ordered[i]);
+    const sign = diff.tbsaDelta > 0 ? '+' : '';
+    lines.push(
+      `- ${ordered[i - 1].hoursSinceInjury}h → ${ordered[i].hoursSinceInjury}h: TBSA ${diff.tbsaBefore}% → ${diff.tbsaAfter}% (${sign}${diff.tbsaDelta}%)`
+    );
+    if (diff.changes.length === 0) {
+      lines.push('  • No regional changes');
+    } else {
+      diff.changes.forEach(change => lines.push(`  • ${describeRegionChange(change)}`));
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,184 @@
+/**
+ * Burn Center Referral Criteria Module
+ *
+ * Checks the American Burn Association (ABA) burn-center referral criteria
+ * against the whole assessment - all regions and depths together, the special
+ * sites charted on the body map, the patient's age and the mechanism - and
+ * explains which criteria were met and why.
+ *
+ * Key Clinical Concepts:
+ * - Partial-thickness burns >10% TBSA warrant referral
+ * - Any full-thickness burn warrants referral, in any age group
+ * - Face, hands, feet, genitalia/perineum and major joints are special sites
+ * - Children and older adults tolerate smaller burns poorly, so a lower
+ *   threshold applies at the age extremes
+ * - Electrical (including lightning), chemical and inhalation injuries are
+ *   referred regardless of size
+ * - Comorbidities, concomitant trauma, pediatric capability and social or
+ *   rehabilitation needs cannot be judged from the data held and are listed
+ *   as not assessed
+ *
+ * AI Development Notes:
+ * - Depth totals come from calculateTBSA, so mixed-depth regions and
+ *   sub-regions are counted exactly and superficial burns are excluded
+ * - Special sites come from deriveSpecialSites (body map), not manual ticks
+ * - The structured mechanism is used when set; otherwise the free-text
+ *   mechanism is matched on keywords
+ * - A high-risk airway assessment also meets the inhalation criterion
+ * - Test coverage in __tests__/referral.test.ts
+ */
+
+import type { PatientData, ReferralAssessment, ReferralCriterion, RegionSelection } from './types';
+import { calculateTBSA } from './tbsa';
+import { deriveSpecialSites } from './subRegions';
+import { formatMechanism } from './mechanisms';
+import { assessAirway } from './airway';
+
+/**
+ * Partial-thickness %TBSA above which referral is recommended
+ */
+export const PARTIAL_THICKNESS_REFERRAL_PCT = 10;
+
+/**
+ * Age bounds (years) outside which the lower age-extreme threshold applies
+ */
+export const AGE_EXTREMES = { underYears: 10, overYears: 50 };
+
+/**
+ * Partial + full thickness %TBSA above which patients at the age extremes are referred
+ */
+export const AGE_EXTREME_REFERRAL_PCT = 5;
+
+const SPECIAL_SITE_LABELS: Record<keyof PatientData['specialSites'], string> = {
+  face: 'face',
+  hands: 'hands',
+  feet: 'feet',
+  perineum: 'genitalia/perineum',
+  majorJoints: 'major joints',
+};
+
+const MECHANISM_PATTERNS = {
+  electrical: /electr|lightning|voltage/i,
+  chemical: /chemical|acid|alkali|caustic|lye/i,
+  inhalation: /inhal|smoke|enclosed space/i,
+};
+
+const NOT_ASSESSED_REASON = 'Not recorded in this assessment; requires clinical judgement';
+
+/**
+ * Checks the ABA burn-center referral criteria
+ * @param patient - Patient data (age, mechanism, manual major-joint involvement)
+ * @param regions - Region selections from the body map
+ * @returns Every criterion with its status and reason, and the criteria met
+ * @throws Error when the region selections are invalid
+ */
+export function evaluateReferralCriteria(patient: PatientData, regions: RegionSelection[]): ReferralAssessment {
+  const depth = regions.length > 0 ? calculateTBSA(patient.ageMonths, regions).depthBreakdown : undefined;
+  const partialPct = depth?.partialThicknessPct ?? 0;
+  const fullPct = depth?.fullThicknessPct ?? 0;
+  const burnPct = Math.round((partialPct + fullPct) * 10) / 10;
+  const ageYears = patient.ageMonths / 12;
+
+  const sites = deriveSpecialSites(regions, patient.specialSites);
+  const involvedSites = (Object.keys(sites) as (keyof PatientData['specialSites'])[])
+    .filter(site => sites[site])
+    .map(site => SPECIAL_SITE_LABELS[site]);
+
+  const atAgeExtreme = ageYears < AGE_EXTREMES.underYears || ageYears > AGE_EXTREMES.overYears;
+
+  const criteria: ReferralCriterion[] = [
+    {
+      id: 'partial-thickness',
+      label: `Partial-thickness burns >${PARTIAL_THICKNESS_REFERRAL_PCT}% TBSA`,
+      status: partialPct > PARTIAL_THICKNESS_REFERRAL_PCT ? 'met' : 'not-met',
+      reason: `Partial thickness ${partialPct}% TBSA`,
+    },
+    {
+      id: 'full-thickness',
+      label: 'Full-thickness burns in any age group',
+      status: fullPct > 0 ? 'met' : 'not-met',
+      reason: fullPct > 0 ? `Full thickness ${fullPct}% TBSA` : 'No full-thickness area charted',
+    },
+    {
+      id: 'special-sites',
+      label: 'Burns of the face, hands, feet, genitalia, perineum or major joints',
+      status: involvedSites.length > 0 ? 'met' : 'not-met',
+      reason: involvedSites.length > 0 ? `Involves ${involvedSites.join(', ')}` : 'No special sites involved',
+    },
+    {
+      id: 'age-extremes',
+      label: `Age under ${AGE_EXTREMES.underYears} or over ${AGE_EXTREMES.overYears} years with burns >${AGE_EXTREME_REFERRAL_PCT}% TBSA`,
+      status: atAgeExtreme && burnPct > AGE_EXTREME_REFERRAL_PCT ? 'met' : 'not-met',
+      reason: atAgeExtreme
+        ? `Age ${Math.floor(ageYears)} years with ${burnPct}% TBSA partial or full thickness`
+        : `Age ${Math.floor(ageYears)} years`,
+    },
+    mechanismCriterion('electrical', 'Electrical burns, including lightning injury', patient),
+    mechanismCriterion('chemical', 'Chemical burns', patient),
+    inhalationCriterion(patient, sites.face),
+    {
+      id: 'comorbidities',
+      label: 'Pre-existing medical disorders that could complicate management or affect mortality',
+      status: 'not-assessed',
+      reason: NOT_ASSESSED_REASON,
+    },
+    {
+      id: 'concomitant-trauma',
+      label: 'Concomitant trauma where the burn poses the greatest risk',
+      status: 'not-assessed',
+      reason: NOT_ASSESSED_REASON,
+    },
+    {
+      id: 'pediatric-capability',
+      label: 'Burned children in hospitals without qualified personnel or equipment',
+      status: 'not-assessed',
+      reason: NOT_ASSESSED_REASON,
+    },
+    {
+      id: 'social-rehabilitation',
+      label: 'Special social, emotional or rehabilitative needs',
+      status: 'not-assessed',
+      reason: NOT_ASSESSED_REASON,
+    },
+  ];
+
+  const met = criteria.filter(criterion => criterion.status === 'met');
+  return { criteria, met, referralRecommended: met.length > 0 };
+}
+
+/**
+ * Builds a mechanism-based criterion from the structured or free-text mechanism of injury
+ */
+function mechanismCriterion(
+  id: keyof typeof MECHANISM_PATTERNS,
+  label: string,
+  patient: PatientData
+): ReferralCriterion {
+  const description = patient.mechanism ?? '';
+  const matched = patient.burnMechanism
+    ? patient.burnMechanism.type === id
+    : MECHANISM_PATTERNS[id].test(description);
+  const mechanismText = patient.burnMechanism ? formatMechanism(patient.burnMechanism) : description;
+  return {
+    id,
+    label,
+    status: matched ? 'met' : 'not-met',
+    reason: mechanismText ? `Mechanism: ${mechanismText}` : 'Mechanism not specified',
+  };
+}
+
+/**
+ * Inhalation criterion from the mechanism or a high-risk airway assessment
+ */
+function inhalationCriterion(patient: PatientData, facialBurns: boolean): ReferralCriterion {
+  const criterion = mechanismCriterion('inhalation', 'Inhalation injury', patient);
+  if (criterion.status === 'met' || !patient.airway) return criterion;
+
+  const airway = assessAirway(patient.airway, { facialBurns });
+  if (!airway.inhalationLikely) return criterion;
+  return {
+    ...criterion,
+    status: 'met',
+    reason: `Airway assessment: ${airway.risk} risk (${airway.findings.join(', ')})`,
+  };
+}
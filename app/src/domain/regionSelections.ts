@@ -0,0 +1,416 @@
+/**
+ * Region Selection Entry Module
+ *
+ * Region involvement can be charted quickly in quarter steps or precisely,
+ * either as an exact fraction of the region or as the exact %TBSA the region
+ * contributes (e.g. "10% of the anterior trunk" or "1.3% TBSA on the chest").
+ * A region can also be split into depth zones (e.g. 50% superficial partial and
+ * 25% full thickness). This module validates each entry mode, converts between
+ * them, and migrates selections persisted before precise entry existed.
+ *
+ * Key Clinical Concepts:
+ * - Region contribution = Lund-Browder region % × fraction involved
+ * - A charted %TBSA can never exceed the region's own Lund-Browder share
+ * - Quarter steps remain the default for rapid initial assessment
+ * - Depth zones within a region may not total more than the whole region
+ * - Sub-regions (face, palm, anterior thigh...) are fixed shares of their parent,
+ *   so charting them changes the detail but never the region's %TBSA
+ *
+ * AI Development Notes:
+ * - Selections without entryMode are quarter-step selections (pre-migration data)
+ * - 'percent' selections keep the charted %TBSA verbatim; fraction is derived for
+ *   display and for methods that work in fractions (Rule of Nines, reassessment)
+ * - Test coverage in __tests__/regionSelections.test.ts
+ */
+
+import type {
+  BodyArea,
+  BurnDepth,
+  BurnFraction,
+  DepthZone,
+  RegionEntryMode,
+  RegionSelection,
+  SubRegionSelection,
+} from './types';
+import { LUND_BROWDER_PERCENTAGES, getBodyAreaPercentage } from '@/constants/lundBrowder';
+import { SUB_REGIONS } from '@/constants/subRegions';
+
+/**
+ * Quick-entry fraction steps
+ */
+export const QUARTER_FRACTIONS: BurnFraction[] = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * Burn depths from shallowest to deepest
+ */
+export const DEPTH_ORDER: BurnDepth[] = ['superficial', 'superficial-partial', 'deep-partial', 'full-thickness'];
+
+const FRACTION_TOLERANCE = 1e-9;
+const VALID_ENTRY_MODES: RegionEntryMode[] = ['quarter', 'fraction', 'percent'];
+
+/**
+ * Whether a fraction is one of the quick-entry quarter steps
+ */
+export function isQuarterFraction(fraction: number): fraction is BurnFraction {
+  return QUARTER_FRACTIONS.includes(fraction as BurnFraction);
+}
+
+/**
+ * Entry mode of a selection (absent means quarter steps)
+ */
+export function getEntryMode(selection: RegionSelection): RegionEntryMode {
+  return selection.entryMode ?? 'quarter';
+}
+
+/**
+ * Validates a single region selection for its entry mode
+ * @param selection - Selection to validate
+ * @param ageYears - Patient age; required to bound 'percent' entries by the region's share
+ * @throws Error describing the first problem found
+ */
+export function validateRegionSelection(selection: RegionSelection, ageYears?: number): void {
+  if (!(selection.region in LUND_BROWDER_PERCENTAGES)) {
+    throw new Error(`Invalid region: ${selection.region}`);
+  }
+
+  const mode = getEntryMode(selection);
+  if (selection.zones) validateDepthZones(selection, mode);
+  if (selection.subRegions) validateSubRegions(selection);
+
+  if (mode === 'quarter') {
+    if (!isQuarterFraction(selection.fraction)) {
+      throw new Error(`Invalid fraction: ${selection.fraction}. Must be 0, 0.25, 0.5, 0.75, or 1`);
+    }
+    return;
+  }
+
+  if (!Number.isFinite(selection.fraction) || selection.fraction < 0 || selection.fraction > 1) {
+    throw new Error(`Invalid fraction: ${selection.fraction}. Must be between 0 and 1`);
+  }
+
+  if (mode === 'percent') {
+    const tbsaPct = selection.tbsaPct;
+    if (tbsaPct === undefined || !Number.isFinite(tbsaPct) || tbsaPct < 0) {
+      throw new Error(`Invalid %TBSA for ${selection.region}: ${tbsaPct}`);
+    }
+    if (ageYears !== undefined) {
+      const regionPct = getBodyAreaPercentage(selection.region, ageYears);
+      if (tbsaPct > regionPct + 1e-9) {
+        throw new Error(
+          `Invalid %TBSA for ${selection.region}: ${tbsaPct}%. Must not exceed the region's ${regionPct}%`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks a region's depth zones against each other and the region fraction
+ */
+function validateDepthZones(selection: RegionSelection, mode: RegionEntryMode): void {
+  const zones = selection.zones ?? [];
+  for (const zone of zones) {
+    if (!DEPTH_ORDER.includes(zone.depth)) {
+      throw new Error(`Invalid depth in ${selection.region}: ${zone.depth}`);
+    }
+    if (!Number.isFinite(zone.fraction) || zone.fraction <= 0 || zone.fraction > 1) {
+      throw new Error(`Invalid zone fraction in ${selection.region}: ${zone.fraction}. Must be between 0 and 1`);
+    }
+    if (mode === 'quarter' && !isQuarterFraction(zone.fraction)) {
+      throw new Error(`Invalid zone fraction in ${selection.region}: ${zone.fraction}. Must be 0.25, 0.5, 0.75, or 1`);
+    }
+  }
+
+  const total = zones.reduce((sum, zone) => sum + zone.fraction, 0);
+  if (total > 1 + FRACTION_TOLERANCE) {
+    throw new Error(`Depth zones in ${selection.region} total ${Math.round(total * 100)}% of the region. Must not exceed 100%`);
+  }
+  if (Math.abs(total - selection.fraction) > FRACTION_TOLERANCE) {
+    throw new Error(`Depth zones in ${selection.region} do not match the region fraction`);
+  }
+}
+
+/**
+ * Checks that each sub-region belongs to the selection's region and is not over-charted
+ */
+function validateSubRegions(selection: RegionSelection): void {
+  const totals = new Map<string, number>();
+  for (const sub of selection.subRegions ?? []) {
+    const info = SUB_REGIONS[sub.subRegion];
+    if (!info || info.parent !== selection.region) {
+      throw new Error(`Invalid sub-region for ${selection.region}: ${sub.subRegion}`);
+    }
+    if (!DEPTH_ORDER.includes(sub.depth)) {
+      throw new Error(`Invalid depth in ${info.label}: ${sub.depth}`);
+    }
+    if (!Number.isFinite(sub.fraction) || sub.fraction <= 0 || sub.fraction > 1) {
+      throw new Error(`Invalid fraction for ${info.label}: ${sub.fraction}. Must be between 0 and 1`);
+    }
+    const total = (totals.get(sub.subRegion) ?? 0) + sub.fraction;
+    if (total > 1 + FRACTION_TOLERANCE) {
+      throw new Error(`${info.label} is charted at ${Math.round(total * 100)}%. Must not exceed 100%`);
+    }
+    totals.set(sub.subRegion, total);
+  }
+}
+
+/**
+ * Depth zones of a selection (single-depth selections form one zone)
+ */
+export function getSelectionZones(selection: RegionSelection): DepthZone[] {
+  if (selection.zones && selection.zones.length > 0) return selection.zones;
+  return [{ fraction: selection.fraction, depth: selection.depth ?? 'superficial-partial' }];
+}
+
+/**
+ * Deepest depth among zones
+ */
+export function getDeepestDepth(zones: DepthZone[]): BurnDepth {
+  return zones.reduce<BurnDepth>(
+    (deepest, zone) => (DEPTH_ORDER.indexOf(zone.depth) > DEPTH_ORDER.indexOf(deepest) ? zone.depth : deepest),
+    'superficial'
+  );
+}
+
+/**
+ * Builds a region selection from depth zones
+ *
+ * Zones of the same depth are merged and empty zones dropped. The region
+ * fraction is the zone total and `depth` the deepest zone, so code that reads
+ * a single depth still sees the most severe one.
+ * @param region - Body region
+ * @param zones - Depth zones as fractions of the whole region
+ * @returns Validated selection, or null when no zone has area
+ */
+export function createZonedSelection(region: BodyArea, zones: DepthZone[]): RegionSelection | null {
+  const merged = new Map<BurnDepth, number>();
+  zones.forEach(zone => {
+    if (zone.fraction > 0) merged.set(zone.depth, (merged.get(zone.depth) ?? 0) + zone.fraction);
+  });
+  if (merged.size === 0) return null;
+
+  const mergedZones = DEPTH_ORDER
+    .filter(depth => merged.has(depth))
+    .map(depth => ({ depth, fraction: merged.get(depth) as number }));
+  const fraction = mergedZones.reduce((sum, zone) => sum + zone.fraction, 0);
+  const allQuarter = isQuarterFraction(fraction) && mergedZones.every(zone => isQuarterFraction(zone.fraction));
+
+  const selection: RegionSelection = {
+    region,
+    fraction,
+    depth: getDeepestDepth(mergedZones),
+    entryMode: allQuarter ? 'quarter' : 'fraction',
+    zones: mergedZones,
+  };
+  validateRegionSelection(selection);
+  return selection;
+}
+
+/**
+ * Builds a region selection from finer sub-region entries
+ *
+ * Each sub-region contributes its share of the parent region, grouped by depth
+ * into the parent's zones, so the parent's %TBSA is exactly what charting the
+ * same area on the coarse region would give.
+ * @param region - Lund-Browder parent region
+ * @param subRegions - Sub-region entries belonging to the region
+ * @returns Validated selection carrying the sub-regions, or null when none has area
+ */
+export function createSubRegionSelection(region: BodyArea, subRegions: SubRegionSelection[]): RegionSelection | null {
+  const charted = subRegions.filter(sub => sub.fraction > 0);
+  const invalid = charted.find(sub => SUB_REGIONS[sub.subRegion]?.parent !== region);
+  if (invalid) throw new Error(`Invalid sub-region for ${region}: ${invalid.subRegion}`);
+
+  const zones = charted.map(sub => ({
+    depth: sub.depth,
+    fraction: SUB_REGIONS[sub.subRegion].share * sub.fraction,
+  }));
+  const selection = createZonedSelection(region, zones);
+  if (!selection) return null;
+
+  selection.subRegions = charted.map(sub => ({ ...sub }));
+  validateRegionSelection(selection);
+  return selection;
+}
+
+/**
+ * Applies one depth to a whole selection, collapsing its depth zones
+ *
+ * The charted extent is kept as entered (precise %TBSA and sub-regions included).
+ * @param selection - Region selection
+ * @param depth - Depth for the whole selection
+ * @returns New selection
+ */
+export function applySelectionDepth(selection: RegionSelection, depth: BurnDepth): RegionSelection {
+  if (selection.subRegions) {
+    const rebuilt = createSubRegionSelection(
+      selection.region,
+      selection.subRegions.map(sub => ({ ...sub, depth }))
+    );
+    if (rebuilt) return rebuilt;
+  }
+  return {
+    ...selection,
+    depth,
+    ...(selection.zones && { zones: [{ fraction: selection.fraction, depth }] }),
+  };
+}
+
+/**
+ * %TBSA contributed by a selection
+ * @param selection - Region selection
+ * @param ageYears - Patient age in years (selects Lund-Browder column)
+ * @returns Unrounded %TBSA for the region
+ */
+export function getSelectionTbsa(selection: RegionSelection, ageYears: number): number {
+  if (getEntryMode(selection) === 'percent' && selection.tbsaPct !== undefined) {
+    return selection.tbsaPct;
+  }
+  return getBodyAreaPercentage(selection.region, ageYears) * selection.fraction;
+}
+
+/**
+ * Builds a precise selection from an exact fraction or an exact %TBSA
+ * @param region - Body region
+ * @param value - Either the fraction of the region (0-1) or the %TBSA it contributes
+ * @param ageMonths - Patient age in months (bounds %TBSA by the region's share)
+ * @param depth - Burn depth
+ * @returns Validated selection
+ */
+export function createPreciseSelection(
+  region: BodyArea,
+  value: { fraction: number } | { tbsaPct: number },
+  ageMonths: number,
+  depth?: BurnDepth
+): RegionSelection {
+  const ageYears = ageMonths / 12;
+  let selection: RegionSelection;
+
+  if ('tbsaPct' in value) {
+    const regionPct = getBodyAreaPercentage(region, ageYears);
+    selection = {
+      region,
+      fraction: regionPct > 0 ? Math.min(value.tbsaPct / regionPct, 1) : 0,
+      tbsaPct: value.tbsaPct,
+      entryMode: 'percent',
+    };
+  } else {
+    selection = { region, fraction: value.fraction, entryMode: 'fraction' };
+  }
+
+  if (depth) selection.depth = depth;
+  validateRegionSelection(selection, ageYears);
+  return selection;
+}
+
+/**
+ * Rounds a fraction up to the nearest quarter step for map shading
+ */
+export function toDisplayFraction(fraction: number): BurnFraction {
+  if (fraction <= 0) return 0;
+  return QUARTER_FRACTIONS.find(step => step >= fraction) ?? 1;
+}
+
+/**
+ * Next quarter step when a region is clicked (wraps from 100% back to 0%)
+ */
+export function nextQuarterFraction(fraction: number): BurnFraction {
+  return QUARTER_FRACTIONS.find(step => step > fraction) ?? 0;
+}
+
+/**
+ * Normalizes persisted selections to the current shape
+ *
+ * Drops entries with unknown regions or unusable fractions, stamps an entry
+ * mode on legacy entries (quarter when the fraction is a quarter step,
+ * otherwise 'fraction'), and downgrades 'percent' entries that lost their %TBSA.
+ * Well-formed sub-regions are kept and the region's extent rebuilt from them.
+ * @param raw - Value read from storage
+ * @returns Selections that pass validateRegionSelection
+ */
+export function migrateRegionSelections(raw: unknown): RegionSelection[] {
+  if (!Array.isArray(raw)) return [];
+
+  const migrated: RegionSelection[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+
+    const region = entry.region as BodyArea;
+    if (typeof region !== 'string' || !(region in LUND_BROWDER_PERCENTAGES)) continue;
+
+    const fraction = typeof entry.fraction === 'string' ? parseFloat(entry.fraction) : entry.fraction;
+    if (typeof fraction !== 'number' || !Number.isFinite(fraction) || fraction <= 0 || fraction > 1) continue;
+
+    const tbsaPct = typeof entry.tbsaPct === 'number' && Number.isFinite(entry.tbsaPct) ? entry.tbsaPct : undefined;
+    let entryMode = VALID_ENTRY_MODES.includes(entry.entryMode as RegionEntryMode)
+      ? (entry.entryMode as RegionEntryMode)
+      : isQuarterFraction(fraction) ? 'quarter' : 'fraction';
+    if (entryMode === 'percent' && tbsaPct === undefined) entryMode = 'fraction';
+    if (entryMode === 'quarter' && !isQuarterFraction(fraction)) entryMode = 'fraction';
+
+    const selection: RegionSelection = { region, fraction, entryMode };
+    if (entryMode === 'percent') selection.tbsaPct = tbsaPct;
+    if (DEPTH_ORDER.includes(entry.depth as BurnDepth)) selection.depth = entry.depth as BurnDepth;
+
+    const subRegions = migrateSubRegions(region, entry.subRegions);
+    if (subRegions.length > 0) {
+      const subRegionSelection = createSubRegionSelection(region, subRegions);
+      if (subRegionSelection) {
+        migrated.push(subRegionSelection);
+        continue;
+      }
+    }
+
+    const zones = migrateDepthZones(entry.zones);
+    if (zones.length > 0) {
+      const zonedSelection = createZonedSelection(region, zones);
+      if (zonedSelection) {
+        // Zones are authoritative for extent; a charted %TBSA is kept when still consistent
+        if (entryMode === 'percent' && Math.abs(zonedSelection.fraction - fraction) <= FRACTION_TOLERANCE) {
+          zonedSelection.entryMode = 'percent';
+          zonedSelection.tbsaPct = tbsaPct;
+        }
+        migrated.push(zonedSelection);
+        continue;
+      }
+    }
+    migrated.push(selection);
+  }
+  return migrated;
+}
+
+/**
+ * Keeps only well-formed zones from persisted data
+ */
+function migrateDepthZones(raw: unknown): DepthZone[] {
+  if (!Array.isArray(raw)) return [];
+  const zones = raw.filter((zone): zone is DepthZone =>
+    !!zone && typeof zone === 'object' &&
+    DEPTH_ORDER.includes((zone as DepthZone).depth) &&
+    typeof (zone as DepthZone).fraction === 'number' &&
+    (zone as DepthZone).fraction > 0 && (zone as DepthZone).fraction <= 1
+  );
+  const total = zones.reduce((sum, zone) => sum + zone.fraction, 0);
+  return total <= 1 + FRACTION_TOLERANCE ? zones : [];
+}
+
+/**
+ * Keeps only well-formed sub-region entries of a region from persisted data
+ */
+function migrateSubRegions(region: BodyArea, raw: unknown): SubRegionSelection[] {
+  if (!Array.isArray(raw)) return [];
+  const subRegions = raw.filter((sub): sub is SubRegionSelection =>
+    !!sub && typeof sub === 'object' &&
+    SUB_REGIONS[(sub as SubRegionSelection).subRegion]?.parent === region &&
+    DEPTH_ORDER.includes((sub as SubRegionSelection).depth) &&
+    typeof (sub as SubRegionSelection).fraction === 'number' &&
+    (sub as SubRegionSelection).fraction > 0 && (sub as SubRegionSelection).fraction <= 1
+  );
+  try {
+    validateSubRegions({ region, fraction: 1, subRegions });
+    return subRegions;
+  } catch {
+    return [];
+  }
+}
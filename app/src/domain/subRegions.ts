@@ -0,0 +1,129 @@
+/**
+ * Finer Anatomical Regions Module
+ *
+ * Charts burns on finer regions than the Lund-Browder chart (face vs scalp,
+ * palm vs dorsum, anterior vs posterior limb surfaces) while keeping the
+ * Lund-Browder regions as the unit of %TBSA. Special sites that change
+ * management (face, hands, feet, perineum) are derived from what is charted
+ * rather than ticked separately.
+ *
+ * Key Clinical Concepts:
+ * - Sub-region shares of a parent sum to 1, so totals match coarse charting
+ * - A coarse Head selection counts as facial involvement (cannot be excluded)
+ * - Superficial (first-degree) burns do not make a site a special site, in line
+ *   with their exclusion from TBSA
+ * - Major joints cannot be inferred from the regions and stay manual
+ *
+ * AI Development Notes:
+ * - Parent fraction and zones are rebuilt by createSubRegionSelection on every edit
+ * - A coarse parent is expanded into all its sub-regions before one is edited,
+ *   preserving its depth zones
+ * - Test coverage in __tests__/subRegions.test.ts
+ */
+
+import type {
+  BodyArea,
+  BodyView,
+  BurnDepth,
+  DerivedSpecialSite,
+  PatientData,
+  RegionSelection,
+  SubRegionKey,
+  SubRegionSelection,
+} from './types';
+import { PARENT_SPECIAL_SITES, SUB_REGIONS, type SubRegionInfo } from '@/constants/subRegions';
+import { createSubRegionSelection, getSelectionZones } from './regionSelections';
+import { getCountedShare } from './tbsa';
+
+/**
+ * Sub-regions that make up a Lund-Browder region
+ */
+export function getSubRegionsOf(parent: BodyArea): SubRegionInfo[] {
+  return Object.values(SUB_REGIONS).filter(info => info.parent === parent);
+}
+
+/**
+ * Sub-region of a region seen from one side of the body map
+ * @returns The sub-region, or undefined when the region has no surface on that side
+ */
+export function getSubRegionForView(parent: BodyArea, view: BodyView): SubRegionInfo | undefined {
+  return getSubRegionsOf(parent).find(info => info.view === view);
+}
+
+/**
+ * Sub-region entries of a selection, expanding a coarse selection evenly over its sub-regions
+ */
+function expandSelection(selection: RegionSelection): SubRegionSelection[] {
+  if (selection.subRegions) return selection.subRegions;
+  const zones = getSelectionZones(selection);
+  return getSubRegionsOf(selection.region).flatMap(info =>
+    zones.map(zone => ({ subRegion: info.key, fraction: zone.fraction, depth: zone.depth }))
+  );
+}
+
+/**
+ * Fraction of a sub-region involved (a coarse parent selection covers its sub-regions evenly)
+ */
+export function getSubRegionFraction(selections: RegionSelection[], subRegion: SubRegionKey): number {
+  const selection = selections.find(s => s.region === SUB_REGIONS[subRegion].parent);
+  if (!selection) return 0;
+  return expandSelection(selection)
+    .filter(sub => sub.subRegion === subRegion)
+    .reduce((sum, sub) => sum + sub.fraction, 0);
+}
+
+/**
+ * Charts one sub-region, rebuilding its parent region selection
+ * @param selections - Current region selections
+ * @param subRegion - Sub-region to chart
+ * @param fraction - Fraction of the sub-region involved (0 clears it)
+ * @param depth - Burn depth of the sub-region
+ * @returns New selections; the input array is not modified
+ */
+export function setSubRegion(
+  selections: RegionSelection[],
+  subRegion: SubRegionKey,
+  fraction: number,
+  depth: BurnDepth
+): RegionSelection[] {
+  const parent = SUB_REGIONS[subRegion].parent;
+  const existing = selections.find(s => s.region === parent);
+  const others = existing ? expandSelection(existing).filter(sub => sub.subRegion !== subRegion) : [];
+  const subRegions = fraction > 0 ? [...others, { subRegion, fraction, depth }] : others;
+
+  const updated = createSubRegionSelection(parent, subRegions);
+  const rest = selections.filter(s => s.region !== parent);
+  return updated ? [...rest, updated] : rest;
+}
+
+/**
+ * Derives the face, hands, feet and perineum special sites from the charted regions
+ * @param selections - Region selections
+ * @param manual - Manually entered special sites (majorJoints is kept from here)
+ * @returns Special sites with derived face/hands/feet/perineum
+ */
+export function deriveSpecialSites(
+  selections: RegionSelection[],
+  manual: PatientData['specialSites']
+): PatientData['specialSites'] {
+  const sites: Record<DerivedSpecialSite, boolean> = { face: false, hands: false, feet: false, perineum: false };
+
+  for (const selection of selections) {
+    if (selection.fraction <= 0 || getCountedShare(selection) <= 0) continue;
+
+    if (selection.subRegions) {
+      selection.subRegions
+        .filter(sub => sub.depth !== 'superficial')
+        .forEach(sub => {
+          const site = SUB_REGIONS[sub.subRegion].specialSite;
+          if (site) sites[site] = true;
+        });
+      continue;
+    }
+
+    const site = PARENT_SPECIAL_SITES[selection.region];
+    if (site) sites[site] = true;
+  }
+
+  return { ...sites, majorJoints: manual.majorJoints };
+}
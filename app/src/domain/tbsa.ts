@@ -9,7 +9,9 @@
  * - Head percentage decreases with age (19% infant → 7% adult)
  * - Leg percentages increase to compensate for head changes
  * - Age groups: 0 (0-<1yr), 1 (1-<5yr), 5 (5-<10yr), 10 (10-<15yr), 15 (15-<18yr), Adult (18+yr)
- * - Only partial and full-thickness burns count toward TBSA
+ * - Only partial and full-thickness burns count toward TBSA; superficial
+ *   (first-degree) area is reported separately as superficialPct
+ * - Regions may hold several depth zones; TBSA is also reported per depth
  * 
  * AI Development Notes:
  * - All functions are pure and side-effect free
@@ -18,10 +20,12 @@
  * - Types are defined in ./types.ts for consistency
  */
 
-import type { AgeGroup, RegionSelection, TbsaResult, BodyArea } from './types';
+import type { AgeGroup, RegionSelection, TbsaResult, BodyArea, BsaMethod, BurnDepth, DepthBreakdown } from './types';
 import { LUND_BROWDER_PERCENTAGES, getBodyAreaPercentage } from '@/constants/lundBrowder';
-import { round1 } from '@/lib/utils';
+import { round1, round2 } from '@/lib/utils';
 import { validateTBSAInputs } from './validation';
+import { calculateBSA, calculateBurnedBsa } from './bsa';
+import { getSelectionTbsa, getSelectionZones, validateRegionSelection } from './regionSelections';
 
 /**
  * Determines age group from age in months - matches hospital chart
@@ -63,29 +67,85 @@ export function calculateAgeGroup(ageMonths: number): AgeGroup {
 /**
  * Validates region selections for proper format
  * @param selections - Array of region selections to validate
+ * @param ageYears - Patient age in years (bounds precise %TBSA entries)
  */
-function validateSelections(selections: RegionSelection[]): void {
-  const validFractions = [0, 0.25, 0.5, 0.75, 1];
-  const validRegions = Object.keys(LUND_BROWDER_PERCENTAGES) as BodyArea[];
-
+function validateSelections(selections: RegionSelection[], ageYears: number): void {
   for (const selection of selections) {
-    if (!validRegions.includes(selection.region)) {
-      throw new Error(`Invalid region: ${selection.region}`);
-    }
-    if (!validFractions.includes(selection.fraction)) {
-      throw new Error(`Invalid fraction: ${selection.fraction}. Must be 0, 0.25, 0.5, 0.75, or 1`);
-    }
+    validateRegionSelection(selection, ageYears);
   }
 }
 
+/**
+ * Share of a selection that counts toward resuscitation TBSA
+ *
+ * Superficial (first-degree) zones are excluded; partial and full-thickness
+ * zones count.
+ * @param selection - Region selection (single-depth or zoned)
+ * @returns Fraction (0-1) of the region's contribution that counts
+ */
+export function getCountedShare(selection: RegionSelection): number {
+  const zones = getSelectionZones(selection);
+  const zoneTotal = zones.reduce((sum, zone) => sum + zone.fraction, 0);
+  if (zoneTotal <= 0) return 0;
+  const superficial = zones
+    .filter(zone => zone.depth === 'superficial')
+    .reduce((sum, zone) => sum + zone.fraction, 0);
+  return 1 - superficial / zoneTotal;
+}
+
+/**
+ * Splits burned %TBSA by depth
+ *
+ * Each region's contribution is shared between its depth zones in proportion
+ * to zone size, so a 50% superficial-partial / 25% full-thickness anterior
+ * trunk counts two thirds of its %TBSA as partial and one third as full thickness.
+ * @param selections - Region selections (single-depth or zoned)
+ * @param regionTbsa - %TBSA contributed by a selection under the active method
+ * @returns %TBSA per depth with partial/full-thickness totals
+ */
+export function calculateDepthBreakdown(
+  selections: RegionSelection[],
+  regionTbsa: (selection: RegionSelection) => number
+): DepthBreakdown {
+  const byDepth: Record<BurnDepth, number> = {
+    'superficial': 0,
+    'superficial-partial': 0,
+    'deep-partial': 0,
+    'full-thickness': 0,
+  };
+
+  selections.forEach(selection => {
+    if (selection.fraction <= 0) return;
+    const contribution = regionTbsa(selection);
+    const zones = getSelectionZones(selection);
+    const zoneTotal = zones.reduce((sum, zone) => sum + zone.fraction, 0);
+    zones.forEach(zone => {
+      byDepth[zone.depth] += contribution * (zone.fraction / zoneTotal);
+    });
+  });
+
+  return {
+    byDepth: {
+      'superficial': round1(byDepth['superficial']),
+      'superficial-partial': round1(byDepth['superficial-partial']),
+      'deep-partial': round1(byDepth['deep-partial']),
+      'full-thickness': round1(byDepth['full-thickness']),
+    },
+    superficialPct: round1(byDepth['superficial']),
+    partialThicknessPct: round1(byDepth['superficial-partial'] + byDepth['deep-partial']),
+    fullThicknessPct: round1(byDepth['full-thickness']),
+  };
+}
+
 /**
  * Calculates total body surface area (TBSA) percentage using Lund-Browder method
  * 
  * This is the main calculation function that:
  * 1. Determines patient age group
  * 2. Gets age-appropriate percentages for each body region
- * 3. Applies fractional burn involvement (0, 0.25, 0.5, 0.75, 1.0)
- * 4. Sums all partial percentages to get total TBSA
+ * 3. Applies fractional burn involvement (quarter steps or precise entries)
+ * 4. Sums partial and full-thickness percentages to get total TBSA
+ *    (superficial area is summed separately and not counted)
  * 
  * Clinical Example:
  * - 5-year-old child with 50% involvement of head region
@@ -94,6 +154,7 @@ function validateSelections(selections: RegionSelection[]): void {
  * 
  * @param ageMonths - Patient age in months (determines body proportions)
  * @param selections - Array of regions with burn depth and fractional involvement
+ * @param body - Optional weight/height; when given, BSA (m²) and burned m² are included
  * @returns Complete TBSA result with total percentage and regional breakdown
  * 
  * AI Development Notes:
@@ -103,14 +164,18 @@ function validateSelections(selections: RegionSelection[]): void {
  * - Uses round1() utility to prevent floating point display issues
  * - Test cases cover infant, child, and adult scenarios
  */
-export function calculateTBSA(ageMonths: number, selections: RegionSelection[]): TbsaResult {
+export function calculateTBSA(
+  ageMonths: number,
+  selections: RegionSelection[],
+  body?: { weightKg: number; heightCm?: number; bsaMethod?: Exclude<BsaMethod, 'costeff'> }
+): TbsaResult {
   // Validate age bounds and handle edge cases first
   if (!Number.isFinite(ageMonths) || ageMonths < 0 || ageMonths > 1200) {
     throw new Error(`Invalid age: ${ageMonths} months. Age must be between 0 and 1200 months (100 years)`);
   }
   
   // Apply original validation for specific error messages
-  validateSelections(selections);
+  validateSelections(selections, ageMonths / 12);
   
   // Enhanced input validation for edge cases not caught by original validation
   if (!Array.isArray(selections)) {
@@ -128,6 +193,7 @@ export function calculateTBSA(ageMonths: number, selections: RegionSelection[]):
   
   // Calculate TBSA for each selected region with enhanced validation
   let totalTbsa = 0;
+  let superficialTbsa = 0;
   
   for (const selection of selections) {
     // Additional safety checks
@@ -135,16 +201,19 @@ export function calculateTBSA(ageMonths: number, selections: RegionSelection[]):
       throw new Error('Invalid selection object');
     }
     
-    const regionPercent = getBodyAreaPercentage(selection.region, ageYears);
-    const adjustedPercent = regionPercent * selection.fraction;
+    // Quarter/fraction entries scale the region's share; precise %TBSA entries are used as charted
+    const adjustedPercent = getSelectionTbsa(selection, ageYears);
     
     // Prevent NaN or infinite values
     if (!Number.isFinite(adjustedPercent)) {
       throw new Error(`Invalid calculation result for region ${selection.region}`);
     }
     
-    breakdown[selection.region] = round1(adjustedPercent);
-    totalTbsa += adjustedPercent;
+    // Superficial burns are reported separately and do not drive resuscitation
+    const countedPercent = adjustedPercent * getCountedShare(selection);
+    breakdown[selection.region] = round1(countedPercent);
+    totalTbsa += countedPercent;
+    superficialTbsa += adjustedPercent - countedPercent;
   }
   
   // Final validation of calculated TBSA
@@ -160,10 +229,21 @@ export function calculateTBSA(ageMonths: number, selections: RegionSelection[]):
     console.warn('TBSA Clinical Warnings:', validation.warnings);
   }
   
+  // Body surface area in m² for BSA-based formulas
+  const bsa = body ? calculateBSA(body.weightKg, body.heightCm, body.bsaMethod) : undefined;
+  
   return {
     tbsaPct: finalTbsa,
+    superficialPct: round1(superficialTbsa),
+    method: 'lund-browder',
     breakdown,
     ageGroup,
+    depthBreakdown: calculateDepthBreakdown(selections, selection => getSelectionTbsa(selection, ageYears)),
+    ...(bsa && {
+      bsaM2: round2(bsa.bsaM2),
+      burnedBsaM2: round2(calculateBurnedBsa(bsa.bsaM2, finalTbsa)),
+      bsaMethod: bsa.method,
+    }),
     validation: {
       warnings: validation.warnings,
       clinicalFlags: validation.warnings.length > 0
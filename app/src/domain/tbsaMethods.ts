@@ -0,0 +1,207 @@
+/**
+ * Alternative TBSA Estimation Methods
+ *
+ * Prehospital and ED clinicians often estimate burn size with quick rules
+ * rather than the Lund-Browder chart. This module scores the same
+ * RegionSelection[] with the adult and pediatric Rule of Nines, supports the
+ * Rule of Palms for scattered burns, and compares each estimate against
+ * Lund-Browder for teaching.
+ *
+ * Key Clinical Concepts:
+ * - Adult Rule of Nines: head/neck 9, each arm 9, anterior trunk 18,
+ *   posterior trunk 18, each leg 18, perineum 1
+ * - Pediatric Rule of Nines: head/neck 18, each arm 9, anterior trunk 18,
+ *   posterior trunk 18, each leg 13.5, perineum 1
+ * - Rule of Palms: patient's palm including fingers ≈ 1% TBSA
+ * - Each Rule of Nines block is divided between its chart regions in
+ *   Lund-Browder proportion so partial selections still score sensibly
+ * - Superficial zones are excluded from every method's total
+ *
+ * AI Development Notes:
+ * - Lund-Browder (tbsa.ts) remains the reference method
+ * - All functions are pure; selections are validated by calculateTBSA
+ * - The Rule of Palms has no depth breakdown (palms are not charted by depth)
+ * - Test coverage in __tests__/tbsaMethods.test.ts
+ */
+
+import type { BodyArea, RegionSelection, TbsaMethod, TbsaResult } from './types';
+import { calculateDepthBreakdown, calculateTBSA, getCountedShare } from './tbsa';
+import { calculateBurnedBsa } from './bsa';
+import { validateTBSAInputs } from './validation';
+import { getBodyAreaPercentage } from '@/constants/lundBrowder';
+import { round1, round2 } from '@/lib/utils';
+
+/**
+ * Display names for TBSA methods
+ */
+export const TBSA_METHOD_LABELS: Record<TbsaMethod, string> = {
+  'lund-browder': 'Lund-Browder',
+  'rule-of-nines-adult': 'Rule of Nines (adult)',
+  'rule-of-nines-pediatric': 'Rule of Nines (pediatric)',
+  'rule-of-palms': 'Rule of Palms',
+};
+
+/**
+ * Percent TBSA represented by one patient palm (including fingers)
+ */
+export const PALM_PERCENT = 1;
+
+interface NinesBlock {
+  label: string;
+  pct: number;
+  regions: BodyArea[];
+}
+
+const RULE_OF_NINES_ADULT: NinesBlock[] = [
+  { label: 'Head and neck', pct: 9, regions: ['Head', 'Neck'] },
+  { label: 'Anterior trunk', pct: 18, regions: ['Ant_Trunk'] },
+  { label: 'Posterior trunk', pct: 18, regions: ['Post_Trunk', 'R_Buttock', 'L_Buttock'] },
+  { label: 'Right arm', pct: 9, regions: ['R_U_Arm', 'R_L_Arm', 'R_Hand'] },
+  { label: 'Left arm', pct: 9, regions: ['L_U_Arm', 'L_L_Arm', 'L_Hand'] },
+  { label: 'Right leg', pct: 18, regions: ['R_Thigh', 'R_Leg', 'R_Foot'] },
+  { label: 'Left leg', pct: 18, regions: ['L_Thigh', 'L_Leg', 'L_Foot'] },
+  { label: 'Perineum', pct: 1, regions: ['Genitalia'] },
+];
+
+const RULE_OF_NINES_PEDIATRIC: NinesBlock[] = [
+  { label: 'Head and neck', pct: 18, regions: ['Head', 'Neck'] },
+  { label: 'Anterior trunk', pct: 18, regions: ['Ant_Trunk'] },
+  { label: 'Posterior trunk', pct: 18, regions: ['Post_Trunk', 'R_Buttock', 'L_Buttock'] },
+  { label: 'Right arm', pct: 9, regions: ['R_U_Arm', 'R_L_Arm', 'R_Hand'] },
+  { label: 'Left arm', pct: 9, regions: ['L_U_Arm', 'L_L_Arm', 'L_Hand'] },
+  { label: 'Right leg', pct: 13.5, regions: ['R_Thigh', 'R_Leg', 'R_Foot'] },
+  { label: 'Left leg', pct: 13.5, regions: ['L_Thigh', 'L_Leg', 'L_Foot'] },
+  { label: 'Perineum', pct: 1, regions: ['Genitalia'] },
+];
+
+/**
+ * Per-region percentages for a Rule of Nines variant
+ *
+ * Each block's percentage is shared between its regions in proportion to the
+ * Lund-Browder chart (adult chart for the adult rule, infant chart for the
+ * pediatric rule).
+ * @param variant - Adult or pediatric Rule of Nines
+ * @returns Percentage for every body region (sums to 100)
+ */
+export function getRuleOfNinesPercentages(
+  variant: 'rule-of-nines-adult' | 'rule-of-nines-pediatric'
+): Record<BodyArea, number> {
+  const blocks = variant === 'rule-of-nines-adult' ? RULE_OF_NINES_ADULT : RULE_OF_NINES_PEDIATRIC;
+  const referenceAgeYears = variant === 'rule-of-nines-adult' ? 30 : 0;
+  const result = {} as Record<BodyArea, number>;
+
+  blocks.forEach(block => {
+    const chartTotal = block.regions.reduce((sum, r) => sum + getBodyAreaPercentage(r, referenceAgeYears), 0);
+    block.regions.forEach(region => {
+      result[region] = (block.pct * getBodyAreaPercentage(region, referenceAgeYears)) / chartTotal;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Estimates TBSA with the selected method
+ * @param method - Estimation method
+ * @param ageMonths - Patient age in months
+ * @param selections - Region selections (ignored by the Rule of Palms)
+ * @param options - Palm count for the Rule of Palms; weight/height for BSA
+ * @returns TbsaResult recording which method produced the number
+ */
+export function calculateTbsaByMethod(
+  method: TbsaMethod,
+  ageMonths: number,
+  selections: RegionSelection[],
+  options: { palmCount?: number; body?: Parameters<typeof calculateTBSA>[2] } = {}
+): TbsaResult {
+  // Lund-Browder validates inputs and provides BSA/age group for every method
+  const reference = calculateTBSA(ageMonths, selections, options.body);
+  if (method === 'lund-browder') return reference;
+
+  const breakdown = {} as Record<BodyArea, number>;
+  Object.keys(reference.breakdown).forEach(region => {
+    breakdown[region as BodyArea] = 0;
+  });
+
+  let totalTbsa = 0;
+  let superficialTbsa = 0;
+  let depthBreakdown: TbsaResult['depthBreakdown'];
+  if (method === 'rule-of-palms') {
+    const palmCount = options.palmCount ?? 0;
+    if (!Number.isFinite(palmCount) || palmCount < 0 || palmCount > 100) {
+      throw new Error('Palm count must be between 0 and 100');
+    }
+    totalTbsa = palmCount * PALM_PERCENT;
+  } else {
+    const percentages = getRuleOfNinesPercentages(method);
+    selections.forEach(selection => {
+      const regionTbsa = percentages[selection.region] * selection.fraction;
+      const adjusted = regionTbsa * getCountedShare(selection);
+      breakdown[selection.region] = round1(adjusted);
+      totalTbsa += adjusted;
+      superficialTbsa += regionTbsa - adjusted;
+    });
+    depthBreakdown = calculateDepthBreakdown(
+      selections,
+      selection => percentages[selection.region] * selection.fraction
+    );
+  }
+
+  const tbsaPct = round1(totalTbsa);
+  const validation = validateTBSAInputs(ageMonths, tbsaPct);
+  if (!validation.isValid) {
+    throw new Error(`TBSA calculation validation failed: ${validation.errors.join(', ')}`);
+  }
+
+  return {
+    ...reference,
+    tbsaPct,
+    superficialPct: round1(superficialTbsa),
+    method,
+    breakdown,
+    depthBreakdown,
+    ...(reference.bsaM2 !== undefined && {
+      burnedBsaM2: round2(calculateBurnedBsa(reference.bsaM2, tbsaPct)),
+    }),
+    validation: {
+      warnings: validation.warnings,
+      clinicalFlags: validation.warnings.length > 0,
+    },
+  };
+}
+
+/**
+ * Comparison row for the teaching panel
+ */
+export interface TbsaMethodComparison {
+  method: TbsaMethod;
+  label: string;
+  tbsaPct: number;
+  deltaFromLundBrowder: number;
+}
+
+/**
+ * Scores the same burn with every method and reports deviation from Lund-Browder
+ * @param ageMonths - Patient age in months
+ * @param selections - Region selections
+ * @param palmCount - Optional palm count; the Rule of Palms row is omitted without it
+ */
+export function compareTbsaMethods(
+  ageMonths: number,
+  selections: RegionSelection[],
+  palmCount?: number
+): TbsaMethodComparison[] {
+  const methods: TbsaMethod[] = ['lund-browder', 'rule-of-nines-adult', 'rule-of-nines-pediatric'];
+  if (palmCount !== undefined) methods.push('rule-of-palms');
+
+  const lundBrowder = calculateTBSA(ageMonths, selections).tbsaPct;
+  return methods.map(method => {
+    const tbsaPct = calculateTbsaByMethod(method, ageMonths, selections, { palmCount }).tbsaPct;
+    return {
+      method,
+      label: TBSA_METHOD_LABELS[method],
+      tbsaPct,
+      deltaFromLundBrowder: round1(tbsaPct - lundBrowder),
+    };
+  });
+}
@@ -30,6 +30,63 @@ export type BodyArea =
 // Legacy type for backward compatibility
 export type RegionKey = BodyArea;
 
+/**
+ * Finer anatomical regions; each maps to one Lund-Browder parent BodyArea
+ */
+export type SubRegionKey =
+  | 'Face'
+  | 'Scalp'
+  | 'Ant_Neck'
+  | 'Post_Neck'
+  | 'Ant_Trunk'
+  | 'Post_Trunk'
+  | 'R_Buttock'
+  | 'L_Buttock'
+  | 'Genitalia'
+  | 'R_U_Arm_Ant'
+  | 'R_U_Arm_Post'
+  | 'L_U_Arm_Ant'
+  | 'L_U_Arm_Post'
+  | 'R_L_Arm_Ant'
+  | 'R_L_Arm_Post'
+  | 'L_L_Arm_Ant'
+  | 'L_L_Arm_Post'
+  | 'R_Palm'
+  | 'R_Hand_Dorsum'
+  | 'L_Palm'
+  | 'L_Hand_Dorsum'
+  | 'R_Thigh_Ant'
+  | 'R_Thigh_Post'
+  | 'L_Thigh_Ant'
+  | 'L_Thigh_Post'
+  | 'R_Leg_Ant'
+  | 'R_Leg_Post'
+  | 'L_Leg_Ant'
+  | 'L_Leg_Post'
+  | 'R_Foot_Dorsum'
+  | 'R_Sole'
+  | 'L_Foot_Dorsum'
+  | 'L_Sole';
+
+/**
+ * Body surface a sub-region is seen from on the body map
+ */
+export type BodyView = 'anterior' | 'posterior';
+
+/**
+ * Special sites that can be derived from the regions selected
+ */
+export type DerivedSpecialSite = 'face' | 'hands' | 'feet' | 'perineum';
+
+/**
+ * Involvement of one finer sub-region
+ */
+export interface SubRegionSelection {
+  subRegion: SubRegionKey;
+  fraction: number; // Fraction of the sub-region (0-1)
+  depth: BurnDepth; // A sub-region may appear once per depth
+}
+
 /**
  * Fractional involvement of a body region (0.25 increments)
  */
@@ -40,23 +97,72 @@ export type BurnFraction = 0 | 0.25 | 0.5 | 0.75 | 1;
  */
 export type BurnDepth = 'superficial' | 'superficial-partial' | 'deep-partial' | 'full-thickness';
 
+/**
+ * How a region's involvement was charted
+ * - 'quarter': quick entry in 0.25 steps (BurnFraction)
+ * - 'fraction': exact fraction of the region (e.g. 0.1 of the anterior trunk)
+ * - 'percent': exact %TBSA contributed by the region
+ */
+export type RegionEntryMode = 'quarter' | 'fraction' | 'percent';
+
+/**
+ * Part of a region burned to one depth
+ */
+export interface DepthZone {
+  fraction: number; // Fraction of the whole region (0-1)
+  depth: BurnDepth;
+}
+
 /**
  * Selection of a body region with fractional involvement and burn depth
  */
 export interface RegionSelection {
   region: BodyArea;
-  fraction: BurnFraction;
+  fraction: number; // 0-1; a BurnFraction unless entryMode is 'fraction' or 'percent'
   depth?: BurnDepth; // Optional for backward compatibility
+  entryMode?: RegionEntryMode; // Absent means 'quarter' (selections saved before precise mode)
+  tbsaPct?: number; // Charted %TBSA for the region when entryMode is 'percent'
+  zones?: DepthZone[]; // Mixed-depth regions; zone fractions sum to `fraction`, `depth` is the deepest zone
+  subRegions?: SubRegionSelection[]; // Finer detail; when present, fraction and zones are derived from it
+}
+
+/**
+ * Where fluid given before arrival was administered
+ */
+export type PriorFluidSource = 'prehospital' | 'referring-facility';
+
+/**
+ * Resuscitation fluid already given before the current team took over.
+ * Times are hours from injury so they line up with the Parkland schedule.
+ */
+export interface PriorFluidVolume {
+  source: PriorFluidSource;
+  volumeMl: number;
+  startHour: number;
+  endHour: number;
 }
 
+/**
+ * Body surface area equations ('costeff' = weight-only estimate when height is missing)
+ */
+export type BsaMethod = 'mosteller' | 'haycock' | 'dubois' | 'boyd' | 'costeff';
+
 /**
  * Patient demographics for calculations
  */
 export interface PatientData {
   ageMonths: number;
   weightKg: number;
+  heightCm?: number; // Optional - enables height-based BSA and ideal/adjusted body weight
+  sex?: BiologicalSex; // Optional - selects the Devine ideal body weight equation
   hoursSinceInjury: number;
-  mechanism?: string;
+  mechanism?: string; // Free-text description of the injury
+  burnMechanism?: BurnMechanism; // Structured mechanism; switches on its clinical pathway
+  airway?: AirwayAssessment; // Inhalation injury findings
+  fluidFormula?: FluidFormulaId; // Overrides the institutional default
+  tbsaMethod?: TbsaMethod; // Defaults to Lund-Browder
+  palmCount?: number; // Patient palms (≈1% TBSA each) for the Rule of Palms
+  priorFluids?: PriorFluidVolume[]; // Set to account for fluid actually delivered
   specialSites: {
     face: boolean;
     hands: boolean;
@@ -66,13 +172,132 @@ export interface PatientData {
   };
 }
 
+export type BiologicalSex = 'male' | 'female';
+
+/**
+ * Weight a calculation is based on
+ */
+export type WeightBasis = 'actual' | 'ideal' | 'adjusted';
+
+/**
+ * Which weight drives each calculation for obese adults
+ */
+export interface WeightPolicy {
+  resuscitation: WeightBasis;
+  maintenance: WeightBasis;
+  urineOutput: WeightBasis;
+}
+
+/**
+ * Weight used for one calculation and why
+ */
+export interface DosingWeight {
+  weightKg: number;
+  basis: WeightBasis;
+  reason: string;
+}
+
+/**
+ * Actual, ideal and adjusted body weight with the weight chosen for each calculation
+ */
+export interface DosingWeights {
+  actualKg: number;
+  idealKg?: number; // Present when height is recorded
+  adjustedKg?: number;
+  bmi?: number;
+  obese: boolean; // Adult with BMI ≥30; only then does the policy apply
+  resuscitation: DosingWeight;
+  maintenance: DosingWeight;
+  urineOutput: DosingWeight;
+}
+
+/**
+ * Burn mechanism categories
+ */
+export type BurnMechanismType =
+  | 'scald'
+  | 'flame'
+  | 'contact'
+  | 'electrical'
+  | 'chemical'
+  | 'inhalation'
+  | 'friction'
+  | 'frostbite';
+
+/**
+ * Structured mechanism of injury
+ */
+export interface BurnMechanism {
+  type: BurnMechanismType;
+  voltage?: 'low' | 'high'; // Electrical only; high is ≥1000 V
+  chemicalClass?: 'acid' | 'alkali'; // Chemical only
+  agent?: string; // Chemical only, e.g. "sulfuric acid"
+}
+
+/**
+ * Checklist shown for a mechanism pathway
+ */
+export interface PathwayChecklist {
+  title: string;
+  items: string[];
+}
+
+/**
+ * Mechanism-specific management pathway
+ */
+export interface MechanismPathway {
+  mechanism: BurnMechanism;
+  label: string;
+  urineOutputMlPerKgPerHr?: { min: number; max: number }; // Replaces the standard urine output target
+  warnings: string[];
+  checklists: PathwayChecklist[];
+}
+
+/**
+ * Inhalation injury findings from the airway assessment
+ */
+export interface AirwayAssessment {
+  enclosedSpace: boolean; // Fire in an enclosed space or prolonged smoke exposure
+  singedNasalHair: boolean;
+  carbonaceousSputum: boolean;
+  stridor: boolean;
+  hoarseness: boolean;
+  carboxyhemoglobinPct?: number; // COHb %, when measured
+  cyanideSuspected: boolean;
+}
+
+export type InhalationRisk = 'low' | 'moderate' | 'high';
+
+/**
+ * Scored airway assessment
+ */
+export interface AirwayRiskResult {
+  score: number;
+  risk: InhalationRisk;
+  inhalationLikely: boolean; // Raises the expected fluid requirement
+  considerIntubation: boolean;
+  findings: string[];
+  recommendations: string[];
+}
+
+/**
+ * TBSA estimation methods
+ */
+export type TbsaMethod = 'lund-browder' | 'rule-of-nines-adult' | 'rule-of-nines-pediatric' | 'rule-of-palms';
+
 /**
  * TBSA calculation result with enhanced validation
  */
 export interface TbsaResult {
-  tbsaPct: number;
+  tbsaPct: number; // Partial and full thickness only; drives resuscitation
+  superficialPct: number; // Superficial (first-degree) area, reported but not counted
+  method: TbsaMethod;
   breakdown: Record<BodyArea, number>;
   ageGroup: AgeGroup;
+  bsaM2?: number; // Total body surface area (present when weight is supplied)
+  burnedBsaM2?: number; // BSA × TBSA%
+  bsaMethod?: BsaMethod;
+  depthBreakdown?: DepthBreakdown; // Absent when depth is unknown (Rule of Palms)
   validation?: {
     warnings: string[];
     clinicalFlags: boolean;
@@ -80,12 +305,182 @@ export interface TbsaResult {
 }
 
 /**
- * Fluid calculation phases
+ * %TBSA burned at each depth
+ */
+export interface DepthBreakdown {
+  byDepth: Record<BurnDepth, number>;
+  superficialPct: number; // Not counted in TbsaResult.tbsaPct
+  partialThicknessPct: number; // Superficial partial + deep partial
+  fullThicknessPct: number;
+}
+
+/**
+ * ABA burn-center referral criteria
+ */
+export type ReferralCriterionId =
+  | 'partial-thickness'
+  | 'full-thickness'
+  | 'special-sites'
+  | 'age-extremes'
+  | 'electrical'
+  | 'chemical'
+  | 'inhalation'
+  | 'comorbidities'
+  | 'concomitant-trauma'
+  | 'pediatric-capability'
+  | 'social-rehabilitation';
+
+/**
+ * Outcome of one referral criterion ('not-assessed' when the app holds no data for it)
+ */
+export type ReferralStatus = 'met' | 'not-met' | 'not-assessed';
+
+export interface ReferralCriterion {
+  id: ReferralCriterionId;
+  label: string;
+  status: ReferralStatus;
+  reason: string; // Why the criterion was or was not met
+}
+
+/**
+ * Referral criteria checked against the current assessment
+ */
+export interface ReferralAssessment {
+  criteria: ReferralCriterion[]; // Full ABA list in guideline order
+  met: ReferralCriterion[];
+  referralRecommended: boolean;
+}
+
+/**
+ * Fluid calculation phases (day2 = hours 24-48, timeline only)
+ */
+export type FluidPhase = 'first8' | 'next16' | 'day2';
+
+/**
+ * Maintenance fluid methods
+ * - '4-2-1': Holliday-Segar hourly (4/2/1 ml/kg/hr)
+ * - '100-50-20': Holliday-Segar daily (100/50/20 ml/kg/day)
+ * - 'bsa': 1500 ml/m²/day
+ * - 'evaporative': 1500 ml/m²/day plus burn evaporative loss (25 + %TBSA) × BSA ml/hr
+ */
+export type MaintenanceMethod = '4-2-1' | '100-50-20' | 'bsa' | 'evaporative';
+
+/**
+ * Second 24 hours: crystalloid resuscitation replaced by colloid and free water
+ */
+export interface SecondDayFluids {
+  colloidMl: number; // 5% albumin, 0 below the colloid TBSA threshold
+  colloidMlPerHr: number;
+  maintenanceMlPerHr: number;
+  freeWaterMlPerHr: number; // D5W replacing evaporative loss
+  rateMlPerHr: number;
+  totalMl: number;
+}
+
+/**
+ * One day of the day 2-7 fluid plan
  */
-export type FluidPhase = 'first8' | 'next16';
+export interface PostResuscitationDay {
+  day: number; // 2-7
+  startHour: number;
+  endHour: number;
+  colloidMl: number;
+  maintenanceMlPerHr: number;
+  freeWaterMlPerHr: number;
+  rateMlPerHr: number; // Total IV rate
+  totalMl: number;
+  focus: string;
+}
+
+/**
+ * Hourly step when weaning from the final resuscitation rate
+ */
+export interface RateWeanStep {
+  hourFromInjury: number;
+  rateMlPerHr: number;
+}
+
+/**
+ * Energy equations for burn nutrition
+ */
+export type NutritionEquation = 'curreri' | 'galveston';
+
+/**
+ * Daily energy and protein targets
+ */
+export interface NutritionPlan {
+  equation: NutritionEquation;
+  formula: string;
+  kcalPerDay: number;
+  proteinGPerKgPerDay: number;
+  proteinGPerDay: number;
+  startEnteralByHour: number;
+}
+
+/**
+ * Day 2-7 plan after resuscitation ends
+ */
+export interface PostResuscitationPlan {
+  currentDay: number | null; // null before hour 24 and after day 7
+  rateNowMlPerHr: number | null; // IV rate for the current day
+  transition: RateWeanStep[]; // Wean from the hour-24 resuscitation rate to the day 2 rate
+  days: PostResuscitationDay[];
+  nutrition: NutritionPlan;
+  monitoring: string[];
+}
+
+/**
+ * Hourly fluid need after resuscitation ends (hours 24-72)
+ */
+export interface PostResuscitationEstimate {
+  maintenanceMlPerHr: number;
+  evaporativeLossMlPerHr: number; // (25 + %TBSA) × BSA
+  evaporativeLossIncluded: boolean; // Already part of maintenanceMlPerHr (evaporative method), not added again
+  totalMlPerHr: number;
+}
+
+/**
+ * Registered resuscitation formulas
+ */
+export type FluidFormulaId =
+  | 'parkland'
+  | 'modified-brooke'
+  | 'galveston'
+  | 'cincinnati'
+  | 'abls-2'
+  | 'abls-3'
+  | 'abls-4';
+
+/**
+ * Inputs available to a resuscitation formula
+ */
+export interface FluidFormulaInput {
+  weightKg: number;
+  tbsaPct: number;
+  bsaM2?: number;
+}
+
+/**
+ * Resuscitation formula definition
+ */
+export interface FluidFormula {
+  id: FluidFormulaId;
+  name: string;
+  equation: string;
+  population: 'adult' | 'pediatric' | 'all';
+  indication: string;
+  first8hFraction: number; // Share of the 24h volume given in the first 8 hours
+  // 'separate': maintenance as clinically indicated; 'included': already in the volume;
+  // 'required': always add maintenance on top
+  maintenance: 'separate' | 'included' | 'required';
+  totalVolumeMl: (input: FluidFormulaInput) => number;
+}
 
 /**
  * Fluid resuscitation calculation result with enhanced validation
+ *
+ * The `parkland` block holds the phase breakdown for whichever formula was
+ * used; see `formula` for which one.
  */
 export interface FluidResult {
   parkland: {
@@ -97,23 +492,217 @@ export interface FluidResult {
     remainingNext16hMl: number;
     rateNowMlPerHr: number;
     phase: FluidPhase;
+    deliveryBasis: 'scheduled' | 'actual';
+    deliveredTotalMl: number;
+    deficitMl: number; // Positive = behind schedule, negative = ahead of schedule
+    catchUpRateMlPerHr: number;
+    catchUpCeilingMlPerHr: number;
+    exceedsCatchUpCeiling: boolean;
+  };
+  formula: {
+    id: FluidFormulaId;
+    name: string;
+    equation: string;
+    maintenance: FluidFormula['maintenance'];
   };
   maintenance: {
     mlPerHr: number;
-    method: '4-2-1';
+    method: MaintenanceMethod;
+    formula: string; // Equation text for notes
+    evaporativeLossMlPerHr: number; // (25 + %TBSA) × BSA
   };
+  postResuscitation?: PostResuscitationEstimate; // Hours 24-72 only
+  secondDay: SecondDayFluids; // Hours 24-48, also in the timeline
   timeline: Array<{
     hourFromInjury: number;
     targetCumulativeMl: number;
     phase: FluidPhase;
   }>;
   notice?: string;
+  weights?: DosingWeights; // Present when a dosing weight policy was applied
   validation?: {
     warnings: string[];
     clinicalFlags: boolean;
   };
 }
 
+/**
+ * Bedside vital signs recorded during resuscitation
+ */
+export interface VitalSigns {
+  heartRate?: number;
+  systolicBP?: number;
+  diastolicBP?: number;
+  oxygenSat?: number;
+}
+
+/**
+ * One hour of charted resuscitation data entered by the user
+ */
+export interface FlowsheetEntry {
+  hourFromInjury: number; // End of the charted hour (1 = first hour after injury)
+  infusedMl: number;
+  urineOutputMl: number;
+  vitals?: VitalSigns;
+  recordedAt: string; // ISO timestamp
+}
+
+/**
+ * Rate change recommended from one hour's urine output
+ */
+export interface TitrationStep {
+  hourFromInjury: number;
+  fromRateMlPerHr: number;
+  toRateMlPerHr: number;
+  adjustment: 'increase' | 'maintain' | 'decrease';
+  reason: string;
+}
+
+/**
+ * Computed flowsheet row: actual vs Parkland target for one hour
+ */
+export interface FlowsheetRow {
+  hourFromInjury: number;
+  infusedMl: number;
+  cumulativeMl: number;
+  targetCumulativeMl: number;
+  deficitMl: number; // Positive = behind target, negative = ahead of target
+  urineOutputMl: number;
+  urineOutputMlPerKgPerHr: number;
+  vitalsStable: boolean;
+  titration: TitrationStep;
+}
+
+/**
+ * Flowsheet summary across all charted hours
+ */
+export interface FlowsheetSummary {
+  rows: FlowsheetRow[];
+  totalInfusedMl: number;
+  currentDeficitMl: number;
+  recommendedRateMlPerHr: number | null;
+  titrationSteps: TitrationStep[];
+}
+
+/**
+ * Blood glucose checks for children on dextrose maintenance
+ */
+export interface GlucoseMonitoringPlan {
+  intervalHours: number;
+  hypoglycemiaThresholdMgDl: number;
+  instructions: string[];
+}
+
+/**
+ * Dextrose-containing maintenance added on top of resuscitation for small children
+ */
+export interface PediatricMaintenancePlan {
+  required: boolean; // Add maintenance on top of the resuscitation rate
+  reason: string;
+  fluid: string;
+  maintenanceMlPerHr: number; // 0 when not added
+  resuscitationRateMlPerHr: number;
+  totalRateMlPerHr: number; // Resuscitation + added maintenance
+  glucoseMonitoring?: GlucoseMonitoringPlan; // Absent for adults and patients ≥30 kg
+}
+
+export type ColloidStatus = 'not-indicated' | 'planned' | 'start' | 'rescue';
+
+/**
+ * 5% albumin dose and the matching crystalloid reduction
+ */
+export interface ColloidDose {
+  fluid: string;
+  mlPerKgPerTbsa: number; // Dose from the start hour to hour 24, scaled by TBSA band
+  totalMl: number; // Volume from the start hour to hour 24
+  rateMlPerHr: number;
+  crystalloidRateMlPerHr: number; // Current crystalloid rate reduced by the albumin rate
+}
+
+/**
+ * Colloid (albumin) decision for the first 24 hours
+ */
+export interface ColloidRecommendation {
+  status: ColloidStatus;
+  reason: string;
+  startHour?: number; // Hours from injury; absent when not indicated
+  dose?: ColloidDose;
+}
+
+export type FluidCreepAlertId =
+  | 'fluid-creep'
+  | 'pruitt-limit'
+  | 'ivy-approaching'
+  | 'ivy-exceeded'
+  | 'sustained-high-urine-output';
+
+/**
+ * Over-resuscitation alert raised from the cumulative flowsheet
+ */
+export interface FluidCreepAlert {
+  id: FluidCreepAlertId;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+/**
+ * Cumulative resuscitation analytics across all charted hours
+ */
+export interface FluidCreepAnalysis {
+  hoursCharted: number; // Last charted hour (0 when nothing charted)
+  deliveredMl: number;
+  targetMl: number; // Formula target cumulative volume at the last charted hour
+  ratioToTarget: number | null; // Delivered ÷ target (null when the target is 0)
+  weightKg: number; // Resuscitation weight behind every per-kg volume below
+  weightBasis: WeightBasis;
+  deliveredMlPerKgPerTbsa: number;
+  targetMlPerKgPerTbsa: number;
+  formulaMlPerKgPerTbsa: number; // Full 24-hour formula volume
+  ivyIndexMlPerKg: number; // Cumulative delivered volume per kg
+  averageUrineOutputMlPerKgPerHr: number;
+  sustainedHighUrineOutputHours: number; // Consecutive most recent hours above target
+  compartmentSyndromeRisk: boolean;
+  alerts: FluidCreepAlert[];
+  compartmentSyndromePrompts: string[];
+}
+
+/**
+ * Timestamped snapshot of the burn map for serial reassessment
+ */
+export interface Reassessment {
+  id: string;
+  recordedAt: string; // ISO timestamp
+  hoursSinceInjury: number;
+  regionSelections: RegionSelection[];
+  tbsa: TbsaResult;
+}
+
+/**
+ * How a single region changed between two reassessments
+ */
+export type RegionChangeType = 'new' | 'resolved' | 'progressed' | 'improved' | 'extent-changed' | 'unchanged';
+
+export interface RegionChange {
+  region: BodyArea;
+  type: RegionChangeType; // Depth changes take precedence over extent
+  extentChanged: boolean; // Involved fraction changed, also alongside a depth change
+  before?: { fraction: number; depth?: BurnDepth; tbsaPct: number };
+  after?: { fraction: number; depth?: BurnDepth; tbsaPct: number };
+}
+
+/**
+ * Difference between two reassessments
+ */
+export interface ReassessmentDiff {
+  fromId: string;
+  toId: string;
+  hoursElapsed: number;
+  tbsaBefore: number;
+  tbsaAfter: number;
+  tbsaDelta: number;
+  changes: RegionChange[];
+}
+
 /**
  * Burn note template data
  */
@@ -123,6 +712,130 @@ export interface BurnNoteData {
   fluids: FluidResult;
   regions: RegionSelection[];
   timestamp: Date;
+  reassessments?: Reassessment[];
+  flowsheet?: FlowsheetEntry[];
+}
+
+/**
+ * Clinical note types generated from an assessment
+ */
+export type ClinicalNoteType = 'assessment' | 'procedure' | 'discharge' | 'handoff';
+
+/**
+ * FHIR R4 data types used by the assessment export (subset of the specification)
+ */
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference: string; // urn:uuid of another entry in the same Bundle
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: 'http://unitsofmeasure.org';
+  code: string; // UCUM
+}
+
+export interface FhirMeta {
+  security?: FhirCoding[];
+  tag?: FhirCoding[];
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  meta?: FhirMeta;
+  gender: 'male' | 'female' | 'unknown';
+}
+
+export interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueQuantity: FhirQuantity;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'final';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  bodySite?: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+  component?: FhirObservationComponent[];
+}
+
+export interface FhirClinicalImpression {
+  resourceType: 'ClinicalImpression';
+  id: string;
+  status: 'completed';
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  date: string;
+  description: string;
+  summary: string;
+  finding?: Array<{ itemCodeableConcept: FhirCodeableConcept; basis: string }>;
+  supportingInfo?: FhirReference[];
+}
+
+export interface FhirDocumentReference {
+  resourceType: 'DocumentReference';
+  id: string;
+  status: 'current';
+  type: FhirCodeableConcept;
+  subject: FhirReference;
+  date: string;
+  description: string;
+  content: Array<{ attachment: { contentType: string; data: string; title: string; creation: string } }>;
+}
+
+export type FhirResource = FhirPatient | FhirObservation | FhirClinicalImpression | FhirDocumentReference;
+
+export interface FhirBundleEntry {
+  fullUrl: string; // urn:uuid:<resource id>
+  resource: FhirResource;
+  request: { method: 'POST'; url: FhirResource['resourceType'] };
+}
+
+/**
+ * Transaction Bundle that a FHIR server can load in one POST
+ */
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'transaction';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+/**
+ * Saved assessment in the case registry
+ */
+export interface PatientCase {
+  id: string;
+  name: string;
+  patientData: PatientData;
+  regionSelections: RegionSelection[];
+  tbsaResult: TbsaResult | null;
+  fluidResult: FluidResult | null;
+  reassessments?: Reassessment[];
+  flowsheet?: FlowsheetEntry[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  archived: boolean;
 }
 
 /**
@@ -151,4 +864,115 @@ export interface AppSettings {
   units: UnitPreferences;
   language: 'en' | 'es';
   darkMode: boolean;
-}
\ No newline at end of file
+  fluidFormulas?: {
+    adult: FluidFormulaId;
+    pediatric: FluidFormulaId;
+  }; // Institutional default formulas (Parkland when unset)
+  preciseRegionEntry?: boolean; // Edit exact percentages per region instead of quarter steps
+  detailedRegions?: boolean; // Chart face/scalp, palm/dorsum and anterior/posterior limb surfaces separately
+  weightPolicy?: WeightPolicy; // Weight used for obese adults (DEFAULT_WEIGHT_POLICY when unset)
+  maintenanceMethod?: MaintenanceMethod; // Holliday-Segar 4-2-1 when unset
+  report?: ReportSettings; // PDF report branding
+  deidentification?: DeidentificationSettings; // DEFAULT_DEIDENTIFICATION when unset
+  noteTemplates?: Partial<Record<ClinicalNoteType, NoteTemplateHistory>>; // Built-in templates when unset
+}
+
+/**
+ * Institution branding printed on PDF reports
+ */
+export interface ReportSettings {
+  institutionName: string;
+  logoDataUrl?: string; // PNG or JPEG data URL shown in the page header
+}
+
+/**
+ * How identifiers are replaced when data leaves the device
+ * - redact: category markers, dates kept to the year
+ * - pseudonymize: consistent tokens per value, dates kept to the year
+ * - date-shift: consistent tokens, dates moved by one offset per export
+ */
+export type DeidentificationMode = 'redact' | 'pseudonymize' | 'date-shift';
+
+/**
+ * HIPAA Safe Harbor identifier categories detected by domain/deidentify
+ */
+export type PhiCategory = 'name' | 'date' | 'age' | 'mrn' | 'ssn' | 'phone' | 'email' | 'address' | 'mechanism';
+
+/**
+ * De-identification applied to every export path (PDF, JSON, CSV, TXT, FHIR, clipboard)
+ */
+export interface DeidentificationSettings {
+  enabled: boolean;
+  mode: DeidentificationMode;
+}
+
+/**
+ * One identifier removed during de-identification (the original value is never kept)
+ */
+export interface DeidentificationFinding {
+  category: PhiCategory;
+  field: string; // Where it was found, e.g. 'note' or 'patientData.mechanism'
+  replacement: string;
+}
+
+/**
+ * State shared by every field of one export so tokens and date shifts stay consistent
+ */
+export interface DeidentificationContext {
+  mode: DeidentificationMode;
+  dateShiftDays: number; // 0 unless mode is date-shift
+  tokens: Record<string, string>; // 'category:normalized value' -> pseudonym
+  findings: DeidentificationFinding[];
+}
+
+/**
+ * What a de-identification pass removed
+ */
+export interface DeidentificationReport {
+  mode: DeidentificationMode;
+  findings: DeidentificationFinding[];
+  counts: Partial<Record<PhiCategory, number>>;
+}
+
+/**
+ * Value bound to a note template variable
+ */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+/**
+ * Variables available to a note template
+ */
+export type TemplateContext = { [key: string]: TemplateValue };
+
+/**
+ * Rendered template with the variables it could not resolve (left in the text as placeholders)
+ */
+export interface TemplateRenderResult {
+  text: string;
+  unresolved: string[];
+}
+
+/**
+ * One saved revision of an institution's note template
+ */
+export interface NoteTemplateVersion {
+  version: number; // 1, 2, 3... per note type
+  source: string;
+  savedAt: string; // ISO timestamp
+  comment?: string;
+}
+
+/**
+ * Saved revisions of one note template; activeVersion null uses the built-in default
+ */
+export interface NoteTemplateHistory {
+  versions: NoteTemplateVersion[];
+  activeVersion: number | null;
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import type { RegionKey, BurnFraction } from './types';
+import type { RegionKey, BurnFraction, SubRegionKey } from './types';
+import { SUB_REGIONS } from '@/constants/subRegions';
 
 const VALID_FRACTIONS: BurnFraction[] = [0, 0.25, 0.5, 0.75, 1];
 
@@ -29,6 +30,7 @@ const VALID_REGIONS: RegionKey[] = [
 export const CLINICAL_RANGES = {
   AGE_MONTHS: { min: 0, max: 1200 },      // 0-100 years
   WEIGHT_KG: { min: 0.5, max: 300 },     // 0.5kg-300kg (premie to extreme obesity)
+  HEIGHT_CM: { min: 25, max: 250 },      // 25cm-250cm (premie to very tall adult)
   TBSA_PERCENT: { min: 0, max: 100 },    // 0-100% body surface area
   HOURS_SINCE_INJURY: { min: 0, max: 168 }, // 0-7 days (168 hours)
   URINE_OUTPUT: { min: 0, max: 500 },    // 0-500ml/hr reasonable range
@@ -40,9 +42,67 @@ export const CLINICAL_RANGES = {
 
 export const regionSelectionSchema = z.object({
   region: z.enum(VALID_REGIONS as [RegionKey, ...RegionKey[]]),
-  fraction: z.number().refine((val) => VALID_FRACTIONS.includes(val as BurnFraction)),
+  fraction: z.number().min(0).max(1),
+  depth: z.enum(['superficial', 'superficial-partial', 'deep-partial', 'full-thickness']).optional(),
+  entryMode: z.enum(['quarter', 'fraction', 'percent']).optional(),
+  tbsaPct: z.number().min(0).max(100).optional(),
+  zones: z.array(z.object({
+    fraction: z.number().gt(0).max(1),
+    depth: z.enum(['superficial', 'superficial-partial', 'deep-partial', 'full-thickness']),
+  })).optional(),
+  subRegions: z.array(z.object({
+    subRegion: z.enum(Object.keys(SUB_REGIONS) as [SubRegionKey, ...SubRegionKey[]]),
+    fraction: z.number().gt(0).max(1),
+    depth: z.enum(['superficial', 'superficial-partial', 'deep-partial', 'full-thickness']),
+  })).optional(),
+})
+  .refine(
+    (val) => (val.entryMode ?? 'quarter') !== 'quarter' || VALID_FRACTIONS.includes(val.fraction as BurnFraction),
+    'Quarter-step selections must be 0, 0.25, 0.5, 0.75, or 1'
+  )
+  .refine(
+    (val) => val.entryMode !== 'percent' || val.tbsaPct !== undefined,
+    'Precise %TBSA selections must include tbsaPct'
+  )
+  .refine(
+    (val) => !val.zones || val.zones.reduce((sum, zone) => sum + zone.fraction, 0) <= 1 + 1e-9,
+    'Depth zones must not total more than the whole region'
+  )
+  .refine(
+    (val) => !val.subRegions || val.subRegions.every(sub => SUB_REGIONS[sub.subRegion].parent === val.region),
+    'Sub-regions must belong to the selected region'
+  );
+
+export const burnMechanismSchema = z.object({
+  type: z.enum(['scald', 'flame', 'contact', 'electrical', 'chemical', 'inhalation', 'friction', 'frostbite']),
+  voltage: z.enum(['low', 'high']).optional(),
+  chemicalClass: z.enum(['acid', 'alkali']).optional(),
+  agent: z.string().max(100).optional(),
+});
+
+export const airwayAssessmentSchema = z.object({
+  enclosedSpace: z.boolean(),
+  singedNasalHair: z.boolean(),
+  carbonaceousSputum: z.boolean(),
+  stridor: z.boolean(),
+  hoarseness: z.boolean(),
+  carboxyhemoglobinPct: z.number().min(0, 'Carboxyhemoglobin cannot be negative').max(100, 'Carboxyhemoglobin cannot exceed 100%').optional(),
+  cyanideSuspected: z.boolean(),
 });
 
+export const priorFluidVolumeSchema = z.object({
+  source: z.enum(['prehospital', 'referring-facility']),
+  volumeMl: z.number()
+    .min(0, 'Prior fluid volume cannot be negative')
+    .max(20000, 'Prior fluid volume exceeds reasonable maximum (20L)'),
+  startHour: z.number()
+    .min(CLINICAL_RANGES.HOURS_SINCE_INJURY.min, 'Prior fluid start time cannot be before injury')
+    .max(CLINICAL_RANGES.HOURS_SINCE_INJURY.max, 'Prior fluid start time exceeds maximum (7 days)'),
+  endHour: z.number()
+    .min(CLINICAL_RANGES.HOURS_SINCE_INJURY.min, 'Prior fluid end time cannot be before injury')
+    .max(CLINICAL_RANGES.HOURS_SINCE_INJURY.max, 'Prior fluid end time exceeds maximum (7 days)'),
+}).refine(val => val.endHour >= val.startHour, 'Prior fluid end time must not be before start time');
+
 export const patientDataSchema = z.object({
   ageMonths: z.number()
     .min(CLINICAL_RANGES.AGE_MONTHS.min, 'Age cannot be negative')
@@ -52,11 +112,25 @@ export const patientDataSchema = z.object({
     .min(CLINICAL_RANGES.WEIGHT_KG.min, 'Weight must be at least 0.5kg')
     .max(CLINICAL_RANGES.WEIGHT_KG.max, 'Weight exceeds maximum (300kg)')
     .refine(val => !isNaN(val) && isFinite(val), 'Weight must be a valid number'),
+  heightCm: z.number()
+    .min(CLINICAL_RANGES.HEIGHT_CM.min, 'Height must be at least 25cm')
+    .max(CLINICAL_RANGES.HEIGHT_CM.max, 'Height exceeds maximum (250cm)')
+    .optional(),
+  sex: z.enum(['male', 'female']).optional(),
   hoursSinceInjury: z.number()
     .min(CLINICAL_RANGES.HOURS_SINCE_INJURY.min, 'Hours since injury cannot be negative')
     .max(CLINICAL_RANGES.HOURS_SINCE_INJURY.max, 'Hours since injury exceeds maximum (7 days)')
     .refine(val => !isNaN(val) && isFinite(val), 'Hours since injury must be a valid number'),
   mechanism: z.string().optional(),
+  burnMechanism: burnMechanismSchema.optional(),
+  airway: airwayAssessmentSchema.optional(),
+  fluidFormula: z.enum(['parkland', 'modified-brooke', 'galveston', 'cincinnati', 'abls-2', 'abls-3', 'abls-4']).optional(),
+  tbsaMethod: z.enum(['lund-browder', 'rule-of-nines-adult', 'rule-of-nines-pediatric', 'rule-of-palms']).optional(),
+  palmCount: z.number()
+    .min(0, 'Palm count cannot be negative')
+    .max(100, 'Palm count cannot exceed 100')
+    .optional(),
+  priorFluids: z.array(priorFluidVolumeSchema).optional(),
   specialSites: z.object({
     face: z.boolean(),
     hands: z.boolean(),
@@ -155,7 +229,9 @@ export function validatePatientData(data: unknown): {
     }
     
     if (validatedData.weightKg > 150) {
-      warnings.push('High weight (> 150kg): Consider bariatric considerations for fluid management');
+      warnings.push(validatedData.heightCm === undefined
+        ? 'High weight (> 150kg): Record height so fluids can use ideal/adjusted body weight'
+        : 'High weight (> 150kg): Fluids use the dosing weight policy - confirm the weight used');
     }
     
     if (validatedData.hoursSinceInjury > 24) {
@@ -405,6 +481,21 @@ export function sanitizeWeightInput(input: unknown): number {
   });
 }
 
+/**
+ * Validates and sanitizes height input (empty = not recorded)
+ * @param input - Raw height input
+ * @returns Sanitized height in cm, or undefined when left blank
+ */
+export function sanitizeHeightInput(input: unknown): number | undefined {
+  if (input === '' || input === undefined || input === null) return undefined;
+  return sanitizeNumericInput(input, {
+    min: CLINICAL_RANGES.HEIGHT_CM.min,
+    max: CLINICAL_RANGES.HEIGHT_CM.max,
+    allowDecimals: true,
+    fieldName: 'Height'
+  });
+}
+
 /**
  * Validates and sanitizes TBSA percentage input
  * @param input - Raw TBSA input
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { buildReportBlocks, decodeDataUrl, generatePDFReport, parseNoteBlocks } from '../pdfGenerator';
+import type { ReportBlock } from '../pdfLayout';
+import { calculateFluids } from '@/domain/fluids';
+import { calculateTBSA } from '@/domain/tbsa';
+import { createFlowsheetEntry } from '@/domain/flowsheet';
+import { makeClinicalNote } from '@/domain/notes';
+import type { BurnNoteData, ClinicalNoteType, PatientData, RegionSelection } from '@/domain/types';
+
+const patient: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 2,
+  mechanism: 'House fire',
+  specialSites: { face: true, hands: false, feet: false, perineum: false, majorJoints: false },
+};
+const regions: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial' },
+  { region: 'R_U_Arm', fraction: 0.5, depth: 'full-thickness' },
+];
+const tbsa = calculateTBSA(patient.ageMonths, regions);
+const data: BurnNoteData = {
+  patient,
+  tbsa,
+  fluids: calculateFluids({ ...patient, tbsaPct: tbsa.tbsaPct }),
+  regions,
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+  flowsheet: [createFlowsheetEntry(1, 500, 40, {}, new Date('2024-01-01T12:00:00Z'))],
+};
+const NOTE_TYPES: ClinicalNoteType[] = ['assessment', 'procedure', 'discharge', 'handoff'];
+
+const figureTypes = (blocks: ReportBlock[]) =>
+  blocks.filter(block => ['table', 'chart', 'bodyMap'].includes(block.type)).map(block => block.type);
+const precedingHeading = (blocks: ReportBlock[], type: ReportBlock['type']) => {
+  const index = blocks.findIndex(block => block.type === type);
+  const heading = blocks.slice(0, index).reverse().find(block => block.type === 'heading');
+  return heading?.type === 'heading' ? heading.text : undefined;
+};
+
+describe('parseNoteBlocks', () => {
+  it('should classify headings, fields, bullets and checklist items', () => {
+    const blocks = parseNoteBlocks('BURN NOTE\n\nFLUIDS (PARKLAND):\nWeight: 70 kg\n- First 8h: 2100 mL\n  • nested\n□ Tetanus\nFree text line');
+    expect(blocks).toEqual([
+      { type: 'heading', text: 'BURN NOTE', level: 1 },
+      { type: 'spacer', height: 4 },
+      { type: 'heading', text: 'FLUIDS (PARKLAND)', level: 2 },
+      { type: 'paragraph', label: 'Weight', text: '70 kg' },
+      { type: 'bullet', text: 'First 8h: 2100 mL', marker: 'bullet', indent: 0 },
+      { type: 'bullet', text: 'nested', marker: 'bullet', indent: 1 },
+      { type: 'bullet', text: 'Tetanus', marker: 'checkbox', indent: 0 },
+      { type: 'paragraph', text: 'Free text line' },
+    ]);
+  });
+});
+
+describe('buildReportBlocks', () => {
+  it('should place the TBSA table and body map after the burn section and the chart after fluids', () => {
+    const blocks = buildReportBlocks('assessment', data, makeClinicalNote('assessment', data));
+    expect(figureTypes(blocks)).toEqual(['table', 'bodyMap', 'chart']);
+    expect(precedingHeading(blocks, 'table')).toBe('BURN ASSESSMENT');
+    expect(precedingHeading(blocks, 'chart')).toMatch(/^FLUID RESUSCITATION/);
+  });
+
+  it('should give each note type its own figures', () => {
+    expect(figureTypes(buildReportBlocks('handoff', data, makeClinicalNote('handoff', data)))).toEqual(['table', 'bodyMap', 'chart']);
+    expect(figureTypes(buildReportBlocks('procedure', data, makeClinicalNote('procedure', data)))).toEqual(['bodyMap']);
+    expect(figureTypes(buildReportBlocks('discharge', data, makeClinicalNote('discharge', data)))).toEqual([]);
+  });
+
+  it('should list burned regions with a TBSA total row', () => {
+    const table = buildReportBlocks('assessment', data, makeClinicalNote('assessment', data)).find(block => block.type === 'table');
+    expect(table).toMatchObject({
+      rows: [['Anterior trunk', '100%', 'deep-partial', '13%'], [expect.any(String), '50%', 'full-thickness', '2%']],
+      footer: ['Total (partial and full thickness)', '', '', '15%'],
+    });
+  });
+
+  it('should chart infused volume from the flowsheet alongside the target', () => {
+    const chart = buildReportBlocks('assessment', data, '').find(block => block.type === 'chart');
+    expect(chart?.type === 'chart' && chart.series.map(series => series.label)).toEqual(['Parkland target', 'Infused (flowsheet)']);
+  });
+});
+
+describe('decodeDataUrl', () => {
+  it('should decode base64 data URLs and reject anything else', () => {
+    expect(Array.from(decodeDataUrl('data:image/png;base64,iVBO'))).toEqual([0x89, 0x50, 0x4e]);
+    expect(() => decodeDataUrl('https://example.com/logo.png')).toThrow('Logo must be a base64 data URL');
+  });
+});
+
+describe('generatePDFReport', () => {
+  it.each(NOTE_TYPES)('should render a valid PDF for the %s note', async noteType => {
+    const bytes = await generatePDFReport(noteType, data, makeClinicalNote(noteType, data), { institutionName: 'General Hospital' });
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getPageCount()).toBeGreaterThanOrEqual(1);
+  });
+});
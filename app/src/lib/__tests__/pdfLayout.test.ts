@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { layoutReport, renderReport, toWinAnsi, wrapText, PAGE_MARGIN, type DrawOp, type ReportBlock } from '../pdfLayout';
+
+// Fixed-width measure: every character is half the font size wide
+const measure = (text: string, size: number) => text.length * size * 0.5;
+const options = { title: 'Burn Assessment Note', institutionName: 'General Hospital', disclaimer: 'Educational use only.' };
+const texts = (ops: DrawOp[]) => ops.flatMap(op => (op.kind === 'text' ? [op.text] : []));
+
+describe('wrapText', () => {
+  const byChar = (text: string) => text.length;
+
+  it('should break at spaces within the width', () => {
+    expect(wrapText('the quick brown fox jumps', 10, byChar)).toEqual(['the quick', 'brown fox', 'jumps']);
+  });
+
+  it('should hard-break words longer than a line', () => {
+    expect(wrapText('abcdefghijkl xy', 5, byChar)).toEqual(['abcde', 'fghij', 'kl xy']);
+  });
+
+  it('should use a narrower first line after a label', () => {
+    expect(wrapText('one two three', 10, byChar, 4)).toEqual(['one', 'two three']);
+  });
+});
+
+describe('toWinAnsi', () => {
+  it('should replace characters the standard fonts cannot encode', () => {
+    expect(toWinAnsi('UO ≥0.5 → wean, 4 ml × kg, 1.8 m², ⚠️ note')).toBe('UO >=0.5 -> wean, 4 ml × kg, 1.8 m², ! note');
+    expect(toWinAnsi('漢')).toBe('?');
+  });
+});
+
+describe('layoutReport', () => {
+  it('should wrap long paragraphs instead of running off the page', () => {
+    const [page] = layoutReport([{ type: 'paragraph', text: 'word '.repeat(200) }], options, measure);
+    const lines = page.ops.filter((op): op is Extract<DrawOp, { kind: 'text' }> => op.kind === 'text' && op.text.startsWith('word'));
+    expect(lines.length).toBeGreaterThan(5);
+    lines.forEach(line => expect(line.x + measure(line.text, line.size)).toBeLessThanOrEqual(595 - PAGE_MARGIN));
+  });
+
+  it('should number pages and repeat header and disclaimer on every page', () => {
+    const blocks: ReportBlock[] = Array.from({ length: 150 }, (_, i) => ({ type: 'paragraph', text: `Line ${i}` }));
+    const pages = layoutReport(blocks, options, measure);
+    expect(pages.length).toBe(3);
+    pages.forEach((page, index) => {
+      expect(texts(page.ops)).toContain(`Page ${index + 1} of 3`);
+      expect(texts(page.ops)).toContain('General Hospital');
+      expect(texts(page.ops)).toContain('Educational use only.');
+    });
+  });
+
+  it('should keep content between the header and the footer', () => {
+    const blocks: ReportBlock[] = Array.from({ length: 150 }, (_, i) => ({ type: 'paragraph', text: `Line ${i}` }));
+    layoutReport(blocks, options, measure).forEach(page => {
+      page.ops
+        .filter((op): op is Extract<DrawOp, { kind: 'text' }> => op.kind === 'text' && op.text.startsWith('Line'))
+        .forEach(op => {
+          expect(op.y).toBeGreaterThan(PAGE_MARGIN + 20);
+          expect(op.y).toBeLessThan(842 - PAGE_MARGIN - 40);
+        });
+    });
+  });
+
+  it('should repeat the table header when a table breaks across pages', () => {
+    const table: ReportBlock = {
+      type: 'table',
+      columns: [{ header: 'Region', width: 0.5 }, { header: '% TBSA', width: 0.5, align: 'right' }],
+      rows: Array.from({ length: 80 }, (_, i) => [`Region ${i}`, `${i}%`]),
+    };
+    const pages = layoutReport([table], options, measure);
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach(page => expect(texts(page.ops)).toContain('Region'));
+    expect(pages.flatMap(page => texts(page.ops)).filter(text => text.startsWith('Region ')).length).toBe(80);
+  });
+
+  it('should draw the chart and body map as vectors', () => {
+    const [page] = layoutReport([
+      {
+        type: 'chart',
+        title: 'Fluid timeline',
+        xLabel: 'Hours',
+        yLabel: 'mL',
+        series: [{ label: 'Target', points: [{ x: 0, y: 0 }, { x: 8, y: 2000 }, { x: 24, y: 4000 }], color: [0, 0, 1] }],
+      },
+      { type: 'bodyMap', title: 'Body map', regions: [{ region: 'Ant_Trunk', depth: 'full-thickness', fraction: 1 }] },
+    ], options, measure);
+    // Two segments for the series plus one legend sample
+    expect(page.ops.filter(op => op.kind === 'line' && op.color?.[2] === 1)).toHaveLength(3);
+    const filled = page.ops.filter(op => op.kind === 'path' && op.fill);
+    expect(filled).toHaveLength(1);
+    expect(page.ops.some(op => op.kind === 'logo')).toBe(false);
+  });
+
+  it('should place the logo before the institution name', () => {
+    const [page] = layoutReport([], { ...options, logoSize: { width: 72, height: 36 } }, measure);
+    const logo = page.ops.find(op => op.kind === 'logo');
+    const name = page.ops.find(op => op.kind === 'text' && op.text === 'General Hospital');
+    expect(logo).toMatchObject({ x: PAGE_MARGIN, width: 72 });
+    expect(name).toMatchObject({ x: PAGE_MARGIN + 82 });
+  });
+});
+
+describe('renderReport', () => {
+  it('should produce a PDF with one page per laid-out page', async () => {
+    const blocks: ReportBlock[] = [
+      { type: 'heading', text: 'BURN ASSESSMENT NOTE', level: 1 },
+      ...Array.from({ length: 120 }, (_, i): ReportBlock => ({ type: 'bullet', text: `Item ${i} → ≥ check`, marker: 'checkbox' })),
+    ];
+    const bytes = await renderReport(blocks, options);
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getPageCount()).toBe(3);
+    expect(pdf.getTitle()).toBe('Burn Assessment Note');
+  });
+
+  it('should reject a logo that is not PNG or JPEG', async () => {
+    await expect(renderReport([], { ...options, logo: new Uint8Array([0x47, 0x49, 0x46]) }))
+      .rejects.toThrow('Logo must be a PNG or JPEG image');
+  });
+});
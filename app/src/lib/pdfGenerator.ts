@@ -1,140 +1,277 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import html2canvas from 'html2canvas';
+/**
+ * PDF Report Generation
+ *
+ * Turns any clinical note from domain/notes into a structured PDF report:
+ * the note text becomes headings, wrapped paragraphs and checklists, and
+ * each note type gets its figures (per-region TBSA table, vector body map,
+ * fluid timeline chart) placed after the section they belong to.
+ *
+ * AI Development Notes:
+ * - Layout and painting live in pdfLayout; this module only builds blocks
+ * - Note parsing relies on the note conventions: UPPERCASE section headings
+ *   ending in ':', '- '/'• ' bullets and '□' checklist items
+ * - Test coverage in __tests__/pdfGenerator.test.ts
+ */
+
+import { renderReport, type ReportBlock, type Rgb } from '@/lib/pdfLayout';
+import { NOTE_TITLES } from '@/domain/notes';
+import { BODY_SITE_CODES } from '@/domain/fhir';
+import { buildFlowsheet } from '@/domain/flowsheet';
+import { getDeepestDepth, getSelectionZones } from '@/domain/regionSelections';
+import type { BurnNoteData, ClinicalNoteType } from '@/domain/types';
+
+export interface PdfReportOptions {
+  institutionName?: string;
+  logo?: Uint8Array; // PNG or JPEG bytes
+}
+
+type ReportFigure = 'tbsa-table' | 'body-map' | 'fluid-chart';
 
 /**
- * Generates a professional PDF report for burn assessments
- * @param content - Clinical note content
- * @param bodyMapElement - Optional HTML element containing body map visualization
- * @param institutionName - Institution name for header
- * @returns PDF bytes (Uint8Array)
+ * Disclaimer printed in the footer of every page
  */
-export async function generatePDFReport(
-  content: string,
-  bodyMapElement?: HTMLElement,
-  institutionName: string = 'Burn Center'
-): Promise<Uint8Array> {
-  // Create a new PDF document
-  const pdfDoc = await PDFDocument.create();
-  let page = pdfDoc.addPage([595, 842]); // A4 size
-  
-  // Set up fonts
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-  
-  try {
-    // Add institution header
-    page.drawText(institutionName, {
-    x: 50,
-    y: 800,
-    size: 16,
-    font: boldFont,
-    color: rgb(0, 0.2, 0.4),
-  });
-  
-  page.drawText('Burn Assessment Report', {
-    x: 50,
-    y: 780,
-    size: 12,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  
-  page.drawLine({
-    start: { x: 50, y: 775 },
-    end: { x: 545, y: 775 },
-    thickness: 1,
-    color: rgb(0, 0.2, 0.4),
-  });
-  
-  // Add report content
-  const lines = content.split('\n');
-  let yPosition = 750;
-  
-  for (const line of lines) {
-    if (yPosition < 50) {
-      // Add new page if we run out of space
-      const newPage = pdfDoc.addPage([595, 842]);
-      yPosition = 800;
-      page = newPage;
+export const REPORT_DISCLAIMER =
+  'Educational tool only. All calculations and treatments must be verified with institutional protocols and clinical judgment. Not for direct patient care decisions.';
+
+/**
+ * Figures for each note type, keyed by the section they follow
+ */
+const NOTE_FIGURES: Record<ClinicalNoteType, Array<{ section: string; figures: ReportFigure[] }>> = {
+  assessment: [
+    { section: 'BURN ASSESSMENT', figures: ['tbsa-table', 'body-map'] },
+    { section: 'FLUID RESUSCITATION', figures: ['fluid-chart'] },
+  ],
+  handoff: [
+    { section: 'INJURY DETAILS', figures: ['tbsa-table', 'body-map'] },
+    { section: 'CURRENT FLUID STATUS', figures: ['fluid-chart'] },
+  ],
+  procedure: [
+    { section: 'WOUND ASSESSMENT', figures: ['body-map'] },
+  ],
+  discharge: [],
+};
+
+const TARGET_COLOR: Rgb = [0, 0.4, 0.6];
+const INFUSED_COLOR: Rgb = [0.85, 0.35, 0.1];
+
+/**
+ * Section heading text without the colon or a trailing parenthetical
+ */
+function sectionKey(heading: string): string {
+  return heading.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+function isSectionHeading(line: string): boolean {
+  if (!line.endsWith(':')) return false;
+  const bare = line.slice(0, -1).replace(/\([^)]*\)/g, '');
+  return /[A-Z]{2}/.test(bare) && bare === bare.toUpperCase();
+}
+
+/**
+ * Converts note text to report blocks
+ * @param noteText - Note as generated by domain/notes
+ * @returns Title heading, section headings, paragraphs, bullets and checklists
+ */
+export function parseNoteBlocks(noteText: string): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  let titled = false;
+
+  for (const rawLine of noteText.split('\n')) {
+    const line = rawLine.trimEnd();
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      if (blocks.length > 0 && blocks[blocks.length - 1].type !== 'spacer') blocks.push({ type: 'spacer', height: 4 });
+      continue;
+    }
+    if (!titled) {
+      blocks.push({ type: 'heading', text: trimmed, level: 1 });
+      titled = true;
+      continue;
+    }
+
+    const indent = Math.floor((line.length - line.trimStart().length) / 2);
+    const checkbox = trimmed.match(/^□\s*(.*)$/);
+    const bullet = trimmed.match(/^[-•]\s+(.*)$/);
+    const field = trimmed.match(/^([A-Za-z][A-Za-z /]{0,30}): (.+)$/);
+
+    if (checkbox) {
+      blocks.push({ type: 'bullet', text: checkbox[1], marker: 'checkbox', indent });
+    } else if (bullet) {
+      blocks.push({ type: 'bullet', text: bullet[1], marker: 'bullet', indent });
+    } else if (isSectionHeading(trimmed)) {
+      blocks.push({ type: 'heading', text: trimmed.slice(0, -1), level: 2 });
+    } else if (field) {
+      blocks.push({ type: 'paragraph', label: field[1], text: field[2] });
+    } else {
+      blocks.push({ type: 'paragraph', text: trimmed });
     }
-    
-    page.drawText(line, {
-      x: 50,
-      y: yPosition,
-      size: 10,
-      font: font,
-      color: rgb(0, 0, 0),
+  }
+
+  while (blocks.length > 0 && blocks[blocks.length - 1].type === 'spacer') blocks.pop();
+  return blocks;
+}
+
+/**
+ * Per-region TBSA table (absent when no regions are charted, e.g. Rule of Palms)
+ */
+function buildTbsaTable(data: BurnNoteData): ReportBlock | null {
+  const burned = data.regions.filter(selection => selection.fraction > 0);
+  if (burned.length === 0) return null;
+
+  return {
+    type: 'table',
+    caption: 'Burn extent by region',
+    columns: [
+      { header: 'Region', width: 0.3 },
+      { header: 'Extent of region', width: 0.2, align: 'right' },
+      { header: 'Depth', width: 0.32 },
+      { header: '% TBSA', width: 0.18, align: 'right' },
+    ],
+    rows: burned.map(selection => {
+      const zones = getSelectionZones(selection);
+      const depth = zones.length > 1
+        ? zones.map(zone => `${Math.round(zone.fraction * 100)}% ${zone.depth}`).join(', ')
+        : selection.depth ?? 'Not recorded';
+      const extent = selection.entryMode === 'percent' && selection.tbsaPct !== undefined
+        ? `${selection.tbsaPct}% TBSA`
+        : `${Math.round(selection.fraction * 100)}%`;
+      return [BODY_SITE_CODES[selection.region].text, extent, depth, `${data.tbsa.breakdown[selection.region] ?? 0}%`];
+    }),
+    footer: ['Total (partial and full thickness)', '', '', `${data.tbsa.tbsaPct}%`],
+  };
+}
+
+function buildBodyMap(data: BurnNoteData): ReportBlock {
+  return {
+    type: 'bodyMap',
+    title: 'Body map (shaded by deepest depth)',
+    regions: data.regions
+      .filter(selection => selection.fraction > 0)
+      .map(selection => ({
+        region: selection.region,
+        depth: getDeepestDepth(getSelectionZones(selection)),
+        fraction: selection.fraction,
+      })),
+  };
+}
+
+/**
+ * Cumulative target curve with charted infusion when a flowsheet exists
+ */
+function buildFluidChart(data: BurnNoteData): ReportBlock {
+  const { fluids, flowsheet = [] } = data;
+  const series: Extract<ReportBlock, { type: 'chart' }>['series'] = [{
+    label: `${fluids.formula.name} target`,
+    points: fluids.timeline.map(point => ({ x: point.hourFromInjury, y: point.targetCumulativeMl })),
+    color: TARGET_COLOR,
+  }];
+
+  if (flowsheet.length > 0) {
+    const { rows } = buildFlowsheet(flowsheet, fluids, {
+      weightKg: data.patient.weightKg,
+      ageMonths: data.patient.ageMonths,
+      mechanism: data.patient.burnMechanism,
+    });
+    series.push({
+      label: 'Infused (flowsheet)',
+      points: [{ x: 0, y: 0 }, ...rows.map(row => ({ x: row.hourFromInjury, y: row.cumulativeMl }))],
+      color: INFUSED_COLOR,
+      dashed: true,
     });
-    
-    yPosition -= 15;
   }
-  
-  // Add body map visualization if available
-  if (bodyMapElement) {
-    try {
-      const canvas = await html2canvas(bodyMapElement);
-      const imageData = await new Promise<Uint8Array>((resolve) => {
-        canvas.toBlob((blob) => {
-          const reader = new FileReader();
-          reader.onloadend = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
-          reader.readAsArrayBuffer(blob!);
-        }, 'image/png');
-      });
-      
-      const image = await pdfDoc.embedPng(imageData);
-      const { width, height } = image.scale(0.5);
-      
-      page.drawImage(image, {
-        x: 50,
-        y: yPosition - height - 20,
-        width,
-        height,
-      });
-    } catch (error) {
-      console.error('Failed to capture body map:', error);
-      page.drawText('Body Map Visualization Unavailable', {
-        x: 50,
-        y: yPosition - 30,
-        size: 10,
-        font: font,
-        color: rgb(0.5, 0, 0),
-      });
-    }
+
+  return {
+    type: 'chart',
+    title: 'Fluid timeline',
+    xLabel: 'Hours from injury',
+    yLabel: 'Cumulative mL',
+    series,
+  };
+}
+
+function buildFigure(figure: ReportFigure, data: BurnNoteData): ReportBlock | null {
+  switch (figure) {
+    case 'tbsa-table':
+      return buildTbsaTable(data);
+    case 'body-map':
+      return buildBodyMap(data);
+    case 'fluid-chart':
+      return buildFluidChart(data);
   }
-  
-  // Add footer
-  page.drawText(`Generated on ${new Date().toLocaleDateString()}`, {
-    x: 50,
-    y: 30,
-    size: 8,
-    font: font,
-    color: rgb(0.5, 0.5, 0.5),
-  });
-  
-    return await pdfDoc.save();
-  } catch (error) {
-    console.error('PDF generation failed:', error);
-    throw new Error('Failed to generate PDF document');
+}
+
+/**
+ * Builds report blocks for a note, inserting the note type's figures
+ * @param noteType - Which note the text came from
+ * @param data - Assessment data behind the note
+ * @param noteText - Note text (possibly de-identified)
+ * @returns Blocks with figures after their sections (appended when the section is missing)
+ */
+export function buildReportBlocks(noteType: ClinicalNoteType, data: BurnNoteData, noteText: string): ReportBlock[] {
+  const pending = [...NOTE_FIGURES[noteType]];
+  const blocks: ReportBlock[] = [];
+  let currentSection: string | null = null;
+
+  const flushSection = () => {
+    const index = pending.findIndex(entry => entry.section === currentSection);
+    if (index === -1) return;
+    pending[index].figures.forEach(figure => {
+      const block = buildFigure(figure, data);
+      if (block) blocks.push(block);
+    });
+    pending.splice(index, 1);
+  };
+
+  for (const block of parseNoteBlocks(noteText)) {
+    if (block.type === 'heading' && block.level === 2) {
+      flushSection();
+      currentSection = sectionKey(block.text);
+    }
+    blocks.push(block);
   }
+  flushSection();
+
+  pending.forEach(entry => entry.figures.forEach(figure => {
+    const block = buildFigure(figure, data);
+    if (block) blocks.push(block);
+  }));
+  return blocks;
+}
+
+/**
+ * Decodes a base64 data URL (as stored for the report logo) to bytes
+ * @throws Error when the value is not a base64 data URL
+ */
+export function decodeDataUrl(dataUrl: string): Uint8Array {
+  const match = dataUrl.match(/^data:[^;,]+;base64,(.*)$/);
+  if (!match) throw new Error('Logo must be a base64 data URL');
+  return Uint8Array.from(atob(match[1]), char => char.charCodeAt(0));
 }
 
 /**
- * Redacts PHI (Protected Health Information) from text content
- * @param content - Text content to redact
- * @returns Redacted content
+ * Generates a PDF report for any clinical note
+ * @param noteType - Which note is being exported
+ * @param data - Assessment data behind the note
+ * @param noteText - Note text (de-identify before passing when required)
+ * @param options - Institution name and logo for the page header
+ * @returns PDF bytes (Uint8Array)
  */
-export function redactPHI(content: string): string {
-  const PHI_PATTERNS = [
-    // Patient identifiers
-    /(\b(name|patient|pt)\b:\s*)([^\n]+)/gi,
-    /(\b(dob|date of birth)\b:\s*)([^\n]+)/gi,
-    /(\b(mrn|id)\b:\s*)([^\n]+)/gi,
-    // Contact information
-    /(\b(address|phone|contact)\b:\s*)([^\n]+)/gi,
-    // Provider identifiers
-    /(\b(provider|dr|md)\b\.?\s*)([^\n]+)/gi
-  ];
-  
-  return PHI_PATTERNS.reduce((text, pattern) => 
-    text.replace(pattern, '$1[REDACTED]'), content);
+export async function generatePDFReport(
+  noteType: ClinicalNoteType,
+  data: BurnNoteData,
+  noteText: string,
+  options: PdfReportOptions = {}
+): Promise<Uint8Array> {
+  try {
+    return await renderReport(buildReportBlocks(noteType, data, noteText), {
+      title: NOTE_TITLES[noteType],
+      institutionName: options.institutionName || 'Burn Center',
+      disclaimer: REPORT_DISCLAIMER,
+      logo: options.logo,
+    });
+  } catch (error) {
+    console.error('PDF generation failed:', error);
+    throw new Error('Failed to generate PDF document');
+  }
 }
@@ -0,0 +1,625 @@
+/**
+ * PDF Layout Engine
+ *
+ * Lays out a report described as blocks (headings, wrapped paragraphs,
+ * bullets, tables, charts and the body map) onto A4 pages, then paints the
+ * result with pdf-lib. Layout is a pure pass producing positioned draw
+ * operations per page, so wrapping and pagination can be tested without
+ * rendering; painting turns those operations into PDF content.
+ *
+ * Every page gets the institution header (with optional logo), the
+ * disclaimer footer and "Page X of Y", added once the page count is known.
+ *
+ * AI Development Notes:
+ * - Standard fonts are WinAnsi only; all text goes through toWinAnsi first
+ * - Coordinates are PDF points with the origin at the bottom left
+ * - Test coverage in __tests__/pdfLayout.test.ts
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFImage } from 'pdf-lib';
+import { BODY_MAP_PATHS, BODY_MAP_VIEWBOX, BODY_OUTLINE_PATH } from '@/constants/bodyMapPaths';
+import type { BodyArea, BodyView, BurnDepth } from '@/domain/types';
+
+export type Rgb = [number, number, number];
+
+export interface ReportTableColumn {
+  header: string;
+  width: number; // Share of the content width (columns should total 1)
+  align?: 'left' | 'right';
+}
+
+export interface ReportChartSeries {
+  label: string;
+  points: Array<{ x: number; y: number }>;
+  color: Rgb;
+  dashed?: boolean;
+}
+
+export interface BodyMapRegionFill {
+  region: BodyArea;
+  depth: BurnDepth;
+  fraction: number; // Region fraction burned, drives fill opacity
+}
+
+export type ReportBlock =
+  | { type: 'heading'; text: string; level: 1 | 2 }
+  | { type: 'paragraph'; text: string; label?: string }
+  | { type: 'bullet'; text: string; marker: 'bullet' | 'checkbox'; indent?: number }
+  | { type: 'spacer'; height: number }
+  | { type: 'table'; caption?: string; columns: ReportTableColumn[]; rows: string[][]; footer?: string[] }
+  | { type: 'chart'; title: string; xLabel: string; yLabel: string; series: ReportChartSeries[] }
+  | { type: 'bodyMap'; title: string; regions: BodyMapRegionFill[] };
+
+export type DrawOp =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: Rgb }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width: number; color?: Rgb; dash?: number[] }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: Rgb; stroke?: Rgb }
+  | { kind: 'path'; d: string; x: number; y: number; scale: number; fill?: Rgb; opacity?: number; stroke?: Rgb; strokeWidth?: number }
+  | { kind: 'logo'; x: number; y: number; width: number; height: number };
+
+export interface LaidOutPage {
+  ops: DrawOp[];
+}
+
+/**
+ * Measures text width in points (already WinAnsi-safe text)
+ */
+export type TextMeasure = (text: string, size: number, bold?: boolean) => number;
+
+export interface ReportLayoutOptions {
+  title: string;
+  institutionName: string;
+  disclaimer: string;
+  logoSize?: { width: number; height: number }; // Scaled logo size, when a logo is embedded
+}
+
+export interface ReportRenderOptions extends Omit<ReportLayoutOptions, 'logoSize'> {
+  logo?: Uint8Array; // PNG or JPEG bytes
+}
+
+export const PAGE_SIZE = { width: 595, height: 842 } as const; // A4 in points
+export const PAGE_MARGIN = 50;
+export const LOGO_MAX_HEIGHT = 36;
+
+const CONTENT_WIDTH = PAGE_SIZE.width - 2 * PAGE_MARGIN;
+const HEADER_HEIGHT = 52;
+const BODY_SIZE = 10;
+const BODY_LEADING = 13;
+const FOOTER_SIZE = 7;
+const FOOTER_LEADING = 9;
+const TABLE_PADDING = 4;
+const CHART_HEIGHT = 170;
+const BODY_MAP_SCALE = 0.42;
+
+const PRIMARY: Rgb = [0, 0.2, 0.4];
+const MUTED: Rgb = [0.45, 0.45, 0.45];
+const RULE: Rgb = [0.8, 0.8, 0.8];
+const TABLE_HEADER_FILL: Rgb = [0.92, 0.94, 0.96];
+
+/**
+ * Print colours for burn depth on the body map legend and fills
+ */
+export const DEPTH_PRINT_COLORS: Record<BurnDepth, Rgb> = {
+  'superficial': [0.98, 0.75, 0.75],
+  'superficial-partial': [0.98, 0.6, 0.35],
+  'deep-partial': [0.85, 0.2, 0.15],
+  'full-thickness': [0.35, 0.1, 0.1],
+};
+
+const DEPTH_PRINT_LABELS: Record<BurnDepth, string> = {
+  'superficial': 'Superficial',
+  'superficial-partial': 'Superficial partial',
+  'deep-partial': 'Deep partial',
+  'full-thickness': 'Full thickness',
+};
+
+/**
+ * Views drawn on the printed map; each omits the trunk surface shown as the other view's inset
+ */
+const PRINTED_VIEWS: Array<{ view: BodyView; label: string; hidden: BodyArea[] }> = [
+  { view: 'anterior', label: 'Anterior', hidden: ['Post_Trunk'] },
+  { view: 'posterior', label: 'Posterior', hidden: ['Ant_Trunk', 'Genitalia'] },
+];
+
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const TEXT_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/→/g, '->'],
+  [/←/g, '<-'],
+  [/≥/g, '>='],
+  [/≤/g, '<='],
+  [/≈/g, '~'],
+  [/−/g, '-'],
+  [/√/g, 'sqrt'],
+  [/□/g, '[ ]'],
+  [/⚠️?/g, '!'],
+  [/\u{1F6A8}/gu, '!'],
+  [/️/g, ''],
+];
+
+/**
+ * Replaces characters the standard PDF fonts cannot encode
+ * @returns Text containing only WinAnsi characters ('?' for anything unmapped)
+ */
+export function toWinAnsi(text: string): string {
+  const replaced = TEXT_REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  return Array.from(replaced)
+    .map(char => {
+      const code = char.codePointAt(0)!;
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)) return char;
+      return code === 0x09 ? '  ' : '?';
+    })
+    .join('');
+}
+
+/**
+ * Breaks text into lines that fit a width, splitting overlong words
+ * @param text - Single paragraph (no newlines)
+ * @param maxWidth - Available width in points
+ * @param measure - Width of a string in points
+ * @param firstLineWidth - Width of the first line when it is indented (e.g. after a label)
+ * @returns At least one line
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number,
+  firstLineWidth: number = maxWidth
+): string[] {
+  const lines: string[] = [];
+  let current = '';
+  const limit = () => (lines.length === 0 ? firstLineWidth : maxWidth);
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= limit()) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+      current = '';
+    }
+    // Hard-break words wider than a whole line
+    let rest = word;
+    while (measure(rest) > limit()) {
+      let cut = rest.length - 1;
+      while (cut > 1 && measure(rest.slice(0, cut)) > limit()) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  }
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Rounds a raw axis step up to 1, 2 or 5 × 10^n
+ */
+function niceStep(raw: number): number {
+  if (raw <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Tracks the current page and vertical position while laying out blocks
+ */
+class PageCursor {
+  pages: LaidOutPage[] = [];
+  y = 0;
+  readonly top: number;
+  readonly bottom: number;
+
+  constructor(footerHeight: number) {
+    this.top = PAGE_SIZE.height - PAGE_MARGIN - HEADER_HEIGHT;
+    this.bottom = PAGE_MARGIN + footerHeight;
+    this.newPage();
+  }
+
+  get ops(): DrawOp[] {
+    return this.pages[this.pages.length - 1].ops;
+  }
+
+  get atTop(): boolean {
+    return this.y === this.top;
+  }
+
+  newPage(): void {
+    this.pages.push({ ops: [] });
+    this.y = this.top;
+  }
+
+  /**
+   * Starts a new page unless the next height fits (content taller than a page is placed anyway)
+   */
+  ensure(height: number): void {
+    if (this.y - height < this.bottom && !this.atTop) this.newPage();
+  }
+}
+
+/**
+ * Lays out report blocks onto pages, including header and footer on every page
+ * @param blocks - Report content in reading order
+ * @param options - Title, institution, disclaimer and logo size
+ * @param measure - Text width in points for the fonts used when painting
+ * @returns Draw operations for each page
+ */
+export function layoutReport(blocks: ReportBlock[], options: ReportLayoutOptions, measure: TextMeasure): LaidOutPage[] {
+  const disclaimerLines = wrapText(toWinAnsi(options.disclaimer), CONTENT_WIDTH, text => measure(text, FOOTER_SIZE));
+  const footerHeight = disclaimerLines.length * FOOTER_LEADING + FOOTER_LEADING + 8;
+  const cursor = new PageCursor(footerHeight);
+  const left = PAGE_MARGIN;
+
+  const writeLines = (lines: string[], x: number, size: number, leading: number, style: { bold?: boolean; color?: Rgb } = {}) => {
+    lines.forEach(line => {
+      cursor.ensure(leading);
+      cursor.y -= leading;
+      cursor.ops.push({ kind: 'text', x, y: cursor.y + (leading - size), text: line, size, ...style });
+    });
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading': {
+        const size = block.level === 1 ? 14 : 11;
+        const leading = size + 6;
+        const text = toWinAnsi(block.text);
+        // Keep a heading with at least two lines of what follows
+        cursor.ensure(leading + (cursor.atTop ? 0 : 6) + 2 * BODY_LEADING);
+        if (!cursor.atTop) cursor.y -= 6;
+        cursor.y -= leading;
+        cursor.ops.push({ kind: 'text', x: left, y: cursor.y + 5, text, size, bold: true, color: PRIMARY });
+        if (block.level === 1) {
+          cursor.ops.push({ kind: 'line', x1: left, y1: cursor.y + 1, x2: left + CONTENT_WIDTH, y2: cursor.y + 1, width: 0.5, color: RULE });
+          cursor.y -= 4;
+        }
+        break;
+      }
+
+      case 'paragraph': {
+        const text = toWinAnsi(block.text);
+        const measureBody = (s: string) => measure(s, BODY_SIZE);
+        if (!block.label) {
+          writeLines(wrapText(text, CONTENT_WIDTH, measureBody), left, BODY_SIZE, BODY_LEADING);
+          break;
+        }
+        const label = `${toWinAnsi(block.label)}: `;
+        const labelWidth = measure(label, BODY_SIZE, true);
+        const lines = wrapText(text, CONTENT_WIDTH, measureBody, CONTENT_WIDTH - labelWidth);
+        cursor.ensure(BODY_LEADING);
+        cursor.y -= BODY_LEADING;
+        const baseline = cursor.y + (BODY_LEADING - BODY_SIZE);
+        cursor.ops.push({ kind: 'text', x: left, y: baseline, text: label, size: BODY_SIZE, bold: true });
+        if (lines[0]) cursor.ops.push({ kind: 'text', x: left + labelWidth, y: baseline, text: lines[0], size: BODY_SIZE });
+        writeLines(lines.slice(1), left, BODY_SIZE, BODY_LEADING);
+        break;
+      }
+
+      case 'bullet': {
+        const indent = left + (block.indent ?? 0) * 12;
+        const textX = indent + 12;
+        const lines = wrapText(toWinAnsi(block.text), left + CONTENT_WIDTH - textX, s => measure(s, BODY_SIZE));
+        cursor.ensure(BODY_LEADING);
+        const markerY = cursor.y - BODY_LEADING + (BODY_LEADING - BODY_SIZE);
+        if (block.marker === 'checkbox') {
+          cursor.ops.push({ kind: 'rect', x: indent, y: markerY, width: 7, height: 7, stroke: [0, 0, 0] });
+        } else {
+          cursor.ops.push({ kind: 'text', x: indent + 2, y: markerY, text: '•', size: BODY_SIZE });
+        }
+        writeLines(lines, textX, BODY_SIZE, BODY_LEADING);
+        break;
+      }
+
+      case 'spacer':
+        if (!cursor.atTop) cursor.y = Math.max(cursor.bottom, cursor.y - block.height);
+        break;
+
+      case 'table':
+        layoutTable(cursor, block, measure);
+        break;
+
+      case 'chart':
+        layoutChart(cursor, block, measure);
+        break;
+
+      case 'bodyMap':
+        layoutBodyMap(cursor, block, measure);
+        break;
+    }
+  }
+
+  const total = cursor.pages.length;
+  cursor.pages.forEach((page, index) => {
+    page.ops.unshift(...headerOps(options));
+    page.ops.push(...footerOps(disclaimerLines, `Page ${index + 1} of ${total}`, measure));
+  });
+  return cursor.pages;
+}
+
+function headerOps(options: ReportLayoutOptions): DrawOp[] {
+  const ops: DrawOp[] = [];
+  const top = PAGE_SIZE.height - PAGE_MARGIN;
+  let textX = PAGE_MARGIN;
+  if (options.logoSize) {
+    ops.push({ kind: 'logo', x: PAGE_MARGIN, y: top - options.logoSize.height, ...options.logoSize });
+    textX += options.logoSize.width + 10;
+  }
+  const institution = toWinAnsi(options.institutionName);
+  const title = toWinAnsi(options.title);
+  ops.push({ kind: 'text', x: textX, y: top - 16, text: institution, size: 14, bold: true, color: PRIMARY });
+  ops.push({ kind: 'text', x: textX, y: top - 32, text: title, size: 10, color: MUTED });
+  const rightEdge = PAGE_MARGIN + CONTENT_WIDTH;
+  ops.push({ kind: 'line', x1: PAGE_MARGIN, y1: top - HEADER_HEIGHT + 8, x2: rightEdge, y2: top - HEADER_HEIGHT + 8, width: 1, color: PRIMARY });
+  return ops;
+}
+
+function footerOps(disclaimerLines: string[], pageLabel: string, measure: TextMeasure): DrawOp[] {
+  const ops: DrawOp[] = [];
+  const rightEdge = PAGE_MARGIN + CONTENT_WIDTH;
+  let y = PAGE_MARGIN + disclaimerLines.length * FOOTER_LEADING + FOOTER_LEADING;
+  ops.push({ kind: 'line', x1: PAGE_MARGIN, y1: y + 4, x2: rightEdge, y2: y + 4, width: 0.5, color: RULE });
+  disclaimerLines.forEach(line => {
+    y -= FOOTER_LEADING;
+    ops.push({ kind: 'text', x: PAGE_MARGIN, y, text: line, size: FOOTER_SIZE, color: MUTED });
+  });
+  ops.push({
+    kind: 'text',
+    x: rightEdge - measure(pageLabel, 8),
+    y: PAGE_MARGIN,
+    text: pageLabel,
+    size: 8,
+    color: MUTED,
+  });
+  return ops;
+}
+
+function layoutTable(cursor: PageCursor, block: Extract<ReportBlock, { type: 'table' }>, measure: TextMeasure): void {
+  const left = PAGE_MARGIN;
+  const widths = block.columns.map(column => column.width * CONTENT_WIDTH);
+  const size = 9;
+  const leading = 11;
+
+  const layoutRow = (cells: string[], bold: boolean) => {
+    const lines = cells.map((cell, i) =>
+      wrapText(toWinAnsi(cell), widths[i] - 2 * TABLE_PADDING, s => measure(s, size, bold))
+    );
+    return { lines, height: Math.max(...lines.map(l => l.length)) * leading + 2 * TABLE_PADDING };
+  };
+
+  const drawRow = (row: ReturnType<typeof layoutRow>, bold: boolean, fill?: Rgb) => {
+    const top = cursor.y;
+    cursor.ops.push({ kind: 'rect', x: left, y: top - row.height, width: CONTENT_WIDTH, height: row.height, fill, stroke: RULE });
+    let x = left;
+    row.lines.forEach((cellLines, i) => {
+      cellLines.forEach((line, lineIndex) => {
+        const textWidth = measure(line, size, bold);
+        const textX = block.columns[i].align === 'right' ? x + widths[i] - TABLE_PADDING - textWidth : x + TABLE_PADDING;
+        const y = top - TABLE_PADDING - (lineIndex + 1) * leading + (leading - size);
+        cursor.ops.push({ kind: 'text', x: textX, y, text: line, size, bold });
+      });
+      x += widths[i];
+    });
+    cursor.y -= row.height;
+  };
+
+  const header = layoutRow(block.columns.map(column => column.header), true);
+  const startTable = () => {
+    drawRow(header, true, TABLE_HEADER_FILL);
+  };
+
+  cursor.ensure((block.caption ? BODY_LEADING + 4 : 0) + header.height + leading + 2 * TABLE_PADDING);
+  if (!cursor.atTop) cursor.y -= 6;
+  if (block.caption) {
+    cursor.y -= BODY_LEADING;
+    cursor.ops.push({ kind: 'text', x: left, y: cursor.y + 3, text: toWinAnsi(block.caption), size: BODY_SIZE, bold: true });
+    cursor.y -= 4;
+  }
+  startTable();
+
+  const rows: Array<{ cells: string[]; bold: boolean }> = [
+    ...block.rows.map(cells => ({ cells, bold: false })),
+    ...(block.footer ? [{ cells: block.footer, bold: true }] : []),
+  ];
+  rows.forEach(({ cells, bold }) => {
+    const row = layoutRow(cells, bold);
+    if (cursor.y - row.height < cursor.bottom) {
+      // Repeat the header on the continuation page
+      cursor.newPage();
+      startTable();
+    }
+    drawRow(row, bold);
+  });
+  cursor.y -= 6;
+}
+
+function layoutChart(cursor: PageCursor, block: Extract<ReportBlock, { type: 'chart' }>, measure: TextMeasure): void {
+  const legendHeight = 14;
+  const titleHeight = BODY_LEADING + 4;
+  cursor.ensure(titleHeight + CHART_HEIGHT + legendHeight + 12);
+  if (!cursor.atTop) cursor.y -= 6;
+
+  cursor.y -= BODY_LEADING;
+  cursor.ops.push({ kind: 'text', x: PAGE_MARGIN, y: cursor.y + 3, text: toWinAnsi(block.title), size: BODY_SIZE, bold: true });
+  cursor.y -= 4;
+
+  const plot = {
+    left: PAGE_MARGIN + 48,
+    right: PAGE_MARGIN + CONTENT_WIDTH - 10,
+    top: cursor.y - 6,
+    bottom: cursor.y - CHART_HEIGHT + 28,
+  };
+  const points = block.series.flatMap(series => series.points);
+  const xMax = Math.max(1, ...points.map(p => p.x));
+  const yStep = niceStep(Math.max(1, ...points.map(p => p.y)) / 4);
+  const yMax = Math.max(yStep, Math.ceil(Math.max(1, ...points.map(p => p.y)) / yStep) * yStep);
+  const xStep = xMax > 24 ? 8 : 4;
+  const toX = (x: number) => plot.left + (x / xMax) * (plot.right - plot.left);
+  const toY = (y: number) => plot.bottom + (y / yMax) * (plot.top - plot.bottom);
+
+  for (let y = 0; y <= yMax + 1e-9; y += yStep) {
+    const py = toY(y);
+    cursor.ops.push({ kind: 'line', x1: plot.left, y1: py, x2: plot.right, y2: py, width: 0.4, color: RULE });
+    const label = `${Math.round(y)}`;
+    cursor.ops.push({ kind: 'text', x: plot.left - 4 - measure(label, 7), y: py - 2, text: label, size: 7, color: MUTED });
+  }
+  for (let x = 0; x <= xMax; x += xStep) {
+    const px = toX(x);
+    cursor.ops.push({ kind: 'line', x1: px, y1: plot.bottom, x2: px, y2: plot.bottom - 3, width: 0.5, color: MUTED });
+    const label = `${x}`;
+    cursor.ops.push({ kind: 'text', x: px - measure(label, 7) / 2, y: plot.bottom - 11, text: label, size: 7, color: MUTED });
+  }
+  cursor.ops.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.right, y2: plot.bottom, width: 0.8, color: [0, 0, 0] });
+  cursor.ops.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.left, y2: plot.top, width: 0.8, color: [0, 0, 0] });
+
+  const xLabel = toWinAnsi(block.xLabel);
+  cursor.ops.push({ kind: 'text', x: (plot.left + plot.right - measure(xLabel, 8)) / 2, y: plot.bottom - 22, text: xLabel, size: 8 });
+  cursor.ops.push({ kind: 'text', x: PAGE_MARGIN, y: plot.top + 4, text: toWinAnsi(block.yLabel), size: 8 });
+
+  block.series.forEach(series => {
+    for (let i = 1; i < series.points.length; i++) {
+      const a = series.points[i - 1];
+      const b = series.points[i];
+      cursor.ops.push({
+        kind: 'line',
+        x1: toX(a.x), y1: toY(a.y), x2: toX(b.x), y2: toY(b.y),
+        width: 1.5,
+        color: series.color,
+        ...(series.dashed && { dash: [4, 3] }),
+      });
+    }
+  });
+
+  cursor.y -= CHART_HEIGHT;
+  let legendX = plot.left;
+  block.series.forEach(series => {
+    cursor.ops.push({
+      kind: 'line', x1: legendX, y1: cursor.y + 3, x2: legendX + 16, y2: cursor.y + 3,
+      width: 1.5, color: series.color, ...(series.dashed && { dash: [4, 3] }),
+    });
+    const label = toWinAnsi(series.label);
+    cursor.ops.push({ kind: 'text', x: legendX + 20, y: cursor.y, text: label, size: 8 });
+    legendX += 20 + measure(label, 8) + 16;
+  });
+  cursor.y -= legendHeight;
+}
+
+function layoutBodyMap(cursor: PageCursor, block: Extract<ReportBlock, { type: 'bodyMap' }>, measure: TextMeasure): void {
+  const mapWidth = BODY_MAP_VIEWBOX.width * BODY_MAP_SCALE;
+  const mapHeight = BODY_MAP_VIEWBOX.height * BODY_MAP_SCALE;
+  const legendHeight = 14;
+  cursor.ensure(BODY_LEADING + 4 + 12 + mapHeight + legendHeight + 6);
+  if (!cursor.atTop) cursor.y -= 6;
+
+  cursor.y -= BODY_LEADING;
+  cursor.ops.push({ kind: 'text', x: PAGE_MARGIN, y: cursor.y + 3, text: toWinAnsi(block.title), size: BODY_SIZE, bold: true });
+  cursor.y -= 4;
+
+  const fills = new Map(block.regions.map(fill => [fill.region, fill]));
+  const gap = (CONTENT_WIDTH - 2 * mapWidth) / 3;
+  PRINTED_VIEWS.forEach(({ view, label, hidden }, index) => {
+    const x = PAGE_MARGIN + gap + index * (mapWidth + gap);
+    const top = cursor.y - 12;
+    cursor.ops.push({ kind: 'text', x: x + (mapWidth - measure(label, 9, true)) / 2, y: cursor.y - 8, text: label, size: 9, bold: true });
+    cursor.ops.push({ kind: 'path', d: BODY_OUTLINE_PATH, x, y: top, scale: BODY_MAP_SCALE, stroke: RULE, strokeWidth: 1 });
+    (Object.keys(BODY_MAP_PATHS[view]) as BodyArea[])
+      .filter(region => !hidden.includes(region))
+      .forEach(region => {
+        const fill = fills.get(region);
+        cursor.ops.push({
+          kind: 'path',
+          d: BODY_MAP_PATHS[view][region],
+          x,
+          y: top,
+          scale: BODY_MAP_SCALE,
+          stroke: MUTED,
+          strokeWidth: 0.5,
+          ...(fill && { fill: DEPTH_PRINT_COLORS[fill.depth], opacity: 0.35 + 0.65 * Math.min(1, fill.fraction) }),
+        });
+      });
+  });
+  cursor.y -= 12 + mapHeight;
+
+  let legendX = PAGE_MARGIN;
+  (Object.keys(DEPTH_PRINT_COLORS) as BurnDepth[]).forEach(depth => {
+    cursor.ops.push({ kind: 'rect', x: legendX, y: cursor.y - 8, width: 8, height: 8, fill: DEPTH_PRINT_COLORS[depth], stroke: MUTED });
+    const label = DEPTH_PRINT_LABELS[depth];
+    cursor.ops.push({ kind: 'text', x: legendX + 12, y: cursor.y - 7, text: label, size: 8 });
+    legendX += 12 + measure(label, 8) + 16;
+  });
+  cursor.y -= legendHeight + 6;
+}
+
+/**
+ * Lays out and paints a report as a PDF
+ * @param blocks - Report content in reading order
+ * @param options - Title, institution name, disclaimer and optional logo
+ * @returns PDF bytes
+ * @throws Error when the logo is neither PNG nor JPEG
+ */
+export async function renderReport(blocks: ReportBlock[], options: ReportRenderOptions): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const measure: TextMeasure = (text, size, bold) => (bold ? boldFont : font).widthOfTextAtSize(text, size);
+
+  let logo: PDFImage | undefined;
+  if (options.logo) {
+    const isPng = options.logo[0] === 0x89 && options.logo[1] === 0x50;
+    const isJpeg = options.logo[0] === 0xff && options.logo[1] === 0xd8;
+    if (!isPng && !isJpeg) throw new Error('Logo must be a PNG or JPEG image');
+    logo = isPng ? await pdfDoc.embedPng(options.logo) : await pdfDoc.embedJpg(options.logo);
+  }
+  const logoSize = logo ? logo.scale(LOGO_MAX_HEIGHT / logo.height) : undefined;
+
+  pdfDoc.setTitle(options.title);
+  pdfDoc.setProducer('Burn Wizard');
+
+  const pages = layoutReport(blocks, { ...options, logoSize }, measure);
+  const color = (value?: Rgb) => (value ? rgb(...value) : undefined);
+
+  pages.forEach(({ ops }) => {
+    const page = pdfDoc.addPage([PAGE_SIZE.width, PAGE_SIZE.height]);
+    ops.forEach(op => {
+      switch (op.kind) {
+        case 'text':
+          page.drawText(op.text, { x: op.x, y: op.y, size: op.size, font: op.bold ? boldFont : font, color: color(op.color) ?? rgb(0, 0, 0) });
+          break;
+        case 'line':
+          page.drawLine({
+            start: { x: op.x1, y: op.y1 },
+            end: { x: op.x2, y: op.y2 },
+            thickness: op.width,
+            color: color(op.color) ?? rgb(0, 0, 0),
+            dashArray: op.dash,
+          });
+          break;
+        case 'rect':
+          page.drawRectangle({
+            x: op.x, y: op.y, width: op.width, height: op.height,
+            color: color(op.fill),
+            borderColor: color(op.stroke),
+            borderWidth: op.stroke ? 0.5 : 0,
+          });
+          break;
+        case 'path':
+          page.drawSvgPath(op.d, {
+            x: op.x, y: op.y, scale: op.scale,
+            color: color(op.fill),
+            opacity: op.opacity,
+            borderColor: color(op.stroke),
+            borderWidth: op.strokeWidth ?? 0,
+          });
+          break;
+        case 'logo':
+          if (logo) page.drawImage(logo, { x: op.x, y: op.y, width: op.width, height: op.height });
+          break;
+      }
+    });
+  });
+
+  return pdfDoc.save();
+}
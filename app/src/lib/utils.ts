@@ -7,4 +7,8 @@ export function cn(...inputs: ClassValue[]) {
 
 export function round1(num: number): number {
   return Math.round(num * 10) / 10;
-}
\ No newline at end of file
+}
+
+export function round2(num: number): number {
+  return Math.round(num * 100) / 100;
+}
@@ -8,6 +8,11 @@ import BodyMap from '@/components/BodyMap';
 import BurnDepthChart from '@/components/BurnDepthChart';
 import FluidCalculationTimeline from '@/components/FluidCalculationTimeline';
 import BodyRegionHeatMap from '@/components/BodyRegionHeatMap';
+import ReassessmentTimeline from '@/components/ReassessmentTimeline';
+import TbsaMethodPanel from '@/components/TbsaMethodPanel';
+import ReferralPanel from '@/components/ReferralPanel';
+import MechanismPathwayPanel from '@/components/MechanismPathwayPanel';
+import AirwayAssessmentPanel from '@/components/AirwayAssessmentPanel';
 
 interface HomeProps {
   onNavigate: (route: 'home' | 'review' | 'settings' | 'tutorials') => void;
@@ -107,6 +112,21 @@ export default function Home({ onNavigate, onStartTour }: HomeProps) {
           <div className="animate-fade-in-up animate-stagger-3">
             <BurnDepthChart />
           </div>
+          <div className="animate-fade-in-up animate-stagger-3">
+            <ReferralPanel />
+          </div>
+          <div className="animate-fade-in-up animate-stagger-3">
+            <MechanismPathwayPanel />
+          </div>
+          <div className="animate-fade-in-up animate-stagger-3">
+            <AirwayAssessmentPanel />
+          </div>
+          <div className="animate-fade-in-up animate-stagger-3">
+            <TbsaMethodPanel />
+          </div>
+          <div className="animate-fade-in-up animate-stagger-3">
+            <ReassessmentTimeline />
+          </div>
           <div className="animate-fade-in-up animate-stagger-3">
             <FluidCalculationTimeline />
           </div>
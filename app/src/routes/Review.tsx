@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import FluidPlan from '@/components/FluidPlan';
+import ResuscitationFlowsheet from '@/components/ResuscitationFlowsheet';
 
 interface ReviewProps {
   onNavigate: (route: 'home' | 'review' | 'settings') => void;
@@ -44,6 +45,9 @@ export default function Review({ onNavigate }: ReviewProps) {
       <div className="animate-fade-in-up animate-stagger-2">
         <FluidPlan />
       </div>
+      <div className="animate-fade-in-up animate-stagger-3">
+        <ResuscitationFlowsheet />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -3,13 +3,62 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useWizardStore } from '@/store/useWizardStore';
 import SecuritySettings from '@/components/SecuritySettings';
+import NoteTemplateEditor from '@/components/NoteTemplateEditor';
+import { DEFAULT_FORMULA_PREFERENCES, FLUID_FORMULAS } from '@/domain/fluidFormulas';
+import { DEFAULT_WEIGHT_POLICY, OBESITY_BMI, WEIGHT_BASIS_LABELS } from '@/domain/dosingWeight';
+import { MAINTENANCE_METHOD_LABELS } from '@/domain/fluids';
+import { DEFAULT_DEIDENTIFICATION, DEIDENTIFICATION_MODE_LABELS } from '@/domain/deidentify';
+import type { DeidentificationMode, FluidFormulaId, MaintenanceMethod, WeightBasis, WeightPolicy } from '@/domain/types';
+
+/**
+ * Largest logo accepted for the PDF header (stored in encrypted settings)
+ */
+const MAX_LOGO_BYTES = 200 * 1024;
+
+const WEIGHT_POLICY_LABELS: Record<keyof WeightPolicy, string> = {
+  resuscitation: 'Resuscitation volume',
+  maintenance: 'Maintenance rate',
+  urineOutput: 'Urine output target',
+};
 
 interface SettingsProps {
   onNavigate: (route: 'tbsa' | 'procedure' | 'discharge' | 'history' | 'settings') => void;
 }
 
 export default function Settings({ onNavigate }: SettingsProps) {
-  const { clearAllData } = useWizardStore();
+  const { clearAllData, settings, updateSettings } = useWizardStore();
+  const formulaPreferences = settings.fluidFormulas ?? DEFAULT_FORMULA_PREFERENCES;
+  const weightPolicy = settings.weightPolicy ?? DEFAULT_WEIGHT_POLICY;
+  const report = settings.report ?? { institutionName: '' };
+  const deidentification = settings.deidentification ?? DEFAULT_DEIDENTIFICATION;
+  const [logoError, setLogoError] = React.useState<string | null>(null);
+
+  const handleFormulaPreference = (group: 'adult' | 'pediatric', formulaId: FluidFormulaId) => {
+    updateSettings({ fluidFormulas: { ...formulaPreferences, [group]: formulaId } });
+  };
+
+  const handleWeightPolicy = (calculation: keyof WeightPolicy, basis: WeightBasis) => {
+    updateSettings({ weightPolicy: { ...weightPolicy, [calculation]: basis } });
+  };
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setLogoError('Logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError('Logo must be smaller than 200 KB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      updateSettings({ report: { ...report, logoDataUrl: reader.result as string } });
+      setLogoError(null);
+    };
+    reader.readAsDataURL(file);
+  };
 
   const handleClearData = () => {
     if (window.confirm('Are you sure you want to clear all data? This cannot be undone.')) {
@@ -31,6 +80,172 @@ export default function Settings({ onNavigate }: SettingsProps) {
       <SecuritySettings />
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Resuscitation Formula Defaults</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Formula used for new calculations. It can still be changed per patient on the fluid plan.
+            </p>
+            {(['adult', 'pediatric'] as const).map(group => (
+              <div key={group} className="space-y-1">
+                <label htmlFor={`formula-${group}`} className="text-sm font-medium capitalize">
+                  {group} {group === 'pediatric' ? '(under 15 years)' : ''}
+                </label>
+                <select
+                  id={`formula-${group}`}
+                  value={formulaPreferences[group]}
+                  onChange={(e) => handleFormulaPreference(group, e.target.value as FluidFormulaId)}
+                  className="w-full p-2 border border-border rounded-md bg-background text-sm"
+                >
+                  {Object.values(FLUID_FORMULAS)
+                    .filter(formula => formula.population === 'all' || formula.population === group)
+                    .map(formula => (
+                      <option key={formula.id} value={formula.id}>
+                        {formula.name} - {formula.equation}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Maintenance Fluids</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Method used for maintenance rates. Evaporative loss through the burn is estimated for hours 24-72 with every method.
+            </p>
+            <div className="space-y-1">
+              <label htmlFor="maintenance-method" className="text-sm font-medium">Maintenance method</label>
+              <select
+                id="maintenance-method"
+                value={settings.maintenanceMethod ?? '4-2-1'}
+                onChange={(e) => updateSettings({ maintenanceMethod: e.target.value as MaintenanceMethod })}
+                className="w-full p-2 border border-border rounded-md bg-background text-sm"
+              >
+                {(Object.keys(MAINTENANCE_METHOD_LABELS) as MaintenanceMethod[]).map(method => (
+                  <option key={method} value={method}>{MAINTENANCE_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>PDF Reports</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Printed in the header of every page of exported PDF notes.
+            </p>
+            <div className="space-y-1">
+              <label htmlFor="report-institution" className="text-sm font-medium">Institution name</label>
+              <input
+                id="report-institution"
+                value={report.institutionName}
+                placeholder="Burn Center"
+                onChange={(e) => updateSettings({ report: { ...report, institutionName: e.target.value } })}
+                className="w-full p-2 border border-border rounded-md bg-background text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="report-logo" className="text-sm font-medium">Logo (PNG or JPEG)</label>
+              {report.logoDataUrl && (
+                <div className="flex items-center gap-3">
+                  <img src={report.logoDataUrl} alt="Institution logo" className="h-9 w-auto border border-border rounded" />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSettings({ report: { ...report, logoDataUrl: undefined } })}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              )}
+              <input
+                id="report-logo"
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={handleLogo}
+                className="w-full text-sm"
+              />
+              {logoError && <p className="text-sm text-red-600">{logoError}</p>}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>De-identification</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Removes names, dates more specific than the year, ages over 89, record numbers, phone numbers, emails,
+              addresses and mechanisms mentioning a person from PDF, JSON, CSV, TXT and FHIR exports and copied notes.
+            </p>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={deidentification.enabled}
+                onChange={(e) => updateSettings({ deidentification: { ...deidentification, enabled: e.target.checked } })}
+              />
+              De-identify exports
+            </label>
+            <div className="space-y-1">
+              <label htmlFor="deidentification-mode" className="text-sm font-medium">Mode</label>
+              <select
+                id="deidentification-mode"
+                value={deidentification.mode}
+                disabled={!deidentification.enabled}
+                onChange={(e) => updateSettings({ deidentification: { ...deidentification, mode: e.target.value as DeidentificationMode } })}
+                className="w-full p-2 border border-border rounded-md bg-background text-sm"
+              >
+                {(Object.keys(DEIDENTIFICATION_MODE_LABELS) as DeidentificationMode[]).map(mode => (
+                  <option key={mode} value={mode}>{DEIDENTIFICATION_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Pseudonyms are consistent within one export; date shifting moves every date by the same random offset.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Dosing Weight (Obese Adults)</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Actual weight unless changed here. Applies to adults with a recorded height and BMI ≥{OBESITY_BMI}; children
+              and other adults always use actual weight.
+            </p>
+            {(Object.keys(WEIGHT_POLICY_LABELS) as (keyof WeightPolicy)[]).map(calculation => (
+              <div key={calculation} className="space-y-1">
+                <label htmlFor={`weight-${calculation}`} className="text-sm font-medium">
+                  {WEIGHT_POLICY_LABELS[calculation]}
+                </label>
+                <select
+                  id={`weight-${calculation}`}
+                  value={weightPolicy[calculation]}
+                  onChange={(e) => handleWeightPolicy(calculation, e.target.value as WeightBasis)}
+                  className="w-full p-2 border border-border rounded-md bg-background text-sm capitalize"
+                >
+                  {(Object.keys(WEIGHT_BASIS_LABELS) as WeightBasis[]).map(basis => (
+                    <option key={basis} value={basis}>{WEIGHT_BASIS_LABELS[basis]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Legacy Data Management</CardTitle>
@@ -69,6 +284,8 @@ export default function Settings({ onNavigate }: SettingsProps) {
           </CardContent>
         </Card>
       </div>
+
+      <NoteTemplateEditor />
     </div>
   );
 }
\ No newline at end of file
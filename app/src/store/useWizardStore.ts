@@ -2,14 +2,28 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { PersistStorage } from 'zustand/middleware';
 import { createEncryptedStorageAdapter } from '@/core/encryptedStorage';
-import type { PatientData, RegionSelection, TbsaResult, FluidResult, AppSettings, BurnDepth, BodyArea, BurnFraction } from '@/domain/types';
+import type { PatientData, RegionSelection, TbsaResult, FluidResult, AppSettings, BurnDepth, BodyArea, DepthZone, SubRegionKey, PatientCase, Reassessment, FlowsheetEntry, VitalSigns } from '@/domain/types';
+import { createFlowsheetEntry, upsertFlowsheetEntry } from '@/domain/flowsheet';
+import { createReassessment } from '@/domain/reassessment';
+import {
+  applySelectionDepth,
+  createPreciseSelection,
+  createZonedSelection,
+  isQuarterFraction,
+  migrateRegionSelections,
+} from '@/domain/regionSelections';
+import { setSubRegion } from '@/domain/subRegions';
+import { DEFAULT_FORMULA_PREFERENCES } from '@/domain/fluidFormulas';
+import { DEFAULT_WEIGHT_POLICY } from '@/domain/dosingWeight';
+import { createCase, updateCase, duplicateCase as duplicatePatientCase, setCaseArchived } from '@/domain/cases';
+import type { CaseSnapshot } from '@/domain/cases';
 
 // Simplified tutorial state - just track if user has seen the guided tour
 interface TutorialState {
   hasSeenGuidedTour: boolean;
 }
 
-interface WizardState {
+export interface WizardState {
   // Patient data
   patientData: PatientData;
   regionSelections: RegionSelection[];
@@ -18,6 +32,16 @@ interface WizardState {
   tbsaResult: TbsaResult | null;
   fluidResult: FluidResult | null;
   
+  // Serial reassessments for the current patient
+  reassessments: Reassessment[];
+  
+  // Hourly resuscitation flowsheet
+  flowsheet: FlowsheetEntry[];
+  
+  // Case registry
+  cases: PatientCase[];
+  activeCaseId: string | null;
+  
   // App settings
   settings: AppSettings;
   
@@ -32,11 +56,32 @@ interface WizardState {
   // Patient data actions
   setPatientData: (data: Partial<PatientData>) => void;
   setRegionSelection: (region: string, fraction: number, depth?: BurnDepth) => void;
+  setPreciseRegionSelection: (region: BodyArea, value: { fraction: number } | { tbsaPct: number }, depth?: BurnDepth) => void;
+  setRegionZones: (region: BodyArea, zones: DepthZone[]) => void;
+  setSubRegionSelection: (subRegion: SubRegionKey, fraction: number, depth?: BurnDepth) => void;
   clearRegionSelection: (region: string) => void;
   updateAllRegionDepths: (depth: BurnDepth) => void;
   setTbsaResult: (result: TbsaResult | null) => void;
   setFluidResult: (result: FluidResult | null) => void;
   
+  // Reassessment actions
+  recordReassessment: () => Reassessment;
+  removeReassessment: (id: string) => void;
+  
+  // Flowsheet actions
+  recordFlowsheetHour: (hourFromInjury: number, infusedMl: number, urineOutputMl: number, vitals?: VitalSigns) => void;
+  removeFlowsheetHour: (hourFromInjury: number) => void;
+  
+  // Case registry actions
+  saveCase: (name: string) => string;
+  openCase: (id: string) => void;
+  duplicateCase: (id: string) => string | null;
+  archiveCase: (id: string, archived?: boolean) => void;
+  
+  // Import actions
+  loadAssessment: (snapshot: CaseSnapshot) => void;
+  importCase: (name: string, snapshot: CaseSnapshot) => string;
+  
   // Settings actions
   updateSettings: (settings: Partial<AppSettings>) => void;
   
@@ -68,19 +113,55 @@ const initialSettings: AppSettings = {
   units: { weight: 'kg', temperature: 'celsius' },
   language: 'en',
   darkMode: false,
+  fluidFormulas: DEFAULT_FORMULA_PREFERENCES,
+  weightPolicy: DEFAULT_WEIGHT_POLICY,
+  maintenanceMethod: '4-2-1',
 };
 
 const initialTutorialState: TutorialState = {
   hasSeenGuidedTour: false,
 };
 
+/**
+ * Upgrades persisted state written by earlier versions of the store
+ *
+ * v0 → v1: region selections gain entry modes for precise per-region charting;
+ * selections in the current patient, reassessment snapshots and saved cases
+ * are normalized with migrateRegionSelections.
+ */
+function migratePersistedState(persistedState: unknown, version: number): Partial<WizardState> {
+  const state = (persistedState ?? {}) as Partial<WizardState>;
+  if (version < 1) {
+    state.regionSelections = migrateRegionSelections(state.regionSelections);
+    state.reassessments = (state.reassessments ?? []).map((r) => ({
+      ...r,
+      regionSelections: migrateRegionSelections(r.regionSelections),
+    }));
+    state.cases = (state.cases ?? []).map((c) => ({
+      ...c,
+      regionSelections: migrateRegionSelections(c.regionSelections),
+      ...(c.reassessments && {
+        reassessments: c.reassessments.map((r) => ({
+          ...r,
+          regionSelections: migrateRegionSelections(r.regionSelections),
+        })),
+      }),
+    }));
+  }
+  return state;
+}
+
 export const useWizardStore = create<WizardState>()(
   persist(
-    (set, _get) => ({
+    (set, get) => ({
       patientData: initialPatientData,
       regionSelections: [],
       tbsaResult: null,
       fluidResult: null,
+      reassessments: [],
+      flowsheet: [],
+      cases: [],
+      activeCaseId: null,
       settings: initialSettings,
       tutorials: initialTutorialState,
 
@@ -91,19 +172,53 @@ export const useWizardStore = create<WizardState>()(
 
       setRegionSelection: (region, fraction, depth = 'superficial-partial') =>
         set((state) => {
+          const existing = state.regionSelections.find((sel) => sel.region === region);
           const newSelections = state.regionSelections.filter(
             (sel) => sel.region !== region
           );
-          if (fraction > 0) {
+          if (fraction > 0 && existing && existing.fraction === fraction) {
+            // Depth-only change keeps any precise entry as charted and collapses zones to that depth
+            newSelections.push(applySelectionDepth(existing, depth));
+          } else if (fraction > 0) {
             newSelections.push({
               region: region as BodyArea,
-              fraction: fraction as BurnFraction,
+              fraction,
               depth,
+              ...(!isQuarterFraction(fraction) && { entryMode: 'fraction' as const }),
             });
           }
           return { regionSelections: newSelections };
         }),
 
+      setPreciseRegionSelection: (region, value, depth) =>
+        set((state) => {
+          const existing = state.regionSelections.find((sel) => sel.region === region);
+          const newSelections = state.regionSelections.filter((sel) => sel.region !== region);
+          const amount = 'tbsaPct' in value ? value.tbsaPct : value.fraction;
+          if (amount > 0) {
+            newSelections.push(createPreciseSelection(
+              region,
+              value,
+              state.patientData.ageMonths,
+              depth ?? existing?.depth ?? 'superficial-partial'
+            ));
+          }
+          return { regionSelections: newSelections };
+        }),
+
+      setRegionZones: (region, zones) =>
+        set((state) => {
+          const selection = createZonedSelection(region, zones);
+          const newSelections = state.regionSelections.filter((sel) => sel.region !== region);
+          if (selection) newSelections.push(selection);
+          return { regionSelections: newSelections };
+        }),
+
+      setSubRegionSelection: (subRegion, fraction, depth = 'superficial-partial') =>
+        set((state) => ({
+          regionSelections: setSubRegion(state.regionSelections, subRegion, fraction, depth),
+        })),
+
       clearRegionSelection: (region) =>
         set((state) => ({
           regionSelections: state.regionSelections.filter(
@@ -113,16 +228,108 @@ export const useWizardStore = create<WizardState>()(
 
       updateAllRegionDepths: (depth) =>
         set((state) => ({
-          regionSelections: state.regionSelections.map((sel) => ({
-            ...sel,
-            depth,
-          })),
+          regionSelections: state.regionSelections.map((sel) => applySelectionDepth(sel, depth)),
         })),
 
       setTbsaResult: (result) => set({ tbsaResult: result }),
 
       setFluidResult: (result) => set({ fluidResult: result }),
 
+      recordReassessment: () => {
+        const { patientData, regionSelections } = get();
+        const reassessment = createReassessment(
+          patientData.ageMonths,
+          regionSelections,
+          patientData.hoursSinceInjury
+        );
+        set((state) => ({ reassessments: [...state.reassessments, reassessment] }));
+        return reassessment;
+      },
+
+      removeReassessment: (id) =>
+        set((state) => ({
+          reassessments: state.reassessments.filter((r) => r.id !== id),
+        })),
+
+      recordFlowsheetHour: (hourFromInjury, infusedMl, urineOutputMl, vitals) => {
+        const entry = createFlowsheetEntry(hourFromInjury, infusedMl, urineOutputMl, vitals);
+        set((state) => ({ flowsheet: upsertFlowsheetEntry(state.flowsheet, entry) }));
+      },
+
+      removeFlowsheetHour: (hourFromInjury) =>
+        set((state) => ({
+          flowsheet: state.flowsheet.filter((e) => e.hourFromInjury !== hourFromInjury),
+        })),
+
+      saveCase: (name) => {
+        const state = get();
+        const snapshot = {
+          patientData: state.patientData,
+          regionSelections: state.regionSelections,
+          tbsaResult: state.tbsaResult,
+          fluidResult: state.fluidResult,
+          reassessments: state.reassessments,
+          flowsheet: state.flowsheet,
+        };
+        const existing = state.cases.find((c) => c.id === state.activeCaseId);
+
+        if (existing) {
+          const updated = updateCase(existing, snapshot, name);
+          set({ cases: state.cases.map((c) => (c.id === updated.id ? updated : c)) });
+          return updated.id;
+        }
+
+        const created = createCase(name, snapshot);
+        set({ cases: [...state.cases, created], activeCaseId: created.id });
+        return created.id;
+      },
+
+      openCase: (id) =>
+        set((state) => {
+          const found = state.cases.find((c) => c.id === id);
+          if (!found) return {};
+          return {
+            activeCaseId: found.id,
+            patientData: found.patientData,
+            regionSelections: found.regionSelections,
+            tbsaResult: found.tbsaResult,
+            fluidResult: found.fluidResult,
+            reassessments: found.reassessments ?? [],
+            flowsheet: found.flowsheet ?? [],
+          };
+        }),
+
+      duplicateCase: (id) => {
+        const source = get().cases.find((c) => c.id === id);
+        if (!source) return null;
+        const copy = duplicatePatientCase(source);
+        set((state) => ({ cases: [...state.cases, copy] }));
+        return copy.id;
+      },
+
+      archiveCase: (id, archived = true) =>
+        set((state) => ({
+          cases: state.cases.map((c) => (c.id === id ? setCaseArchived(c, archived) : c)),
+        })),
+
+      loadAssessment: (snapshot) =>
+        set({
+          // Detached from any open case so saving does not overwrite it
+          activeCaseId: null,
+          patientData: snapshot.patientData,
+          regionSelections: snapshot.regionSelections,
+          tbsaResult: snapshot.tbsaResult,
+          fluidResult: snapshot.fluidResult,
+          reassessments: snapshot.reassessments ?? [],
+          flowsheet: snapshot.flowsheet ?? [],
+        }),
+
+      importCase: (name, snapshot) => {
+        const created = createCase(name, snapshot);
+        set((state) => ({ cases: [...state.cases, created] }));
+        return created.id;
+      },
+
       updateSettings: (newSettings) =>
         set((state) => ({
           settings: { ...state.settings, ...newSettings },
@@ -149,6 +356,9 @@ export const useWizardStore = create<WizardState>()(
           regionSelections: [],
           tbsaResult: null,
           fluidResult: null,
+          reassessments: [],
+          flowsheet: [],
+          activeCaseId: null,
         }),
     }),
     {
@@ -158,9 +368,15 @@ export const useWizardStore = create<WizardState>()(
         storageKey: 'burn-wizard-encrypted-store',
         version: 1
       }) as PersistStorage<Partial<WizardState>>,
+      version: 1,
+      migrate: migratePersistedState,
       partialize: (state): Partial<WizardState> => ({
         patientData: state.patientData,
         regionSelections: state.regionSelections,
+        reassessments: state.reassessments,
+        flowsheet: state.flowsheet,
+        cases: state.cases,
+        activeCaseId: state.activeCaseId,
         settings: state.settings,
         tutorials: state.tutorials,
         metadata: state.metadata,
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { migrateExportData, parseAssessmentImport, previewImport } from '../dataImport';
+import { EXPORT_SCHEMA_VERSION, exportToJSON } from '../dataExport';
+import { createFlowsheetEntry } from '@/domain/flowsheet';
+import { createReassessment } from '@/domain/reassessment';
+import type { AppSettings, PatientData, RegionSelection } from '@/domain/types';
+
+const settings: AppSettings = {
+  units: { weight: 'kg', temperature: 'celsius' },
+  language: 'en',
+  darkMode: false,
+  maintenanceMethod: '4-2-1',
+};
+const patientData: PatientData = {
+  ageMonths: 30 * 12,
+  weightKg: 70,
+  hoursSinceInjury: 2,
+  mechanism: 'House fire',
+  tbsaMethod: 'lund-browder',
+  specialSites: { face: false, hands: false, feet: false, perineum: false, majorJoints: false },
+};
+const regionSelections: RegionSelection[] = [
+  { region: 'Ant_Trunk', fraction: 1, depth: 'deep-partial', entryMode: 'quarter' },
+  { region: 'R_U_Arm', fraction: 0.5, depth: 'full-thickness', entryMode: 'quarter' },
+];
+const now = new Date('2024-01-01T12:00:00Z');
+
+const exported = exportToJSON({
+  patientData,
+  regionSelections,
+  reassessments: [createReassessment(patientData.ageMonths, regionSelections, 1, now)],
+  flowsheet: [createFlowsheetEntry(1, 500, 40, { heartRate: 110 }, now)],
+});
+
+const v1File = {
+  metadata: { appName: 'Burn Wizard', version: '0.1.0', exportDate: '2023-06-01T00:00:00.000Z', exportType: 'assessment-only' },
+  patientData: { ...patientData, tbsaMethod: undefined },
+  regionSelections: [{ region: 'Ant_Trunk', fraction: '0.5', depth: 'superficial-partial' }],
+  tbsaResult: { totalTbsa: 6.5 },
+  fluidResult: { total24h: 1820 },
+};
+
+describe('parseAssessmentImport', () => {
+  it('should round-trip a current JSON export', () => {
+    const imported = parseAssessmentImport(exported, settings);
+    expect(JSON.parse(exported).metadata.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(imported.sourceVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(imported.snapshot.patientData).toEqual(patientData);
+    expect(imported.snapshot.regionSelections).toEqual(regionSelections);
+    expect(imported.snapshot.reassessments?.[0].tbsa.tbsaPct).toBe(15);
+    expect(imported.snapshot.flowsheet).toEqual([
+      { hourFromInjury: 1, infusedMl: 500, urineOutputMl: 40, vitals: { heartRate: 110 }, recordedAt: now.toISOString() },
+    ]);
+  });
+
+  it('should recalculate results with this device settings', () => {
+    const imported = parseAssessmentImport(exported, settings);
+    expect(imported.snapshot.tbsaResult?.tbsaPct).toBe(15);
+    expect(imported.snapshot.fluidResult?.parkland.totalMl).toBe(4200);
+    expect(imported.warnings).toEqual(["Fluids recalculated with this device's settings (Parkland)"]);
+  });
+
+  it('should migrate a v1 export and drop its stale results', () => {
+    const imported = parseAssessmentImport(JSON.stringify(v1File), settings);
+    expect(imported.sourceVersion).toBe(1);
+    expect(imported.snapshot.regionSelections).toEqual([
+      { region: 'Ant_Trunk', fraction: 0.5, entryMode: 'quarter', depth: 'superficial-partial' },
+    ]);
+    expect(imported.snapshot.tbsaResult?.tbsaPct).toBe(6.5);
+    expect(imported.snapshot.reassessments).toEqual([]);
+    expect(imported.warnings[0]).toBe('Migrated from export schema v1; region selections were normalized');
+  });
+
+  it('should keep the stored TBSA when a reassessment cannot be recalculated', () => {
+    const file = JSON.parse(exported);
+    file.reassessments[0].regionSelections = Array(8).fill(regionSelections[0]); // 8 × 13% anterior trunk
+    const kept = parseAssessmentImport(JSON.stringify(file), settings);
+    expect(kept.snapshot.reassessments?.[0].tbsa.tbsaPct).toBe(15);
+    expect(kept.warnings).toContain(
+      'Reassessment at hour 1 could not be recalculated (TBSA calculation validation failed: Total TBSA must be between 0% and 100%); the TBSA stored in the file was kept'
+    );
+
+    delete file.reassessments[0].tbsa;
+    const dropped = parseAssessmentImport(JSON.stringify(file), settings);
+    expect(dropped.snapshot.reassessments).toEqual([]);
+    expect(dropped.warnings).toContainEqual(expect.stringMatching(/^Reassessment at hour 1 could not be recalculated .* and was not imported$/));
+  });
+
+  it('should warn when the file was de-identified', () => {
+    const deidentified = exportToJSON({ patientData, regionSelections }, 'assessment-only', 'date-shift');
+    expect(parseAssessmentImport(deidentified, settings).warnings[0])
+      .toBe('File was de-identified (date-shift); dates and free text may differ from the original record');
+  });
+
+  it('should reject files that fail validation', () => {
+    const invalid = JSON.parse(exported);
+    invalid.patientData.weightKg = 900;
+    expect(() => parseAssessmentImport(JSON.stringify(invalid), settings))
+      .toThrow('Invalid assessment file - patientData.weightKg: Weight exceeds maximum (300kg)');
+    expect(() => parseAssessmentImport('{', settings)).toThrow('File is not valid JSON');
+  });
+
+  it('should reject settings-only exports and files from other apps', () => {
+    const settingsOnly = exportToJSON({ settings }, 'settings-only');
+    expect(() => parseAssessmentImport(settingsOnly, settings)).toThrow('File contains no assessment');
+    expect(() => parseAssessmentImport('{"resourceType":"Bundle"}', settings)).toThrow('File is not a Burn Wizard export');
+  });
+});
+
+describe('migrateExportData', () => {
+  it('should refuse files from a newer schema', () => {
+    const newer = { metadata: { appName: 'Burn Wizard', schemaVersion: EXPORT_SCHEMA_VERSION + 1 } };
+    expect(() => migrateExportData(newer)).toThrow(`schema v${EXPORT_SCHEMA_VERSION + 1}`);
+  });
+});
+
+describe('previewImport', () => {
+  it('should flag the fields the import would overwrite', () => {
+    const imported = parseAssessmentImport(exported, settings);
+    const current = { patientData: { ...patientData, weightKg: 60 }, regionSelections: [], tbsaResult: null, fluidResult: null };
+    const changes = previewImport(imported, current);
+    expect(changes.filter(c => c.changed).map(c => [c.label, c.current, c.incoming])).toEqual([
+      ['Weight (kg)', '60', '70'],
+      ['Burn', '0 regions', '2 regions, 15% TBSA'],
+      ['Reassessments', '0', '1'],
+      ['Flowsheet hours', '0', '1'],
+    ]);
+    expect(changes.find(c => c.label === 'Mechanism')).toMatchObject({ current: 'House fire', changed: false });
+  });
+});
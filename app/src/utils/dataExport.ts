@@ -6,35 +6,79 @@
  */
 
 import type { WizardState } from '@/store/useWizardStore';
-import type { PatientData, RegionSelection, TbsaResult, FluidResult } from '@/domain/types';
+import { deriveSpecialSites } from '@/domain/subRegions';
+import { formatMechanism } from '@/domain/mechanisms';
+import { buildFhirBundle } from '@/domain/fhir';
+import { makeClinicalNote } from '@/domain/notes';
+import { getActiveNoteTemplate } from '@/domain/noteTemplates';
+import {
+  createDeidentificationContext,
+  deidentifyAssessment,
+  deidentifyNoteData,
+  makeDeidentifiedNote,
+  summarizeDeidentification,
+} from '@/domain/deidentify';
+import type {
+  PatientData,
+  RegionSelection,
+  TbsaResult,
+  FluidResult,
+  Reassessment,
+  FlowsheetEntry,
+  BurnNoteData,
+  DeidentificationContext,
+  DeidentificationMode,
+  DeidentificationReport,
+  DeidentificationSettings,
+} from '@/domain/types';
+
+/**
+ * Version of the JSON export layout, bumped whenever dataImport needs a migration
+ *
+ * v1: metadata without schemaVersion; patient data, selections and results only
+ * v2: adds schemaVersion, reassessments and the resuscitation flowsheet
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportType = 'full' | 'assessment-only' | 'settings-only';
 
 export interface ExportData {
   metadata: {
     appName: string;
     version: string;
+    schemaVersion?: number; // Absent in v1 files
     exportDate: string;
-    exportType: 'full' | 'assessment-only' | 'settings-only';
+    exportType: ExportType;
+    deidentification?: DeidentificationMode; // Set when identifiers were removed
   };
   patientData?: PatientData;
   regionSelections?: RegionSelection[];
-  tbsaResult?: TbsaResult;
-  fluidResult?: FluidResult;
+  tbsaResult?: TbsaResult | null;
+  fluidResult?: FluidResult | null;
+  reassessments?: Reassessment[];
+  flowsheet?: FlowsheetEntry[];
   settings?: any;
   tutorials?: any;
 }
 
-export type ExportFormat = 'json' | 'csv' | 'txt';
+export type ExportFormat = 'json' | 'csv' | 'txt' | 'fhir';
 
 /**
  * Export assessment data to JSON format
  */
-export function exportToJSON(state: Partial<WizardState>, exportType: 'full' | 'assessment-only' | 'settings-only' = 'assessment-only'): string {
+export function exportToJSON(
+  state: Partial<WizardState>,
+  exportType: ExportType = 'assessment-only',
+  deidentification?: DeidentificationMode
+): string {
   const exportData: ExportData = {
     metadata: {
       appName: 'Burn Wizard',
       version: '0.1.0',
+      schemaVersion: EXPORT_SCHEMA_VERSION,
       exportDate: new Date().toISOString(),
       exportType,
+      ...(deidentification && { deidentification }),
     },
   };
 
@@ -43,6 +87,8 @@ export function exportToJSON(state: Partial<WizardState>, exportType: 'full' | '
     exportData.regionSelections = state.regionSelections;
     exportData.tbsaResult = state.tbsaResult;
     exportData.fluidResult = state.fluidResult;
+    exportData.reassessments = state.reassessments;
+    exportData.flowsheet = state.flowsheet;
   }
 
   if (exportType === 'full' || exportType === 'settings-only') {
@@ -72,9 +118,12 @@ export function exportToCSV(state: Partial<WizardState>): string {
     lines.push(`Patient,Weight (kg),${patientData.weightKg}`);
     lines.push(`Patient,Hours since injury,${patientData.hoursSinceInjury}`);
     lines.push(`Patient,Mechanism,"${patientData.mechanism || 'N/A'}"`);
+    if (patientData.burnMechanism) {
+      lines.push(`Patient,Mechanism type,"${formatMechanism(patientData.burnMechanism)}"`);
+    }
     
     if (patientData.specialSites) {
-      Object.entries(patientData.specialSites).forEach(([site, affected]) => {
+      Object.entries(deriveSpecialSites(state.regionSelections ?? [], patientData.specialSites)).forEach(([site, affected]) => {
         lines.push(`Special Sites,${site},${affected ? 'Yes' : 'No'}`);
       });
     }
@@ -91,18 +140,21 @@ export function exportToCSV(state: Partial<WizardState>): string {
   
   // TBSA Result
   if (state.tbsaResult) {
-    lines.push(`Results,Total TBSA (%),${state.tbsaResult.totalTbsa}`);
-    lines.push(`Results,Total Surface Area (cm²),${state.tbsaResult.totalSurfaceArea}`);
-    lines.push(`Results,Burned Surface Area (cm²),${state.tbsaResult.burnedSurfaceArea}`);
+    lines.push(`Results,Total TBSA (%),${state.tbsaResult.tbsaPct}`);
+    lines.push(`Results,Superficial (%),${state.tbsaResult.superficialPct}`);
+    if (state.tbsaResult.bsaM2 !== undefined) {
+      lines.push(`Results,Body Surface Area (m²),${state.tbsaResult.bsaM2}`);
+    }
   }
   
   // Fluid Result
   if (state.fluidResult) {
-    lines.push(`Fluid Calculation,Total 24h (mL),${state.fluidResult.total24h}`);
-    lines.push(`Fluid Calculation,First 8h (mL),${state.fluidResult.first8h}`);
-    lines.push(`Fluid Calculation,Next 16h (mL),${state.fluidResult.next16h}`);
-    lines.push(`Fluid Calculation,Rate per hour first 8h (mL/h),${state.fluidResult.ratePerHourFirst8h}`);
-    lines.push(`Fluid Calculation,Rate per hour next 16h (mL/h),${state.fluidResult.ratePerHourNext16h}`);
+    const { parkland, formula } = state.fluidResult;
+    lines.push(`Fluid Calculation,Formula,"${formula.name}"`);
+    lines.push(`Fluid Calculation,Total 24h (mL),${parkland.totalMl}`);
+    lines.push(`Fluid Calculation,First 8h (mL),${parkland.first8hMl}`);
+    lines.push(`Fluid Calculation,Next 16h (mL),${parkland.next16hMl}`);
+    lines.push(`Fluid Calculation,Rate now (mL/h),${parkland.rateNowMlPerHr}`);
   }
   
   return lines.join('\n');
@@ -129,11 +181,14 @@ export function exportToText(state: Partial<WizardState>): string {
     lines.push(`Weight: ${patientData.weightKg} kg`);
     lines.push(`Hours since injury: ${patientData.hoursSinceInjury}`);
     lines.push(`Mechanism: ${patientData.mechanism || 'Not specified'}`);
+    if (patientData.burnMechanism) {
+      lines.push(`Mechanism type: ${formatMechanism(patientData.burnMechanism)}`);
+    }
     lines.push('');
     
     if (patientData.specialSites) {
       lines.push('Special Sites:');
-      Object.entries(patientData.specialSites).forEach(([site, affected]) => {
+      Object.entries(deriveSpecialSites(state.regionSelections ?? [], patientData.specialSites)).forEach(([site, affected]) => {
         lines.push(`  ${site}: ${affected ? 'Yes' : 'No'}`);
       });
       lines.push('');
@@ -157,20 +212,23 @@ export function exportToText(state: Partial<WizardState>): string {
   if (state.tbsaResult) {
     lines.push('TBSA CALCULATION');
     lines.push('----------------');
-    lines.push(`Total TBSA: ${state.tbsaResult.totalTbsa}%`);
-    lines.push(`Total Surface Area: ${state.tbsaResult.totalSurfaceArea} cm²`);
-    lines.push(`Burned Surface Area: ${state.tbsaResult.burnedSurfaceArea} cm²`);
+    lines.push(`Total TBSA: ${state.tbsaResult.tbsaPct}%`);
+    lines.push(`Superficial: ${state.tbsaResult.superficialPct}%`);
+    if (state.tbsaResult.bsaM2 !== undefined) {
+      lines.push(`Body Surface Area: ${state.tbsaResult.bsaM2} m²`);
+    }
     lines.push('');
   }
   
   if (state.fluidResult) {
     lines.push('FLUID CALCULATION');
     lines.push('-----------------');
-    lines.push(`Total 24 hours: ${state.fluidResult.total24h} mL`);
-    lines.push(`First 8 hours: ${state.fluidResult.first8h} mL`);
-    lines.push(`Next 16 hours: ${state.fluidResult.next16h} mL`);
-    lines.push(`Rate (first 8h): ${state.fluidResult.ratePerHourFirst8h} mL/h`);
-    lines.push(`Rate (next 16h): ${state.fluidResult.ratePerHourNext16h} mL/h`);
+    const { parkland, formula } = state.fluidResult;
+    lines.push(`Formula: ${formula.name}`);
+    lines.push(`Total 24 hours: ${parkland.totalMl} mL`);
+    lines.push(`First 8 hours: ${parkland.first8hMl} mL`);
+    lines.push(`Next 16 hours: ${parkland.next16hMl} mL`);
+    lines.push(`Rate now: ${parkland.rateNowMlPerHr} mL/h`);
     lines.push('');
   }
   
@@ -180,6 +238,34 @@ export function exportToText(state: Partial<WizardState>): string {
   return lines.join('\n');
 }
 
+/**
+ * Export the current assessment as a FHIR R4 transaction Bundle, embedding
+ * the note rendered from the active assessment template
+ * @param ctx - De-identification context; the embedded note and the resources are cleaned with it
+ * @throws Error when the assessment has no TBSA or fluid result yet
+ */
+export function exportToFHIR(state: Partial<WizardState>, ctx?: DeidentificationContext): string {
+  const { patientData, regionSelections = [], tbsaResult, fluidResult } = state;
+  if (!patientData || !tbsaResult || !fluidResult) {
+    throw new Error('FHIR export needs a completed assessment (TBSA and fluid results)');
+  }
+
+  const data: BurnNoteData = {
+    patient: patientData,
+    tbsa: tbsaResult,
+    fluids: fluidResult,
+    regions: regionSelections,
+    timestamp: new Date(),
+    reassessments: state.reassessments,
+    flowsheet: state.flowsheet,
+  };
+  const template = getActiveNoteTemplate('assessment', state.settings?.noteTemplates?.assessment);
+  const bundle = ctx
+    ? buildFhirBundle(deidentifyNoteData(data, ctx), makeDeidentifiedNote('assessment', data, ctx, template))
+    : buildFhirBundle(data, makeClinicalNote('assessment', data, template));
+  return JSON.stringify(bundle, null, 2);
+}
+
 /**
  * Download exported data as a file
  */
@@ -212,32 +298,43 @@ export function generateFilename(prefix: string, extension: string): string {
 
 /**
  * Export and download assessment data
+ * @param deidentification - Identifiers are removed from every format when enabled
+ * @returns What de-identification removed (null when it is off)
  */
 export function exportAssessment(
   state: Partial<WizardState>, 
   format: ExportFormat = 'json',
-  exportType: 'full' | 'assessment-only' | 'settings-only' = 'assessment-only'
-) {
+  exportType: ExportType = 'assessment-only',
+  deidentification?: DeidentificationSettings
+): DeidentificationReport | null {
   let content: string;
   let filename: string;
   let mimeType: string;
+  const ctx = deidentification?.enabled ? createDeidentificationContext(deidentification.mode) : undefined;
+  // FHIR de-identifies its own resources and note; the other formats print the snapshot
+  const source = ctx && format !== 'fhir' ? { ...state, ...deidentifyAssessment(state, ctx) } : state;
   
   switch (format) {
     case 'json':
-      content = exportToJSON(state, exportType);
+      content = exportToJSON(source, exportType, ctx?.mode);
       filename = generateFilename('burn-assessment', 'json');
       mimeType = 'application/json';
       break;
     case 'csv':
-      content = exportToCSV(state);
+      content = exportToCSV(source);
       filename = generateFilename('burn-assessment', 'csv');
       mimeType = 'text/csv';
       break;
     case 'txt':
-      content = exportToText(state);
+      content = exportToText(source);
       filename = generateFilename('burn-assessment', 'txt');
       mimeType = 'text/plain';
       break;
+    case 'fhir':
+      content = exportToFHIR(state, ctx);
+      filename = generateFilename('burn-assessment-fhir', 'json');
+      mimeType = 'application/fhir+json';
+      break;
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
@@ -247,4 +344,6 @@ export function exportAssessment(
   if (process.env.NODE_ENV === 'development') {
     console.log(`📄 Exported assessment as ${format.toUpperCase()}: ${filename}`);
   }
+
+  return ctx ? summarizeDeidentification(ctx) : null;
 }
\ No newline at end of file
@@ -0,0 +1,284 @@
+/**
+ * Data Import Utilities for Burn Wizard
+ *
+ * Reads JSON files written by exportToJSON back into an assessment so cases
+ * can move between devices by file. Older export layouts are migrated forward
+ * before validation, and TBSA/fluid results are recalculated on this device
+ * rather than trusted from the file.
+ *
+ * AI Development Notes:
+ * - Add a MIGRATIONS entry whenever EXPORT_SCHEMA_VERSION is bumped
+ * - Patient data and selections reuse the zod schemas in domain/validation
+ * - Test coverage in __tests__/dataImport.test.ts
+ */
+
+import { z } from 'zod';
+import { EXPORT_SCHEMA_VERSION } from '@/utils/dataExport';
+import { patientDataSchema, regionSelectionSchema, CLINICAL_RANGES } from '@/domain/validation';
+import { migrateRegionSelections } from '@/domain/regionSelections';
+import { calculateTBSA } from '@/domain/tbsa';
+import { calculateTbsaByMethod } from '@/domain/tbsaMethods';
+import { calculateFluids } from '@/domain/fluids';
+import { resolveFormulaId } from '@/domain/fluidFormulas';
+import { resolveDosingWeights } from '@/domain/dosingWeight';
+import { formatMechanism } from '@/domain/mechanisms';
+import { MAX_FLOWSHEET_HOUR } from '@/domain/flowsheet';
+import type { CaseSnapshot } from '@/domain/cases';
+import type { AppSettings, FlowsheetEntry, FluidResult, PatientData, Reassessment, RegionSelection, TbsaResult } from '@/domain/types';
+
+/**
+ * Assessment read from a file, ready to load into the store
+ */
+export interface ImportedAssessment {
+  snapshot: CaseSnapshot;
+  sourceVersion: number; // Schema version the file was written with
+  exportDate: string;
+  warnings: string[];
+}
+
+/**
+ * One field of the current assessment and the value that would replace it
+ */
+export interface ImportChange {
+  label: string;
+  current: string;
+  incoming: string;
+  changed: boolean;
+}
+
+type RawExport = Record<string, unknown> & { metadata: Record<string, unknown> };
+
+const flowsheetEntrySchema = z.object({
+  hourFromInjury: z.number().int().min(1).max(MAX_FLOWSHEET_HOUR),
+  infusedMl: z.number().min(0),
+  urineOutputMl: z.number().min(0),
+  vitals: z.object({
+    heartRate: z.number().optional(),
+    systolicBP: z.number().optional(),
+    diastolicBP: z.number().optional(),
+    oxygenSat: z.number().optional(),
+  }).optional(),
+  recordedAt: z.string(),
+});
+
+const reassessmentSchema = z.object({
+  id: z.string().min(1),
+  recordedAt: z.string(),
+  hoursSinceInjury: z.number()
+    .min(CLINICAL_RANGES.HOURS_SINCE_INJURY.min)
+    .max(CLINICAL_RANGES.HOURS_SINCE_INJURY.max),
+  regionSelections: z.array(regionSelectionSchema),
+  // Kept only when recalculation fails
+  tbsa: z.custom<TbsaResult>(value => typeof (value as TbsaResult | null)?.tbsaPct === 'number').optional(),
+});
+
+const exportFileSchema = z.object({
+  metadata: z.object({
+    schemaVersion: z.literal(EXPORT_SCHEMA_VERSION),
+    exportDate: z.string(),
+    exportType: z.enum(['full', 'assessment-only', 'settings-only']),
+    deidentification: z.enum(['redact', 'pseudonymize', 'date-shift']).optional(),
+  }),
+  patientData: patientDataSchema,
+  regionSelections: z.array(regionSelectionSchema),
+  reassessments: z.array(reassessmentSchema).default([]),
+  flowsheet: z.array(flowsheetEntrySchema).default([]),
+});
+
+/**
+ * Upgrades a file from the keyed version to the next one
+ */
+const MIGRATIONS: Record<number, (file: RawExport) => RawExport> = {
+  // v1 → v2: selections gain entry modes; reassessments and flowsheet are added
+  1: (file) => ({
+    ...file,
+    metadata: { ...file.metadata, schemaVersion: 2 },
+    regionSelections: migrateRegionSelections(file.regionSelections),
+    reassessments: [],
+    flowsheet: [],
+  }),
+};
+
+/**
+ * Migrates a parsed export file to the current schema version
+ * @param raw - Parsed JSON
+ * @returns The migrated file and the version it was written with
+ * @throws Error when the file is not a Burn Wizard export or is newer than this app
+ */
+export function migrateExportData(raw: unknown): { file: RawExport; fromVersion: number } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('File is not a Burn Wizard export');
+  }
+  const metadata = (raw as Record<string, unknown>).metadata;
+  if (!metadata || typeof metadata !== 'object' || (metadata as Record<string, unknown>).appName !== 'Burn Wizard') {
+    throw new Error('File is not a Burn Wizard export');
+  }
+
+  const declared = (metadata as Record<string, unknown>).schemaVersion;
+  const fromVersion = declared === undefined ? 1 : declared;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error('Export schema version is invalid');
+  }
+  if (fromVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`File was exported by a newer version of Burn Wizard (schema v${fromVersion}); update this app to import it`);
+  }
+
+  let file = raw as RawExport;
+  for (let version = fromVersion; version < EXPORT_SCHEMA_VERSION; version++) {
+    file = MIGRATIONS[version](file);
+  }
+  return { file, fromVersion };
+}
+
+/**
+ * Recalculates TBSA and fluids the same way the input form does
+ */
+function recalculateResults(
+  patientData: PatientData,
+  regionSelections: RegionSelection[],
+  settings: AppSettings
+): { tbsaResult: TbsaResult | null; fluidResult: FluidResult | null } {
+  const tbsaMethod = patientData.tbsaMethod ?? 'lund-browder';
+  if (regionSelections.length === 0 && tbsaMethod !== 'rule-of-palms') {
+    return { tbsaResult: null, fluidResult: null };
+  }
+
+  const tbsaResult = calculateTbsaByMethod(tbsaMethod, patientData.ageMonths, regionSelections, {
+    palmCount: patientData.palmCount,
+    body: { weightKg: patientData.weightKg, heightCm: patientData.heightCm },
+  });
+  const fluidResult = calculateFluids({
+    weightKg: patientData.weightKg,
+    tbsaPct: tbsaResult.tbsaPct,
+    hoursSinceInjury: patientData.hoursSinceInjury,
+    priorFluids: patientData.priorFluids,
+    formulaId: resolveFormulaId(patientData, settings.fluidFormulas),
+    bsaM2: tbsaResult.bsaM2,
+    weights: resolveDosingWeights(patientData, settings.weightPolicy),
+    maintenanceMethod: settings.maintenanceMethod,
+  });
+  return { tbsaResult, fluidResult };
+}
+
+/**
+ * Parses, migrates and validates an exported assessment
+ * @param json - File contents written by exportToJSON
+ * @param settings - This device's settings, used to recalculate results
+ * @returns Snapshot ready for the store, with warnings for the preview
+ * @throws Error when the file cannot be read, fails validation or holds no assessment
+ */
+export function parseAssessmentImport(json: string, settings: AppSettings): ImportedAssessment {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const { file, fromVersion } = migrateExportData(raw);
+  if (!file.patientData) {
+    throw new Error('File contains no assessment (settings-only export)');
+  }
+
+  const parsed = exportFileSchema.safeParse(file);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Invalid assessment file - ${issues.join('; ')}`);
+  }
+
+  const data = parsed.data;
+  const patientData = data.patientData as PatientData;
+  const regionSelections = data.regionSelections as RegionSelection[];
+  const warnings: string[] = [];
+  if (fromVersion < EXPORT_SCHEMA_VERSION) {
+    warnings.push(`Migrated from export schema v${fromVersion}; region selections were normalized`);
+  }
+  if (data.metadata.deidentification) {
+    warnings.push(`File was de-identified (${data.metadata.deidentification}); dates and free text may differ from the original record`);
+  }
+  if (file.settings !== undefined) {
+    warnings.push('Settings in the file were not imported; this device keeps its own');
+  }
+
+  let results: ReturnType<typeof recalculateResults>;
+  try {
+    results = recalculateResults(patientData, regionSelections, settings);
+  } catch (error) {
+    results = { tbsaResult: null, fluidResult: null };
+    warnings.push(`Results could not be recalculated: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (results.fluidResult) {
+    warnings.push(`Fluids recalculated with this device's settings (${results.fluidResult.formula.name})`);
+  }
+
+  const reassessments: Reassessment[] = [];
+  for (const { tbsa: storedTbsa, ...r } of data.reassessments) {
+    const selections = r.regionSelections as RegionSelection[];
+    try {
+      reassessments.push({ ...r, regionSelections: selections, tbsa: calculateTBSA(patientData.ageMonths, selections) });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      if (storedTbsa) {
+        reassessments.push({ ...r, regionSelections: selections, tbsa: storedTbsa });
+        warnings.push(`Reassessment at hour ${r.hoursSinceInjury} could not be recalculated (${reason}); the TBSA stored in the file was kept`);
+      } else {
+        warnings.push(`Reassessment at hour ${r.hoursSinceInjury} could not be recalculated (${reason}) and was not imported`);
+      }
+    }
+  }
+
+  return {
+    snapshot: {
+      patientData,
+      regionSelections,
+      ...results,
+      reassessments,
+      flowsheet: data.flowsheet as FlowsheetEntry[],
+    },
+    sourceVersion: fromVersion,
+    exportDate: data.metadata.exportDate,
+    warnings,
+  };
+}
+
+/**
+ * Describes the burned area of a snapshot, e.g. "3 regions, 17% TBSA"
+ */
+function describeBurn(snapshot: CaseSnapshot): string {
+  const count = snapshot.regionSelections.length;
+  const regions = `${count} region${count === 1 ? '' : 's'}`;
+  return snapshot.tbsaResult ? `${regions}, ${snapshot.tbsaResult.tbsaPct}% TBSA` : regions;
+}
+
+function describeMechanism(patientData: PatientData): string {
+  if (patientData.burnMechanism) return formatMechanism(patientData.burnMechanism);
+  return patientData.mechanism || '—';
+}
+
+/**
+ * Lists what loading the import would overwrite in the current assessment
+ * @param imported - Parsed import
+ * @param current - Assessment currently in the wizard
+ * @returns One row per field, flagged when the value differs
+ */
+export function previewImport(imported: ImportedAssessment, current: CaseSnapshot): ImportChange[] {
+  const incoming = imported.snapshot;
+  const rows: Array<[string, (s: CaseSnapshot) => string]> = [
+    ['Age (months)', s => `${s.patientData.ageMonths}`],
+    ['Weight (kg)', s => `${s.patientData.weightKg}`],
+    ['Height (cm)', s => (s.patientData.heightCm !== undefined ? `${s.patientData.heightCm}` : '—')],
+    ['Hours since injury', s => `${s.patientData.hoursSinceInjury}`],
+    ['Mechanism', s => describeMechanism(s.patientData)],
+    ['Burn', describeBurn],
+    ['Reassessments', s => `${s.reassessments?.length ?? 0}`],
+    ['Flowsheet hours', s => `${s.flowsheet?.length ?? 0}`],
+  ];
+
+  return rows.map(([label, describe]) => {
+    const before = describe(current);
+    const after = describe(incoming);
+    return { label, current: before, incoming: after, changed: before !== after };
+  });
+}